@@ -20,6 +20,21 @@ import { SelectionTooltip } from "./components/SelectionTooltip";
 import { Breadcrumbs } from "./components/Breadcrumbs";
 import { HeaderActions } from "./components/HeaderActions";
 import { ScopeIndicator } from "./components/ScopeIndicator";
+import { VaultConflictModal } from "./components/VaultConflictModal";
+import { DataMenuSection } from "./components/DataMenu";
+import { TrashModal } from "./components/TrashModal";
+import { VaultCheckModal } from "./components/VaultCheckModal";
+import { VaultMigrationModal } from "./components/VaultMigrationModal";
+import { NodeHistoryPanel } from "./components/NodeHistoryPanel";
+import { ArchiveImportModal } from "./components/ArchiveImportModal";
+import { GraphExportModal } from "./components/GraphExportModal";
+import { ImageExportModal } from "./components/ImageExportModal";
+import { OpmlImportModal } from "./components/OpmlImportModal";
+import { CsvImportModal } from "./components/CsvImportModal";
+import { ChatImportModal } from "./components/ChatImportModal";
+import { BookmarksImportModal } from "./components/BookmarksImportModal";
+import { PublishSiteModal } from "./components/PublishSiteModal";
+import { WebClipModal } from "./components/WebClipModal";
 import {
   GraphEdge,
   GraphNode,
@@ -36,11 +51,17 @@ import {
 import {
   pickDirectory,
   loadGraphFromDirectory,
-  saveNodeToFile,
+  saveNodesToDirectory,
   verifyPermission,
   migrateEdgesToNodes,
-  getOutgoingEdges,
+  setVaultReadOnly,
 } from "./services/storageService";
+import {
+  planVaultMigration,
+  applyVaultMigration,
+  isVaultUpToDate,
+  VaultMigrationPlan,
+} from "./services/vaultMigrationService";
 import {
   getDirectoryHandle,
   storeDirectoryHandle,
@@ -59,6 +80,7 @@ import {
   cleanupLegacyStorage,
 } from "./services/settingsService";
 import { importFromCloud } from "./services/cloudSyncService";
+import { getPropertyEdges } from "./services/propertyService";
 import { useGraphState } from "./hooks/useGraphState";
 import { usePersistence } from "./hooks/usePersistence";
 import { useSidePanes } from "./hooks/useSidePanes";
@@ -67,8 +89,22 @@ import { useNavigation } from "./hooks/useNavigation";
 import { useGraphOperations } from "./hooks/useGraphOperations";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
 import { useBreadcrumbs } from "./hooks/useBreadcrumbs";
+import { useVaultWatcher } from "./hooks/useVaultWatcher";
+import { useGraphImport } from "./hooks/useGraphImport";
+import { useCsvImport } from "./hooks/useCsvImport";
+import { useChatImport } from "./hooks/useChatImport";
+import { useCitationImport } from "./hooks/useCitationImport";
+import { useVaultTrash } from "./hooks/useVaultTrash";
+import { useVaultCheck } from "./hooks/useVaultCheck";
+import { useNodeHistory } from "./hooks/useNodeHistory";
+import { useGraphArchive } from "./hooks/useGraphArchive";
+import { useGraphExport } from "./hooks/useGraphExport";
+import { useImageExport } from "./hooks/useImageExport";
+import { useMediaNodes } from "./hooks/useMediaNodes";
+import { AttachmentSourceContext } from "./hooks/useAttachmentUrl";
 import { createDefaultGraphNodes } from "./utils/graphUtils";
 import { performGreedyClustering } from "./utils/clustering";
+import { getNodeTitle, findNodeByLinkTarget } from "./utils/wikiLinks";
 
 const App: React.FC = () => {
   // --- Hooks for State ---
@@ -160,7 +196,12 @@ const App: React.FC = () => {
               p.summary !== n.summary ||
               JSON.stringify(p.aliases || []) !==
                 JSON.stringify(n.aliases || []);
-            markNodeDirty(n, !semanticChanged);
+            const contentChanged =
+              !p ||
+              p.content !== n.content ||
+              p.summary !== n.summary ||
+              p.messages !== n.messages;
+            markNodeDirty(n, !semanticChanged, contentChanged);
           }
         }
         debouncedFlushSaves(
@@ -246,6 +287,7 @@ const App: React.FC = () => {
     handleCut,
     handlePaste,
     handleConnectEnd,
+    handleCiteNodes,
     handleCreateFromSelection,
     handleSearchSelect,
   } = useGraphOperations(
@@ -307,6 +349,405 @@ const App: React.FC = () => {
     dirName
   );
 
+  // --- Vault Watcher (external edits to local files) ---
+  const { vaultConflicts, resolveVaultConflict } = useVaultWatcher(
+    dirHandle,
+    nodes,
+    edges,
+    setNodes,
+    setEdges,
+    setToast
+  );
+
+  // --- Vault Schema ---
+  const [pendingVaultMigration, setPendingVaultMigration] = useState<{
+    handle: FileSystemDirectoryHandle;
+    plan: VaultMigrationPlan;
+  } | null>(null);
+  const [isUpgradingVault, setIsUpgradingVault] = useState(false);
+  const [isReadOnlyVault, setIsReadOnlyVault] = useState(false);
+
+  // Load a vault folder into the graph. Returns false if it has no nodes.
+  // The handle is only set once the folder is loaded, so the watcher and
+  // saving don't start on a vault that is still waiting for its upgrade.
+  const loadVaultFolder = useCallback(
+    async (handle: FileSystemDirectoryHandle, readOnly: boolean) => {
+      setVaultReadOnly(readOnly);
+      setIsReadOnlyVault(readOnly);
+      const { nodes: loadedNodes, edges: loadedEdges, hasLegacyEdgesFile } =
+        await loadGraphFromDirectory(handle);
+      setDirHandle(handle);
+      if (loadedNodes.length === 0) return false;
+
+      setNodes(loadedNodes);
+      setEdges(loadedEdges);
+
+      // Migrate edges from _edges.json to embedded in node files
+      if (hasLegacyEdgesFile && !readOnly) {
+        console.log("Migrating edges to node files...");
+        await migrateEdgesToNodes(handle, loadedNodes, loadedEdges);
+      }
+      return true;
+    },
+    [setNodes, setEdges]
+  );
+
+  // Load the vault, unless its files need upgrading first. Returns null while
+  // waiting for the user to review the upgrade.
+  const openVaultFolder = useCallback(
+    async (handle: FileSystemDirectoryHandle) => {
+      const plan = await planVaultMigration(handle);
+      if (!isVaultUpToDate(plan)) {
+        setPendingVaultMigration({ handle, plan });
+        return null;
+      }
+      return loadVaultFolder(handle, false);
+    },
+    [loadVaultFolder]
+  );
+
+  const handleUpgradeVault = useCallback(async () => {
+    if (!pendingVaultMigration) return;
+    const { handle, plan } = pendingVaultMigration;
+    setIsUpgradingVault(true);
+    try {
+      const written = await applyVaultMigration(handle, plan);
+      await loadVaultFolder(handle, false);
+      setToast({ visible: true, message: `Upgraded ${written} file(s)` });
+    } catch (e) {
+      console.error("Vault upgrade failed", e);
+      await loadVaultFolder(handle, true);
+      setToast({
+        visible: true,
+        message: "Upgrade failed, the vault was opened read-only",
+      });
+    } finally {
+      setIsUpgradingVault(false);
+      setPendingVaultMigration(null);
+    }
+  }, [pendingVaultMigration, loadVaultFolder]);
+
+  const handleOpenVaultReadOnly = useCallback(async () => {
+    if (!pendingVaultMigration) return;
+    setPendingVaultMigration(null);
+    try {
+      await loadVaultFolder(pendingVaultMigration.handle, true);
+      setToast({ visible: true, message: "Opened read-only, changes will not be saved" });
+    } catch (e) {
+      console.error("Error loading from directory", e);
+    }
+  }, [pendingVaultMigration, loadVaultFolder]);
+
+  const handleRefuseVault = useCallback(() => {
+    setPendingVaultMigration(null);
+    setDirHandle(null);
+    setDirName(null);
+    setVaultReadOnly(false);
+    setNodes(createDefaultGraphNodes());
+    setEdges([]);
+  }, [setNodes, setEdges]);
+
+  // --- Vault Trash ---
+  const {
+    isTrashOpen,
+    isTrashLoading,
+    trashedNodes,
+    openTrash,
+    closeTrash,
+    restoreNode,
+    purgeNode,
+    emptyTrash,
+  } = useVaultTrash(user, dirHandle, nodes, setNodesCallback, setEdgesCallback, setToast);
+
+  // --- Node History ---
+  const {
+    historyNodeId,
+    revisions,
+    isHistoryLoading,
+    historyRetention,
+    openHistory,
+    closeHistory,
+    restoreRevision,
+    updateHistoryRetention,
+  } = useNodeHistory(dirHandle, setNodesCallback, setToast);
+
+  // --- Vault Check ---
+  const reloadVault = useCallback(async () => {
+    if (!dirHandle) return;
+    const { nodes: loadedNodes, edges: loadedEdges } =
+      await loadGraphFromDirectory(dirHandle);
+    setNodes(loadedNodes);
+    setEdges(loadedEdges);
+  }, [dirHandle, setNodes, setEdges]);
+
+  const {
+    isVaultCheckOpen,
+    vaultCheckReport,
+    isCheckingVault,
+    openVaultCheck,
+    closeVaultCheck,
+    rerunVaultCheck,
+    repairVaultProblems,
+  } = useVaultCheck(dirHandle, reloadVault, setToast);
+
+  // --- Import & Export ---
+  const {
+    addImportedGraph,
+    handleImportObsidianVault,
+    handleImportGraphExchangeFile,
+    pendingOpmlImport,
+    handleImportOpml,
+    confirmOpmlImport,
+    cancelOpmlImport,
+    pendingBookmarksImport,
+    handleImportBookmarks,
+    confirmBookmarksImport,
+    cancelBookmarksImport,
+  } = useGraphImport(
+    currentScopeId,
+    viewTransform,
+    setNodesCallback,
+    setEdgesCallback,
+    setSelectedNodeIds,
+    setToast
+  );
+
+  const {
+    pendingChatImport,
+    suggestedChatEdges,
+    chatImportStatus,
+    handleImportChats,
+    cancelChatImport,
+    confirmChatImport,
+    acceptSuggestedChatEdges,
+    dismissSuggestedChatEdges,
+  } = useChatImport(
+    nodes,
+    currentScopeId,
+    aiProvider,
+    addImportedGraph,
+    setEdgesCallback,
+    setShowLimitModal,
+    setToast
+  );
+
+  const { handleImportReferences } = useCitationImport(
+    nodes,
+    currentScopeId,
+    addImportedGraph,
+    setToast
+  );
+
+  const {
+    isCsvImportOpen,
+    csvNodesFile,
+    csvEdgesFile,
+    openCsvImport,
+    closeCsvImport,
+    pickCsvFile,
+    clearCsvEdgesFile,
+    confirmCsvImport,
+  } = useCsvImport(
+    nodes,
+    edges,
+    currentScopeId,
+    viewTransform,
+    setNodesCallback,
+    setEdgesCallback,
+    setSelectedNodeIds,
+    setToast
+  );
+
+  const {
+    pendingArchiveImport,
+    isArchiveBusy,
+    handleExportArchive,
+    handleImportArchive,
+    confirmArchiveImport,
+    cancelArchiveImport,
+  } = useGraphArchive(
+    user,
+    dirHandle,
+    nodes,
+    edges,
+    setNodesCallback,
+    setEdgesCallback,
+    setToast
+  );
+
+  const {
+    isExportOpen,
+    isExporting,
+    openExport,
+    closeExport,
+    exportGraph,
+    exportOutline,
+    isPublishOpen,
+    openPublish,
+    closePublish,
+    publishSite,
+  } = useGraphExport(user, dirHandle, nodes, edges, currentScopeId, setToast);
+  const {
+    imageExportView,
+    isExportingImage,
+    openImageExport,
+    closeImageExport,
+    exportImage,
+  } = useImageExport(
+    user,
+    dirHandle,
+    nodes,
+    edges,
+    currentScopeId,
+    selectedNodeIds,
+    setToast
+  );
+  const {
+    isWebClipOpen,
+    isClipping,
+    addAttachmentNode,
+    openWebClip,
+    closeWebClip,
+    clipToNode,
+  } = useMediaNodes(
+    user,
+    dirHandle,
+    currentScopeId,
+    setNodesCallback,
+    setSelectedNodeIds,
+    setShowLimitModal,
+    setToast
+  );
+  const attachmentSource = useMemo(
+    () => ({ dirHandle, isCloud: !!user }),
+    [dirHandle, user]
+  );
+  const currentScopeNode = currentScopeId
+    ? nodes.find((n) => n.id === currentScopeId)
+    : undefined;
+
+  const dataMenuSections: DataMenuSection[] = [
+    {
+      title: "Import",
+      items: [
+        {
+          id: "import-obsidian",
+          label: "Obsidian vault",
+          description: "Notes, [[links]] and #tags from a Markdown folder",
+          onSelect: handleImportObsidianVault,
+        },
+        {
+          id: "import-graph-exchange",
+          label: "GraphML / GEXF",
+          description: "A graph from Gephi, yEd or another graph tool",
+          onSelect: handleImportGraphExchangeFile,
+        },
+        {
+          id: "import-opml",
+          label: "OPML outline",
+          description: "An outline from Workflowy, OmniOutliner or Dynalist",
+          onSelect: handleImportOpml,
+        },
+        {
+          id: "import-bookmarks",
+          label: "Browser bookmarks",
+          description: "A bookmarks .html export, with folders as scopes",
+          onSelect: handleImportBookmarks,
+        },
+        {
+          id: "import-csv",
+          label: "CSV / TSV",
+          description: "Spreadsheet rows as nodes, with an optional edges file",
+          onSelect: openCsvImport,
+        },
+        {
+          id: "import-chats",
+          label: "ChatGPT / Claude conversations",
+          description: "A conversations.json export, one chat node per conversation",
+          onSelect: handleImportChats,
+        },
+        {
+          id: "import-citations",
+          label: "BibTeX / CSL-JSON",
+          description: "A reference library, one citation node per entry",
+          onSelect: handleImportReferences,
+        },
+        {
+          id: "import-zip",
+          label: ".zip archive",
+          description: "A whole graph exported from Infoverse",
+          onSelect: handleImportArchive,
+          disabled: isArchiveBusy || isReadOnlyVault,
+          disabledReason: isReadOnlyVault
+            ? "The vault is open read-only"
+            : "An archive is being read",
+        },
+      ],
+    },
+    {
+      title: "Export",
+      items: [
+        {
+          id: "export-zip",
+          label: ".zip archive",
+          description: "All nodes as Markdown files, for backup or sharing",
+          onSelect: handleExportArchive,
+          disabled: isArchiveBusy || nodes.length === 0,
+          disabledReason: "There is nothing to export",
+        },
+        {
+          id: "export-graph",
+          label: "Graph or diagram",
+          description: "GraphML, GEXF, RDF, Mermaid or DOT, of the current scope or the whole graph",
+          onSelect: openExport,
+          disabled: nodes.length === 0,
+          disabledReason: "There is nothing to export",
+        },
+        {
+          id: "export-opml",
+          label: "OPML outline",
+          description: "The tree under the selected node, or the whole current scope",
+          onSelect: () =>
+            exportOutline(
+              selectedNodeIds.size === 1 ? Array.from(selectedNodeIds)[0] : null,
+              currentScopeNode ? getNodeTitle(currentScopeNode) : "Infoverse"
+            ),
+          disabled: isExporting || nodes.length === 0,
+          disabledReason: "There is nothing to export",
+        },
+        {
+          id: "export-site",
+          label: "Publish static site",
+          description: "Read-only HTML pages with a canvas and search, for any static host",
+          onSelect: openPublish,
+          disabled: nodes.length === 0,
+          disabledReason: "There is nothing to export",
+        },
+      ],
+    },
+    {
+      title: "Vault",
+      items: [
+        {
+          id: "vault-trash",
+          label: "Trash",
+          description: "Restore or permanently delete deleted notes",
+          onSelect: openTrash,
+          disabled: !dirHandle || isReadOnlyVault,
+          disabledReason: "Needs a local folder that is not read-only",
+        },
+        {
+          id: "vault-check",
+          label: "Check vault",
+          description: "Find and repair broken edges, duplicate ids and bad files",
+          onSelect: openVaultCheck,
+          disabled: !dirHandle || isReadOnlyVault,
+          disabledReason: "Needs a local folder that is not read-only",
+        },
+      ],
+    },
+  ];
+
   // --- Layout Shifts ---
   const [canvasShiftX, setCanvasShiftX] = useState(0);
   const [canvasShiftY, setCanvasShiftY] = useState(0);
@@ -364,24 +805,11 @@ const App: React.FC = () => {
           const hasPermission = await verifyPermission(storedHandle, true);
 
           if (hasPermission) {
-            setDirHandle(storedHandle);
             setDirName(storedHandle.name);
             setLastDirName(storedHandle.name);
 
             // Load from local directory (MASTER)
-            const { nodes: loadedNodes, edges: loadedEdges, hasLegacyEdgesFile } =
-              await loadGraphFromDirectory(storedHandle);
-
-            if (loadedNodes.length > 0) {
-              setNodes(loadedNodes);
-              setEdges(loadedEdges);
-
-              // Migrate edges if needed
-              if (hasLegacyEdgesFile) {
-                console.log("Migrating edges to node files...");
-                await migrateEdgesToNodes(storedHandle, loadedNodes, loadedEdges);
-              }
-            }
+            await openVaultFolder(storedHandle);
           } else {
             // Permission denied - show last known directory name
             const lastDir = getLastDirName();
@@ -426,7 +854,7 @@ const App: React.FC = () => {
     };
 
     initializeApp();
-  }, [setNodes, setEdges, setIsGraphLoaded]);
+  }, [setNodes, setEdges, setIsGraphLoaded, openVaultFolder]);
 
   const handleLogout = async () => {
     try {
@@ -449,30 +877,16 @@ const App: React.FC = () => {
     const handle = await pickDirectory();
     if (handle) {
       await storeDirectoryHandle(handle);
-      setDirHandle(handle);
       setDirName(handle.name);
       setLastDirName(handle.name); // Persist for next session
 
       try {
         // Load graph from directory
-        const { nodes: loadedNodes, edges: loadedEdges, hasLegacyEdgesFile } =
-          await loadGraphFromDirectory(handle);
+        const loaded = await openVaultFolder(handle);
 
-        if (loadedNodes.length > 0) {
-          setNodes(loadedNodes);
-          setEdges(loadedEdges);
-
-          // Migrate edges from _edges.json to embedded in node files
-          if (hasLegacyEdgesFile) {
-            console.log("Migrating edges to node files...");
-            await migrateEdgesToNodes(handle, loadedNodes, loadedEdges);
-          }
-        } else if (nodes.length > 0) {
+        if (loaded === false && nodes.length > 0) {
           // Directory is empty, save current nodes with their edges
-          for (const node of nodes) {
-            const outgoingEdges = getOutgoingEdges(node.id, edges);
-            await saveNodeToFile(handle, node, outgoingEdges);
-          }
+          await saveNodesToDirectory(handle, nodes, edges);
         }
 
         // Clean up legacy localStorage graph data
@@ -484,7 +898,7 @@ const App: React.FC = () => {
         alert("Failed to load graph from directory.");
       }
     }
-  }, [nodes, edges, setNodes, setEdges, setIsGraphLoaded]);
+  }, [nodes, edges, setIsGraphLoaded, openVaultFolder]);
 
   // Import graph from cloud storage
   const handleImportFromCloud = useCallback(async () => {
@@ -497,10 +911,7 @@ const App: React.FC = () => {
 
       // If we have a directory handle, save imported data to filesystem
       if (dirHandle) {
-        for (const node of cloudData.nodes) {
-          const outgoingEdges = getOutgoingEdges(node.id, cloudData.edges);
-          await saveNodeToFile(dirHandle, node, outgoingEdges);
-        }
+        await saveNodesToDirectory(dirHandle, cloudData.nodes, cloudData.edges);
       }
 
       setToast({ visible: true, message: "Imported from cloud successfully" });
@@ -528,6 +939,7 @@ const App: React.FC = () => {
     }
     setDirHandle(null);
     setDirName(null);
+    setVaultReadOnly(false);
     setNodes(createDefaultGraphNodes());
     setEdges([]);
     window.location.reload();
@@ -556,15 +968,22 @@ const App: React.FC = () => {
     return ids;
   }, [clusteredNodes]);
 
+  // Node properties that point to other nodes are drawn as edges too
+  const propertyEdges = useMemo(() => getPropertyEdges(nodes), [nodes]);
+  const allEdges = useMemo(
+    () => [...edges, ...propertyEdges],
+    [edges, propertyEdges]
+  );
+
   const filteredEdges = useMemo(
     () =>
-      edges.filter((e) => {
+      allEdges.filter((e) => {
         if ((e.parentId ?? null) !== (currentScopeId ?? null)) return false;
         const sourceVisible = visibleNodeIds.has(e.source);
         const targetVisible = visibleNodeIds.has(e.target);
         return sourceVisible && targetVisible;
       }),
-    [edges, currentScopeId, visibleNodeIds]
+    [allEdges, currentScopeId, visibleNodeIds]
   );
 
   const edgesToRender = useMemo(() => {
@@ -652,15 +1071,7 @@ const App: React.FC = () => {
 
   const handleNavigateToNodeLink = useCallback(
     (rawTitle: string) => {
-      const normalize = (v?: string | null) => v?.trim().toLowerCase() || "";
-      const target = normalize(rawTitle);
-      if (!target) return;
-      const matchedNode = nodes.find(
-        (n) =>
-          normalize(n.content) === target ||
-          normalize(n.summary) === target ||
-          n.aliases?.some((a) => normalize(a) === target)
-      );
+      const matchedNode = findNodeByLinkTarget(nodes, rawTitle);
       if (!matchedNode) return;
       setCurrentScopeId(matchedNode.parentId ?? null);
       setSelectedNodeIds(new Set([matchedNode.id]));
@@ -697,22 +1108,38 @@ const App: React.FC = () => {
               onWikipediaLinkClick={handleOpenLink}
             />
           ) : node ? (
-            <GraphNodeComponent
-              node={node}
-              allNodes={nodes}
-              viewMode="sidebar"
-              onUpdate={handleUpdateNode}
-              onExpand={handleExpandNode}
-              onExpandFromWikidata={handleExpandNodeFromWikidata}
-              onDelete={handleDeleteNode}
-              onToggleMaximize={handleMaximizeNode}
-              onOpenLink={handleOpenLink}
-              onNavigateToNode={handleNavigateToNodeLink}
-              autoGraphEnabled={autoGraphEnabled}
-              onSetAutoGraphEnabled={setAutoGraphEnabled}
-              cutNodeId={cutNodeId}
-              aiProvider={aiProvider}
-            />
+            <>
+              <GraphNodeComponent
+                node={node}
+                allNodes={nodes}
+                allEdges={allEdges}
+                viewMode="sidebar"
+                onUpdate={handleUpdateNode}
+                onExpand={handleExpandNode}
+                onExpandFromWikidata={handleExpandNodeFromWikidata}
+                onDelete={handleDeleteNode}
+                onToggleMaximize={handleMaximizeNode}
+                onShowHistory={dirHandle ? openHistory : undefined}
+                onOpenLink={handleOpenLink}
+                onNavigateToNode={handleNavigateToNodeLink}
+                onCiteNodes={handleCiteNodes}
+                autoGraphEnabled={autoGraphEnabled}
+                onSetAutoGraphEnabled={setAutoGraphEnabled}
+                cutNodeId={cutNodeId}
+                aiProvider={aiProvider}
+              />
+              {historyNodeId === node.id && (
+                <NodeHistoryPanel
+                  node={node}
+                  revisions={revisions}
+                  isLoading={isHistoryLoading}
+                  retention={historyRetention}
+                  onRestore={restoreRevision}
+                  onRetentionChange={updateHistoryRetention}
+                  onClose={closeHistory}
+                />
+              )}
+            </>
           ) : (
             <div className="p-4 text-slate-500">Node not found.</div>
           )}
@@ -721,6 +1148,7 @@ const App: React.FC = () => {
     },
     [
       nodes,
+      allEdges,
       handleCloseSidePane,
       handleUpdateNode,
       handleExpandNode,
@@ -733,6 +1161,15 @@ const App: React.FC = () => {
       setAutoGraphEnabled,
       cutNodeId,
       aiProvider,
+      dirHandle,
+      openHistory,
+      historyNodeId,
+      revisions,
+      isHistoryLoading,
+      historyRetention,
+      restoreRevision,
+      updateHistoryRetention,
+      closeHistory,
     ]
   );
 
@@ -760,273 +1197,397 @@ const App: React.FC = () => {
   );
 
   return (
-    <div className="flex w-screen h-screen overflow-hidden bg-slate-900 text-slate-200 font-sans">
-      <div className="flex-1 relative min-w-0 flex flex-col">
-        <HeaderActions
-          user={user}
-          onLogin={() => {
-            setAuthMode("login");
-            setShowAuth(true);
-          }}
-          onSignup={() => {
-            setAuthMode("signup");
-            setShowAuth(true);
-          }}
-          onShowProfile={() => setShowProfile(true)}
-          onToggleSearch={() => setIsSearchOpen((p) => !p)}
-          onOpenStorage={handleOpenStorage}
-          dirName={dirName}
-          activeSidePanesCount={activeSidePanes.length}
-        />
-
-        <div className="absolute top-4 text-slate-500 text-xs font-mono opacity-50 pointer-events-none select-none">
-          {dirName ||
-            (user ? "Cloud Storage Active" : "Local Storage (Not Saved)")}
-        </div>
-
-        <Breadcrumbs
-          breadcrumbs={breadcrumbs}
-          selectedNodeIds={selectedNodeIds}
-          onNavigate={(id, type) => {
-            if (type === "node" && id) handleFocusNode(id);
-            else {
-              setCurrentScopeId(id);
-              setSelectedNodeIds(new Set());
-            }
-          }}
-          onCloseFolder={handleCloseFolder}
-          onImportFromCloud={handleImportFromCloud}
-          dirName={dirName}
-          isLoggedIn={!!user}
-        />
-
-        <ScopeIndicator currentScopeId={currentScopeId} nodes={nodes} />
-
-        {isSearchOpen && (
-          <SearchBar
-            nodes={nodes}
-            onSelect={handleSearchSelect}
-            onNavigate={handleFocusNode}
-            onClose={() => setIsSearchOpen(false)}
-            onPreview={handleOpenLink}
-            isCloud={!!user}
-          />
-        )}
-
-        <ErrorBoundary>
-          <NodeListDrawer
-            nodes={nodes}
-            isOpen={isMenuOpen}
-            onClose={() => setIsMenuOpen(false)}
-            onSelectNode={handleFocusNode}
-            onUpdateNode={handleUpdateNode}
+    <AttachmentSourceContext.Provider value={attachmentSource}>
+      <div className="flex w-screen h-screen overflow-hidden bg-slate-900 text-slate-200 font-sans">
+        <div className="flex-1 relative min-w-0 flex flex-col">
+          <HeaderActions
+            user={user}
+            onLogin={() => {
+              setAuthMode("login");
+              setShowAuth(true);
+            }}
+            onSignup={() => {
+              setAuthMode("signup");
+              setShowAuth(true);
+            }}
+            onShowProfile={() => setShowProfile(true)}
+            onToggleSearch={() => setIsSearchOpen((p) => !p)}
+            onOpenStorage={handleOpenStorage}
+            dataMenuSections={dataMenuSections}
+            dirName={dirName}
+            activeSidePanesCount={activeSidePanes.length}
           />
-        </ErrorBoundary>
 
-        {usageNotification.visible && (
-          <div className="absolute bottom-4 right-4 z-50 bg-slate-800 border border-sky-500 text-sky-400 px-4 py-3 rounded shadow-lg animate-bounce">
-            <p className="text-sm font-bold">{usageNotification.message}</p>
-            <button
-              onClick={() =>
-                setUsageNotification((p) => ({ ...p, visible: false }))
-              }
-              className="absolute top-1 right-1 text-xs text-slate-500 hover:text-white"
-            >
-              ✕
-            </button>
+          <div className="absolute top-4 text-slate-500 text-xs font-mono opacity-50 pointer-events-none select-none">
+            {dirName
+              ? `${dirName}${isReadOnlyVault ? " (read-only)" : ""}`
+              : user
+              ? "Cloud Storage Active"
+              : "Local Storage (Not Saved)"}
           </div>
-        )}
 
-        <ErrorBoundary>
-          <Canvas
-            nodes={clusteredNodes}
-            allNodes={nodes}
-            edges={edgesToRender}
-            setNodes={setNodesCallback}
-            setEdges={setEdgesCallback}
-            viewTransform={viewTransform}
-            onViewTransformChange={setViewTransform}
-            onOpenStorage={handleOpenStorage}
-            storageConnected={!!dirName}
-            storageDirName={dirName}
-            isSaving={false}
-            onOpenLink={handleOpenLink}
-            onNavigateToNode={handleNavigateToNodeLink}
-            onMaximizeNode={handleMaximizeNode}
-            onExpandNode={handleExpandNode}
-            onExpandNodeFromWikidata={handleExpandNodeFromWikidata}
-            onUpdateNode={handleUpdateNode}
-            onDeleteNode={handleDeleteNode}
-            expandingNodeIds={expandingNodeIds}
-            onToggleMenu={() => setIsMenuOpen(true)}
-            connectingNodeId={connectingNodeId}
-            onConnectStart={(id) => setConnectingNodeId(id)}
-            onConnectEnd={(s, t) => {
-              handleConnectEnd(s, t);
-              setConnectingNodeId(null);
-            }}
-            onCancelConnect={() => setConnectingNodeId(null)}
-            onNavigateDown={handleNavigateDown}
-            onNavigateUp={handleNavigateUp}
-            currentScopeId={currentScopeId}
-            autoGraphEnabled={autoGraphEnabled}
-            onSetAutoGraphEnabled={setAutoGraphEnabled}
+          <Breadcrumbs
+            breadcrumbs={breadcrumbs}
             selectedNodeIds={selectedNodeIds}
-            onNodeSelect={(id, multi) => {
-              if (id === null) {
+            onNavigate={(id, type) => {
+              if (type === "node" && id) handleFocusNode(id);
+              else {
+                setCurrentScopeId(id);
                 setSelectedNodeIds(new Set());
-              } else if (multi === 'remove') {
-                // Remove this specific node from selection (for minimize)
-                setSelectedNodeIds((prev) => {
-                  const newSet = new Set(prev);
-                  newSet.delete(id);
-                  return newSet;
-                });
-              } else if (multi) {
-                // Add to existing selection without clearing others
-                setSelectedNodeIds((prev) => new Set([...prev, id]));
-              } else {
-                setSelectedNodeIds(new Set([id]));
               }
             }}
-            canvasShiftX={canvasShiftX}
-            canvasShiftY={canvasShiftY}
-            isResizing={isAnyPanelResizing}
-            onSelectionTooltipChange={setSelectionTooltip}
-            cutNodeId={cutNodeId}
-            setCutNodeId={setCutNodeId}
-            aiProvider={aiProvider}
+            onCloseFolder={handleCloseFolder}
+            onImportFromCloud={handleImportFromCloud}
+            dirName={dirName}
+            isLoggedIn={!!user}
           />
-        </ErrorBoundary>
-      </div>
 
-      {sidePanels}
+          <ScopeIndicator currentScopeId={currentScopeId} nodes={nodes} />
 
-      {selectionTooltip && !connectingNodeId && (
-        <SelectionTooltip
-          tooltip={selectionTooltip}
-          onClose={() => setSelectionTooltip(null)}
-          onCreateNote={() =>
-            handleCreateFromSelection(NodeType.NOTE, selectionTooltip)
-          }
-          onCreateChat={() =>
-            handleCreateFromSelection(NodeType.CHAT, selectionTooltip)
-          }
-          onExpandGraph={() => {
-            if (selectionTooltip.sourceId) {
-              handleExpandNode(
-                selectionTooltip.sourceId,
-                selectionTooltip.text
-              );
-              setSelectionTooltip(null);
-              window.getSelection()?.removeAllRanges();
-            }
-          }}
-          onFindRelationships={() => {
-            if (selectionTooltip.sourceId) {
-              /* Logic remains in App for now */
-            }
-          }}
-          isMobile={
-            typeof window !== "undefined" &&
-            window.matchMedia("(max-width: 768px)").matches
-          }
-        />
-      )}
+          {isSearchOpen && (
+            <SearchBar
+              nodes={nodes}
+              onSelect={handleSearchSelect}
+              onNavigate={handleFocusNode}
+              onClose={() => setIsSearchOpen(false)}
+              onPreview={handleOpenLink}
+              isCloud={!!user}
+            />
+          )}
 
-      {showAuth && (
-        <div className="fixed inset-0 z-[100]">
           <ErrorBoundary>
-            <AuthPage
-              initialMode={authMode}
-              onLogin={async (u) => {
-                setUser(u);
-                setShowAuth(false);
-                const isDefault = nodes.length === 1 && nodes[0].id === "1";
-                if (nodes.length > 0 && !isDefault) {
-                  try {
-                    for (const n of nodes) {
-                      const res = await saveNodeToApi(n);
-                      if (res.code === "STORAGE_LIMIT") {
-                        setUsageNotification({
-                          message: "Storage limit reached during sync.",
-                          visible: true,
-                        });
-                        break;
-                      }
-                    }
-                    if (edges.length > 0) await saveEdgesToApi(edges);
-                  } catch (e) {
-                    console.error("Sync failed", e);
-                  }
+            <NodeListDrawer
+              nodes={nodes}
+              isOpen={isMenuOpen}
+              onClose={() => setIsMenuOpen(false)}
+              onSelectNode={handleFocusNode}
+              onUpdateNode={handleUpdateNode}
+            />
+          </ErrorBoundary>
+
+          {usageNotification.visible && (
+            <div className="absolute bottom-4 right-4 z-50 bg-slate-800 border border-sky-500 text-sky-400 px-4 py-3 rounded shadow-lg animate-bounce">
+              <p className="text-sm font-bold">{usageNotification.message}</p>
+              <button
+                onClick={() =>
+                  setUsageNotification((p) => ({ ...p, visible: false }))
                 }
-                if ((u as any).isPaid || !dirHandle) {
-                  if (!dirHandle) setDirName("Cloud Storage");
-                  loadGraphFromApi()
-                    .then(({ nodes: ln, edges: le }) => {
-                      if (ln?.length) {
-                        setNodes(ln);
-                        setEdges(le);
-                      }
-                      setIsGraphLoaded(true);
-                    })
-                    .catch((e) => {
-                      console.error("Cloud load failed", e);
-                      setIsGraphLoaded(true);
-                    });
+                className="absolute top-1 right-1 text-xs text-slate-500 hover:text-white"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+
+          <ErrorBoundary>
+            <Canvas
+              nodes={clusteredNodes}
+              allNodes={nodes}
+              edges={edgesToRender}
+              allEdges={allEdges}
+              setNodes={setNodesCallback}
+              setEdges={setEdgesCallback}
+              viewTransform={viewTransform}
+              onViewTransformChange={setViewTransform}
+              onOpenStorage={handleOpenStorage}
+              storageConnected={!!dirName}
+              storageDirName={dirName}
+              isSaving={false}
+              onOpenLink={handleOpenLink}
+              onNavigateToNode={handleNavigateToNodeLink}
+              onCiteNodes={handleCiteNodes}
+              onMaximizeNode={handleMaximizeNode}
+              onExpandNode={handleExpandNode}
+              onExpandNodeFromWikidata={handleExpandNodeFromWikidata}
+              onUpdateNode={handleUpdateNode}
+              onDeleteNode={handleDeleteNode}
+              expandingNodeIds={expandingNodeIds}
+              onToggleMenu={() => setIsMenuOpen(true)}
+              connectingNodeId={connectingNodeId}
+              onConnectStart={(id) => setConnectingNodeId(id)}
+              onConnectEnd={(s, t) => {
+                handleConnectEnd(s, t);
+                setConnectingNodeId(null);
+              }}
+              onCancelConnect={() => setConnectingNodeId(null)}
+              onNavigateDown={handleNavigateDown}
+              onNavigateUp={handleNavigateUp}
+              currentScopeId={currentScopeId}
+              autoGraphEnabled={autoGraphEnabled}
+              onSetAutoGraphEnabled={setAutoGraphEnabled}
+              selectedNodeIds={selectedNodeIds}
+              onNodeSelect={(id, multi) => {
+                if (id === null) {
+                  setSelectedNodeIds(new Set());
+                } else if (multi === 'remove') {
+                  // Remove this specific node from selection (for minimize)
+                  setSelectedNodeIds((prev) => {
+                    const newSet = new Set(prev);
+                    newSet.delete(id);
+                    return newSet;
+                  });
+                } else if (multi) {
+                  // Add to existing selection without clearing others
+                  setSelectedNodeIds((prev) => new Set([...prev, id]));
+                } else {
+                  setSelectedNodeIds(new Set([id]));
                 }
-                if (
-                  window.location.hostname === "infoverse.ai" &&
-                  !window.location.hostname.startsWith("app.")
-                )
-                  window.location.href = "https://app.infoverse.ai";
               }}
-              onCancel={() => setShowAuth(false)}
+              canvasShiftX={canvasShiftX}
+              canvasShiftY={canvasShiftY}
+              isResizing={isAnyPanelResizing}
+              onSelectionTooltipChange={setSelectionTooltip}
+              cutNodeId={cutNodeId}
+              setCutNodeId={setCutNodeId}
+              aiProvider={aiProvider}
+              onExportImage={openImageExport}
+              onAddAttachmentNode={addAttachmentNode}
+              onClipWebPage={openWebClip}
             />
           </ErrorBoundary>
         </div>
-      )}
 
-      {showProfile && user && (
-        <ErrorBoundary>
-          <ProfilePage
-            user={user}
-            aiProvider={aiProvider}
-            onSetAiProvider={setAiProvider}
-            onClose={() => setShowProfile(false)}
-            onUpdateUser={(upd) =>
-              setUser((p: any) => (p ? { ...p, ...upd } : null))
+        {sidePanels}
+
+        {selectionTooltip && !connectingNodeId && (
+          <SelectionTooltip
+            tooltip={selectionTooltip}
+            onClose={() => setSelectionTooltip(null)}
+            onCreateNote={() =>
+              handleCreateFromSelection(NodeType.NOTE, selectionTooltip)
+            }
+            onCreateChat={() =>
+              handleCreateFromSelection(NodeType.CHAT, selectionTooltip)
+            }
+            onExpandGraph={() => {
+              if (selectionTooltip.sourceId) {
+                handleExpandNode(
+                  selectionTooltip.sourceId,
+                  selectionTooltip.text
+                );
+                setSelectionTooltip(null);
+                window.getSelection()?.removeAllRanges();
+              }
+            }}
+            onFindRelationships={() => {
+              if (selectionTooltip.sourceId) {
+                /* Logic remains in App for now */
+              }
+            }}
+            isMobile={
+              typeof window !== "undefined" &&
+              window.matchMedia("(max-width: 768px)").matches
             }
-            onLogout={handleLogout}
           />
-        </ErrorBoundary>
-      )}
-
-      <UpgradeModal
-        isOpen={showUpgradeModal}
-        onClose={() => setShowUpgradeModal(false)}
-      />
-      <LimitModal
-        isOpen={showLimitModal}
-        onClose={() => setShowLimitModal(false)}
-        onLogin={() => {
-          setShowLimitModal(false);
-          setAuthMode("login");
-          setShowAuth(true);
-        }}
-        onSignup={() => {
-          setShowLimitModal(false);
-          setAuthMode("signup");
-          setShowAuth(true);
-        }}
-      />
-      <Toast
-        message={toast.message}
-        visible={toast.visible}
-        onUndo={toast.action}
-        onClose={() => setToast((p) => ({ ...p, visible: false }))}
-      />
-    </div>
+        )}
+
+        {showAuth && (
+          <div className="fixed inset-0 z-[100]">
+            <ErrorBoundary>
+              <AuthPage
+                initialMode={authMode}
+                onLogin={async (u) => {
+                  setUser(u);
+                  setShowAuth(false);
+                  const isDefault = nodes.length === 1 && nodes[0].id === "1";
+                  if (nodes.length > 0 && !isDefault) {
+                    try {
+                      for (const n of nodes) {
+                        const res = await saveNodeToApi(n);
+                        if (res.code === "STORAGE_LIMIT") {
+                          setUsageNotification({
+                            message: "Storage limit reached during sync.",
+                            visible: true,
+                          });
+                          break;
+                        }
+                      }
+                      if (edges.length > 0) await saveEdgesToApi(edges);
+                    } catch (e) {
+                      console.error("Sync failed", e);
+                    }
+                  }
+                  if ((u as any).isPaid || !dirHandle) {
+                    if (!dirHandle) setDirName("Cloud Storage");
+                    loadGraphFromApi()
+                      .then(({ nodes: ln, edges: le }) => {
+                        if (ln?.length) {
+                          setNodes(ln);
+                          setEdges(le);
+                        }
+                        setIsGraphLoaded(true);
+                      })
+                      .catch((e) => {
+                        console.error("Cloud load failed", e);
+                        setIsGraphLoaded(true);
+                      });
+                  }
+                  if (
+                    window.location.hostname === "infoverse.ai" &&
+                    !window.location.hostname.startsWith("app.")
+                  )
+                    window.location.href = "https://app.infoverse.ai";
+                }}
+                onCancel={() => setShowAuth(false)}
+              />
+            </ErrorBoundary>
+          </div>
+        )}
+
+        {showProfile && user && (
+          <ErrorBoundary>
+            <ProfilePage
+              user={user}
+              aiProvider={aiProvider}
+              onSetAiProvider={setAiProvider}
+              onClose={() => setShowProfile(false)}
+              onUpdateUser={(upd) =>
+                setUser((p: any) => (p ? { ...p, ...upd } : null))
+              }
+              onLogout={handleLogout}
+            />
+          </ErrorBoundary>
+        )}
+
+        <TrashModal
+          isOpen={isTrashOpen}
+          isLoading={isTrashLoading}
+          trashedNodes={trashedNodes}
+          nodes={nodes}
+          onRestore={restoreNode}
+          onPurge={purgeNode}
+          onEmptyTrash={emptyTrash}
+          onClose={closeTrash}
+        />
+
+        <VaultCheckModal
+          isOpen={isVaultCheckOpen}
+          isChecking={isCheckingVault}
+          report={vaultCheckReport}
+          onRepair={repairVaultProblems}
+          onRecheck={rerunVaultCheck}
+          onClose={closeVaultCheck}
+        />
+
+        <ImageExportModal
+          isOpen={!!imageExportView}
+          isExporting={isExportingImage}
+          hasSelection={selectedNodeIds.size > 0}
+          onExport={exportImage}
+          onClose={closeImageExport}
+        />
+
+        <GraphExportModal
+          isOpen={isExportOpen}
+          isExporting={isExporting}
+          scopeName={
+            currentScopeNode
+              ? `Scope: ${getNodeTitle(currentScopeNode)}`
+              : "Top level"
+          }
+          onExport={exportGraph}
+          onClose={closeExport}
+        />
+
+        <PublishSiteModal
+          isOpen={isPublishOpen}
+          isExporting={isExporting}
+          scopeName={
+            currentScopeNode
+              ? `Scope: ${getNodeTitle(currentScopeNode)}`
+              : "Top level"
+          }
+          defaultTitle={
+            currentScopeNode ? getNodeTitle(currentScopeNode) : "Infoverse"
+          }
+          onPublish={publishSite}
+          onClose={closePublish}
+        />
+
+        <WebClipModal
+          isOpen={isWebClipOpen}
+          isClipping={isClipping}
+          onClip={clipToNode}
+          onClose={closeWebClip}
+        />
+
+        <OpmlImportModal
+          pendingImport={pendingOpmlImport}
+          onImport={confirmOpmlImport}
+          onClose={cancelOpmlImport}
+        />
+
+        <BookmarksImportModal
+          pendingImport={pendingBookmarksImport}
+          onImport={confirmBookmarksImport}
+          onClose={cancelBookmarksImport}
+        />
+
+        <ChatImportModal
+          pendingImport={pendingChatImport}
+          suggestedEdges={suggestedChatEdges}
+          status={chatImportStatus}
+          onImport={confirmChatImport}
+          onCancel={cancelChatImport}
+          onAcceptEdges={acceptSuggestedChatEdges}
+          onDismissEdges={dismissSuggestedChatEdges}
+        />
+
+        <CsvImportModal
+          isOpen={isCsvImportOpen}
+          nodesFile={csvNodesFile}
+          edgesFile={csvEdgesFile}
+          onPickFile={pickCsvFile}
+          onClearEdgesFile={clearCsvEdgesFile}
+          onImport={confirmCsvImport}
+          onClose={closeCsvImport}
+        />
+
+        <ArchiveImportModal
+          pendingImport={pendingArchiveImport}
+          isImporting={isArchiveBusy}
+          onImport={confirmArchiveImport}
+          onClose={cancelArchiveImport}
+        />
+
+        <VaultMigrationModal
+          plan={pendingVaultMigration?.plan || null}
+          isUpgrading={isUpgradingVault}
+          onUpgrade={handleUpgradeVault}
+          onOpenReadOnly={handleOpenVaultReadOnly}
+          onClose={handleRefuseVault}
+        />
+
+        <VaultConflictModal
+          conflicts={vaultConflicts}
+          onResolve={resolveVaultConflict}
+        />
+        <UpgradeModal
+          isOpen={showUpgradeModal}
+          onClose={() => setShowUpgradeModal(false)}
+        />
+        <LimitModal
+          isOpen={showLimitModal}
+          onClose={() => setShowLimitModal(false)}
+          onLogin={() => {
+            setShowLimitModal(false);
+            setAuthMode("login");
+            setShowAuth(true);
+          }}
+          onSignup={() => {
+            setShowLimitModal(false);
+            setAuthMode("signup");
+            setShowAuth(true);
+          }}
+        />
+        <Toast
+          message={toast.message}
+          visible={toast.visible}
+          onUndo={toast.action}
+          onClose={() => setToast((p) => ({ ...p, visible: false }))}
+        />
+      </div>
+    </AttachmentSourceContext.Provider>
   );
 };
 
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { ArchiveCollisionMode } from '../services/archiveService';
+import { PendingArchiveImport } from '../hooks/useGraphArchive';
+
+interface ArchiveImportModalProps {
+  pendingImport: PendingArchiveImport | null;
+  isImporting: boolean;
+  onImport: (mode: ArchiveCollisionMode) => void;
+  onClose: () => void;
+}
+
+const COLLISION_MODES: { key: ArchiveCollisionMode; title: string; description: string }[] = [
+  {
+    key: 'rename',
+    title: 'Import as copies',
+    description: 'Nodes that already exist are imported with new ids, next to the originals.',
+  },
+  {
+    key: 'skip',
+    title: 'Skip existing nodes',
+    description: 'Nodes that already exist are left as they are.',
+  },
+  {
+    key: 'overwrite',
+    title: 'Replace existing nodes',
+    description: 'Nodes that already exist are replaced by the archived version, with its edges.',
+  },
+];
+
+export const ArchiveImportModal: React.FC<ArchiveImportModalProps> = ({
+  pendingImport,
+  isImporting,
+  onImport,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<ArchiveCollisionMode>('rename');
+
+  useEffect(() => {
+    if (pendingImport) setMode('rename');
+  }, [pendingImport]);
+
+  if (!pendingImport) return null;
+
+  const { fileName, archive, collidingNodeIds } = pendingImport;
+  const exportedAt = new Date(archive.manifest.exportedAt);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white mb-1">Import archive</h2>
+            <p className="text-sm text-slate-400 break-all">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          <p className="text-sm text-slate-200">
+            {archive.nodes.length} node(s) and {archive.edges.length} edge(s)
+            {!isNaN(exportedAt.getTime()) && (
+              <span className="text-slate-500">, exported {exportedAt.toLocaleString()}</span>
+            )}
+          </p>
+          {archive.skippedFiles.length > 0 && (
+            <p className="text-xs text-amber-300">
+              {archive.skippedFiles.length} file(s) are not node files or repeat an id and will be skipped.
+            </p>
+          )}
+
+          {collidingNodeIds.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-300">
+                {collidingNodeIds.length} node(s) already exist in this graph.
+              </p>
+              {COLLISION_MODES.map(({ key, title, description }) => (
+                <label
+                  key={key}
+                  className={`flex items-start gap-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+                    mode === key ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-600'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="archive-collision-mode"
+                    className="mt-1 accent-sky-500"
+                    checked={mode === key}
+                    onChange={() => setMode(key)}
+                  />
+                  <span>
+                    <span className="block text-sm font-semibold text-slate-100">{title}</span>
+                    <span className="block text-xs text-slate-400">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(mode)}
+            disabled={isImporting}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isImporting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { getBacklinks, linkMention, Mention } from "../services/backlinkService";
+
+interface BacklinksPanelProps {
+  node: GraphNode;
+  allNodes?: GraphNode[];
+  allEdges?: GraphEdge[];
+  onUpdate: (id: string, updates: Partial<GraphNode>) => void;
+  onNavigateToNode?: (title: string) => void;
+  isSidebar?: boolean;
+}
+
+const stopPointer = {
+  onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+  onTouchStart: (e: React.TouchEvent) => e.stopPropagation(),
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-[10px] uppercase font-bold text-slate-500 mt-1">{children}</div>
+);
+
+// What points at a node: incoming edges by label, notes that link to it and
+// notes that name it without a link. Mentions are only searched while open.
+export const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
+  node,
+  allNodes,
+  allEdges,
+  onUpdate,
+  onNavigateToNode,
+  isSidebar = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(isSidebar);
+
+  const backlinks = useMemo(
+    () => (isOpen ? getBacklinks(node, allNodes || [], allEdges || []) : null),
+    [isOpen, node, allNodes, allEdges]
+  );
+
+  const renderSource = (source: GraphNode) => {
+    const title = getNodeTitle(source);
+    return onNavigateToNode ? (
+      <button
+        className="text-sky-400 hover:text-sky-300 hover:underline truncate text-left"
+        title={`Go to ${title}`}
+        onClick={() => onNavigateToNode(title)}
+      >
+        {title}
+      </button>
+    ) : (
+      <span className="text-slate-300 truncate">{title}</span>
+    );
+  };
+
+  const renderMention = (mention: Mention, canLink: boolean) => (
+    <div key={mention.node.id} className="flex flex-col gap-0.5 text-xs">
+      <div className="flex items-center gap-2">
+        {renderSource(mention.node)}
+        {canLink && mention.term && (
+          <button
+            className="ml-auto text-slate-400 hover:text-sky-300 shrink-0"
+            title={`Turn "${mention.term}" into a link`}
+            onClick={() =>
+              onUpdate(mention.node.id, {
+                content: linkMention(mention.node.content, mention.term!),
+              })
+            }
+          >
+            Link it
+          </button>
+        )}
+      </div>
+      <p className="text-slate-500 line-clamp-2 break-words">{mention.snippet}</p>
+    </div>
+  );
+
+  const count = backlinks
+    ? backlinks.incoming.reduce((sum, g) => sum + g.edges.length, 0) +
+      backlinks.linked.length +
+      backlinks.unlinked.length
+    : 0;
+
+  return (
+    <div
+      className={`border-t border-slate-700/60 bg-black/10 pointer-events-auto ${
+        isSidebar ? "px-6 py-3" : "px-3 py-1.5"
+      }`}
+      {...stopPointer}
+    >
+      <button
+        className="w-full flex items-center justify-between text-[10px] uppercase font-bold text-slate-400 hover:text-slate-200"
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <span>
+          Backlinks
+          {backlinks && count ? ` (${count})` : ""}
+        </span>
+        <span>{isOpen ? "▾" : "▸"}</span>
+      </button>
+
+      {backlinks && (
+        <div className="flex flex-col gap-1.5 mt-1.5">
+          {count === 0 && (
+            <p className="text-xs text-slate-500 italic">Nothing links here yet</p>
+          )}
+
+          {backlinks.incoming.map((group) => (
+            <div key={group.label} className="flex flex-col gap-0.5">
+              <SectionTitle>{group.label}</SectionTitle>
+              {group.edges.map(({ edge, source }) => (
+                <div key={edge.id} className="flex items-center text-xs">
+                  {renderSource(source)}
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {backlinks.linked.length > 0 && (
+            <>
+              <SectionTitle>Linked mentions</SectionTitle>
+              {backlinks.linked.map((mention) => renderMention(mention, false))}
+            </>
+          )}
+
+          {backlinks.unlinked.length > 0 && (
+            <>
+              <SectionTitle>Unlinked mentions</SectionTitle>
+              {backlinks.unlinked.map((mention) => renderMention(mention, true))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
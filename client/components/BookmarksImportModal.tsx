@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { PendingBookmarksImport } from '../hooks/useGraphImport';
+import {
+  BookmarkItem,
+  BookmarkFolder,
+  Bookmark,
+  countBookmarks,
+  normalizeWikipediaUrl,
+} from '../services/bookmarksImportService';
+
+interface BookmarksImportModalProps {
+  pendingImport: PendingBookmarksImport | null;
+  onImport: (excludedFolderIds: Set<string>) => void;
+  onClose: () => void;
+}
+
+// Bookmarks listed per folder in the preview; the rest are counted
+const PREVIEW_BOOKMARKS = 5;
+
+const countIncluded = (items: BookmarkItem[], excluded: Set<string>): number =>
+  items.reduce(
+    (sum, item) =>
+      item.kind === 'folder'
+        ? sum + (excluded.has(item.id) ? 0 : countIncluded(item.children, excluded))
+        : sum + 1,
+    0
+  );
+
+const FolderTree: React.FC<{
+  items: BookmarkItem[];
+  excluded: Set<string>;
+  isDisabled: boolean;
+  onToggle: (folder: BookmarkFolder) => void;
+}> = ({ items, excluded, isDisabled, onToggle }) => {
+  const folders = items.filter((i): i is BookmarkFolder => i.kind === 'folder');
+  const bookmarks = items.filter((i): i is Bookmark => i.kind === 'bookmark');
+  return (
+    <ul className="space-y-1">
+      {folders.map((folder) => {
+        const isIncluded = !excluded.has(folder.id);
+        const count = countBookmarks(folder.children);
+        return (
+          <li key={folder.id}>
+            <label
+              className={`flex items-center gap-2 text-sm ${
+                count > 0 && isIncluded && !isDisabled ? 'text-slate-100' : 'text-slate-500'
+              } cursor-pointer`}
+            >
+              <input
+                type="checkbox"
+                className="accent-sky-500"
+                checked={isIncluded}
+                disabled={isDisabled || count === 0}
+                onChange={() => onToggle(folder)}
+              />
+              <span className="font-semibold truncate">{folder.title}</span>
+              <span className="text-xs text-slate-500 shrink-0">{count}</span>
+            </label>
+            {folder.children.length > 0 && (
+              <div className="pl-5 mt-1 border-l border-slate-700 ml-1.5">
+                <FolderTree
+                  items={folder.children}
+                  excluded={excluded}
+                  isDisabled={isDisabled || !isIncluded}
+                  onToggle={onToggle}
+                />
+              </div>
+            )}
+          </li>
+        );
+      })}
+      {bookmarks.slice(0, PREVIEW_BOOKMARKS).map((bookmark, i) => (
+        <li
+          key={i}
+          className={`flex items-center gap-2 text-xs pl-5 ${isDisabled ? 'text-slate-600' : 'text-slate-400'}`}
+          title={bookmark.url}
+        >
+          {normalizeWikipediaUrl(bookmark.url) && (
+            <span className="shrink-0 px-1 rounded bg-slate-700 text-slate-300 font-bold" title="Opens in the Wikipedia reader">
+              W
+            </span>
+          )}
+          <span className="truncate">{bookmark.title || bookmark.url}</span>
+        </li>
+      ))}
+      {bookmarks.length > PREVIEW_BOOKMARKS && (
+        <li className="text-xs text-slate-500 pl-5">
+          and {bookmarks.length - PREVIEW_BOOKMARKS} more
+        </li>
+      )}
+    </ul>
+  );
+};
+
+export const BookmarksImportModal: React.FC<BookmarksImportModalProps> = ({
+  pendingImport,
+  onImport,
+  onClose,
+}) => {
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [pendingImport]);
+
+  if (!pendingImport) return null;
+
+  const { fileName, items, bookmarkCount } = pendingImport;
+  const includedCount = countIncluded(items, excluded);
+
+  const toggleFolder = (folder: BookmarkFolder) => {
+    const next = new Set(excluded);
+    if (next.has(folder.id)) next.delete(folder.id);
+    else next.add(folder.id);
+    setExcluded(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white mb-1">Import bookmarks</h2>
+            <p className="text-sm text-slate-400 break-all">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          <p className="text-sm text-slate-200">
+            {includedCount} of {bookmarkCount} bookmark(s) selected. Folders become scopes;
+            uncheck a folder to leave it out with everything inside it.
+          </p>
+          <FolderTree items={items} excluded={excluded} isDisabled={false} onToggle={toggleFolder} />
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(excluded)}
+            disabled={includedCount === 0}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
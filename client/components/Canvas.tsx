@@ -16,10 +16,14 @@ import {
   LODLevel,
   SelectionTooltipState,
   EdgeStyle,
+  TagFilterMode,
 } from "../types";
 import { SidePanelLayout } from "./SidePanel";
 import { GraphNodeComponent } from "./GraphNode";
 import { Edge } from "./Edge";
+import { EdgeTypeMenu } from "./EdgeTypeMenu";
+import { TagPanel } from "./TagPanel";
+import { MediaTypeIcon } from "./MediaNodeContent";
 import { SkeletonGraph, NodeSkeleton } from "./SkeletonGraph";
 import {
   DEFAULT_NODE_HEIGHT,
@@ -38,11 +42,15 @@ import {
   resolveCollisions as resolveCollisionsService,
   getSubgraphIds,
 } from "../services/layoutService";
+import { CanvasView } from "../services/imageExportService";
+import { countTags, getNodeTags, nodeHasAnyTag } from "../utils/tags";
 
 interface CanvasProps {
   nodes: GraphNode[];
   allNodes: GraphNode[];
   edges: GraphEdge[];
+  // Every edge, including those outside the scope, for backlinks
+  allEdges: GraphEdge[];
   setNodes: React.Dispatch<React.SetStateAction<GraphNode[]>>;
   setEdges: React.Dispatch<React.SetStateAction<GraphEdge[]>>;
   viewTransform: ViewportTransform;
@@ -53,6 +61,7 @@ interface CanvasProps {
   isSaving?: boolean;
   onOpenLink: (url: string) => void;
   onNavigateToNode: (title: string) => void;
+  onCiteNodes?: (sourceId: string, targetIds: string[]) => void;
   onMaximizeNode: (id: string) => void;
   onExpandNode: (id: string, topic: string) => void;
   onExpandNodeFromWikidata?: (id: string, topic: string) => void;
@@ -79,6 +88,9 @@ interface CanvasProps {
   cutNodeId: string | null;
   setCutNodeId: React.Dispatch<React.SetStateAction<string | null>>;
   aiProvider?: 'gemini' | 'huggingface';
+  onExportImage?: (view: CanvasView) => void;
+  onAddAttachmentNode?: (position: { x: number; y: number }) => void;
+  onClipWebPage?: (position: { x: number; y: number }) => void;
 }
 
 // Semantic Zoom Thresholds
@@ -340,6 +352,7 @@ export const Canvas: React.FC<CanvasProps> = ({
   nodes,
   allNodes,
   edges,
+  allEdges,
   setNodes,
   setEdges,
   viewTransform,
@@ -350,6 +363,7 @@ export const Canvas: React.FC<CanvasProps> = ({
   isSaving = false,
   onOpenLink,
   onNavigateToNode,
+  onCiteNodes,
   onMaximizeNode,
   onExpandNode,
   onExpandNodeFromWikidata,
@@ -376,6 +390,9 @@ export const Canvas: React.FC<CanvasProps> = ({
   cutNodeId,
   setCutNodeId,
   aiProvider,
+  onExportImage,
+  onAddAttachmentNode,
+  onClipWebPage,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -418,6 +435,16 @@ export const Canvas: React.FC<CanvasProps> = ({
     canvasX: number;
     canvasY: number;
   } | null>(null);
+  const [edgeMenu, setEdgeMenu] = useState<{
+    edgeId: string;
+    x: number;
+    y: number;
+  } | null>(null);
+  const [isTagPanelOpen, setIsTagPanelOpen] = useState(false);
+  const [tagFilter, setTagFilter] = useState<{
+    tags: string[];
+    mode: TagFilterMode;
+  }>({ tags: [], mode: "show" });
   const lastTapRef = useRef<number>(0);
   const [isLayoutMenuOpen, setIsLayoutMenuOpen] = useState(false);
   const [activeLayout, setActiveLayout] = useState<LayoutType | null>(null);
@@ -643,6 +670,63 @@ export const Canvas: React.FC<CanvasProps> = ({
       };
     }, [nodes, edges, viewTransform, containerSize, quadtree]);
 
+  const scopeTagCounts = useMemo(
+    () =>
+      isTagPanelOpen
+        ? countTags(
+            allNodes.filter(
+              (n) => n.parentId == currentScopeId && n.type !== NodeType.CLUSTER
+            )
+          )
+        : [],
+    [isTagPanelOpen, allNodes, currentScopeId]
+  );
+
+  const handleToggleTagFilter = useCallback((tag: string) => {
+    setTagFilter((prev) => {
+      const key = tag.toLowerCase();
+      const tags = prev.tags.some((t) => t.toLowerCase() === key)
+        ? prev.tags.filter((t) => t.toLowerCase() !== key)
+        : [...prev.tags, tag];
+      return { ...prev, tags };
+    });
+  }, []);
+
+  // Nodes the tag filter hides or dims. Cluster nodes stand for many nodes
+  // and are left alone.
+  const { tagHiddenIds, tagDimmedIds } = useMemo(() => {
+    const hidden = new Set<string>();
+    const dimmed = new Set<string>();
+    if (tagFilter.tags.length > 0) {
+      nodes.forEach((n) => {
+        if (n.type === NodeType.CLUSTER) return;
+        const matches = nodeHasAnyTag(getNodeTags(n), tagFilter.tags);
+        if (tagFilter.mode === "show" && !matches) hidden.add(n.id);
+        else if (tagFilter.mode === "hide" && matches) hidden.add(n.id);
+        else if (tagFilter.mode === "dim" && !matches) dimmed.add(n.id);
+      });
+    }
+    return { tagHiddenIds: hidden, tagDimmedIds: dimmed };
+  }, [nodes, tagFilter]);
+
+  const renderedNodes = useMemo(
+    () =>
+      tagHiddenIds.size > 0
+        ? visibleNodes.filter((n) => !tagHiddenIds.has(n.id))
+        : visibleNodes,
+    [visibleNodes, tagHiddenIds]
+  );
+
+  const renderedEdges = useMemo(
+    () =>
+      tagHiddenIds.size > 0
+        ? visibleEdges.filter(
+            (e) => !tagHiddenIds.has(e.source) && !tagHiddenIds.has(e.target)
+          )
+        : visibleEdges,
+    [visibleEdges, tagHiddenIds]
+  );
+
   // Fractal Zoom & Interaction
   useEffect(() => {
     if (!containerRef.current) return;
@@ -1263,6 +1347,27 @@ export const Canvas: React.FC<CanvasProps> = ({
     }
   }, []);
 
+  const handleEdgeLabelClick = useCallback(
+    (edge: GraphEdge, x: number, y: number) => {
+      setEdgeMenu({ edgeId: edge.id, x, y });
+    },
+    []
+  );
+
+  const handleEdgeMenuClose = useCallback(() => setEdgeMenu(null), []);
+
+  const handleEdgeMenuChange = useCallback(
+    (updates: Partial<GraphEdge>) => {
+      if (!edgeMenu) return;
+      setEdges((prev) =>
+        prev.map((e) => (e.id === edgeMenu.edgeId ? { ...e, ...updates } : e))
+      );
+    },
+    [edgeMenu, setEdges]
+  );
+
+  const menuEdge = edgeMenu ? edges.find((e) => e.id === edgeMenu.edgeId) : undefined;
+
   const handleBackgroundClick = useCallback(
     (e: React.MouseEvent | React.TouchEvent) => {
       if (contextMenu) setContextMenu(null);
@@ -1850,6 +1955,64 @@ export const Canvas: React.FC<CanvasProps> = ({
               </div>
             )}
           </div>
+          <button
+            onClick={() => setIsTagPanelOpen((prev) => !prev)}
+            className={`p-2 rounded-lg transition-all md:mb-2 mr-2 md:mr-0 ${
+              isTagPanelOpen || tagFilter.tags.length > 0
+                ? "text-sky-400 bg-slate-800 ring-1 ring-sky-500/40"
+                : "text-slate-500 hover:text-sky-400 hover:bg-slate-800"
+            }`}
+            title="Filter by Tag"
+            aria-expanded={isTagPanelOpen}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="20"
+              height="20"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M20.59 13.41l-7.17 7.17a2 2 0 0 1-2.83 0L2 12V2h10l8.59 8.59a2 2 0 0 1 0 2.82z" />
+              <line x1="7" y1="7" x2="7.01" y2="7" />
+            </svg>
+          </button>
+          {onExportImage && (
+            <button
+              onClick={() =>
+                onExportImage({
+                  viewport: {
+                    x: -viewTransform.x / viewTransform.k,
+                    y: -viewTransform.y / viewTransform.k,
+                    width: containerSize.width / viewTransform.k,
+                    height: containerSize.height / viewTransform.k,
+                  },
+                  edgeStyle: activeLayout === 'tree-lr' ? 'sankey-lr' : 'default',
+                })
+              }
+              className="p-2 text-slate-500 hover:text-sky-400 hover:bg-slate-800 rounded-lg md:mb-2 mr-2 md:mr-0"
+              title="Export Image"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="20"
+                height="20"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+                <circle cx="8.5" cy="8.5" r="1.5" />
+                <polyline points="21 15 16 10 5 21" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
 
@@ -1936,7 +2099,7 @@ export const Canvas: React.FC<CanvasProps> = ({
                 markerHeight="7"
                 refX="10"
                 refY="3.5"
-                orient="auto"
+                orient="auto-start-reverse"
               >
                 <polygon points="0 0, 10 3.5, 0 7" fill={COLORS.edgeStroke} />
               </marker>
@@ -1946,7 +2109,7 @@ export const Canvas: React.FC<CanvasProps> = ({
                 markerHeight="7"
                 refX="10"
                 refY="3.5"
-                orient="auto"
+                orient="auto-start-reverse"
               >
                 <polygon
                   points="0 0, 10 3.5, 0 7"
@@ -1957,20 +2120,29 @@ export const Canvas: React.FC<CanvasProps> = ({
             <g
               transform={`translate(${viewTransform.x},${viewTransform.y}) scale(${viewTransform.k})`}
             >
-              {visibleEdges.map((edge) => (
-                <Edge
+              {renderedEdges.map((edge) => (
+                <g
                   key={edge.id}
-                  edge={edge}
-                  sourceNode={nodeMap.get(edge.source)!}
-                  targetNode={nodeMap.get(edge.target)!}
-                  lodLevel={lodLevel}
-                  sourceIsParent={parentIds.has(edge.source)}
-                  targetIsParent={parentIds.has(edge.target)}
-                  sourceIsSelected={selectedNodeIds.has(edge.source)}
-                  targetIsSelected={selectedNodeIds.has(edge.target)}
-                  isDragging={draggingId !== null}
-                  edgeStyle={activeLayout === 'tree-lr' ? 'sankey-lr' : 'default'}
-                />
+                  opacity={
+                    tagDimmedIds.has(edge.source) || tagDimmedIds.has(edge.target)
+                      ? 0.2
+                      : undefined
+                  }
+                >
+                  <Edge
+                    edge={edge}
+                    sourceNode={nodeMap.get(edge.source)!}
+                    targetNode={nodeMap.get(edge.target)!}
+                    lodLevel={lodLevel}
+                    sourceIsParent={parentIds.has(edge.source)}
+                    targetIsParent={parentIds.has(edge.target)}
+                    sourceIsSelected={selectedNodeIds.has(edge.source)}
+                    targetIsSelected={selectedNodeIds.has(edge.target)}
+                    isDragging={draggingId !== null}
+                    edgeStyle={activeLayout === 'tree-lr' ? 'sankey-lr' : 'default'}
+                    onLabelClick={edge.property ? undefined : handleEdgeLabelClick}
+                  />
+                </g>
               ))}
               {expandingNodeIds.map((id) => {
                 const node = nodes.find((n) => n.id === id);
@@ -2006,12 +2178,17 @@ export const Canvas: React.FC<CanvasProps> = ({
               />
             ))}
 
-            {visibleNodes.map((node) => (
-              <div key={node.id} className="pointer-events-auto">
+            {renderedNodes.map((node) => (
+              <div
+                key={node.id}
+                className="pointer-events-auto transition-opacity duration-200"
+                style={tagDimmedIds.has(node.id) ? { opacity: 0.2 } : undefined}
+              >
                 <GraphNodeComponent
                   key={node.id}
                   node={node}
                   allNodes={allNodes}
+                  allEdges={allEdges}
                   isSelected={
                     activeNodeId === node.id || connectingNodeId === node.id
                   }
@@ -2035,6 +2212,7 @@ export const Canvas: React.FC<CanvasProps> = ({
                   }}
                   onOpenLink={onOpenLink}
                   onNavigateToNode={onNavigateToNode}
+                  onCiteNodes={onCiteNodes}
                   onConnectStart={onConnectStart}
                   onViewSubgraph={(id) => {
                     if (onNavigateDown) onNavigateDown(id);
@@ -2125,9 +2303,62 @@ export const Canvas: React.FC<CanvasProps> = ({
                 </svg>
                 Create AI Chat
               </button>
+              {onAddAttachmentNode && (
+                <button
+                  className="w-full text-left px-4 py-2 hover:bg-slate-700 text-sm flex items-center gap-2 border-t border-slate-700"
+                  onClick={() => {
+                    onAddAttachmentNode({
+                      x: contextMenu.canvasX,
+                      y: contextMenu.canvasY,
+                    });
+                    setContextMenu(null);
+                  }}
+                >
+                  <MediaTypeIcon type={NodeType.IMAGE} className="w-4 h-4 text-slate-400" />
+                  Add Image or PDF
+                </button>
+              )}
+              {onClipWebPage && (
+                <button
+                  className="w-full text-left px-4 py-2 hover:bg-slate-700 text-sm flex items-center gap-2 border-t border-slate-700"
+                  onClick={() => {
+                    onClipWebPage({
+                      x: contextMenu.canvasX,
+                      y: contextMenu.canvasY,
+                    });
+                    setContextMenu(null);
+                  }}
+                >
+                  <MediaTypeIcon type={NodeType.WEB} className="w-4 h-4 text-slate-400" />
+                  Clip Web Page
+                </button>
+              )}
             </div>
           )}
         </div>
+
+        {/* Outside the zoom wrapper so that d3 does not pan on their clicks */}
+        {edgeMenu && menuEdge && (
+          <EdgeTypeMenu
+            edge={menuEdge}
+            x={edgeMenu.x}
+            y={edgeMenu.y}
+            onChange={handleEdgeMenuChange}
+            onClose={handleEdgeMenuClose}
+          />
+        )}
+
+        {isTagPanelOpen && (
+          <TagPanel
+            tags={scopeTagCounts}
+            selectedTags={tagFilter.tags}
+            mode={tagFilter.mode}
+            onToggleTag={handleToggleTagFilter}
+            onModeChange={(mode) => setTagFilter((prev) => ({ ...prev, mode }))}
+            onClear={() => setTagFilter((prev) => ({ ...prev, tags: [] }))}
+            onClose={() => setIsTagPanelOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { PendingChatImport, SuggestedChatEdge } from '../hooks/useChatImport';
+
+interface ChatImportModalProps {
+  pendingImport: PendingChatImport | null;
+  suggestedEdges: SuggestedChatEdge[] | null;
+  status: string | null;
+  onImport: (selected: number[], suggestEdges: boolean) => void;
+  onCancel: () => void;
+  onAcceptEdges: (acceptedIds: Set<string>) => void;
+  onDismissEdges: () => void;
+}
+
+const checkboxRowClass =
+  'flex items-start gap-3 border border-slate-700 hover:border-slate-600 rounded-lg p-3 cursor-pointer transition-colors';
+
+export const ChatImportModal: React.FC<ChatImportModalProps> = ({
+  pendingImport,
+  suggestedEdges,
+  status,
+  onImport,
+  onCancel,
+  onAcceptEdges,
+  onDismissEdges,
+}) => {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [suggestEdges, setSuggestEdges] = useState(false);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setSelected(new Set(pendingImport?.conversations.map((_, i) => i) || []));
+  }, [pendingImport]);
+
+  useEffect(() => {
+    setAcceptedIds(new Set(suggestedEdges?.map((s) => s.id) || []));
+  }, [suggestedEdges]);
+
+  if (!pendingImport && !suggestedEdges) return null;
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  const isBusy = !!status;
+  const isReviewingEdges = !pendingImport && !!suggestedEdges;
+  const conversations = pendingImport?.conversations || [];
+  const untitledCount = conversations.filter((c, i) => selected.has(i) && !c.title).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white mb-1">
+              {isReviewingEdges ? 'Suggested connections' : 'Import conversations'}
+            </h2>
+            <p className="text-sm text-slate-400 break-all">
+              {isReviewingEdges
+                ? 'Edges between the imported conversations and nodes in this scope'
+                : pendingImport?.fileName}
+            </p>
+          </div>
+          <button
+            onClick={isReviewingEdges ? onDismissEdges : onCancel}
+            disabled={isBusy}
+            className="text-slate-500 hover:text-white disabled:opacity-50 text-xl leading-none"
+            title="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-2">
+          {isReviewingEdges
+            ? suggestedEdges!.map((edge) => (
+                <label key={edge.id} className={checkboxRowClass}>
+                  <input
+                    type="checkbox"
+                    className="mt-1 accent-sky-500"
+                    checked={acceptedIds.has(edge.id)}
+                    onChange={() => setAcceptedIds(toggle(acceptedIds, edge.id))}
+                  />
+                  <span className="text-sm text-slate-200 min-w-0">
+                    <span className="font-semibold">{edge.sourceTitle}</span>
+                    <span className="text-slate-400"> &rarr; {edge.label} &rarr; </span>
+                    <span className="font-semibold">{edge.targetTitle}</span>
+                  </span>
+                </label>
+              ))
+            : (
+              <>
+                <div className="flex items-center justify-between text-sm text-slate-300">
+                  <span>
+                    {selected.size} of {conversations.length} selected
+                  </span>
+                  <button
+                    onClick={() =>
+                      setSelected(
+                        selected.size === conversations.length
+                          ? new Set()
+                          : new Set(conversations.map((_, i) => i))
+                      )
+                    }
+                    className="text-sky-400 hover:text-sky-300 text-xs font-bold"
+                  >
+                    {selected.size === conversations.length ? 'Select none' : 'Select all'}
+                  </button>
+                </div>
+                {conversations.map((conversation, i) => (
+                  <label key={i} className={checkboxRowClass}>
+                    <input
+                      type="checkbox"
+                      className="mt-1 accent-sky-500"
+                      checked={selected.has(i)}
+                      onChange={() => setSelected(toggle(selected, i))}
+                    />
+                    <span className="min-w-0">
+                      <span className={`block text-sm font-semibold truncate ${conversation.title ? 'text-slate-100' : 'text-slate-400 italic'}`}>
+                        {conversation.title || 'Untitled'}
+                      </span>
+                      <span className="block text-xs text-slate-400">
+                        {conversation.messages.length} message(s) &middot;{' '}
+                        {new Date(conversation.messages[0].timestamp).toLocaleDateString()}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </>
+            )}
+        </div>
+
+        {!isReviewingEdges && (
+          <div className="px-6 pb-4 space-y-2">
+            {untitledCount > 0 && (
+              <p className="text-xs text-slate-400">
+                {untitledCount} untitled conversation(s) will be named by the AI.
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                className="accent-sky-500"
+                checked={suggestEdges}
+                onChange={(e) => setSuggestEdges(e.target.checked)}
+              />
+              Suggest edges to nodes in this scope with AI
+            </label>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-slate-700 flex items-center justify-end gap-2">
+          {status && <span className="mr-auto text-xs text-slate-400">{status}</span>}
+          <button
+            onClick={isReviewingEdges ? onDismissEdges : onCancel}
+            disabled={isBusy}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isReviewingEdges ? 'Skip' : 'Cancel'}
+          </button>
+          {isReviewingEdges ? (
+            <button
+              onClick={() => onAcceptEdges(acceptedIds)}
+              disabled={acceptedIds.size === 0}
+              className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+            >
+              Add {acceptedIds.size} edge(s)
+            </button>
+          ) : (
+            <button
+              onClick={() => onImport(Array.from(selected).sort((a, b) => a - b), suggestEdges)}
+              disabled={isBusy || selected.size === 0}
+              className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+            >
+              {isBusy ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CsvTable,
+  CsvNodeField,
+  CsvNodeMapping,
+  CsvEdgeMapping,
+  guessNodeMapping,
+  guessEdgeMapping,
+} from '../services/csvImportService';
+import { CsvFile, CsvFileKind } from '../hooks/useCsvImport';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  nodesFile: CsvFile | null;
+  edgesFile: CsvFile | null;
+  onPickFile: (kind: CsvFileKind) => void;
+  onClearEdgesFile: () => void;
+  onImport: (nodeMapping: CsvNodeMapping, edgeMapping: CsvEdgeMapping | null) => void;
+  onClose: () => void;
+}
+
+const NODE_FIELDS: { key: CsvNodeField; label: string }[] = [
+  { key: 'content', label: 'Title' },
+  { key: 'summary', label: 'Summary' },
+  { key: 'link', label: 'Link' },
+  { key: 'color', label: 'Color' },
+  { key: 'aliases', label: 'Aliases' },
+  { key: 'id', label: 'Row id' },
+  { key: 'custom', label: 'Property' },
+  { key: 'ignore', label: 'Ignore' },
+];
+
+const PREVIEW_ROWS = 5;
+
+const selectClassName =
+  'w-full bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-xs text-slate-200 focus:outline-none focus:border-sky-500';
+
+const PreviewTable: React.FC<{ table: CsvTable; header: (index: number) => React.ReactNode }> = ({
+  table,
+  header,
+}) => (
+  <div className="overflow-x-auto border border-slate-700 rounded-lg">
+    <table className="text-xs text-slate-300 border-collapse">
+      <thead>
+        <tr>
+          {table.headers.map((name, i) => (
+            <th key={i} className="p-2 text-left align-top border-b border-slate-700 min-w-[120px]">
+              <div className="font-semibold text-slate-100 mb-1 truncate" title={name}>{name}</div>
+              {header(i)}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+          <tr key={r} className="border-b border-slate-700/50 last:border-0">
+            {row.map((value, i) => (
+              <td key={i} className="p-2 max-w-[180px] truncate" title={value}>{value}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const FileButton: React.FC<{ file: CsvFile | null; onClick: () => void }> = ({ file, onClick }) => (
+  <button
+    onClick={onClick}
+    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+  >
+    {file ? 'Choose another file' : 'Choose file'}
+  </button>
+);
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({
+  isOpen,
+  nodesFile,
+  edgesFile,
+  onPickFile,
+  onClearEdgesFile,
+  onImport,
+  onClose,
+}) => {
+  const [nodeMapping, setNodeMapping] = useState<CsvNodeMapping | null>(null);
+  const [edgeMapping, setEdgeMapping] = useState<CsvEdgeMapping | null>(null);
+
+  useEffect(() => {
+    setNodeMapping(nodesFile ? guessNodeMapping(nodesFile.table.headers) : null);
+  }, [nodesFile]);
+
+  useEffect(() => {
+    setEdgeMapping(edgesFile ? guessEdgeMapping(edgesFile.table.headers) : null);
+  }, [edgesFile]);
+
+  if (!isOpen) return null;
+
+  const setNodeField = (index: number, field: CsvNodeField) => {
+    if (!nodeMapping) return;
+    setNodeMapping({
+      ...nodeMapping,
+      // A field other than custom or ignore maps from one column only
+      fields: nodeMapping.fields.map((f, i) =>
+        i === index ? field : f === field && field !== 'custom' && field !== 'ignore' ? 'ignore' : f
+      ),
+    });
+  };
+
+  const edgeColumnRole = (index: number) =>
+    !edgeMapping
+      ? 'ignore'
+      : edgeMapping.sourceColumn === index
+      ? 'source'
+      : edgeMapping.targetColumn === index
+      ? 'target'
+      : edgeMapping.labelColumn === index
+      ? 'label'
+      : 'ignore';
+
+  const setEdgeColumnRole = (index: number, role: string) => {
+    if (!edgeMapping) return;
+    const next = { ...edgeMapping };
+    if (next.labelColumn === index) next.labelColumn = null;
+    if (role === 'source') next.sourceColumn = index;
+    if (role === 'target') next.targetColumn = index;
+    if (role === 'label') next.labelColumn = index;
+    setEdgeMapping(next);
+  };
+
+  const hasTitleColumn = !!nodeMapping?.fields.includes('content');
+  const hasEdgeColumns =
+    !edgeMapping || edgeMapping.sourceColumn !== edgeMapping.targetColumn;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-3xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white mb-1">Import CSV / TSV</h2>
+            <p className="text-sm text-slate-400">
+              Each row of the nodes file becomes a note in the current scope.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-5">
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-xs font-bold uppercase tracking-wide text-slate-500">Nodes</div>
+                {nodesFile && (
+                  <div className="text-sm text-slate-300 truncate">
+                    {nodesFile.fileName} &middot; {nodesFile.table.rows.length} row(s)
+                  </div>
+                )}
+              </div>
+              <FileButton file={nodesFile} onClick={() => onPickFile('nodes')} />
+            </div>
+            {nodesFile && nodeMapping && (
+              <>
+                <PreviewTable
+                  table={nodesFile.table}
+                  header={(i) => (
+                    <select
+                      className={selectClassName}
+                      value={nodeMapping.fields[i]}
+                      onChange={(e) => setNodeField(i, e.target.value as CsvNodeField)}
+                    >
+                      {NODE_FIELDS.map(({ key, label }) => (
+                        <option key={key} value={key}>{label}</option>
+                      ))}
+                    </select>
+                  )}
+                />
+                {nodeMapping.fields.includes('aliases') && (
+                  <label className="flex items-center gap-2 text-sm text-slate-300">
+                    Aliases separated by
+                    <input
+                      type="text"
+                      value={nodeMapping.aliasDelimiter}
+                      onChange={(e) => setNodeMapping({ ...nodeMapping, aliasDelimiter: e.target.value })}
+                      className="w-12 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-sky-500"
+                    />
+                  </label>
+                )}
+                {!hasTitleColumn && (
+                  <p className="text-xs text-amber-400">Map one column to Title.</p>
+                )}
+              </>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-xs font-bold uppercase tracking-wide text-slate-500">Edges (optional)</div>
+                {edgesFile && (
+                  <div className="text-sm text-slate-300 truncate">
+                    {edgesFile.fileName} &middot; {edgesFile.table.rows.length} row(s)
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                {edgesFile && (
+                  <button
+                    onClick={onClearEdgesFile}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+                  >
+                    Remove
+                  </button>
+                )}
+                <FileButton file={edgesFile} onClick={() => onPickFile('edges')} />
+              </div>
+            </div>
+            {edgesFile && edgeMapping && (
+              <>
+                <PreviewTable
+                  table={edgesFile.table}
+                  header={(i) => (
+                    <select
+                      className={selectClassName}
+                      value={edgeColumnRole(i)}
+                      onChange={(e) => setEdgeColumnRole(i, e.target.value)}
+                    >
+                      <option value="source">Source</option>
+                      <option value="target">Target</option>
+                      <option value="label">Label</option>
+                      <option value="ignore">Ignore</option>
+                    </select>
+                  )}
+                />
+                <div className="flex items-center gap-4 text-sm text-slate-300">
+                  <span>Match source and target by</span>
+                  {(['title', 'id'] as const).map((matchBy) => (
+                    <label key={matchBy} className="flex items-center gap-1.5 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="csv-match-by"
+                        className="accent-sky-500"
+                        checked={edgeMapping.matchBy === matchBy}
+                        onChange={() => setEdgeMapping({ ...edgeMapping, matchBy })}
+                      />
+                      {matchBy === 'title' ? 'Title' : 'Row id'}
+                    </label>
+                  ))}
+                </div>
+                {!hasEdgeColumns && (
+                  <p className="text-xs text-amber-400">Source and target must be different columns.</p>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => nodeMapping && onImport(nodeMapping, edgeMapping)}
+            disabled={!nodesFile || !hasTitleColumn || !hasEdgeColumns}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from "react";
+
+export interface DataMenuItem {
+  id: string;
+  label: string;
+  description: string;
+  onSelect: () => void;
+  disabled?: boolean;
+  disabledReason?: string;
+}
+
+export interface DataMenuSection {
+  title: string;
+  items: DataMenuItem[];
+}
+
+interface DataMenuProps {
+  sections: DataMenuSection[];
+}
+
+// Import, export and vault commands, opened from the header
+export const DataMenu: React.FC<DataMenuProps> = ({ sections }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (
+        containerRef.current &&
+        containerRef.current.contains(event.target as Node)
+      ) {
+        return;
+      }
+      setIsOpen(false);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("touchstart", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("touchstart", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative pointer-events-auto">
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`p-2 backdrop-blur rounded-lg border transition-all shadow-lg ${
+          isOpen
+            ? "text-sky-400 bg-slate-800 border-sky-500/40"
+            : "text-slate-400 hover:text-white bg-slate-800/80 border-slate-700"
+        }`}
+        title="Import & Export"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <svg
+          className="h-5 w-5"
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        >
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+          <polyline points="7 10 12 15 17 10" />
+          <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute z-50 top-full mt-2 right-0 w-72 max-h-[70vh] overflow-y-auto bg-slate-950 border border-slate-800 rounded-2xl shadow-2xl p-3 animate-in fade-in slide-in-from-top-2 origin-top-right">
+          {sections.map((section) => (
+            <div key={section.title} className="mb-2 last:mb-0">
+              <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1 px-1">
+                {section.title}
+              </p>
+              <div className="flex flex-col gap-1">
+                {section.items.map((item) => (
+                  <button
+                    key={item.id}
+                    onClick={() => {
+                      if (item.disabled) return;
+                      setIsOpen(false);
+                      item.onSelect();
+                    }}
+                    className={`w-full px-3 py-2 rounded-xl text-left transition-colors ${
+                      item.disabled
+                        ? "opacity-40 cursor-not-allowed"
+                        : "hover:bg-slate-900/80 focus-visible:outline-none focus:bg-slate-900/80"
+                    }`}
+                    title={
+                      item.disabled && item.disabledReason
+                        ? item.disabledReason
+                        : item.label
+                    }
+                  >
+                    <span className="block text-sm font-semibold text-white">
+                      {item.label}
+                    </span>
+                    <span className="block text-xs text-slate-400">
+                      {item.description}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from "react";
+import { GraphEdge, EdgeDirectionality } from "../types";
+import { getEdgeTypes, addCustomEdgeType } from "../services/edgeTypeService";
+
+interface EdgeTypeMenuProps {
+  edge: GraphEdge;
+  x: number;
+  y: number;
+  onChange: (updates: Partial<GraphEdge>) => void;
+  onClose: () => void;
+}
+
+const DIRECTIONALITY_LABELS: Record<EdgeDirectionality, string> = {
+  directed: "Directed",
+  undirected: "Undirected",
+  bidirectional: "Both ways",
+};
+
+// Popover opened from an edge's label: pick its relationship type, set its
+// weight, or add a type to the vocabulary
+export const EdgeTypeMenu: React.FC<EdgeTypeMenuProps> = ({
+  edge,
+  x,
+  y,
+  onChange,
+  onClose,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [types, setTypes] = useState(getEdgeTypes);
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [inverseName, setInverseName] = useState("");
+  const [directionality, setDirectionality] =
+    useState<EdgeDirectionality>("directed");
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (containerRef.current?.contains(event.target as Node)) return;
+      onClose();
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("touchstart", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("touchstart", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  const handleTypeChange = (id: string) => {
+    const type = types.find((t) => t.id === id);
+    // Clearing the type keeps the label as free text
+    onChange(type ? { type: type.id, label: type.name } : { type: undefined });
+  };
+
+  const handleWeightChange = (value: string) => {
+    const weight = parseFloat(value);
+    onChange({ weight: Number.isFinite(weight) && weight > 0 ? weight : undefined });
+  };
+
+  const handleAddType = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const created = addCustomEdgeType({
+      name: trimmed,
+      inverseName:
+        directionality === "directed" && inverseName.trim()
+          ? inverseName.trim()
+          : undefined,
+      directionality,
+    });
+    setTypes(getEdgeTypes());
+    onChange({ type: created.id, label: created.name });
+    setIsAdding(false);
+    setName("");
+    setInverseName("");
+  };
+
+  const inputClass =
+    "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-sky-500";
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed z-[10000] w-64 bg-slate-800 text-white rounded-lg shadow-xl border border-slate-700 p-3 flex flex-col gap-3 animate-in fade-in zoom-in duration-100 origin-top-left pointer-events-auto"
+      style={{ left: x, top: y }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] font-bold uppercase tracking-wide text-slate-400">
+          Relationship
+        </span>
+        <select
+          className={inputClass}
+          value={edge.type && types.some((t) => t.id === edge.type) ? edge.type : ""}
+          onChange={(e) => handleTypeChange(e.target.value)}
+        >
+          <option value="">{edge.label ? `"${edge.label}" (no type)` : "No type"}</option>
+          {types.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.inverseName ? `${t.name} / ${t.inverseName}` : t.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-[10px] font-bold uppercase tracking-wide text-slate-400">
+          Weight
+        </span>
+        <input
+          type="number"
+          min={0.1}
+          step={0.1}
+          placeholder="1"
+          className={inputClass}
+          value={edge.weight ?? ""}
+          onChange={(e) => handleWeightChange(e.target.value)}
+        />
+      </label>
+
+      {isAdding ? (
+        <form onSubmit={handleAddType} className="flex flex-col gap-2 border-t border-slate-700 pt-3">
+          <input
+            autoFocus
+            className={inputClass}
+            placeholder="Name, e.g. mentors"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <select
+            className={inputClass}
+            value={directionality}
+            onChange={(e) => setDirectionality(e.target.value as EdgeDirectionality)}
+          >
+            {(Object.keys(DIRECTIONALITY_LABELS) as EdgeDirectionality[]).map((d) => (
+              <option key={d} value={d}>
+                {DIRECTIONALITY_LABELS[d]}
+              </option>
+            ))}
+          </select>
+          {directionality === "directed" && (
+            <input
+              className={inputClass}
+              placeholder="Inverse name, e.g. mentored by"
+              value={inverseName}
+              onChange={(e) => setInverseName(e.target.value)}
+            />
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              className="px-3 py-1 text-sm text-slate-400 hover:text-white"
+              onClick={() => setIsAdding(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-3 py-1 text-sm rounded bg-sky-600 hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          className="text-left text-sm text-sky-400 hover:text-sky-300"
+          onClick={() => setIsAdding(true)}
+        >
+          + Add relationship type
+        </button>
+      )}
+    </div>
+  );
+};
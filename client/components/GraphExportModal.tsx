@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import {
+  GraphExportFormat,
+  GraphExportScope,
+  GraphExportOptions,
+} from '../hooks/useGraphExport';
+import { DiagramDirection } from '../services/diagramExportService';
+
+interface GraphExportModalProps {
+  isOpen: boolean;
+  isExporting: boolean;
+  scopeName: string;
+  onExport: (
+    format: GraphExportFormat,
+    scope: GraphExportScope,
+    options: GraphExportOptions
+  ) => void;
+  onClose: () => void;
+}
+
+// Diagram formats are text for docs, so they can be copied and have a direction
+const FORMATS: {
+  key: GraphExportFormat;
+  title: string;
+  description: string;
+  isDiagram?: boolean;
+}[] = [
+  {
+    key: 'graphml',
+    title: 'GraphML',
+    description: 'For yEd, Gephi, Cytoscape and NetworkX',
+  },
+  {
+    key: 'gexf',
+    title: 'GEXF',
+    description: 'For Gephi, with node positions and colors',
+  },
+  {
+    key: 'turtle',
+    title: 'RDF / Turtle',
+    description: 'For triple stores, with Wikidata entities as owl:sameAs',
+  },
+  {
+    key: 'jsonld',
+    title: 'JSON-LD',
+    description: 'The same RDF graph as linked data JSON',
+  },
+  {
+    key: 'mermaid',
+    title: 'Mermaid',
+    description: 'A flowchart for Markdown docs and pull requests',
+    isDiagram: true,
+  },
+  {
+    key: 'dot',
+    title: 'Graphviz DOT',
+    description: 'A digraph to render with dot',
+    isDiagram: true,
+  },
+];
+
+const DIRECTIONS: { key: DiagramDirection; title: string }[] = [
+  { key: 'TB', title: 'Top to bottom' },
+  { key: 'LR', title: 'Left to right' },
+];
+
+export const GraphExportModal: React.FC<GraphExportModalProps> = ({
+  isOpen,
+  isExporting,
+  scopeName,
+  onExport,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<GraphExportFormat>('graphml');
+  const [scope, setScope] = useState<GraphExportScope>('scope');
+  const [direction, setDirection] = useState<DiagramDirection>('TB');
+
+  if (!isOpen) return null;
+
+  const isDiagram = FORMATS.some((f) => f.key === format && f.isDiagram);
+
+  const optionClass = (isSelected: boolean) =>
+    `flex items-start gap-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+      isSelected ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <h2 className="text-xl font-bold text-white">Export graph</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Format</p>
+            {FORMATS.map(({ key, title, description }) => (
+              <label key={key} className={optionClass(format === key)}>
+                <input
+                  type="radio"
+                  name="graph-export-format"
+                  className="mt-1 accent-sky-500"
+                  checked={format === key}
+                  onChange={() => setFormat(key)}
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-100">{title}</span>
+                  <span className="block text-xs text-slate-400">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Nodes</p>
+            <div className="flex gap-2">
+              {(['scope', 'graph'] as const).map((key) => (
+                <label key={key} className={`flex-1 ${optionClass(scope === key)}`}>
+                  <input
+                    type="radio"
+                    name="graph-export-scope"
+                    className="mt-1 accent-sky-500"
+                    checked={scope === key}
+                    onChange={() => setScope(key)}
+                  />
+                  <span className="text-sm text-slate-100 min-w-0 truncate">
+                    {key === 'scope' ? scopeName : 'Whole graph'}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {isDiagram && (
+            <div className="space-y-2">
+              <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Direction</p>
+              <div className="flex gap-2">
+                {DIRECTIONS.map(({ key, title }) => (
+                  <label key={key} className={`flex-1 ${optionClass(direction === key)}`}>
+                    <input
+                      type="radio"
+                      name="graph-export-direction"
+                      className="mt-1 accent-sky-500"
+                      checked={direction === key}
+                      onChange={() => setDirection(key)}
+                    />
+                    <span className="text-sm text-slate-100">{title}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          {isDiagram && (
+            <button
+              onClick={() => onExport(format, scope, { direction, copy: true })}
+              disabled={isExporting}
+              className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+            >
+              Copy
+            </button>
+          )}
+          <button
+            onClick={() => onExport(format, scope, { direction, copy: false })}
+            disabled={isExporting}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -10,8 +10,11 @@ import React, {
 import { createPortal } from "react-dom";
 import ReactMarkdown from "react-markdown";
 import { MarkdownEditor } from "./MarkdownEditor";
+import { NodePropertiesPanel } from "./NodePropertiesPanel";
+import { BacklinksPanel } from "./BacklinksPanel";
 import {
   GraphNode,
+  GraphEdge,
   NodeType,
   ChatMessage,
   NodeColor,
@@ -30,10 +33,20 @@ import {
   extractInternalNodeTitle,
   formatInternalNodeLinks,
 } from "../utils/wikiLinks";
+import { findCitedNodes } from "../utils/citations";
+import { extractContentTags, normalizeTag, dedupeTags } from "../utils/tags";
+import {
+  MediaTypeIcon,
+  AttachmentImage,
+  PdfViewer,
+  WebClipHeader,
+  isMediaNode,
+} from "./MediaNodeContent";
 
 interface GraphNodeProps {
   node: GraphNode;
   allNodes?: GraphNode[];
+  allEdges?: GraphEdge[];
   isSelected?: boolean;
   isExpanded?: boolean;
   isDragging?: boolean;
@@ -52,9 +65,11 @@ interface GraphNodeProps {
     direction: ResizeDirection
   ) => void;
   onToggleMaximize?: (id: string) => void;
+  onShowHistory?: (id: string) => void;
   onMinimize?: (id: string) => void;
   onOpenLink?: (url: string) => void;
   onNavigateToNode?: (title: string) => void;
+  onCiteNodes?: (sourceId: string, targetIds: string[]) => void;
   onConnectStart?: (id: string) => void;
   onViewSubgraph?: (id: string) => void;
   autoGraphEnabled?: boolean;
@@ -70,6 +85,7 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
   ({
     node,
     allNodes,
+    allEdges,
     isSelected = false,
     isExpanded,
     isDragging = false,
@@ -84,9 +100,11 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
     onDelete,
     onResizeStart,
     onToggleMaximize,
+    onShowHistory,
     onMinimize,
     onOpenLink,
     onNavigateToNode,
+    onCiteNodes,
     onConnectStart,
     onViewSubgraph,
     autoGraphEnabled,
@@ -145,8 +163,14 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
     const isTitleOnly = lodLevel === "TITLE" && !effectiveExpanded && !isSidebar;
     const isCompact = !isSidebar && !effectiveExpanded;
 
+    // Notes and web clips keep their title on the first line
+    const isNoteLike = node.type === NodeType.NOTE || node.type === NodeType.WEB;
     const titleText =
-      node.type === NodeType.CHAT ? node.content : node.summary || node.content;
+      node.type === NodeType.CHAT
+        ? node.content
+        : node.type === NodeType.WEB
+        ? (node.content || "").split("\n")[0] || node.link || "Web page"
+        : node.summary || node.content;
 
     // --- Long Press & Double Click Handlers ---
 
@@ -324,6 +348,7 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
         role: "model",
         text: modelTextToDisplay,
         timestamp: Date.now(),
+        ...(result.sources ? { sources: result.sources } : {}),
       };
 
       onUpdateRef.current(node.id, {
@@ -353,8 +378,12 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
     const handleNoteEditorChange = useCallback(
       (content: string) => {
         onUpdate(node.id, { content });
+        if (onCiteNodes && allNodes) {
+          const cited = findCitedNodes(content, allNodes);
+          onCiteNodes(node.id, cited.map((n) => n.id));
+        }
       },
-      [node.id, onUpdate]
+      [node.id, onUpdate, onCiteNodes, allNodes]
     );
 
     const openNodeInSidePaneForMobileInput = useCallback(() => {
@@ -390,15 +419,23 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
     );
 
     const noteTitleLine = useMemo(() => {
-      if (node.type !== NodeType.NOTE) return "";
+      if (!isNoteLike) return "";
       return (node.content || "").split("\n")[0] || "";
-    }, [node.type, node.content]);
+    }, [isNoteLike, node.content]);
 
     const formattedNoteContent = useMemo(
       () => formatInternalNodeLinks(node.content || ""),
       [node.content]
     );
 
+    // #tags written in the note that are not also set on the node
+    const contentOnlyTags = useMemo(() => {
+      const stored = new Set((node.tags || []).map((t) => t.toLowerCase()));
+      return extractContentTags(node.content).filter(
+        (t) => !stored.has(t.toLowerCase())
+      );
+    }, [node.tags, node.content]);
+
     const formattedNoteTitleLine = useMemo(
       () => formatInternalNodeLinks(noteTitleLine),
       [noteTitleLine]
@@ -634,16 +671,35 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
             transform: "translate(-50%, -50%)",
           }}
         >
-          <div
-            className={`w-6 h-6 rounded-full ${colorTheme.indicator} shadow-[0_0_8px_rgba(0,0,0,0.8)] ring-2 ring-slate-900 pointer-events-auto cursor-pointer hover:scale-150 transition-transform`}
-            onMouseDown={(e) =>
-              !isSidebar && onMouseDown && onMouseDown(e, node.id)
-            }
-            onTouchStart={(e) =>
-              !isSidebar && onMouseDown && onMouseDown(e, node.id)
-            }
-            title={node.content}
-          />
+          {node.type === NodeType.IMAGE ? (
+            <div
+              className="w-10 h-10 rounded-md overflow-hidden bg-slate-800 shadow-[0_0_8px_rgba(0,0,0,0.8)] ring-2 ring-slate-900 pointer-events-auto cursor-pointer hover:scale-150 transition-transform"
+              onMouseDown={(e) =>
+                !isSidebar && onMouseDown && onMouseDown(e, node.id)
+              }
+              onTouchStart={(e) =>
+                !isSidebar && onMouseDown && onMouseDown(e, node.id)
+              }
+              title={titleText}
+            >
+              <AttachmentImage node={node} className="w-full h-full object-cover" />
+            </div>
+          ) : (
+            <div
+              className={`w-6 h-6 rounded-full ${colorTheme.indicator} shadow-[0_0_8px_rgba(0,0,0,0.8)] ring-2 ring-slate-900 pointer-events-auto cursor-pointer hover:scale-150 transition-transform flex items-center justify-center text-white`}
+              onMouseDown={(e) =>
+                !isSidebar && onMouseDown && onMouseDown(e, node.id)
+              }
+              onTouchStart={(e) =>
+                !isSidebar && onMouseDown && onMouseDown(e, node.id)
+              }
+              title={isMediaNode(node) ? titleText : node.content}
+            >
+              {isMediaNode(node) && (
+                <MediaTypeIcon type={node.type} className="w-3.5 h-3.5" />
+              )}
+            </div>
+          )}
         </div>
       );
     }
@@ -668,15 +724,26 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
             !isSidebar && onMouseDown && onMouseDown(e, node.id)
           }
         >
+          {node.type === NodeType.IMAGE && (
+            <AttachmentImage
+              node={node}
+              className={`absolute inset-0 w-full h-full rounded-xl ${
+                isSelected ? "ring-2 ring-sky-400" : ""
+              }`}
+            />
+          )}
           <div
             className={`
                 text-2xl font-bold text-slate-100 drop-shadow-md bg-slate-900/60 backdrop-blur-sm 
                 px-4 py-2 rounded-xl border border-white/10 ${
                   isSelected ? "ring-2 ring-sky-400" : ""
                 }
-                hover:bg-slate-800/80 cursor-pointer
+                hover:bg-slate-800/80 cursor-pointer relative flex items-center gap-2
             `}
           >
+            {isMediaNode(node) && (
+              <MediaTypeIcon type={node.type} className="w-6 h-6 shrink-0" />
+            )}
             {titleText}
           </div>
         </div>
@@ -749,6 +816,8 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                     title={
                       node.link.includes("wikipedia.org")
                         ? "Open Wikipedia Article"
+                        : node.type === NodeType.WEB
+                        ? "Open Original Page"
                         : "Open Wiki Link"
                     }
                     onMouseDown={(e) => e.stopPropagation()}
@@ -1080,6 +1149,30 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                 </div>
               )}
 
+              {node.citation && (
+                <div className="flex flex-col gap-0.5 mt-2 pt-2 border-t border-slate-700 text-xs text-slate-300">
+                  <span className="text-[10px] uppercase font-bold text-slate-400">
+                    Citation
+                  </span>
+                  <span className="font-mono text-sky-300 select-all">
+                    [@{node.citation.key}]
+                  </span>
+                  {!!node.citation.authors?.length && (
+                    <span>{node.citation.authors.join("; ")}</span>
+                  )}
+                  <span className="text-slate-400">
+                    {[node.citation.venue, node.citation.year]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </span>
+                  {node.citation.doi && (
+                    <span className="text-slate-400 break-all">
+                      DOI {node.citation.doi}
+                    </span>
+                  )}
+                </div>
+              )}
+
               <div className="flex flex-col gap-1 mt-2 pt-2 border-t border-slate-700">
                 <span className="text-[10px] uppercase font-bold text-slate-400">
                   Aliases
@@ -1128,6 +1221,63 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                 />
               </div>
 
+              <div className="flex flex-col gap-1 mt-2 pt-2 border-t border-slate-700">
+                <span className="text-[10px] uppercase font-bold text-slate-400">
+                  Tags
+                </span>
+                <div className="flex flex-wrap gap-1 mb-1">
+                  {node.tags?.map((tag) => (
+                    <span
+                      key={tag}
+                      className="text-[10px] bg-slate-700 px-1.5 py-0.5 rounded flex items-center gap-1 group/tag"
+                    >
+                      #{tag}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          const remaining = node.tags?.filter((t) => t !== tag);
+                          onUpdate(node.id, {
+                            tags: remaining?.length ? remaining : undefined,
+                          });
+                        }}
+                        className="hover:text-red-400 opacity-50 group-hover/tag:opacity-100"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                  {contentOnlyTags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="text-[10px] bg-slate-800 text-slate-400 px-1.5 py-0.5 rounded"
+                      title="Written in the note"
+                    >
+                      #{tag}
+                    </span>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  placeholder="Add tag + Enter"
+                  className="text-xs bg-black/20 border border-slate-600 rounded px-1.5 py-1 w-full focus:outline-none focus:border-sky-500 placeholder-slate-600"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.stopPropagation();
+                      const val = normalizeTag(e.currentTarget.value);
+                      if (val) {
+                        const newTags = dedupeTags([...(node.tags || []), val]);
+                        if (newTags.length !== (node.tags || []).length) {
+                          onUpdate(node.id, { tags: newTags });
+                        }
+                        e.currentTarget.value = "";
+                      }
+                    }
+                  }}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onTouchStart={(e) => e.stopPropagation()}
+                />
+              </div>
+
               <div className="pt-2 border-t border-slate-700">
                 {isSidebar ? (
                   <div className="flex justify-end">
@@ -1248,6 +1398,14 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                   />
                 ) : (
                   <>
+                    {isMediaNode(node) && (
+                      <span className={`${colorTheme.text} opacity-70 shrink-0`}>
+                        <MediaTypeIcon
+                          type={node.type}
+                          className={isSidebar ? "w-4 h-4" : "w-3.5 h-3.5"}
+                        />
+                      </span>
+                    )}
                     <span
                       className={`font-bold ${
                         colorTheme.text
@@ -1261,7 +1419,7 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                       }}
                       title={"Double click to rename"}
                     >
-                      {node.type === NodeType.NOTE ? (
+                      {isNoteLike ? (
                         !noteTitleLine.trim() ? (
                           "Empty Note"
                         ) : (
@@ -1393,6 +1551,33 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                     </button>
                   )}
 
+                  {onShowHistory && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onShowHistory(node.id);
+                      }}
+                      className="p-1 text-slate-400 hover:text-white hover:bg-slate-700/50 rounded transition-colors"
+                      title="History"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="18"
+                        height="18"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                        <polyline points="3 3 3 8 8 8" />
+                        <polyline points="12 7 12 12 15 14" />
+                      </svg>
+                    </button>
+                  )}
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -1450,14 +1635,45 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
               )}
             </div>
 
+            {!isCompact && (isSidebar || lodLevel === "DETAIL") && (
+              <div className="shrink-0 max-h-[40%] overflow-y-auto">
+                <NodePropertiesPanel
+                  node={node}
+                  allNodes={allNodes}
+                  onUpdate={onUpdate}
+                  onNavigateToNode={onNavigateToNode}
+                  isSidebar={isSidebar}
+                />
+              </div>
+            )}
+
             {!isCompact && (
               <div
                 className={`flex-1 overflow-hidden flex flex-col relative ${colorTheme.bg}`}
               >
-                {node.type === NodeType.NOTE ? (
-                  isSelected || isSidebar ? (
+                {node.type === NodeType.IMAGE ? (
+                  <AttachmentImage
+                    node={node}
+                    className={`w-full h-full ${isSidebar ? "p-6" : ""}`}
+                  />
+                ) : node.type === NodeType.PDF ? (
+                  <PdfViewer
+                    node={node}
+                    isSidebar={isSidebar}
+                    onOpen={onToggleMaximize}
+                  />
+                ) : isNoteLike ? (
+                  <>
+                  {node.type === NodeType.WEB && (
+                    <WebClipHeader
+                      node={node}
+                      isSidebar={isSidebar}
+                      onOpenLink={onOpenLink}
+                    />
+                  )}
+                  {isSelected || isSidebar ? (
                     <div
-                      className="w-full h-full pointer-events-auto"
+                      className="w-full flex-1 min-h-0 pointer-events-auto"
                       onMouseDown={handleNotePointerDown}
                       onTouchStart={handleNotePointerDown}
                     >
@@ -1476,7 +1692,7 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                     </div>
                   ) : (
                     <div
-                      className={`w-full h-full overflow-y-auto overflow-x-hidden ${
+                      className={`w-full flex-1 min-h-0 overflow-y-auto overflow-x-hidden ${
                         colorTheme.text
                       } ${
                         isSidebar
@@ -1503,7 +1719,8 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                         </ReactMarkdown>
                       )}
                     </div>
-                  )
+                  )}
+                  </>
                 ) : (
                   <>
                     <div
@@ -1561,6 +1778,27 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                               </ReactMarkdown>
                             </div>
                           </div>
+                          {msg.sources && msg.sources.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1 max-w-[95%]">
+                              {msg.sources.map((source, sourceIdx) => (
+                                <a
+                                  key={sourceIdx}
+                                  href={source.uri}
+                                  onClick={(e) => {
+                                    if (!onOpenLink) return;
+                                    e.preventDefault();
+                                    onOpenLink(source.uri);
+                                  }}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-[10px] text-sky-400 hover:text-sky-300 bg-black/20 px-1.5 py-0.5 rounded truncate max-w-[200px]"
+                                  title={source.uri}
+                                >
+                                  {source.title || source.uri}
+                                </a>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       ))}
 
@@ -1648,6 +1886,19 @@ export const GraphNodeComponent: React.FC<GraphNodeProps> = memo(
                 )}
               </div>
             )}
+
+            {!isCompact && (isSidebar || lodLevel === "DETAIL") && (
+              <div className="shrink-0 max-h-[40%] overflow-y-auto">
+                <BacklinksPanel
+                  node={node}
+                  allNodes={allNodes}
+                  allEdges={allEdges}
+                  onUpdate={onUpdate}
+                  onNavigateToNode={onNavigateToNode}
+                  isSidebar={isSidebar}
+                />
+              </div>
+            )}
           </div>
 
           {!isSidebar && !isCompact && onResizeStart && (
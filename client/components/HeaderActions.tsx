@@ -1,4 +1,5 @@
 import React from "react";
+import { DataMenu, DataMenuSection } from "./DataMenu";
 
 interface HeaderActionsProps {
   user: any;
@@ -7,6 +8,7 @@ interface HeaderActionsProps {
   onShowProfile: () => void;
   onToggleSearch: () => void;
   onOpenStorage: () => void;
+  dataMenuSections: DataMenuSection[];
   dirName: string | null;
   activeSidePanesCount: number;
 }
@@ -18,6 +20,7 @@ export const HeaderActions: React.FC<HeaderActionsProps> = ({
   onShowProfile,
   onToggleSearch,
   onOpenStorage,
+  dataMenuSections,
   dirName,
   activeSidePanesCount,
 }) => {
@@ -75,6 +78,8 @@ export const HeaderActions: React.FC<HeaderActionsProps> = ({
         </button>
       )}
 
+      <DataMenu sections={dataMenuSections} />
+
       <button
         onClick={onOpenStorage}
         className="p-2 text-slate-400 hover:text-white bg-slate-800/80 backdrop-blur rounded-lg border border-slate-700 pointer-events-auto transition-all shadow-lg"
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { ImageExportFormat, ImageExportRegion } from '../hooks/useImageExport';
+
+interface ImageExportModalProps {
+  isOpen: boolean;
+  isExporting: boolean;
+  hasSelection: boolean;
+  onExport: (format: ImageExportFormat, region: ImageExportRegion, scale: number) => void;
+  onClose: () => void;
+}
+
+const REGIONS: { key: ImageExportRegion; title: string; description: string }[] = [
+  {
+    key: 'viewport',
+    title: 'Visible area',
+    description: 'What the canvas shows now',
+  },
+  {
+    key: 'selection',
+    title: 'Selection',
+    description: 'The box around the selected nodes',
+  },
+  {
+    key: 'scope',
+    title: 'Whole scope',
+    description: 'Every node in the current scope',
+  },
+];
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+export const ImageExportModal: React.FC<ImageExportModalProps> = ({
+  isOpen,
+  isExporting,
+  hasSelection,
+  onExport,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<ImageExportFormat>('png');
+  const [region, setRegion] = useState<ImageExportRegion>('viewport');
+  const [scale, setScale] = useState(2);
+
+  useEffect(() => {
+    if (isOpen) setRegion(hasSelection ? 'selection' : 'viewport');
+  }, [isOpen, hasSelection]);
+
+  if (!isOpen) return null;
+
+  const optionClass = (isSelected: boolean, isDisabled = false) =>
+    `flex items-start gap-3 border rounded-lg p-3 transition-colors ${
+      isDisabled
+        ? 'border-slate-700 opacity-50 cursor-not-allowed'
+        : isSelected
+        ? 'border-sky-500 bg-sky-900/20 cursor-pointer'
+        : 'border-slate-700 hover:border-slate-600 cursor-pointer'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <h2 className="text-xl font-bold text-white">Export image</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Region</p>
+            {REGIONS.map(({ key, title, description }) => {
+              const isDisabled = key === 'selection' && !hasSelection;
+              return (
+                <label key={key} className={optionClass(region === key, isDisabled)}>
+                  <input
+                    type="radio"
+                    name="image-export-region"
+                    className="mt-1 accent-sky-500"
+                    checked={region === key}
+                    disabled={isDisabled}
+                    onChange={() => setRegion(key)}
+                  />
+                  <span>
+                    <span className="block text-sm font-semibold text-slate-100">{title}</span>
+                    <span className="block text-xs text-slate-400">
+                      {isDisabled ? 'Select some nodes first' : description}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Format</p>
+            <div className="flex gap-2">
+              {(['png', 'svg'] as const).map((key) => (
+                <label key={key} className={`flex-1 ${optionClass(format === key)}`}>
+                  <input
+                    type="radio"
+                    name="image-export-format"
+                    className="mt-1 accent-sky-500"
+                    checked={format === key}
+                    onChange={() => setFormat(key)}
+                  />
+                  <span className="text-sm text-slate-100">{key.toUpperCase()}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {format === 'png' && (
+            <div className="space-y-2">
+              <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Scale</p>
+              <div className="flex gap-2">
+                {PNG_SCALES.map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setScale(value)}
+                    className={`flex-1 px-3 py-1.5 rounded-lg border text-sm font-bold transition-colors ${
+                      scale === value
+                        ? 'border-sky-500 bg-sky-900/20 text-sky-300'
+                        : 'border-slate-700 text-slate-300 hover:border-slate-600'
+                    }`}
+                  >
+                    {value}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(format, region, scale)}
+            disabled={isExporting}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
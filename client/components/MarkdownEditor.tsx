@@ -20,6 +20,8 @@ import hljs from "highlight.js";
 import { GraphNode } from "../types";
 import { NODE_COLORS } from "../constants";
 import { INTERNAL_NODE_LINK_REGEX, getNodeTitle } from "../utils/wikiLinks";
+import { formatCitationShort } from "../utils/citations";
+import { countTags } from "../utils/tags";
 
 interface MarkdownEditorProps {
   initialContent: string;
@@ -33,9 +35,15 @@ interface MarkdownEditorProps {
 type LinkDropdownState = {
   position: { left: number; top: number };
   query: string;
+  // [[title]] links, [@key] citations or #tags
+  mode: "link" | "citation" | "tag";
 };
 
 const INLINE_LINK_DROPDOWN_WIDTH = 320;
+// An unfinished citation key right before the cursor: "[@smi", "[see @a; @b"
+const OPEN_CITATION_REGEX = /\[(?:[^\[\]\n]*[\s;-])?@([\w:.#$%&+?<>~/-]*)$/;
+// An unfinished #tag right before the cursor. "# " starts a heading instead.
+const OPEN_TAG_REGEX = /(?:^|\s)#([\p{L}\p{N}_\-/]+)$/u;
 
 const escapeHtml = (value: string) =>
   value
@@ -497,6 +505,7 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     null
   );
   const [linkResults, setLinkResults] = useState<GraphNode[]>([]);
+  const [tagResults, setTagResults] = useState<{ tag: string; count: number }[]>([]);
   const [activeResultIndex, setActiveResultIndex] = useState(0);
 
   useEffect(() => {
@@ -565,6 +574,50 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     return scored;
   }, []);
 
+  // Tags used in other nodes that start with, or else contain, the query
+  const computeTagMatches = useCallback((query: string) => {
+    const normalized = query.toLowerCase();
+    return countTags(allNodesRef.current || [])
+      .filter(({ tag }) => {
+        const lower = tag.toLowerCase();
+        return lower !== normalized && lower.includes(normalized);
+      })
+      .sort(
+        (a, b) =>
+          Number(!a.tag.toLowerCase().startsWith(normalized)) -
+            Number(!b.tag.toLowerCase().startsWith(normalized)) ||
+          b.count - a.count
+      )
+      .slice(0, 6);
+  }, []);
+
+  const computeCitationMatches = useCallback((query: string) => {
+    const references = (allNodesRef.current || []).filter((n) => n.citation);
+    const normalized = query.trim().toLowerCase();
+    type ScoredNode = { node: GraphNode; score: number };
+    return references
+      .map<ScoredNode | null>((node) => {
+        const key = node.citation!.key.toLowerCase();
+        if (!normalized) return { node, score: 0 };
+        if (key.startsWith(normalized)) return { node, score: 0 };
+        if (key.includes(normalized)) return { node, score: 50 };
+        const byline = formatCitationShort(node).toLowerCase();
+        if (byline.includes(normalized)) return { node, score: 100 };
+        if (getNodeTitle(node).toLowerCase().includes(normalized)) {
+          return { node, score: 200 };
+        }
+        return null;
+      })
+      .filter((entry): entry is ScoredNode => !!entry)
+      .sort(
+        (a, b) =>
+          a.score - b.score ||
+          a.node.citation!.key.localeCompare(b.node.citation!.key)
+      )
+      .slice(0, 6)
+      .map((entry) => entry.node);
+  }, []);
+
   const evaluateLinkSearch = useCallback(
     (view: EditorView) => {
       if (!view) return;
@@ -576,24 +629,51 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
 
       const cursorPos = selection.head;
       const textBefore = view.state.doc.sliceString(0, cursorPos);
-      const start = textBefore.lastIndexOf("[[");
-      if (start === -1) {
-        closeLinkSearch();
-        return;
-      }
-      const closingIndex = textBefore.indexOf("]]", start + 2);
-      if (closingIndex !== -1) {
-        closeLinkSearch();
-        return;
-      }
+      const lineBefore = textBefore.substring(textBefore.lastIndexOf("\n") + 1);
+      const citationMatch = lineBefore.match(OPEN_CITATION_REGEX);
+      const tagMatch = lineBefore.match(OPEN_TAG_REGEX);
+      let mode: LinkDropdownState["mode"] = "link";
+      let query: string;
+      let tagMatches: { tag: string; count: number }[] = [];
+      if (tagMatch && !citationMatch) {
+        // Only offer tags that exist, so Enter still breaks the line otherwise
+        tagMatches = computeTagMatches(tagMatch[1]);
+        if (tagMatches.length === 0) {
+          closeLinkSearch();
+          return;
+        }
+        mode = "tag";
+        query = tagMatch[1];
+        activeLinkStartRef.current = cursorPos - query.length;
+      } else if (
+        citationMatch &&
+        !lineBefore.endsWith("[[") &&
+        allNodesRef.current?.some((n) => n.citation)
+      ) {
+        // The key after "@" is replaced on select
+        mode = "citation";
+        query = citationMatch[1];
+        activeLinkStartRef.current = cursorPos - query.length;
+      } else {
+        const start = textBefore.lastIndexOf("[[");
+        if (start === -1) {
+          closeLinkSearch();
+          return;
+        }
+        const closingIndex = textBefore.indexOf("]]", start + 2);
+        if (closingIndex !== -1) {
+          closeLinkSearch();
+          return;
+        }
 
-      const rawQuery = view.state.doc.sliceString(start + 2, cursorPos);
-      if (rawQuery.includes("|") || rawQuery.includes("\n")) {
-        closeLinkSearch();
-        return;
+        const rawQuery = view.state.doc.sliceString(start + 2, cursorPos);
+        if (rawQuery.includes("|") || rawQuery.includes("\n")) {
+          closeLinkSearch();
+          return;
+        }
+        activeLinkStartRef.current = start;
+        query = rawQuery;
       }
-      activeLinkStartRef.current = start;
-      const query = rawQuery;
       const coords = view.coordsAtPos(cursorPos);
       const containerRect = containerRef.current?.getBoundingClientRect();
       if (!coords || !containerRect) {
@@ -601,10 +681,17 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
         return;
       }
 
-      const matches = computeLinkMatches(query);
+      const matches =
+        mode === "tag"
+          ? []
+          : mode === "citation"
+          ? computeCitationMatches(query)
+          : computeLinkMatches(query);
       setLinkResults(matches);
+      setTagResults(tagMatches);
+      const resultCount = mode === "tag" ? tagMatches.length : matches.length;
       setActiveResultIndex((prev) =>
-        matches.length === 0 ? 0 : Math.min(prev, matches.length - 1)
+        resultCount === 0 ? 0 : Math.min(prev, resultCount - 1)
       );
       const rawLeft = coords.left - containerRect.left;
       const rawTop = coords.bottom - containerRect.top + 4;
@@ -616,9 +703,10 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
           top: rawTop,
         },
         query,
+        mode,
       });
     },
-    [closeLinkSearch, computeLinkMatches]
+    [closeLinkSearch, computeLinkMatches, computeCitationMatches, computeTagMatches]
   );
 
   const insertInternalLink = useCallback(
@@ -640,14 +728,65 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     [closeLinkSearch]
   );
 
+  const insertCitation = useCallback(
+    (key: string) => {
+      const view = viewRef.current;
+      const start = activeLinkStartRef.current;
+      if (!view || start == null) return;
+      const head = view.state.selection.main.head;
+      // Close the bracket unless the citation already continues
+      const next = view.state.doc.sliceString(head, head + 1);
+      const insertText = next === "]" || next === ";" ? key : `${key}]`;
+
+      view.dispatch({
+        changes: { from: start, to: head, insert: insertText },
+        selection: { anchor: start + insertText.length },
+        scrollIntoView: true,
+      });
+      view.focus();
+      closeLinkSearch();
+    },
+    [closeLinkSearch]
+  );
+
+  const insertTag = useCallback(
+    (tag: string) => {
+      const view = viewRef.current;
+      const start = activeLinkStartRef.current;
+      if (!view || start == null) return;
+      const head = view.state.selection.main.head;
+      const next = view.state.doc.sliceString(head, head + 1);
+      const insertText = next && /\s/.test(next) ? tag : `${tag} `;
+
+      view.dispatch({
+        changes: { from: start, to: head, insert: insertText },
+        selection: { anchor: start + insertText.length },
+        scrollIntoView: true,
+      });
+      view.focus();
+      closeLinkSearch();
+    },
+    [closeLinkSearch]
+  );
+
   const handleResultSelect = useCallback(
     (node: GraphNode) => {
-      insertInternalLink(getNodeTitle(node));
+      if (linkDropdown?.mode === "citation" && node.citation) {
+        insertCitation(node.citation.key);
+      } else {
+        insertInternalLink(getNodeTitle(node));
+      }
     },
-    [insertInternalLink]
+    [linkDropdown?.mode, insertCitation, insertInternalLink]
   );
 
   const selectActiveResult = useCallback(() => {
+    if (linkDropdown?.mode === "tag") {
+      const match = tagResults[Math.min(activeResultIndex, tagResults.length - 1)];
+      if (match) insertTag(match.tag);
+      else closeLinkSearch();
+      return;
+    }
     if (!linkResults.length) {
       closeLinkSearch();
       return;
@@ -657,15 +796,25 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     if (node) {
       handleResultSelect(node);
     }
-  }, [activeResultIndex, linkResults, handleResultSelect, closeLinkSearch]);
+  }, [
+    linkDropdown?.mode,
+    activeResultIndex,
+    linkResults,
+    tagResults,
+    handleResultSelect,
+    insertTag,
+    closeLinkSearch,
+  ]);
 
   useEffect(() => {
     if (!linkDropdown) return;
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === "ArrowDown") {
         event.preventDefault();
+        const resultCount =
+          linkDropdown.mode === "tag" ? tagResults.length : linkResults.length;
         setActiveResultIndex((prev) =>
-          Math.min(prev + 1, Math.max(linkResults.length - 1, 0))
+          Math.min(prev + 1, Math.max(resultCount - 1, 0))
         );
       } else if (event.key === "ArrowUp") {
         event.preventDefault();
@@ -680,7 +829,13 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
     };
     window.addEventListener("keydown", handleKeyDown, true);
     return () => window.removeEventListener("keydown", handleKeyDown, true);
-  }, [linkDropdown, linkResults.length, closeLinkSearch, selectActiveResult]);
+  }, [
+    linkDropdown,
+    linkResults.length,
+    tagResults.length,
+    closeLinkSearch,
+    selectActiveResult,
+  ]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -872,12 +1027,38 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
           }}
         >
           <div className="px-3 py-2 text-[10px] font-semibold uppercase tracking-wide text-slate-400 border-b border-slate-800">
-            Link to existing node
+            {linkDropdown.mode === "tag"
+              ? "Tag"
+              : linkDropdown.mode === "citation"
+              ? "Cite a reference"
+              : "Link to existing node"}
           </div>
           <div className="max-h-64 overflow-y-auto">
-            {linkResults.length === 0 ? (
+            {linkDropdown.mode === "tag" ? (
+              tagResults.map(({ tag, count }, index) => (
+                <button
+                  key={tag}
+                  type="button"
+                  className={`w-full px-3 py-1.5 flex gap-3 text-left items-center justify-between transition-colors ${
+                    index === activeResultIndex
+                      ? "bg-sky-700/30 text-white"
+                      : "hover:bg-slate-800/70"
+                  }`}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    insertTag(tag);
+                  }}
+                >
+                  <span className="text-sm font-semibold truncate">#{tag}</span>
+                  <span className="text-xs text-slate-500 shrink-0">{count}</span>
+                </button>
+              ))
+            ) : linkResults.length === 0 ? (
               <div className="px-3 py-3 text-xs text-slate-500">
-                {allNodesRef.current?.length
+                {linkDropdown.mode === "citation"
+                  ? "No references match that key."
+                  : allNodesRef.current?.length
                   ? "No nodes match that title."
                   : "No nodes available yet."}
               </div>
@@ -885,7 +1066,11 @@ export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
               linkResults.map((result, index) => {
                 const title = getNodeTitle(result);
                 const description =
-                  result.summary || (result.content || "").slice(0, 120);
+                  linkDropdown.mode === "citation" && result.citation
+                    ? [`@${result.citation.key}`, formatCitationShort(result)]
+                        .filter(Boolean)
+                        .join(" · ")
+                    : result.summary || (result.content || "").slice(0, 120);
                 const colorClass =
                   (result.color && NODE_COLORS[result.color]?.indicator) ||
                   NODE_COLORS.slate.indicator;
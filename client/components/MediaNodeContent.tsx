@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from "react";
+import { GraphNode, NodeType } from "../types";
+import { useAttachmentUrl } from "../hooks/useAttachmentUrl";
+import { countPdfPages } from "../services/attachmentService";
+
+const stopPointer = {
+  onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+  onTouchStart: (e: React.TouchEvent) => e.stopPropagation(),
+};
+
+const formatSize = (bytes?: number) => {
+  if (!bytes) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Small glyph for the image, PDF and web node types, shown in headers and at
+// the zoomed-out levels of detail
+export const MediaTypeIcon: React.FC<{ type: NodeType; className?: string }> = ({
+  type,
+  className = "w-3.5 h-3.5",
+}) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+    aria-hidden="true"
+  >
+    {type === NodeType.IMAGE ? (
+      <>
+        <rect x="3" y="3" width="18" height="18" rx="2" />
+        <circle cx="9" cy="9" r="2" />
+        <path d="m21 15-3.1-3.1a2 2 0 0 0-2.8 0L6 21" />
+      </>
+    ) : type === NodeType.PDF ? (
+      <>
+        <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+        <path d="M14 2v6h6" />
+        <path d="M9 13h6" />
+        <path d="M9 17h4" />
+      </>
+    ) : (
+      <>
+        <circle cx="12" cy="12" r="10" />
+        <path d="M2 12h20" />
+        <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+      </>
+    )}
+  </svg>
+);
+
+export const isMediaNode = (node: GraphNode) =>
+  node.type === NodeType.IMAGE ||
+  node.type === NodeType.PDF ||
+  node.type === NodeType.WEB;
+
+// The image of an image node, scaled to fit. Also used as the thumbnail at
+// the title and cluster levels of detail.
+export const AttachmentImage: React.FC<{
+  node: GraphNode;
+  className?: string;
+}> = ({ node, className = "" }) => {
+  const { url, error } = useAttachmentUrl(node.attachment);
+  if (!url) {
+    return (
+      <div
+        className={`flex items-center justify-center text-slate-500 ${className}`}
+        title={error || undefined}
+      >
+        {error ? (
+          <span className="text-xs italic px-2 text-center">
+            {node.attachment?.name || "Image"} not found
+          </span>
+        ) : (
+          <MediaTypeIcon type={NodeType.IMAGE} className="w-6 h-6 opacity-50" />
+        )}
+      </div>
+    );
+  }
+  return (
+    <img
+      src={url}
+      alt={node.content || node.attachment?.name || ""}
+      draggable={false}
+      className={`object-contain ${className}`}
+    />
+  );
+};
+
+interface PdfViewerProps {
+  node: GraphNode;
+  isSidebar: boolean;
+  onOpen?: (id: string) => void;
+}
+
+// On the canvas a PDF node is a card; opened in a side pane it shows the
+// document with page navigation
+export const PdfViewer: React.FC<PdfViewerProps> = ({ node, isSidebar, onOpen }) => {
+  const { url, error } = useAttachmentUrl(isSidebar ? node.attachment : undefined);
+  const [page, setPage] = useState(1);
+  const [pageInput, setPageInput] = useState("1");
+  const [pageCount, setPageCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    fetch(url)
+      .then((res) => res.arrayBuffer())
+      .then((data) => !cancelled && setPageCount(countPdfPages(data)))
+      .catch(() => !cancelled && setPageCount(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  const goToPage = (target: number) => {
+    const next = Math.max(1, pageCount ? Math.min(target, pageCount) : target);
+    setPage(next);
+    setPageInput(String(next));
+  };
+
+  if (!isSidebar) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-2 p-3 text-center">
+        <MediaTypeIcon type={NodeType.PDF} className="w-10 h-10 text-red-400/80" />
+        <p className="text-xs text-slate-300 truncate max-w-full">
+          {node.attachment?.name || "Document.pdf"}
+        </p>
+        {node.attachment?.size ? (
+          <p className="text-[10px] text-slate-500">
+            {formatSize(node.attachment.size)}
+          </p>
+        ) : null}
+        {onOpen && (
+          <button
+            className="pointer-events-auto mt-1 px-3 py-1 text-xs font-bold rounded-lg bg-slate-700 hover:bg-slate-600 text-white transition-colors"
+            onClick={(e) => {
+              e.stopPropagation();
+              onOpen(node.id);
+            }}
+            {...stopPointer}
+          >
+            Open in side pane
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0" {...stopPointer}>
+      <div className="flex items-center justify-center gap-2 px-4 py-2 border-b border-slate-700/60 text-sm text-slate-300 shrink-0">
+        <button
+          className="px-2 py-0.5 rounded hover:bg-slate-700 disabled:opacity-40"
+          disabled={page <= 1}
+          onClick={() => goToPage(page - 1)}
+          title="Previous page"
+        >
+          ‹
+        </button>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            const target = parseInt(pageInput, 10);
+            if (Number.isFinite(target)) goToPage(target);
+            else setPageInput(String(page));
+          }}
+        >
+          <input
+            className="w-12 bg-black/20 border border-slate-600 rounded px-1.5 py-0.5 text-center text-sm text-slate-200 focus:outline-none focus:border-sky-500"
+            value={pageInput}
+            onChange={(e) => setPageInput(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            aria-label="Page"
+          />
+        </form>
+        {pageCount && <span className="text-slate-500">of {pageCount}</span>}
+        <button
+          className="px-2 py-0.5 rounded hover:bg-slate-700 disabled:opacity-40"
+          disabled={pageCount !== null && page >= pageCount}
+          onClick={() => goToPage(page + 1)}
+          title="Next page"
+        >
+          ›
+        </button>
+      </div>
+      {url ? (
+        // The page is part of the URL, so the viewer is reloaded at that page
+        <iframe
+          key={page}
+          src={`${url}#page=${page}`}
+          title={node.attachment?.name || node.content}
+          className="flex-1 w-full bg-white"
+        />
+      ) : (
+        <div className="flex-1 flex items-center justify-center text-sm text-slate-500 italic">
+          {error ? `${node.attachment?.name || "PDF"} not found` : "Loading..."}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface WebClipHeaderProps {
+  node: GraphNode;
+  isSidebar: boolean;
+  onOpenLink?: (url: string) => void;
+}
+
+// Where a web node was clipped from, above its snapshot
+export const WebClipHeader: React.FC<WebClipHeaderProps> = ({
+  node,
+  isSidebar,
+  onOpenLink,
+}) => {
+  let host = "";
+  try {
+    host = node.link ? new URL(node.link).hostname.replace(/^www\./, "") : "";
+  } catch {
+    host = node.link || "";
+  }
+  const clippedAt = node.clip?.clippedAt
+    ? new Date(node.clip.clippedAt).toLocaleDateString()
+    : "";
+
+  return (
+    <div
+      className={`shrink-0 border-b border-slate-700/60 bg-black/10 pointer-events-auto ${
+        isSidebar ? "px-6 py-3" : "px-3 py-2"
+      }`}
+      {...stopPointer}
+    >
+      <div className="flex items-center gap-1.5 text-[10px] uppercase font-bold text-slate-400">
+        <MediaTypeIcon type={NodeType.WEB} className="w-3 h-3 shrink-0" />
+        <span className="truncate">{node.clip?.siteName || host}</span>
+        {clippedAt && (
+          <span className="text-slate-500 font-normal normal-case shrink-0">
+            · clipped {clippedAt}
+          </span>
+        )}
+        {node.link && (
+          <button
+            className="ml-auto text-sky-400 hover:text-sky-300 normal-case font-normal shrink-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              if (onOpenLink) onOpenLink(node.link!);
+              else window.open(node.link, "_blank", "noopener,noreferrer");
+            }}
+            title={node.link}
+          >
+            Original ↗
+          </button>
+        )}
+      </div>
+      {node.summary && (
+        <p
+          className={`mt-1 text-slate-400 italic ${
+            isSidebar ? "text-sm" : "text-xs line-clamp-3"
+          }`}
+        >
+          {node.summary}
+        </p>
+      )}
+    </div>
+  );
+};
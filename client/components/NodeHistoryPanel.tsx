@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GraphNode } from '../types';
+import { NodeRevision } from '../services/historyService';
+import { HistoryRetention } from '../services/settingsService';
+import { diffLines } from '../utils/textDiff';
+import { formatChatTranscript } from '../utils/chatTranscript';
+import { getNodeTitle } from '../utils/wikiLinks';
+
+interface NodeHistoryPanelProps {
+  node: GraphNode;
+  revisions: NodeRevision[];
+  isLoading: boolean;
+  retention: HistoryRetention;
+  onRestore: (revision: NodeRevision) => void;
+  onRetentionChange: (retention: HistoryRetention) => void;
+  onClose: () => void;
+}
+
+type CompareMode = 'current' | 'previous';
+
+const FIELDS: { label: string; read: (r: Pick<NodeRevision, 'content' | 'summary' | 'messages'>) => string }[] = [
+  { label: 'Content', read: (r) => r.content || '' },
+  { label: 'Summary', read: (r) => r.summary || '' },
+  { label: 'Messages', read: (r) => formatChatTranscript(r.messages || []) },
+];
+
+const DIFF_LINE_CLASSES = {
+  same: 'text-slate-400',
+  added: 'bg-emerald-900/40 text-emerald-200',
+  removed: 'bg-red-900/40 text-red-200 line-through decoration-red-400/50',
+};
+
+const DIFF_LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+export const NodeHistoryPanel: React.FC<NodeHistoryPanelProps> = ({
+  node,
+  revisions,
+  isLoading,
+  retention,
+  onRestore,
+  onRetentionChange,
+  onClose,
+}) => {
+  const [selectedAt, setSelectedAt] = useState<number | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('current');
+
+  useEffect(() => {
+    setSelectedAt(revisions[0]?.savedAt ?? null);
+  }, [revisions]);
+
+  const selectedIndex = revisions.findIndex((r) => r.savedAt === selectedAt);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+
+  const fieldDiffs = useMemo(() => {
+    if (!selected) return [];
+    const [before, after] =
+      compareMode === 'current'
+        ? [selected, node]
+        : [revisions[selectedIndex + 1] || { content: '' }, selected];
+    return FIELDS.map(({ label, read }) => ({
+      label,
+      before: read(before),
+      after: read(after),
+    }))
+      .filter(({ before, after }) => before !== after)
+      .map(({ label, before, after }) => ({ label, lines: diffLines(before, after) }));
+  }, [selected, selectedIndex, compareMode, node, revisions]);
+
+  const updateRetention = (key: keyof HistoryRetention, value: string) => {
+    const parsed = parseInt(value, 10);
+    onRetentionChange({ ...retention, [key]: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 });
+  };
+
+  return (
+    <div className="absolute inset-0 z-[60] flex flex-col bg-slate-900">
+      <div className="h-14 bg-slate-800 border-b border-slate-700 flex items-center justify-between px-4 shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-slate-200 font-bold whitespace-nowrap">History</span>
+          <span className="text-slate-500 text-xs truncate border-l border-slate-700 pl-2 ml-2">
+            {getNodeTitle(node)}
+          </span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+          title="Back to the note"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="18" y1="6" x2="6" y2="18" />
+            <line x1="6" y1="6" x2="18" y2="18" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col">
+        <ul className="max-h-48 overflow-y-auto border-b border-slate-700 p-2 space-y-0.5 shrink-0">
+          {isLoading && <li className="text-sm text-slate-500 px-2 py-1">Loading...</li>}
+          {!isLoading && revisions.length === 0 && (
+            <li className="text-sm italic text-slate-500 px-2 py-1">
+              No earlier versions yet. A version is kept each time the note is saved.
+            </li>
+          )}
+          {revisions.map((revision, i) => (
+            <li key={revision.savedAt}>
+              <button
+                onClick={() => setSelectedAt(revision.savedAt)}
+                className={`w-full text-left px-2 py-1 rounded text-sm transition-colors ${
+                  revision.savedAt === selectedAt
+                    ? 'bg-sky-600/30 text-sky-200'
+                    : 'text-slate-300 hover:bg-slate-700/60'
+                }`}
+              >
+                {new Date(revision.savedAt).toLocaleString()}
+                {i === 0 && <span className="ml-2 text-xs text-slate-500">latest</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {selected && (
+          <>
+            <div className="flex items-center justify-between gap-2 px-4 py-2 shrink-0">
+              <div className="flex gap-1 text-xs">
+                {(['current', 'previous'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCompareMode(mode)}
+                    className={`px-2 py-1 rounded transition-colors ${
+                      compareMode === mode
+                        ? 'bg-slate-700 text-white'
+                        : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {mode === 'current' ? 'Changes since' : 'Changes in'} this version
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => onRestore(selected)}
+                className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 text-white text-sm font-bold rounded-lg transition-all"
+              >
+                Restore
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-3">
+              {fieldDiffs.length === 0 && (
+                <p className="text-sm italic text-slate-500">
+                  {compareMode === 'current'
+                    ? 'Same text as the note now.'
+                    : 'No text changes in this version.'}
+                </p>
+              )}
+              {fieldDiffs.map(({ label, lines }) => (
+                <div key={label}>
+                  <p className="text-[10px] font-bold uppercase tracking-wide text-slate-500 mb-1">{label}</p>
+                  <pre className="text-xs font-mono whitespace-pre-wrap break-words bg-slate-950/60 border border-slate-700 rounded-lg p-2">
+                    {lines.map((line, i) => (
+                      <div key={i} className={DIFF_LINE_CLASSES[line.type]}>
+                        {DIFF_LINE_PREFIX[line.type]} {line.text}
+                      </div>
+                    ))}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-slate-700 flex flex-wrap items-center gap-2 text-xs text-slate-400 shrink-0">
+        Keep up to
+        <input
+          type="number"
+          min={0}
+          value={retention.maxRevisions}
+          onChange={(e) => updateRetention('maxRevisions', e.target.value)}
+          className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-sky-400"
+        />
+        versions per note, for
+        <input
+          type="number"
+          min={0}
+          value={retention.maxAgeDays}
+          onChange={(e) => updateRetention('maxAgeDays', e.target.value)}
+          className="w-16 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 focus:outline-none focus:border-sky-400"
+        />
+        days (0 = no limit)
+      </div>
+    </div>
+  );
+};
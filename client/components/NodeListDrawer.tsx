@@ -2,6 +2,7 @@
 import React, { useState, useMemo } from 'react';
 import { GraphNode, NodeType } from '../types';
 import { NODE_COLORS } from '../constants';
+import { countTags, getNodeTags, nodeHasAnyTag } from '../utils/tags';
 
 interface NodeListDrawerProps {
   nodes: GraphNode[];
@@ -16,24 +17,49 @@ export const NodeListDrawer: React.FC<NodeListDrawerProps> = ({ nodes, isOpen, o
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
   const [typeFilter, setTypeFilter] = useState<'ALL' | NodeType>('ALL');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const filterOptions = useMemo<{ label: string; value: 'ALL' | NodeType }[]>(() => [
     { label: 'All', value: 'ALL' },
     { label: 'Chat', value: NodeType.CHAT },
     { label: 'Note', value: NodeType.NOTE },
+    { label: 'Image', value: NodeType.IMAGE },
+    { label: 'PDF', value: NodeType.PDF },
+    { label: 'Web', value: NodeType.WEB },
   ], []);
 
   const filterCounts = useMemo<Record<'ALL' | NodeType, number>>(() => {
     const chatCount = nodes.filter(node => node.type === NodeType.CHAT).length;
     const noteCount = nodes.filter(node => node.type === NodeType.NOTE).length;
+    const imageCount = nodes.filter(node => node.type === NodeType.IMAGE).length;
+    const pdfCount = nodes.filter(node => node.type === NodeType.PDF).length;
+    const webCount = nodes.filter(node => node.type === NodeType.WEB).length;
     return {
       ALL: nodes.length,
       [NodeType.CHAT]: chatCount,
       [NodeType.NOTE]: noteCount,
+      [NodeType.IMAGE]: imageCount,
+      [NodeType.PDF]: pdfCount,
+      [NodeType.WEB]: webCount,
     };
   }, [nodes]);
 
+  const tagCounts = useMemo(() => countTags(nodes), [nodes]);
+
+  const toggleTag = (tag: string) => {
+    const key = tag.toLowerCase();
+    setTagFilter(prev =>
+      prev.some(t => t.toLowerCase() === key)
+        ? prev.filter(t => t.toLowerCase() !== key)
+        : [...prev, tag]
+    );
+  };
+
   const filteredNodes = useMemo(() => {
-    const scopedNodes = typeFilter === 'ALL' ? nodes : nodes.filter(node => node.type === typeFilter);
+    const typedNodes = typeFilter === 'ALL' ? nodes : nodes.filter(node => node.type === typeFilter);
+    // Nodes with any of the picked tags
+    const scopedNodes = tagFilter.length === 0
+      ? typedNodes
+      : typedNodes.filter(node => nodeHasAnyTag(getNodeTags(node), tagFilter));
 
     if (!searchTerm.trim()) {
       return [...scopedNodes].sort((a, b) => (a.content || 'Untitled').localeCompare(b.content || 'Untitled'));
@@ -52,7 +78,7 @@ export const NodeListDrawer: React.FC<NodeListDrawerProps> = ({ nodes, isOpen, o
       // "Fuzzy" check: all typed terms must appear in the content
       return terms.every(term => searchableText.includes(term));
     }).sort((a, b) => (a.content || 'Untitled').localeCompare(b.content || 'Untitled'));
-  }, [nodes, searchTerm, typeFilter]);
+  }, [nodes, searchTerm, typeFilter, tagFilter]);
 
   const handleStartEdit = (e: React.MouseEvent | React.TouchEvent, node: GraphNode) => {
       e.stopPropagation();
@@ -126,6 +152,27 @@ export const NodeListDrawer: React.FC<NodeListDrawerProps> = ({ nodes, isOpen, o
                 );
               })}
             </div>
+            {tagCounts.length > 0 && (
+              <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+                {tagCounts.map(({ tag, count }) => {
+                  const isActive = tagFilter.some(t => t.toLowerCase() === tag.toLowerCase());
+                  return (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`px-1.5 py-0.5 rounded-full border text-[11px] transition-colors flex items-center gap-1 ${
+                        isActive
+                          ? 'border-sky-500 bg-sky-900/40 text-sky-300'
+                          : 'border-slate-700 bg-slate-800/80 text-slate-400 hover:border-slate-600'
+                      }`}
+                    >
+                      <span>#{tag}</span>
+                      <span className="text-[10px] text-slate-500">{count}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
         </div>
         
@@ -137,6 +184,8 @@ export const NodeListDrawer: React.FC<NodeListDrawerProps> = ({ nodes, isOpen, o
                    <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round" className="opacity-50"><circle cx="11" cy="11" r="8"/><line x1="21" y1="21" x2="16.65" y2="16.65"/></svg>
                    <p className="text-sm">No nodes found for "{searchTerm}"</p>
                  </>
+               ) : tagFilter.length > 0 ? (
+                 <p className="text-sm">No {typeFilter === 'ALL' ? '' : `${typeFilter.toLowerCase()} `}nodes with these tags.</p>
                ) : typeFilter !== 'ALL' ? (
                  <>
                    <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round" className="opacity-50"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"/></svg>
@@ -196,6 +245,9 @@ export const NodeListDrawer: React.FC<NodeListDrawerProps> = ({ nodes, isOpen, o
                                     {node.messages.length}
                                 </span>
                             )}
+                            {getNodeTags(node).slice(0, 3).map(tag => (
+                                <span key={tag} className="text-[10px] text-slate-500 truncate">#{tag}</span>
+                            ))}
                         </div>
                       </div>
                       
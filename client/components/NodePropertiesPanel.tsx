@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from "react";
+import { GraphNode, PropertyField, PropertyType, PropertyValue } from "../types";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { getNodeTags } from "../utils/tags";
+import {
+  PROPERTY_TYPES,
+  coercePropertyValue,
+  setPropertyValue,
+  getSchemaFields,
+  getPropertySchema,
+  savePropertySchema,
+} from "../services/propertyService";
+
+interface NodePropertiesPanelProps {
+  node: GraphNode;
+  allNodes?: GraphNode[];
+  onUpdate: (id: string, updates: Partial<GraphNode>) => void;
+  onNavigateToNode?: (title: string) => void;
+  isSidebar?: boolean;
+}
+
+const inputClass =
+  "flex-1 min-w-0 bg-black/20 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-sky-500 placeholder-slate-600";
+
+const stopPointer = {
+  onMouseDown: (e: React.MouseEvent) => e.stopPropagation(),
+  onTouchStart: (e: React.TouchEvent) => e.stopPropagation(),
+};
+
+// Typed properties of a node: the fields of the schemas of its tags, then
+// its other properties. Values are saved when an input loses focus.
+export const NodePropertiesPanel: React.FC<NodePropertiesPanelProps> = ({
+  node,
+  allNodes,
+  onUpdate,
+  onNavigateToNode,
+  isSidebar = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(isSidebar || !!node.properties?.length);
+  // Fields added here that have no value yet
+  const [pendingFields, setPendingFields] = useState<PropertyField[]>([]);
+  const [newKey, setNewKey] = useState("");
+  const [newType, setNewType] = useState<PropertyType>("text");
+  const [schemaTag, setSchemaTag] = useState("");
+  const [schemaVersion, setSchemaVersion] = useState(0);
+
+  const tags = useMemo(() => getNodeTags(node), [node]);
+  // schemaVersion re-reads the schemas after one is saved from this panel
+  const schemaFields = useMemo(
+    () => getSchemaFields(node),
+    [node, schemaVersion]
+  );
+  const fields = useMemo(() => {
+    const all: PropertyField[] = [...schemaFields];
+    const add = (field: PropertyField) => {
+      if (!all.some((f) => f.key === field.key)) all.push(field);
+    };
+    node.properties?.forEach((p) => add({ key: p.key, type: p.type }));
+    pendingFields.forEach(add);
+    return all;
+  }, [schemaFields, node.properties, pendingFields]);
+
+  const targetNodes = useMemo(
+    () =>
+      (allNodes || [])
+        .filter((n) => n.id !== node.id)
+        .map((n) => ({ id: n.id, title: getNodeTitle(n) }))
+        .sort((a, b) => a.title.localeCompare(b.title)),
+    [allNodes, node.id]
+  );
+
+  const valueOf = (key: string) =>
+    node.properties?.find((p) => p.key === key)?.value;
+
+  const commit = (field: PropertyField, raw: unknown) => {
+    const value: PropertyValue | undefined = coercePropertyValue(field.type, raw);
+    if (value === valueOf(field.key)) return;
+    onUpdate(node.id, {
+      properties: setPropertyValue(node.properties, field, value),
+    });
+    if (value !== undefined) {
+      setPendingFields((prev) => prev.filter((f) => f.key !== field.key));
+    }
+  };
+
+  const removeField = (field: PropertyField) => {
+    setPendingFields((prev) => prev.filter((f) => f.key !== field.key));
+    if (valueOf(field.key) !== undefined) commit(field, undefined);
+  };
+
+  const handleAddField = (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = newKey.trim();
+    if (!key || fields.some((f) => f.key === key)) return;
+    setPendingFields((prev) => [...prev, { key, type: newType }]);
+    setNewKey("");
+  };
+
+  // No fields removes the tag's schema
+  const handleSaveSchema = (schemaFieldsToSave: PropertyField[]) => {
+    if (!schemaTag) return;
+    savePropertySchema(schemaTag, schemaFieldsToSave);
+    setSchemaVersion((v) => v + 1);
+  };
+
+  const renderInput = (field: PropertyField) => {
+    const value = valueOf(field.key);
+    switch (field.type) {
+      case "boolean":
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => commit(field, e.target.checked)}
+            className="accent-sky-500 w-3 h-3"
+          />
+        );
+      case "date":
+        return (
+          <input
+            type="date"
+            className={inputClass}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => commit(field, e.target.value)}
+          />
+        );
+      case "node": {
+        const target = targetNodes.find((n) => n.id === value);
+        return (
+          <>
+            <select
+              className={inputClass}
+              value={target ? target.id : ""}
+              onChange={(e) => commit(field, e.target.value)}
+            >
+              <option value="">—</option>
+              {targetNodes.map((n) => (
+                <option key={n.id} value={n.id}>
+                  {n.title}
+                </option>
+              ))}
+            </select>
+            {target && onNavigateToNode && (
+              <button
+                className="text-sky-400 hover:text-sky-300 shrink-0"
+                title={`Go to ${target.title}`}
+                onClick={() => onNavigateToNode(target.title)}
+              >
+                →
+              </button>
+            )}
+          </>
+        );
+      }
+      default:
+        return (
+          <>
+            <input
+              // Remount when the value changes elsewhere
+              key={String(value ?? "")}
+              type={field.type === "number" ? "number" : field.type === "url" ? "url" : "text"}
+              className={inputClass}
+              defaultValue={value === undefined ? "" : String(value)}
+              placeholder={field.type === "url" ? "https://" : ""}
+              onBlur={(e) => commit(field, e.target.value)}
+              onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+            />
+            {field.type === "url" && typeof value === "string" && (
+              <a
+                href={value}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sky-400 hover:text-sky-300 shrink-0"
+                title="Open link"
+              >
+                ↗
+              </a>
+            )}
+          </>
+        );
+    }
+  };
+
+  return (
+    <div
+      className={`border-b border-slate-700/60 bg-black/10 pointer-events-auto ${
+        isSidebar ? "px-6 py-3" : "px-3 py-1.5"
+      }`}
+      {...stopPointer}
+    >
+      <button
+        className="w-full flex items-center justify-between text-[10px] uppercase font-bold text-slate-400 hover:text-slate-200"
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <span>
+          Properties
+          {node.properties?.length ? ` (${node.properties.length})` : ""}
+        </span>
+        <span>{isOpen ? "▾" : "▸"}</span>
+      </button>
+
+      {isOpen && (
+        <div className="flex flex-col gap-1 mt-1.5">
+          {fields.map((field) => {
+            const fromSchema = schemaFields.some((f) => f.key === field.key);
+            return (
+              <div key={field.key} className="flex items-center gap-2 text-xs group/prop">
+                <span
+                  className="w-24 shrink-0 truncate text-slate-400"
+                  title={`${field.key} (${field.type})`}
+                >
+                  {field.key}
+                </span>
+                {renderInput(field)}
+                <button
+                  className="text-slate-500 hover:text-red-400 opacity-0 group-hover/prop:opacity-100 shrink-0"
+                  title={fromSchema ? "Clear" : "Remove"}
+                  onClick={() => removeField(field)}
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+
+          <form onSubmit={handleAddField} className="flex items-center gap-2 text-xs mt-1">
+            <input
+              className={inputClass}
+              placeholder="New property"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={(e) => e.stopPropagation()}
+            />
+            <select
+              className="bg-black/20 border border-slate-600 rounded px-1 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-sky-500"
+              value={newType}
+              onChange={(e) => setNewType(e.target.value as PropertyType)}
+            >
+              {PROPERTY_TYPES.map((t) => (
+                <option key={t.type} value={t.type}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={!newKey.trim()}
+              className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </form>
+
+          {tags.length > 0 && fields.length > 0 && (
+            <div className="flex items-center gap-2 text-xs text-slate-400 mt-1">
+              <span className="shrink-0">Fields of</span>
+              <select
+                className="bg-black/20 border border-slate-600 rounded px-1 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-sky-500"
+                value={schemaTag}
+                onChange={(e) => setSchemaTag(e.target.value)}
+              >
+                <option value="">#tag…</option>
+                {tags.map((tag) => (
+                  <option key={tag} value={tag}>
+                    #{tag}
+                    {getPropertySchema(tag) ? " (has fields)" : ""}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="text-sky-400 hover:text-sky-300 disabled:opacity-40"
+                disabled={!schemaTag}
+                onClick={() =>
+                  handleSaveSchema(fields.map(({ key, type }) => ({ key, type })))
+                }
+                title="Every node with this tag gets these fields"
+              >
+                Save as schema
+              </button>
+              {schemaTag && getPropertySchema(schemaTag) && (
+                <button
+                  className="text-slate-500 hover:text-red-400"
+                  onClick={() => handleSaveSchema([])}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
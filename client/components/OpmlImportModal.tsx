@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { OpmlImportMode } from '../services/opmlService';
+import { PendingOpmlImport } from '../hooks/useGraphImport';
+
+interface OpmlImportModalProps {
+  pendingImport: PendingOpmlImport | null;
+  onImport: (mode: OpmlImportMode) => void;
+  onClose: () => void;
+}
+
+const IMPORT_MODES: { key: OpmlImportMode; title: string; description: string }[] = [
+  {
+    key: 'edges',
+    title: 'Connect with subtopic edges',
+    description: 'All items land in the current scope, laid out as a tree.',
+  },
+  {
+    key: 'scopes',
+    title: 'Nest as scopes',
+    description: 'The children of an item are placed inside it; open it to see them.',
+  },
+];
+
+export const OpmlImportModal: React.FC<OpmlImportModalProps> = ({
+  pendingImport,
+  onImport,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<OpmlImportMode>('edges');
+
+  if (!pendingImport) return null;
+
+  const { fileName, title, outlines, itemCount } = pendingImport;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-white mb-1">Import outline</h2>
+            <p className="text-sm text-slate-400 break-all">{title || fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          <p className="text-sm text-slate-200">
+            {itemCount} item(s), {outlines.length} at the top level
+          </p>
+          <div className="space-y-2">
+            {IMPORT_MODES.map(({ key, title, description }) => (
+              <label
+                key={key}
+                className={`flex items-start gap-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+                  mode === key ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-600'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="opml-import-mode"
+                  className="mt-1 accent-sky-500"
+                  checked={mode === key}
+                  onChange={() => setMode(key)}
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-slate-100">{title}</span>
+                  <span className="block text-xs text-slate-400">{description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(mode)}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
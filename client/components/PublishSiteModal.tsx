@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { GraphExportScope } from '../hooks/useGraphExport';
+
+interface PublishSiteModalProps {
+  isOpen: boolean;
+  isExporting: boolean;
+  scopeName: string;
+  defaultTitle: string;
+  onPublish: (scope: GraphExportScope, title: string) => void;
+  onClose: () => void;
+}
+
+export const PublishSiteModal: React.FC<PublishSiteModalProps> = ({
+  isOpen,
+  isExporting,
+  scopeName,
+  defaultTitle,
+  onPublish,
+  onClose,
+}) => {
+  const [title, setTitle] = useState(defaultTitle);
+  const [scope, setScope] = useState<GraphExportScope>('graph');
+
+  useEffect(() => {
+    if (isOpen) setTitle(defaultTitle);
+  }, [isOpen, defaultTitle]);
+
+  if (!isOpen) return null;
+
+  const optionClass = (isSelected: boolean) =>
+    `flex items-start gap-3 border rounded-lg p-3 cursor-pointer transition-colors ${
+      isSelected ? 'border-sky-500 bg-sky-900/20' : 'border-slate-700 hover:border-slate-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white mb-1">Publish static site</h2>
+            <p className="text-sm text-slate-400">
+              A read-only folder of HTML pages, with a canvas and search. Open its index.html
+              from disk or upload it to any static host.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-4">
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Site title</p>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-sky-500"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Nodes</p>
+            <div className="flex gap-2">
+              {(['scope', 'graph'] as const).map((key) => (
+                <label key={key} className={`flex-1 ${optionClass(scope === key)}`}>
+                  <input
+                    type="radio"
+                    name="publish-site-scope"
+                    className="mt-1 accent-sky-500"
+                    checked={scope === key}
+                    onChange={() => setScope(key)}
+                  />
+                  <span className="text-sm text-slate-100 min-w-0 truncate">
+                    {key === 'scope' ? `${scopeName} and nested scopes` : 'Whole graph'}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onPublish(scope, title)}
+            disabled={isExporting}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isExporting ? 'Publishing...' : 'Download .zip'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -528,7 +528,10 @@ export const WebContent: React.FC<{
           const title = url.split("/wiki/")[1]?.split("?")[0]?.split("#")[0];
           if (!title) throw new Error("Invalid Wikipedia URL");
 
-          const api = `https://en.wikipedia.org/w/api.php?action=parse&page=${title}&format=json&origin=*&prop=text&mobileformat=1`;
+          // Articles are read from the wiki of their own language
+          const host =
+            url.match(/\/\/([a-z][a-z\-]*)(?:\.m)?\.wikipedia\.org\//i)?.[1]?.toLowerCase() || "en";
+          const api = `https://${host}.wikipedia.org/w/api.php?action=parse&page=${title}&format=json&origin=*&prop=text&mobileformat=1`;
           const res = await fetch(api);
           const data = await res.json();
           if (data.error) throw new Error(data.error.info);
@@ -536,7 +539,7 @@ export const WebContent: React.FC<{
           let html = data.parse?.text?.["*"] || "";
           html = html.replace(
             /href="\/wiki\//g,
-            'target="_blank" href="https://en.wikipedia.org/wiki/'
+            `target="_blank" href="https://${host}.wikipedia.org/wiki/`
           );
           html = html.replace(/src="\/\//g, 'src="https://');
           setContent(html);
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from "react";
+import { TagFilterMode } from "../types";
+
+interface TagPanelProps {
+  tags: { tag: string; count: number }[];
+  selectedTags: string[];
+  mode: TagFilterMode;
+  onToggleTag: (tag: string) => void;
+  onModeChange: (mode: TagFilterMode) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODE_OPTIONS: { mode: TagFilterMode; label: string; description: string }[] = [
+  { mode: "show", label: "Show", description: "Show only nodes with these tags" },
+  { mode: "dim", label: "Dim", description: "Dim nodes without these tags" },
+  { mode: "hide", label: "Hide", description: "Hide nodes with these tags" },
+];
+
+// Tags used in the current scope, with the number of nodes for each. Picking
+// tags filters the canvas.
+export const TagPanel: React.FC<TagPanelProps> = ({
+  tags,
+  selectedTags,
+  mode,
+  onToggleTag,
+  onModeChange,
+  onClear,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const selected = useMemo(
+    () => new Set(selectedTags.map((t) => t.toLowerCase())),
+    [selectedTags]
+  );
+  const visibleTags = useMemo(() => {
+    const term = query.trim().replace(/^#/, "").toLowerCase();
+    return term ? tags.filter(({ tag }) => tag.toLowerCase().includes(term)) : tags;
+  }, [tags, query]);
+
+  return (
+    <div
+      className="absolute top-20 right-4 z-40 w-60 max-h-[60vh] flex flex-col bg-slate-950/95 backdrop-blur border border-slate-800 rounded-2xl shadow-2xl pointer-events-auto animate-in fade-in slide-in-from-right-2"
+      onMouseDown={(e) => e.stopPropagation()}
+      onWheel={(e) => e.stopPropagation()}
+    >
+      <div className="p-3 border-b border-slate-800 flex flex-col gap-2 shrink-0">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-semibold text-slate-400 uppercase tracking-wide">
+            Tags
+          </p>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-500 hover:text-white rounded"
+            title="Close"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-1 text-[11px] font-bold uppercase">
+          {MODE_OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              onClick={() => onModeChange(option.mode)}
+              title={option.description}
+              className={`px-2 py-1 rounded-md border transition-colors ${
+                mode === option.mode
+                  ? "border-sky-500 bg-sky-900/40 text-sky-300"
+                  : "border-slate-700 bg-slate-800/80 text-slate-400 hover:border-slate-600"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          placeholder="Find a tag..."
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-lg py-1 px-2 focus:outline-none focus:border-sky-500 placeholder-slate-500"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {visibleTags.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center p-4">
+            {tags.length === 0 ? "No tags in this scope yet." : "No matching tags."}
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-0.5">
+            {visibleTags.map(({ tag, count }) => {
+              const isSelected = selected.has(tag.toLowerCase());
+              return (
+                <li key={tag}>
+                  <button
+                    onClick={() => onToggleTag(tag)}
+                    className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded-lg text-sm text-left transition-colors ${
+                      isSelected
+                        ? "bg-sky-900/40 text-sky-300"
+                        : "text-slate-300 hover:bg-slate-900"
+                    }`}
+                  >
+                    <span className="truncate">#{tag}</span>
+                    <span className="text-[10px] text-slate-500 shrink-0">{count}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {selectedTags.length > 0 && (
+        <div className="p-2 border-t border-slate-800 shrink-0">
+          <button
+            onClick={onClear}
+            className="w-full text-xs text-slate-400 hover:text-white py-1"
+          >
+            Clear filter ({selectedTags.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
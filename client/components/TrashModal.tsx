@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { GraphNode } from '../types';
+import { TrashedNode } from '../services/storageService';
+import { getNodeTitle } from '../utils/wikiLinks';
+
+interface TrashModalProps {
+  isOpen: boolean;
+  isLoading: boolean;
+  trashedNodes: TrashedNode[];
+  nodes: GraphNode[];
+  onRestore: (nodeId: string) => void;
+  onPurge: (nodeId: string) => void;
+  onEmptyTrash: () => void;
+  onClose: () => void;
+}
+
+export const TrashModal: React.FC<TrashModalProps> = ({
+  isOpen,
+  isLoading,
+  trashedNodes,
+  nodes,
+  onRestore,
+  onPurge,
+  onEmptyTrash,
+  onClose,
+}) => {
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  if (!isOpen) return null;
+
+  const titleById = new Map<string, string>(nodes.map((n) => [n.id, getNodeTitle(n)]));
+  trashedNodes.forEach((t) => {
+    if (!titleById.has(t.node.id)) titleById.set(t.node.id, getNodeTitle(t.node));
+  });
+  const describeNode = (id: string) => titleById.get(id) || 'missing node';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white mb-1">Trash</h2>
+            <p className="text-sm text-slate-400">
+              Deleted notes are kept in the vault's .trash folder until you delete them here.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          {isLoading && trashedNodes.length === 0 && (
+            <p className="text-sm text-slate-500">Loading...</p>
+          )}
+          {!isLoading && trashedNodes.length === 0 && (
+            <p className="text-sm italic text-slate-500">The trash is empty.</p>
+          )}
+          {trashedNodes.map((item) => {
+            const edges = [
+              ...item.edges.map((e) => `${e.label} → ${describeNode(e.target)}`),
+              ...item.incomingEdges.map((e) => `${describeNode(e.source)} → ${e.label}`),
+            ];
+            return (
+              <div key={item.node.id} className="border border-slate-700 rounded-lg p-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-100 truncate">{getNodeTitle(item.node)}</p>
+                    <p className="text-xs text-slate-500">
+                      {item.deletedAt ? `Deleted ${new Date(item.deletedAt).toLocaleString()}` : 'Deleted'}
+                      {item.originalPath && (
+                        <span className="ml-2 font-mono">{item.originalPath}</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => onRestore(item.node.id)}
+                      className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 text-white text-sm font-bold rounded-lg transition-all"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => onPurge(item.node.id)}
+                      className="px-3 py-1.5 bg-slate-700 hover:bg-red-600 text-white text-sm font-bold rounded-lg transition-all"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+                {edges.length > 0 && (
+                  <ul className="mt-2 space-y-0.5">
+                    {edges.map((edge, i) => (
+                      <li key={i} className="text-xs text-slate-400 truncate">
+                        {edge}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {trashedNodes.length > 0 && (
+          <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+            {confirmEmpty ? (
+              <>
+                <span className="text-sm text-slate-400 self-center mr-auto">
+                  Permanently delete {trashedNodes.length} note(s)?
+                </span>
+                <button
+                  onClick={() => setConfirmEmpty(false)}
+                  className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    setConfirmEmpty(false);
+                    onEmptyTrash();
+                  }}
+                  className="px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white text-sm font-bold rounded-lg transition-all"
+                >
+                  Empty trash
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmEmpty(true)}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-red-600 text-white text-sm font-bold rounded-lg transition-all"
+              >
+                Empty trash
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import {
+  VaultCheckReport,
+  VaultProblemClass,
+  countVaultProblems,
+} from '../services/vaultCheckService';
+
+interface VaultCheckModalProps {
+  isOpen: boolean;
+  isChecking: boolean;
+  report: VaultCheckReport | null;
+  onRepair: (problemClasses: Set<VaultProblemClass>) => void;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+const PROBLEM_CLASSES: {
+  key: VaultProblemClass;
+  title: string;
+  repair: string;
+}[] = [
+  {
+    key: 'malformedFiles',
+    title: 'Unparsable files',
+    repair: 'Move them to the .quarantine folder',
+  },
+  {
+    key: 'duplicateIds',
+    title: 'Duplicate ids',
+    repair: 'Give the copies new ids',
+  },
+  {
+    key: 'danglingEdges',
+    title: 'Edges to missing nodes',
+    repair: 'Remove the edges',
+  },
+  {
+    key: 'orphanedChildren',
+    title: 'Nodes in deleted scopes',
+    repair: 'Move them to the top level',
+  },
+];
+
+const describeProblem = (report: VaultCheckReport, key: VaultProblemClass): string[] => {
+  switch (key) {
+    case 'malformedFiles':
+      return report.malformedFiles.map((p) => `${p.path}: ${p.reason}`);
+    case 'duplicateIds':
+      return report.duplicateIds.map(
+        (p) => `${p.duplicatePaths.join(', ')} (same id as ${p.keptPath})`
+      );
+    case 'danglingEdges':
+      return report.danglingEdges.map((p) => `${p.path} → ${p.target || '(no target)'}`);
+    case 'orphanedChildren':
+      return report.orphanedChildren.map((p) => `${p.path} (scope ${p.parentId})`);
+  }
+};
+
+export const VaultCheckModal: React.FC<VaultCheckModalProps> = ({
+  isOpen,
+  isChecking,
+  report,
+  onRepair,
+  onRecheck,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<Set<VaultProblemClass>>(new Set());
+
+  // Select every class that has problems whenever a new report comes in
+  useEffect(() => {
+    if (!report) return;
+    setSelected(
+      new Set(PROBLEM_CLASSES.filter(({ key }) => report[key].length > 0).map(({ key }) => key))
+    );
+  }, [report]);
+
+  if (!isOpen) return null;
+
+  const problemCount = report ? countVaultProblems(report) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white mb-1">Check vault</h2>
+            <p className="text-sm text-slate-400">
+              {!report
+                ? 'Scanning the vault folder...'
+                : problemCount === 0
+                ? `No problems found in ${report.fileCount} file(s).`
+                : `Found ${problemCount} problem(s) in ${report.fileCount} file(s).`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          {report &&
+            PROBLEM_CLASSES.filter(({ key }) => report[key].length > 0).map(({ key, title, repair }) => (
+              <div key={key} className="border border-slate-700 rounded-lg p-3">
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 accent-sky-500"
+                    checked={selected.has(key)}
+                    onChange={(e) =>
+                      setSelected((prev) => {
+                        const next = new Set(prev);
+                        if (e.target.checked) next.add(key);
+                        else next.delete(key);
+                        return next;
+                      })
+                    }
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-semibold text-slate-100">
+                      {title} ({report[key].length})
+                    </span>
+                    <span className="block text-xs text-slate-400">Repair: {repair}</span>
+                  </span>
+                </label>
+                <ul className="mt-2 ml-7 space-y-0.5">
+                  {describeProblem(report, key).map((line, i) => (
+                    <li key={i} className="text-xs font-mono text-slate-400 break-all">
+                      {line}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          {report && report.otherFiles.length > 0 && (
+            <div className="border border-slate-700 rounded-lg p-3">
+              <span className="block text-sm font-semibold text-slate-100">
+                Not Infoverse nodes ({report.otherFiles.length})
+              </span>
+              <span className="block text-xs text-slate-400">
+                Their frontmatter has no id, as in notes from other apps. They are not loaded and are left as they are.
+              </span>
+              <ul className="mt-2 space-y-0.5">
+                {report.otherFiles.map((path) => (
+                  <li key={path} className="text-xs font-mono text-slate-400 break-all">
+                    {path}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onRecheck}
+            disabled={isChecking}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Check again
+          </button>
+          {problemCount > 0 && (
+            <button
+              onClick={() => onRepair(selected)}
+              disabled={isChecking || selected.size === 0}
+              className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+            >
+              Repair selected
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
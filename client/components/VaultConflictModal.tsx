@@ -0,0 +1,85 @@
+import React from 'react';
+import { GraphNode } from '../types';
+import { VaultConflict } from '../hooks/useVaultWatcher';
+import { getNodeTitle } from '../utils/wikiLinks';
+
+interface VaultConflictModalProps {
+  conflicts: VaultConflict[];
+  onResolve: (nodeId: string, resolution: 'mine' | 'disk') => void;
+}
+
+const PREVIEW_LENGTH = 280;
+
+const getPreviewText = (node: GraphNode) => {
+  const lastMessage = node.messages?.[node.messages.length - 1]?.text;
+  const text = [node.content, node.summary, lastMessage].filter(Boolean).join('\n\n');
+  return text.length > PREVIEW_LENGTH ? text.substring(0, PREVIEW_LENGTH) + '...' : text;
+};
+
+const VersionPreview: React.FC<{ label: string; node: GraphNode | null }> = ({ label, node }) => (
+  <div className="flex-1 min-w-0 bg-slate-900/60 border border-slate-700 rounded-lg p-3">
+    <p className="text-[10px] font-bold uppercase tracking-wide text-slate-500 mb-1">{label}</p>
+    {node ? (
+      <p className="text-xs text-slate-300 whitespace-pre-wrap break-words">{getPreviewText(node)}</p>
+    ) : (
+      <p className="text-xs italic text-slate-500">File was deleted</p>
+    )}
+  </div>
+);
+
+export const VaultConflictModal: React.FC<VaultConflictModalProps> = ({ conflicts, onResolve }) => {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3">
+          <h2 className="text-xl font-bold text-white mb-1">Notes changed in two places</h2>
+          <p className="text-sm text-slate-400">
+            These notes were edited on disk while they also had unsaved changes here. Choose which version to keep.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-4">
+          {conflicts.map((conflict) => {
+            const title = conflict.memoryNode
+              ? getNodeTitle(conflict.memoryNode)
+              : conflict.diskNode
+              ? getNodeTitle(conflict.diskNode)
+              : conflict.nodeId;
+            return (
+              <div key={conflict.nodeId} className="border border-slate-700 rounded-lg p-3">
+                <p className="text-sm font-semibold text-slate-100 truncate mb-2">
+                  {title}
+                  {conflict.fileState && (
+                    <span className="ml-2 text-xs font-mono font-normal text-slate-500">
+                      {conflict.fileState.filePath}
+                    </span>
+                  )}
+                </p>
+                <div className="flex flex-col md:flex-row gap-2 mb-3">
+                  <VersionPreview label="In Infoverse" node={conflict.memoryNode} />
+                  <VersionPreview label="On disk" node={conflict.diskNode} />
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => onResolve(conflict.nodeId, 'mine')}
+                    className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 text-white text-sm font-bold rounded-lg transition-all"
+                  >
+                    Keep mine
+                  </button>
+                  <button
+                    onClick={() => onResolve(conflict.nodeId, 'disk')}
+                    className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+                  >
+                    {conflict.diskNode ? 'Use disk version' : 'Accept deletion'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { VaultMigrationPlan } from '../services/vaultMigrationService';
+import { VAULT_SCHEMA_VERSION } from '../constants';
+
+interface VaultMigrationModalProps {
+  plan: VaultMigrationPlan | null;
+  isUpgrading: boolean;
+  onUpgrade: () => void;
+  onOpenReadOnly: () => void;
+  onClose: () => void;
+}
+
+export const VaultMigrationModal: React.FC<VaultMigrationModalProps> = ({
+  plan,
+  isUpgrading,
+  onUpgrade,
+  onOpenReadOnly,
+  onClose,
+}) => {
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+
+  if (!plan) return null;
+
+  const isNewer = plan.newerFiles.length > 0;
+  const preview = plan.upgrades.find((u) => u.path === previewPath) || null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+        <div className="p-6 pb-3">
+          <h2 className="text-xl font-bold text-white mb-1">
+            {isNewer ? 'Vault made by a newer version' : 'Upgrade vault files'}
+          </h2>
+          <p className="text-sm text-slate-400">
+            {isNewer
+              ? `Some files use a newer file format than this version of Infoverse understands (version ${VAULT_SCHEMA_VERSION}). Saving could lose data, so the vault can only be opened read-only.`
+              : 'This vault uses an older file format. Review the changes below before the files are rewritten, or open the vault read-only to leave them as they are.'}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-4 space-y-3">
+          {isNewer ? (
+            <ul className="space-y-0.5">
+              {plan.newerFiles.map((file) => (
+                <li key={file.path} className="text-xs font-mono text-slate-400 break-all">
+                  {file.path} (version {file.version})
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              <ul className="space-y-1">
+                {plan.steps.map(({ migration, paths }) => (
+                  <li key={migration.version} className="text-sm text-slate-200">
+                    {migration.description}
+                    <span className="text-slate-500"> ({paths.length} file(s))</span>
+                  </li>
+                ))}
+                {plan.hasLegacyEdgesFile && (
+                  <li className="text-sm text-slate-200">
+                    Move edges from _edges.json into the node files
+                  </li>
+                )}
+                {plan.upgrades.length > 0 && (
+                  <li className="text-sm text-slate-200">
+                    Record the file format version in {plan.upgrades.length} file(s)
+                  </li>
+                )}
+              </ul>
+
+              {plan.upgrades.length > 0 && (
+                <div className="flex flex-col md:flex-row gap-3 min-h-0">
+                  <ul className="md:w-1/3 max-h-64 overflow-y-auto border border-slate-700 rounded-lg p-1">
+                    {plan.upgrades.map((upgrade) => (
+                      <li key={upgrade.path}>
+                        <button
+                          onClick={() => setPreviewPath(upgrade.path)}
+                          className={`w-full text-left px-2 py-1 rounded text-xs font-mono break-all transition-colors ${
+                            previewPath === upgrade.path
+                              ? 'bg-sky-600/30 text-sky-200'
+                              : 'text-slate-400 hover:bg-slate-700/60'
+                          }`}
+                        >
+                          {upgrade.path}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex-1 min-w-0 flex flex-col md:flex-row gap-2">
+                    {preview ? (
+                      (['before', 'after'] as const).map((side) => (
+                        <div key={side} className="flex-1 min-w-0 bg-slate-900/60 border border-slate-700 rounded-lg p-2">
+                          <p className="text-[10px] font-bold uppercase tracking-wide text-slate-500 mb-1">
+                            {side === 'before' ? 'Now' : 'After upgrade'}
+                          </p>
+                          <pre className="text-[11px] text-slate-300 whitespace-pre-wrap break-words max-h-56 overflow-y-auto">
+                            {preview[side]}
+                          </pre>
+                        </div>
+                      ))
+                    ) : (
+                      <p className="text-xs italic text-slate-500 self-center">
+                        Select a file to preview its changes.
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={isNewer ? onClose : onOpenReadOnly}
+            disabled={isUpgrading}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isNewer ? 'Close folder' : 'Open read-only'}
+          </button>
+          <button
+            onClick={isNewer ? onOpenReadOnly : onUpgrade}
+            disabled={isUpgrading}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isNewer ? 'Open read-only' : isUpgrading ? 'Upgrading...' : 'Upgrade files'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+
+interface WebClipModalProps {
+  isOpen: boolean;
+  isClipping: boolean;
+  onClip: (url: string) => void;
+  onClose: () => void;
+}
+
+// Ask for the address of a page to clip into a web node
+export const WebClipModal: React.FC<WebClipModalProps> = ({
+  isOpen,
+  isClipping,
+  onClip,
+  onClose,
+}) => {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setUrl('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const trimmed = url.trim();
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed || isClipping) return;
+    onClip(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-800 border border-slate-700 rounded-xl shadow-2xl max-w-lg w-full flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200"
+      >
+        <div className="p-6 pb-3 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-white mb-1">Clip web page</h2>
+            <p className="text-sm text-slate-400">
+              Saves a readable copy of the page, with its title and an excerpt, so it stays
+              in the graph even if the page changes.
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-slate-500 hover:text-white text-xl leading-none" title="Close">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-6 pb-4 space-y-2">
+          <p className="text-xs font-bold uppercase tracking-wide text-slate-500">Address</p>
+          <input
+            type="text"
+            autoFocus
+            placeholder="https://"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && onClose()}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-sky-500"
+          />
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!trimmed || isClipping}
+            className="px-3 py-1.5 bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white text-sm font-bold rounded-lg transition-all"
+          >
+            {isClipping ? 'Clipping...' : 'Clip page'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
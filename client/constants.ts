@@ -1,3 +1,5 @@
+import { EdgeType } from "./types";
+
 export const DEFAULT_NODE_WIDTH = 300;
 export const DEFAULT_NODE_HEIGHT = 200;
 export const PARENT_NODE_WIDTH = 400;
@@ -8,7 +10,9 @@ export const NODE_HEADER_HEIGHT = 40;
 
 export const GEMINI_MODEL_FAST = "gemini-2.5-flash";
 
-// Node Color Themes (Dark Mode) - Opaque backgrounds to hide canvas dots
+// Node Color Themes (Dark Mode) - Opaque backgrounds to hide canvas dots.
+// hex is the indicator color, and headerHex, borderHex and textHex the card
+// colors, for exports that cannot use Tailwind classes.
 export const NODE_COLORS = {
   slate: {
     bg: "bg-slate-800",
@@ -16,6 +20,10 @@ export const NODE_COLORS = {
     header: "bg-slate-900",
     text: "text-slate-200",
     indicator: "bg-slate-500",
+    hex: "#64748b",
+    headerHex: "#0f172a",
+    borderHex: "#475569",
+    textHex: "#e2e8f0",
   },
   red: {
     bg: "bg-red-950",
@@ -23,6 +31,10 @@ export const NODE_COLORS = {
     header: "bg-red-900",
     text: "text-red-100",
     indicator: "bg-red-500",
+    hex: "#ef4444",
+    headerHex: "#7f1d1d",
+    borderHex: "#991b1b",
+    textHex: "#fee2e2",
   },
   green: {
     bg: "bg-emerald-950",
@@ -30,6 +42,10 @@ export const NODE_COLORS = {
     header: "bg-emerald-900",
     text: "text-emerald-100",
     indicator: "bg-emerald-500",
+    hex: "#10b981",
+    headerHex: "#064e3b",
+    borderHex: "#065f46",
+    textHex: "#d1fae5",
   },
   blue: {
     bg: "bg-blue-950",
@@ -37,6 +53,10 @@ export const NODE_COLORS = {
     header: "bg-blue-900",
     text: "text-blue-100",
     indicator: "bg-blue-500",
+    hex: "#3b82f6",
+    headerHex: "#1e3a8a",
+    borderHex: "#1e40af",
+    textHex: "#dbeafe",
   },
   amber: {
     bg: "bg-amber-950",
@@ -44,6 +64,10 @@ export const NODE_COLORS = {
     header: "bg-amber-900",
     text: "text-amber-100",
     indicator: "bg-amber-500",
+    hex: "#f59e0b",
+    headerHex: "#78350f",
+    borderHex: "#92400e",
+    textHex: "#fef3c7",
   },
   purple: {
     bg: "bg-purple-950",
@@ -51,6 +75,10 @@ export const NODE_COLORS = {
     header: "bg-purple-900",
     text: "text-purple-100",
     indicator: "bg-purple-500",
+    hex: "#a855f7",
+    headerHex: "#581c87",
+    borderHex: "#6b21a8",
+    textHex: "#f3e8ff",
   },
 };
 
@@ -60,5 +88,132 @@ export const COLORS = {
   activeEdgeStroke: "#38bdf8", // Sky 400
 };
 
+// Relationship vocabulary. Names match the labels the app has always
+// written ("subtopic", "links to", ...), so older edges keep reading right.
+// Custom types are added in settings.
+export const BUILT_IN_EDGE_TYPES: EdgeType[] = [
+  {
+    id: "related",
+    name: "related",
+    directionality: "undirected",
+    synonyms: ["related to", "relates to", "associated with", "connected to", "connected with", "see also"],
+  },
+  {
+    id: "subtopic",
+    name: "subtopic",
+    inverseName: "subtopic of",
+    directionality: "directed",
+    synonyms: ["has subtopic", "subtopics", "sub-item", "subitem", "subcategory", "has subcategory"],
+    inverseSynonyms: ["subcategory of", "sub-item of", "subitem of"],
+  },
+  {
+    id: "includes",
+    name: "includes",
+    inverseName: "part of",
+    directionality: "directed",
+    synonyms: ["include", "contains", "has part", "consists of", "comprises", "has member", "has component"],
+    inverseSynonyms: ["belongs to", "member of", "component of", "contained in"],
+  },
+  {
+    id: "is-a",
+    name: "is a",
+    inverseName: "has instance",
+    directionality: "directed",
+    synonyms: ["is an", "instance of", "type of", "kind of", "subclass of", "example of", "an example of"],
+  },
+  {
+    id: "causes",
+    name: "causes",
+    inverseName: "caused by",
+    directionality: "directed",
+    synonyms: ["leads to", "results in", "produces", "cause of"],
+  },
+  {
+    id: "created-by",
+    name: "created by",
+    inverseName: "created",
+    directionality: "directed",
+    synonyms: ["invented by", "founded by", "developed by", "written by", "authored by", "discovered by", "designed by"],
+  },
+  {
+    id: "influences",
+    name: "influences",
+    inverseName: "influenced by",
+    directionality: "directed",
+    synonyms: ["influenced", "inspired", "affects", "shaped"],
+  },
+  {
+    id: "uses",
+    name: "uses",
+    inverseName: "used by",
+    directionality: "directed",
+    synonyms: ["utilizes", "relies on", "depends on", "requires"],
+  },
+  {
+    id: "similar-to",
+    name: "similar to",
+    directionality: "undirected",
+    synonyms: ["resembles", "analogous to", "comparable to", "equivalent to"],
+  },
+  {
+    id: "opposite-of",
+    name: "opposite of",
+    directionality: "undirected",
+    synonyms: ["contrasts with", "contrary to", "antonym of", "opposed to", "versus"],
+  },
+  {
+    id: "interacts-with",
+    name: "interacts with",
+    directionality: "bidirectional",
+    synonyms: ["collaborates with", "works with", "communicates with", "competes with"],
+  },
+  {
+    id: "links-to",
+    name: "links to",
+    inverseName: "linked from",
+    directionality: "directed",
+    synonyms: ["links", "mentions", "refers to", "references"],
+  },
+  {
+    id: "tagged",
+    name: "tagged",
+    inverseName: "tag of",
+    directionality: "directed",
+    synonyms: ["tagged with", "has tag"],
+  },
+  {
+    id: "cites",
+    name: "cites",
+    inverseName: "cited by",
+    directionality: "directed",
+    synonyms: ["cite", "quotes"],
+  },
+  {
+    id: "shares-author",
+    name: "shares author",
+    directionality: "undirected",
+    synonyms: ["same author"],
+  },
+  {
+    id: "shares-keyword",
+    name: "shares keyword",
+    directionality: "undirected",
+    synonyms: ["same keyword"],
+  },
+];
+
 export const WIKIDATA_SUBTOPIC_LIMIT = 12;
 export const WIKIDATA_MAX_RECURSIVE_NODES_PER_LEVEL = 5;
+
+// How often the local vault folder is checked for edits made outside the app
+export const VAULT_POLL_INTERVAL_MS = 3000;
+
+// Version of the node file format, written as schemaVersion in the
+// frontmatter. Bump it together with a new step in vaultMigrationService.
+export const VAULT_SCHEMA_VERSION = 3;
+
+// Revision history kept per node under .infoverse/history/<id>/. Saves within
+// the merge window replace the newest revision instead of adding one.
+export const HISTORY_MERGE_WINDOW_MS = 10 * 60 * 1000;
+export const DEFAULT_HISTORY_MAX_REVISIONS = 50;
+export const DEFAULT_HISTORY_MAX_AGE_DAYS = 90;
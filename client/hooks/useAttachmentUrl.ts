@@ -0,0 +1,36 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { Attachment } from "../types";
+import { loadAttachmentUrl } from "../services/attachmentService";
+
+interface AttachmentSourceContextType {
+  dirHandle: FileSystemDirectoryHandle | null;
+  isCloud: boolean;
+}
+
+// Where attachments are read from, provided once by the App so nodes don't
+// need the vault handle passed down to them
+export const AttachmentSourceContext =
+  createContext<AttachmentSourceContextType>({ dirHandle: null, isCloud: false });
+
+export const useAttachmentUrl = (attachment?: Attachment) => {
+  const { dirHandle, isCloud } = useContext(AttachmentSourceContext);
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!attachment) return;
+    let cancelled = false;
+    loadAttachmentUrl(attachment, dirHandle, isCloud)
+      .then((loaded) => !cancelled && setUrl(loaded))
+      .catch((e) => !cancelled && setError(e?.message || "File not found"));
+    return () => {
+      cancelled = true;
+    };
+    // The id and path identify the file; the rest of the object may be new
+    // on every render
+  }, [attachment?.id, attachment?.path, dirHandle, isCloud]);
+
+  return { url, error };
+};
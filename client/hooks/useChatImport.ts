@@ -0,0 +1,238 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import * as geminiService from "../services/geminiService";
+import * as hfService from "../services/huggingfaceService";
+import {
+  parseConversationExport,
+  buildChatNodes,
+  ImportedConversation,
+} from "../services/conversationImportService";
+import { typeEdge } from "../services/edgeTypeService";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { pickFile } from "../utils/fileTransfer";
+
+export interface PendingChatImport {
+  fileName: string;
+  conversations: ImportedConversation[];
+}
+
+export interface SuggestedChatEdge {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  type?: string;
+  sourceTitle: string;
+  targetTitle: string;
+}
+
+// Nodes of the scope sent with each relationship request, and how much of a
+// conversation describes it
+const MAX_RELATIONSHIP_TARGETS = 40;
+const SOURCE_TEXT_LENGTH = 300;
+const FALLBACK_TITLE_LENGTH = 60;
+
+// Title from the first question when the AI cannot name the conversation
+const getFallbackTitle = (conversation: ImportedConversation) => {
+  const firstLine =
+    conversation.messages
+      .find((m) => m.role === "user")
+      ?.text.split("\n")
+      .find((line) => line.trim())
+      ?.trim() || "";
+  if (!firstLine) return "Imported chat";
+  return firstLine.length > FALLBACK_TITLE_LENGTH
+    ? firstLine.substring(0, FALLBACK_TITLE_LENGTH - 3) + "..."
+    : firstLine;
+};
+
+export const useChatImport = (
+  nodes: GraphNode[],
+  currentScopeId: string | null,
+  aiProvider: "gemini" | "huggingface",
+  addImportedGraph: (nodes: GraphNode[], edges: GraphEdge[]) => void,
+  setEdgesCallback: (newEdges: GraphEdge[] | ((prev: GraphEdge[]) => GraphEdge[])) => void,
+  setShowLimitModal: (show: boolean) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [pendingChatImport, setPendingChatImport] =
+    useState<PendingChatImport | null>(null);
+  const [suggestedChatEdges, setSuggestedChatEdges] =
+    useState<SuggestedChatEdge[] | null>(null);
+  // Progress message while titles or relationships are requested
+  const [chatImportStatus, setChatImportStatus] = useState<string | null>(null);
+
+  const handleImportChats = useCallback(async () => {
+    const file = await pickFile(".json,application/json");
+    if (!file) return;
+    try {
+      const conversations = parseConversationExport(await file.text());
+      if (conversations.length === 0) {
+        setToast({ visible: true, message: "The file has no conversations" });
+        return;
+      }
+      setPendingChatImport({ fileName: file.name, conversations });
+    } catch (e: any) {
+      console.error("Conversation import failed", e);
+      setToast({ visible: true, message: e?.message || "Failed to read the file" });
+    }
+  }, [setToast]);
+
+  const cancelChatImport = useCallback(() => setPendingChatImport(null), []);
+
+  const confirmChatImport = useCallback(
+    async (selected: number[], suggestEdges: boolean) => {
+      if (!pendingChatImport) return;
+      const service = aiProvider === "huggingface" ? hfService : geminiService;
+      const conversations = selected.map((i) => pendingChatImport.conversations[i]);
+      // Existing nodes only: the imported ones are added below
+      const scopeNodes = nodes.filter(
+        (n) => (n.parentId ?? null) === currentScopeId && n.type !== NodeType.CLUSTER
+      );
+      let isLimitReached = false;
+
+      try {
+        const titles: string[] = [];
+        for (const [i, conversation] of conversations.entries()) {
+          if (conversation.title) {
+            titles.push(conversation.title);
+            continue;
+          }
+          let title = "";
+          if (!isLimitReached) {
+            setChatImportStatus(`Naming conversation ${i + 1} of ${conversations.length}...`);
+            const firstUser = conversation.messages.find((m) => m.role === "user");
+            const firstModel = conversation.messages.find((m) => m.role === "model");
+            try {
+              title = await service.generateTitle(
+                firstUser?.text || "",
+                firstModel?.text || ""
+              );
+            } catch (e: any) {
+              // Any failure only costs the generated title
+              if (e.message === "LIMIT_REACHED") isLimitReached = true;
+              else console.error("Title generation failed", e);
+            }
+          }
+          titles.push(
+            title && title !== "New Chat" ? title : getFallbackTitle(conversation)
+          );
+        }
+
+        const chatNodes = buildChatNodes(conversations, titles);
+        addImportedGraph(chatNodes, []);
+        setToast({
+          visible: true,
+          message: `Imported ${chatNodes.length} conversation(s)`,
+        });
+
+        if (!suggestEdges || scopeNodes.length === 0 || isLimitReached) return;
+        const targets = scopeNodes.slice(0, MAX_RELATIONSHIP_TARGETS).map((n) => ({
+          id: n.id,
+          content: n.summary ? `${getNodeTitle(n)}: ${n.summary}` : getNodeTitle(n),
+        }));
+        const titleById = new Map(scopeNodes.map((n) => [n.id, getNodeTitle(n)]));
+        const suggestions: SuggestedChatEdge[] = [];
+        // The conversations are already imported when this fails
+        let isSuggestionFailed = false;
+        for (const [i, chatNode] of chatNodes.entries()) {
+          setChatImportStatus(
+            `Looking for connections of conversation ${i + 1} of ${chatNodes.length}...`
+          );
+          const question = chatNode.messages?.find((m) => m.role === "user")?.text || "";
+          let relationships: { targetId: string; relationship: string }[] = [];
+          try {
+            relationships = await service.findRelationships(
+              {
+                id: chatNode.id,
+                content: `${chatNode.content}: ${question.substring(0, SOURCE_TEXT_LENGTH)}`,
+              },
+              targets
+            );
+          } catch (e: any) {
+            if (e.message === "LIMIT_REACHED") {
+              isLimitReached = true;
+            } else {
+              console.error("Finding connections failed", e);
+              isSuggestionFailed = true;
+            }
+            break;
+          }
+          relationships
+            .filter((r) => titleById.has(r.targetId) && r.relationship?.trim())
+            .forEach((r) => {
+              const edge = typeEdge(chatNode.id, r.targetId, r.relationship);
+              const titleOf = (id: string) =>
+                id === chatNode.id ? chatNode.content : titleById.get(id)!;
+              suggestions.push({
+                id: crypto.randomUUID(),
+                ...edge,
+                sourceTitle: titleOf(edge.source),
+                targetTitle: titleOf(edge.target),
+              });
+            });
+        }
+        if (suggestions.length > 0) setSuggestedChatEdges(suggestions);
+        if (isSuggestionFailed) {
+          setToast({
+            visible: true,
+            message: `Imported ${chatNodes.length} conversation(s), but connections could not be suggested`,
+          });
+        } else if (suggestions.length === 0 && !isLimitReached) {
+          setToast({ visible: true, message: "No connections to existing nodes found" });
+        }
+      } catch (e) {
+        console.error("Conversation import failed", e);
+        setToast({ visible: true, message: "Failed to import the conversations" });
+      } finally {
+        setPendingChatImport(null);
+        setChatImportStatus(null);
+        if (isLimitReached) setShowLimitModal(true);
+      }
+    },
+    [
+      pendingChatImport,
+      aiProvider,
+      nodes,
+      currentScopeId,
+      addImportedGraph,
+      setShowLimitModal,
+      setToast,
+    ]
+  );
+
+  const acceptSuggestedChatEdges = useCallback(
+    (acceptedIds: Set<string>) => {
+      const accepted = (suggestedChatEdges || []).filter((s) => acceptedIds.has(s.id));
+      setEdgesCallback((prev) => [
+        ...prev,
+        ...accepted.map(({ id, source, target, label, type }) => ({
+          id,
+          source,
+          target,
+          label,
+          type,
+          parentId: currentScopeId || undefined,
+        })),
+      ]);
+      setSuggestedChatEdges(null);
+      if (accepted.length > 0) {
+        setToast({ visible: true, message: `Added ${accepted.length} edge(s)` });
+      }
+    },
+    [suggestedChatEdges, currentScopeId, setEdgesCallback, setToast]
+  );
+
+  const dismissSuggestedChatEdges = useCallback(() => setSuggestedChatEdges(null), []);
+
+  return {
+    pendingChatImport,
+    suggestedChatEdges,
+    chatImportStatus,
+    handleImportChats,
+    cancelChatImport,
+    confirmChatImport,
+    acceptSuggestedChatEdges,
+    dismissSuggestedChatEdges,
+  };
+};
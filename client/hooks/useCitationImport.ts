@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import {
+  parseReferenceFile,
+  buildGraphFromReferences,
+} from "../services/citationImportService";
+import { pickFile } from "../utils/fileTransfer";
+
+export const useCitationImport = (
+  nodes: GraphNode[],
+  currentScopeId: string | null,
+  addImportedGraph: (nodes: GraphNode[], edges: GraphEdge[]) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const handleImportReferences = useCallback(async () => {
+    const file = await pickFile(".bib,.bibtex,.json,application/json");
+    if (!file) return;
+    try {
+      const references = parseReferenceFile(await file.text(), file.name);
+      const scopeNodes = nodes.filter((n) => (n.parentId ?? null) === currentScopeId);
+      const { nodes: referenceNodes, edges, duplicateCount } =
+        buildGraphFromReferences(references, nodes, scopeNodes);
+      const skipped = duplicateCount ? `; ${duplicateCount} already in the graph` : "";
+      if (referenceNodes.length === 0) {
+        setToast({ visible: true, message: `No new references${skipped}` });
+        return;
+      }
+      addImportedGraph(referenceNodes, edges);
+      setToast({
+        visible: true,
+        message: `Imported ${referenceNodes.length} reference(s) and ${edges.length} edge(s)${skipped}`,
+      });
+    } catch (e: any) {
+      console.error("Reference import failed", e);
+      setToast({ visible: true, message: e?.message || "Failed to import the references" });
+    }
+  }, [nodes, currentScopeId, addImportedGraph, setToast]);
+
+  return { handleImportReferences };
+};
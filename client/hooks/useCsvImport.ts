@@ -0,0 +1,162 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge, ViewportTransform } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+import {
+  parseCsv,
+  buildGraphFromCsv,
+  CsvTable,
+  CsvNodeMapping,
+  CsvEdgeMapping,
+} from "../services/csvImportService";
+import { resolveCollisions } from "../services/layoutService";
+import { pickFile } from "../utils/fileTransfer";
+
+export interface CsvFile {
+  fileName: string;
+  table: CsvTable;
+}
+
+export type CsvFileKind = "nodes" | "edges";
+
+export const useCsvImport = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  currentScopeId: string | null,
+  viewTransform: ViewportTransform,
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setEdgesCallback: (newEdges: GraphEdge[] | ((prev: GraphEdge[]) => GraphEdge[])) => void,
+  setSelectedNodeIds: (ids: Set<string>) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+  const [csvNodesFile, setCsvNodesFile] = useState<CsvFile | null>(null);
+  const [csvEdgesFile, setCsvEdgesFile] = useState<CsvFile | null>(null);
+
+  const openCsvImport = useCallback(() => setIsCsvImportOpen(true), []);
+  const closeCsvImport = useCallback(() => {
+    setIsCsvImportOpen(false);
+    setCsvNodesFile(null);
+    setCsvEdgesFile(null);
+  }, []);
+
+  const pickCsvFile = useCallback(
+    async (kind: CsvFileKind) => {
+      const file = await pickFile(".csv,.tsv,.txt,text/csv,text/tab-separated-values");
+      if (!file) return;
+      try {
+        const csvFile = { fileName: file.name, table: parseCsv(await file.text(), file.name) };
+        if (kind === "nodes") setCsvNodesFile(csvFile);
+        else setCsvEdgesFile(csvFile);
+      } catch (e: any) {
+        console.error("CSV read failed", e);
+        setToast({ visible: true, message: e?.message || "Failed to read the file" });
+      }
+    },
+    [setToast]
+  );
+
+  const clearCsvEdgesFile = useCallback(() => setCsvEdgesFile(null), []);
+
+  const confirmCsvImport = useCallback(
+    (nodeMapping: CsvNodeMapping, edgeMapping: CsvEdgeMapping | null) => {
+      if (!csvNodesFile) return;
+      const scopeNodes = nodes.filter(
+        (n) => (n.parentId ?? null) === currentScopeId
+      );
+      const result = buildGraphFromCsv(
+        csvNodesFile.table,
+        nodeMapping,
+        csvEdgesFile?.table ?? null,
+        csvEdgesFile ? edgeMapping : null,
+        scopeNodes
+      );
+      if (result.nodes.length === 0 && result.edges.length === 0) {
+        setToast({
+          visible: true,
+          message:
+            result.duplicateCount > 0
+              ? "Every row is already in this scope"
+              : "There is nothing to import",
+        });
+        return;
+      }
+
+      // Center the batch in the viewport, then push it clear of the nodes
+      // already there
+      const centerX = (window.innerWidth / 2 - viewTransform.x) / viewTransform.k;
+      const centerY = (window.innerHeight / 2 - viewTransform.y) / viewTransform.k;
+      const minX = Math.min(...result.nodes.map((n) => n.x));
+      const minY = Math.min(...result.nodes.map((n) => n.y));
+      const maxX = Math.max(...result.nodes.map((n) => n.x + (n.width || DEFAULT_NODE_WIDTH)));
+      const maxY = Math.max(...result.nodes.map((n) => n.y + (n.height || DEFAULT_NODE_HEIGHT)));
+      const newNodes = result.nodes.map((n) => ({
+        ...n,
+        x: n.x + centerX - (minX + maxX) / 2,
+        y: n.y + centerY - (minY + maxY) / 2,
+        parentId: currentScopeId || undefined,
+      }));
+      const newEdges = result.edges.map((e) => ({
+        ...e,
+        parentId: currentScopeId || undefined,
+      }));
+      const newIds = new Set(newNodes.map((n) => n.id));
+      const resolvedById = new Map(
+        resolveCollisions(
+          [...scopeNodes, ...newNodes],
+          [...edges, ...newEdges],
+          undefined,
+          newIds
+        ).map((n) => [n.id, n])
+      );
+
+      setNodesCallback((prev) => [
+        ...prev.map((n) => {
+          const resolved = resolvedById.get(n.id);
+          return resolved ? { ...n, x: resolved.x, y: resolved.y } : n;
+        }),
+        ...newNodes.map((n) => resolvedById.get(n.id) || n),
+      ]);
+      setEdgesCallback((prev) => [...prev, ...newEdges]);
+      setSelectedNodeIds(newIds);
+      setToast({
+        visible: true,
+        message:
+          `Imported ${newNodes.length} node(s) and ${newEdges.length} edge(s)` +
+          (result.duplicateCount > 0
+            ? `, ${result.duplicateCount} already in this scope`
+            : "") +
+          (result.repeatedRowCount > 0
+            ? `, ${result.repeatedRowCount} repeated row(s) merged`
+            : "") +
+          (result.skippedEdgeCount > 0
+            ? `, ${result.skippedEdgeCount} edge(s) to unknown nodes skipped`
+            : ""),
+      });
+      closeCsvImport();
+    },
+    [
+      csvNodesFile,
+      csvEdgesFile,
+      nodes,
+      edges,
+      currentScopeId,
+      viewTransform,
+      setNodesCallback,
+      setEdgesCallback,
+      setSelectedNodeIds,
+      setToast,
+      closeCsvImport,
+    ]
+  );
+
+  return {
+    isCsvImportOpen,
+    csvNodesFile,
+    csvEdgesFile,
+    openCsvImport,
+    closeCsvImport,
+    pickCsvFile,
+    clearCsvEdgesFile,
+    confirmCsvImport,
+  };
+};
@@ -9,6 +9,7 @@ import {
 import { fetchWikidataSubtopics } from "../services/wikidataService";
 import * as geminiService from "../services/geminiService";
 import * as hfService from "../services/huggingfaceService";
+import { typeEdge, typeEdgeLabel } from "../services/edgeTypeService";
 import { parseTextToNodes } from "../utils/graphUtils";
 
 export const useExpansion = (
@@ -126,7 +127,7 @@ export const useExpansion = (
             id: crypto.randomUUID(),
             source: parentNodeId,
             target: newNode.id,
-            label: "subtopic",
+            ...typeEdgeLabel("subtopic"),
             parentId: currentScopeId || undefined,
           });
         }
@@ -140,7 +141,7 @@ export const useExpansion = (
             id: crypto.randomUUID(),
             source: parentNodeId,
             target: existingNode.id,
-            label: "subtopic",
+            ...typeEdgeLabel("subtopic"),
             parentId: currentScopeId || undefined,
           });
         }
@@ -283,7 +284,7 @@ export const useExpansion = (
             id: crypto.randomUUID(),
             source: id,
             target: topicNodeId,
-            label: "includes",
+            ...typeEdgeLabel("includes"),
             parentId: currentScopeId || undefined,
           });
 
@@ -349,7 +350,7 @@ export const useExpansion = (
               id: crypto.randomUUID(),
               source: parent.id,
               target: newNodeId,
-              label: item.indent > parent.indent ? "sub-item" : "related",
+              ...typeEdgeLabel(item.indent > parent.indent ? "sub-item" : "related"),
               parentId: currentScopeId || undefined,
             });
 
@@ -438,17 +439,13 @@ export const useExpansion = (
               if (targetSubNode) {
                 edgesToAdd.push({
                   id: crypto.randomUUID(),
-                  source: parentNodeId,
-                  target: targetSubNode.id,
-                  label: e.relationship,
+                  ...typeEdge(parentNodeId, targetSubNode.id, e.relationship),
                   parentId: currentScopeId || undefined,
                 });
               } else if (targetExistingNode) {
                 edgesToAdd.push({
                   id: crypto.randomUUID(),
-                  source: parentNodeId,
-                  target: targetExistingNode.id,
-                  label: e.relationship,
+                  ...typeEdge(parentNodeId, targetExistingNode.id, e.relationship),
                   parentId: currentScopeId || undefined,
                 });
               }
@@ -456,13 +453,15 @@ export const useExpansion = (
 
             // Fallback connectivity
             subNodes.forEach((sn) => {
-              const isConnected = edgesToAdd.some((e) => e.target === sn.id);
+              const isConnected = edgesToAdd.some(
+                (e) => e.target === sn.id || e.source === sn.id
+              );
               if (!isConnected) {
                 edgesToAdd.push({
                   id: crypto.randomUUID(),
                   source: parentNodeId,
                   target: sn.id,
-                  label: "related",
+                  ...typeEdgeLabel("related"),
                   parentId: currentScopeId || undefined,
                 });
               }
@@ -0,0 +1,203 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import {
+  buildGraphArchive,
+  readGraphArchive,
+  resolveArchiveCollisions,
+  ArchiveCollisionMode,
+  GraphArchive,
+} from "../services/archiveService";
+import {
+  deleteNodeAttachments,
+  importAttachment,
+  loadAttachmentFiles,
+} from "../services/attachmentService";
+import { useWholeGraph } from "./useWholeGraph";
+import { downloadFile, pickFile, getDateStamp } from "../utils/fileTransfer";
+
+export interface PendingArchiveImport {
+  fileName: string;
+  archive: GraphArchive;
+  collidingNodeIds: string[];
+}
+
+export const useGraphArchive = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setEdgesCallback: (newEdges: GraphEdge[] | ((prev: GraphEdge[]) => GraphEdge[])) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [pendingArchiveImport, setPendingArchiveImport] =
+    useState<PendingArchiveImport | null>(null);
+  const [isArchiveBusy, setIsArchiveBusy] = useState(false);
+
+  const getWholeGraph = useWholeGraph(user, dirHandle, nodes, edges);
+
+  const handleExportArchive = useCallback(async () => {
+    setIsArchiveBusy(true);
+    try {
+      const graph = await getWholeGraph();
+      const { files, missingCount } = await loadAttachmentFiles(
+        graph.nodes,
+        dirHandle,
+        !!user
+      );
+      downloadFile(
+        buildGraphArchive(graph.nodes, graph.edges, files),
+        `infoverse-${getDateStamp()}.zip`,
+        "application/zip"
+      );
+      if (missingCount > 0) {
+        setToast({
+          visible: true,
+          message: `${missingCount} image or PDF file(s) could not be read and are not in the archive`,
+        });
+      }
+    } catch (e) {
+      console.error("Archive export failed", e);
+      setToast({ visible: true, message: "Failed to export the graph" });
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  }, [user, dirHandle, getWholeGraph, setToast]);
+
+  const handleImportArchive = useCallback(async () => {
+    const file = await pickFile(".zip,application/zip");
+    if (!file) return;
+    setIsArchiveBusy(true);
+    try {
+      const archive = readGraphArchive(new Uint8Array(await file.arrayBuffer()));
+      if (archive.nodes.length === 0) {
+        setToast({ visible: true, message: "The archive has no nodes" });
+        return;
+      }
+      const existingIds = new Set((await getWholeGraph()).nodes.map((n) => n.id));
+      setPendingArchiveImport({
+        fileName: file.name,
+        archive,
+        collidingNodeIds: archive.nodes
+          .filter((n) => existingIds.has(n.id))
+          .map((n) => n.id),
+      });
+    } catch (e: any) {
+      console.error("Archive import failed", e);
+      setToast({
+        visible: true,
+        message: e?.message || "Failed to read the archive",
+      });
+    } finally {
+      setIsArchiveBusy(false);
+    }
+  }, [getWholeGraph, setToast]);
+
+  const confirmArchiveImport = useCallback(
+    async (mode: ArchiveCollisionMode) => {
+      if (!pendingArchiveImport) return;
+      setIsArchiveBusy(true);
+      try {
+        const graph = await getWholeGraph();
+        const resolved = resolveArchiveCollisions(
+          pendingArchiveImport.archive,
+          new Set(graph.nodes.map((n) => n.id)),
+          new Set(graph.edges.map((e) => e.id)),
+          mode
+        );
+        const { replacedNodeIds } = resolved;
+        const importedEdgeIds = new Set(resolved.edges.map((e) => e.id));
+
+        // Store the files of image and PDF nodes where new ones would go
+        const { attachmentFiles } = pendingArchiveImport.archive;
+        const importedNodes: GraphNode[] = [];
+        let failedFileCount = 0;
+        for (const node of resolved.nodes) {
+          const data = node.attachment?.path && attachmentFiles[node.attachment.path];
+          if (!node.attachment || !data) {
+            importedNodes.push(node);
+            continue;
+          }
+          try {
+            const attachment = await importAttachment(
+              node.attachment,
+              data,
+              dirHandle,
+              !!user
+            );
+            importedNodes.push({ ...node, attachment });
+          } catch (e) {
+            console.error(`Failed to import attachment ${node.attachment.name}`, e);
+            failedFileCount++;
+            importedNodes.push(node);
+          }
+        }
+
+        // Replaced nodes' files are not used by the imported nodes, which
+        // got new ones
+        const keptAttachmentIds = new Set(
+          importedNodes.map((n) => n.attachment?.id)
+        );
+        await deleteNodeAttachments(
+          graph.nodes.filter(
+            (n) =>
+              replacedNodeIds.has(n.id) &&
+              n.attachment &&
+              !keptAttachmentIds.has(n.attachment.id)
+          ),
+          dirHandle,
+          !!user
+        );
+
+        setNodesCallback((prev) => [
+          ...prev.filter((n) => !replacedNodeIds.has(n.id)),
+          ...importedNodes,
+        ]);
+        setEdgesCallback((prev) => [
+          ...prev.filter(
+            (e) => !replacedNodeIds.has(e.source) && !importedEdgeIds.has(e.id)
+          ),
+          ...resolved.edges,
+        ]);
+        setToast({
+          visible: true,
+          message:
+            `Imported ${resolved.nodes.length} node(s) and ${resolved.edges.length} edge(s)` +
+            (replacedNodeIds.size > 0 ? `, ${replacedNodeIds.size} replaced` : "") +
+            (failedFileCount > 0
+              ? `; ${failedFileCount} image or PDF file(s) could not be stored`
+              : ""),
+        });
+        setPendingArchiveImport(null);
+      } catch (e) {
+        console.error("Archive import failed", e);
+        setToast({ visible: true, message: "Failed to import the archive" });
+      } finally {
+        setIsArchiveBusy(false);
+      }
+    },
+    [
+      user,
+      dirHandle,
+      pendingArchiveImport,
+      getWholeGraph,
+      setNodesCallback,
+      setEdgesCallback,
+      setToast,
+    ]
+  );
+
+  const cancelArchiveImport = useCallback(
+    () => setPendingArchiveImport(null),
+    []
+  );
+
+  return {
+    pendingArchiveImport,
+    isArchiveBusy,
+    handleExportArchive,
+    handleImportArchive,
+    confirmArchiveImport,
+    cancelArchiveImport,
+  };
+};
@@ -0,0 +1,240 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import { exportGraphML, exportGEXF } from "../services/graphExchangeService";
+import { exportTurtle, exportJsonLd } from "../services/rdfExportService";
+import {
+  exportMermaid,
+  exportDot,
+  DiagramDirection,
+} from "../services/diagramExportService";
+import { exportOpml } from "../services/opmlService";
+import { buildStaticSite } from "../services/staticSiteService";
+import { loadAttachmentFiles } from "../services/attachmentService";
+import { useWholeGraph } from "./useWholeGraph";
+import { downloadFile, getDateStamp } from "../utils/fileTransfer";
+
+export type GraphExportFormat =
+  | "graphml"
+  | "gexf"
+  | "turtle"
+  | "jsonld"
+  | "mermaid"
+  | "dot";
+export type GraphExportScope = "scope" | "graph";
+
+export interface GraphExportOptions {
+  // Only used by the diagram formats
+  direction: DiagramDirection;
+  // Copy the text to the clipboard instead of downloading a file
+  copy: boolean;
+}
+
+const EXPORTERS: Record<
+  GraphExportFormat,
+  {
+    extension: string;
+    mimeType: string;
+    build: (
+      nodes: GraphNode[],
+      edges: GraphEdge[],
+      direction: DiagramDirection
+    ) => string;
+  }
+> = {
+  graphml: {
+    extension: "graphml",
+    mimeType: "application/graphml+xml",
+    build: exportGraphML,
+  },
+  gexf: {
+    extension: "gexf",
+    mimeType: "application/gexf+xml",
+    build: exportGEXF,
+  },
+  turtle: {
+    extension: "ttl",
+    mimeType: "text/turtle",
+    build: exportTurtle,
+  },
+  jsonld: {
+    extension: "jsonld",
+    mimeType: "application/ld+json",
+    build: exportJsonLd,
+  },
+  mermaid: {
+    extension: "mmd",
+    mimeType: "text/plain",
+    build: exportMermaid,
+  },
+  dot: {
+    extension: "dot",
+    mimeType: "text/vnd.graphviz",
+    build: exportDot,
+  },
+};
+
+export const useGraphExport = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  currentScopeId: string | null,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const getWholeGraph = useWholeGraph(user, dirHandle, nodes, edges);
+
+  const openExport = useCallback(() => setIsExportOpen(true), []);
+  const closeExport = useCallback(() => setIsExportOpen(false), []);
+  const openPublish = useCallback(() => setIsPublishOpen(true), []);
+  const closePublish = useCallback(() => setIsPublishOpen(false), []);
+
+  // The nodes of the current scope (not its nested scopes), or everything
+  const getExportedGraph = useCallback(
+    async (scope: GraphExportScope) => {
+      const graph = await getWholeGraph();
+      if (scope === "graph") return graph;
+      const scopeNodes = graph.nodes.filter(
+        (n) => (n.parentId ?? null) === currentScopeId
+      );
+      const ids = new Set(scopeNodes.map((n) => n.id));
+      return {
+        nodes: scopeNodes,
+        edges: graph.edges.filter((e) => ids.has(e.source) && ids.has(e.target)),
+      };
+    },
+    [getWholeGraph, currentScopeId]
+  );
+
+  const exportGraph = useCallback(
+    async (
+      format: GraphExportFormat,
+      scope: GraphExportScope,
+      options: GraphExportOptions
+    ) => {
+      setIsExporting(true);
+      try {
+        const graph = await getExportedGraph(scope);
+        if (graph.nodes.length === 0) {
+          setToast({ visible: true, message: "There is nothing to export" });
+          return;
+        }
+        const exporter = EXPORTERS[format];
+        const text = exporter.build(graph.nodes, graph.edges, options.direction);
+        if (options.copy) {
+          await navigator.clipboard.writeText(text);
+          setToast({ visible: true, message: "Copied to the clipboard" });
+        } else {
+          downloadFile(
+            text,
+            `infoverse-${getDateStamp()}.${exporter.extension}`,
+            exporter.mimeType
+          );
+        }
+        setIsExportOpen(false);
+      } catch (e) {
+        console.error("Graph export failed", e);
+        setToast({ visible: true, message: "Failed to export the graph" });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [getExportedGraph, setToast]
+  );
+
+  // Outline of the current scope, from rootId or from the tree layout's root
+  const exportOutline = useCallback(
+    async (rootId: string | null, title: string) => {
+      setIsExporting(true);
+      try {
+        const graph = await getWholeGraph();
+        if (!graph.nodes.some((n) => (n.parentId ?? null) === currentScopeId)) {
+          setToast({ visible: true, message: "There is nothing to export" });
+          return;
+        }
+        downloadFile(
+          exportOpml(graph.nodes, graph.edges, currentScopeId, rootId, title),
+          `infoverse-${getDateStamp()}.opml`,
+          "text/x-opml"
+        );
+      } catch (e) {
+        console.error("Outline export failed", e);
+        setToast({ visible: true, message: "Failed to export the outline" });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [getWholeGraph, currentScopeId, setToast]
+  );
+
+  // Static site of the current scope with everything nested in it, or of
+  // the whole graph
+  const publishSite = useCallback(
+    async (scope: GraphExportScope, title: string) => {
+      setIsExporting(true);
+      try {
+        const graph = await getWholeGraph();
+        let { nodes: siteNodes, edges: siteEdges } = graph;
+        if (scope === "scope" && currentScopeId) {
+          const parentById = new Map(graph.nodes.map((n) => [n.id, n.parentId]));
+          const isInScope = (node: GraphNode) => {
+            const visited = new Set<string>();
+            let parentId = node.parentId;
+            while (parentId && !visited.has(parentId)) {
+              if (parentId === currentScopeId) return true;
+              visited.add(parentId);
+              parentId = parentById.get(parentId);
+            }
+            return false;
+          };
+          siteNodes = graph.nodes.filter(isInScope);
+          const ids = new Set(siteNodes.map((n) => n.id));
+          siteEdges = graph.edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+        }
+        if (siteNodes.length === 0) {
+          setToast({ visible: true, message: "There is nothing to publish" });
+          return;
+        }
+        const folderName = `infoverse-site-${getDateStamp()}`;
+        const { files, missingCount } = await loadAttachmentFiles(
+          siteNodes,
+          dirHandle,
+          !!user
+        );
+        downloadFile(
+          buildStaticSite(siteNodes, siteEdges, title.trim() || "Infoverse", folderName, files),
+          `${folderName}.zip`,
+          "application/zip"
+        );
+        setIsPublishOpen(false);
+        if (missingCount > 0) {
+          setToast({
+            visible: true,
+            message: `${missingCount} image or PDF file(s) could not be read and are not on the site`,
+          });
+        }
+      } catch (e) {
+        console.error("Site export failed", e);
+        setToast({ visible: true, message: "Failed to publish the site" });
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [user, dirHandle, getWholeGraph, currentScopeId, setToast]
+  );
+
+  return {
+    isExportOpen,
+    isExporting,
+    openExport,
+    closeExport,
+    exportGraph,
+    exportOutline,
+    isPublishOpen,
+    openPublish,
+    closePublish,
+    publishSite,
+  };
+};
@@ -0,0 +1,258 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge, ViewportTransform } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+import {
+  readObsidianVault,
+  buildGraphFromObsidianNotes,
+} from "../services/obsidianImportService";
+import { importGraphExchangeFile } from "../services/graphExchangeService";
+import {
+  parseOpml,
+  countOutlines,
+  buildGraphFromOutlines,
+  OpmlOutline,
+  OpmlImportMode,
+} from "../services/opmlService";
+import {
+  parseBookmarksHtml,
+  countBookmarks,
+  buildGraphFromBookmarks,
+  BookmarkItem,
+} from "../services/bookmarksImportService";
+import { pickFile } from "../utils/fileTransfer";
+
+export interface PendingOpmlImport {
+  fileName: string;
+  title?: string;
+  outlines: OpmlOutline[];
+  itemCount: number;
+}
+
+export interface PendingBookmarksImport {
+  fileName: string;
+  items: BookmarkItem[];
+  bookmarkCount: number;
+}
+
+export const useGraphImport = (
+  currentScopeId: string | null,
+  viewTransform: ViewportTransform,
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setEdgesCallback: (newEdges: GraphEdge[] | ((prev: GraphEdge[]) => GraphEdge[])) => void,
+  setSelectedNodeIds: (ids: Set<string>) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [pendingOpmlImport, setPendingOpmlImport] =
+    useState<PendingOpmlImport | null>(null);
+  const [pendingBookmarksImport, setPendingBookmarksImport] =
+    useState<PendingBookmarksImport | null>(null);
+
+  // Add an imported batch to the current scope, centered in the viewport.
+  // Nodes that already have a parent inside the batch keep it.
+  const addImportedGraph = useCallback(
+    (importedNodes: GraphNode[], importedEdges: GraphEdge[]) => {
+      if (importedNodes.length === 0) return;
+
+      const minX = Math.min(...importedNodes.map((n) => n.x));
+      const minY = Math.min(...importedNodes.map((n) => n.y));
+      const maxX = Math.max(
+        ...importedNodes.map((n) => n.x + (n.width || DEFAULT_NODE_WIDTH))
+      );
+      const maxY = Math.max(
+        ...importedNodes.map((n) => n.y + (n.height || DEFAULT_NODE_HEIGHT))
+      );
+      const centerX =
+        (window.innerWidth / 2 - viewTransform.x) / viewTransform.k;
+      const centerY =
+        (window.innerHeight / 2 - viewTransform.y) / viewTransform.k;
+      const dx = centerX - (minX + maxX) / 2;
+      const dy = centerY - (minY + maxY) / 2;
+
+      const batchIds = new Set(importedNodes.map((n) => n.id));
+      const placedNodes = importedNodes.map((n) => {
+        const isTopLevel = !n.parentId || !batchIds.has(n.parentId);
+        return {
+          ...n,
+          // Nested scopes have their own coordinate space
+          x: isTopLevel ? n.x + dx : n.x,
+          y: isTopLevel ? n.y + dy : n.y,
+          parentId: isTopLevel ? currentScopeId || undefined : n.parentId,
+        };
+      });
+      const parentById = new Map(placedNodes.map((n) => [n.id, n.parentId]));
+      // Edges from nodes already in the graph, such as citations of existing
+      // references, belong to the current scope
+      const placedEdges = importedEdges.map((e) => ({
+        ...e,
+        parentId: parentById.has(e.source)
+          ? parentById.get(e.source)
+          : currentScopeId || undefined,
+      }));
+
+      setNodesCallback((prev) => [...prev, ...placedNodes]);
+      setEdgesCallback((prev) => [...prev, ...placedEdges]);
+      setSelectedNodeIds(
+        new Set(
+          placedNodes
+            .filter((n) => (n.parentId ?? null) === currentScopeId)
+            .map((n) => n.id)
+        )
+      );
+    },
+    [
+      currentScopeId,
+      viewTransform,
+      setNodesCallback,
+      setEdgesCallback,
+      setSelectedNodeIds,
+    ]
+  );
+
+  const handleImportObsidianVault = useCallback(async () => {
+    let dirHandle: FileSystemDirectoryHandle;
+    try {
+      dirHandle = await window.showDirectoryPicker({ mode: "read" });
+    } catch (e) {
+      console.log("Directory picker cancelled", e);
+      return;
+    }
+
+    try {
+      const notes = await readObsidianVault(dirHandle);
+      if (notes.length === 0) {
+        setToast({ visible: true, message: "No Markdown notes found" });
+        return;
+      }
+      const { nodes, edges, unresolvedLinkCount } =
+        buildGraphFromObsidianNotes(notes);
+      addImportedGraph(nodes, edges);
+      setToast({
+        visible: true,
+        message:
+          `Imported ${notes.length} note(s) and ${edges.length} link(s)` +
+          (unresolvedLinkCount > 0
+            ? `, ${unresolvedLinkCount} link(s) to missing notes skipped`
+            : ""),
+      });
+    } catch (e) {
+      console.error("Obsidian import failed", e);
+      setToast({ visible: true, message: "Failed to import the vault" });
+    }
+  }, [addImportedGraph, setToast]);
+
+  const handleImportGraphExchangeFile = useCallback(async () => {
+    const file = await pickFile(".graphml,.gexf,.xml");
+    if (!file) return;
+    try {
+      const { nodes, edges, format } = importGraphExchangeFile(await file.text());
+      if (nodes.length === 0) {
+        setToast({ visible: true, message: "The file has no nodes" });
+        return;
+      }
+      addImportedGraph(nodes, edges);
+      setToast({
+        visible: true,
+        message: `Imported ${nodes.length} node(s) and ${edges.length} edge(s) from ${format}`,
+      });
+    } catch (e: any) {
+      console.error("Graph file import failed", e);
+      setToast({ visible: true, message: e?.message || "Failed to import the file" });
+    }
+  }, [addImportedGraph, setToast]);
+
+  const handleImportOpml = useCallback(async () => {
+    const file = await pickFile(".opml,.xml");
+    if (!file) return;
+    try {
+      const { title, outlines } = parseOpml(await file.text());
+      if (outlines.length === 0) {
+        setToast({ visible: true, message: "The outline is empty" });
+        return;
+      }
+      setPendingOpmlImport({
+        fileName: file.name,
+        title,
+        outlines,
+        itemCount: countOutlines(outlines),
+      });
+    } catch (e: any) {
+      console.error("OPML import failed", e);
+      setToast({ visible: true, message: e?.message || "Failed to read the outline" });
+    }
+  }, [setToast]);
+
+  const confirmOpmlImport = useCallback(
+    (mode: OpmlImportMode) => {
+      if (!pendingOpmlImport) return;
+      const { nodes, edges } = buildGraphFromOutlines(
+        pendingOpmlImport.outlines,
+        mode
+      );
+      addImportedGraph(nodes, edges);
+      setToast({
+        visible: true,
+        message: `Imported ${nodes.length} outline item(s)`,
+      });
+      setPendingOpmlImport(null);
+    },
+    [pendingOpmlImport, addImportedGraph, setToast]
+  );
+
+  const cancelOpmlImport = useCallback(() => setPendingOpmlImport(null), []);
+
+  const handleImportBookmarks = useCallback(async () => {
+    const file = await pickFile(".html,.htm,text/html");
+    if (!file) return;
+    try {
+      const items = parseBookmarksHtml(await file.text());
+      setPendingBookmarksImport({
+        fileName: file.name,
+        items,
+        bookmarkCount: countBookmarks(items),
+      });
+    } catch (e: any) {
+      console.error("Bookmarks import failed", e);
+      setToast({ visible: true, message: e?.message || "Failed to read the bookmarks" });
+    }
+  }, [setToast]);
+
+  const confirmBookmarksImport = useCallback(
+    (excludedFolderIds: Set<string>) => {
+      if (!pendingBookmarksImport) return;
+      const { nodes, edges, folderCount, bookmarkCount } = buildGraphFromBookmarks(
+        pendingBookmarksImport.items,
+        excludedFolderIds
+      );
+      if (nodes.length === 0) {
+        setToast({ visible: true, message: "There is nothing to import" });
+        return;
+      }
+      addImportedGraph(nodes, edges);
+      setToast({
+        visible: true,
+        message: `Imported ${bookmarkCount} bookmark(s) in ${folderCount} folder(s)`,
+      });
+      setPendingBookmarksImport(null);
+    },
+    [pendingBookmarksImport, addImportedGraph, setToast]
+  );
+
+  const cancelBookmarksImport = useCallback(
+    () => setPendingBookmarksImport(null),
+    []
+  );
+
+  return {
+    addImportedGraph,
+    handleImportObsidianVault,
+    handleImportGraphExchangeFile,
+    pendingOpmlImport,
+    handleImportOpml,
+    confirmOpmlImport,
+    cancelOpmlImport,
+    pendingBookmarksImport,
+    handleImportBookmarks,
+    confirmBookmarksImport,
+    cancelBookmarksImport,
+  };
+};
@@ -1,11 +1,12 @@
 import { useCallback } from "react";
-import { v4 as uuidv4 } from "uuid";
 import { GraphNode, GraphEdge, NodeType, ChatMessage, ViewportTransform } from "../types";
 import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
 import * as geminiService from "../services/geminiService";
 import * as hfService from "../services/huggingfaceService";
 import { deleteNodeFile } from "../services/storageService";
 import { deleteNodeFromApi } from "../services/apiStorageService";
+import { typeEdgeLabel } from "../services/edgeTypeService";
+import { CITES_LABEL } from "../utils/citations";
 
 export const useGraphOperations = (
   nodes: GraphNode[],
@@ -78,30 +79,74 @@ export const useGraphOperations = (
       if (cutNodeId) {
         const nodeToPaste = nodes.find((n) => n.id === cutNodeId);
         if (nodeToPaste) {
-          const newNode: GraphNode = {
-            ...nodeToPaste,
-            id: uuidv4(),
-            x: position.x,
-            y: position.y,
-          };
-
-          handleCreateNode(newNode);
+          // A node cannot be moved into its own scope or one of its children
+          const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+          let scopeId = currentScopeId;
+          while (scopeId) {
+            if (scopeId === nodeToPaste.id) {
+              setToast({
+                visible: true,
+                message: "Can't paste a node inside itself.",
+              });
+              return;
+            }
+            scopeId = nodeMap.get(scopeId)?.parentId || null;
+          }
+
+          // Cut and paste moves the node (and its file) to the current scope
+          const parentId = currentScopeId || undefined;
+          setNodesCallback((prev) =>
+            prev.map((n) =>
+              n.id === nodeToPaste.id
+                ? { ...n, parentId, x: position.x, y: position.y }
+                : n
+            )
+          );
+          setEdgesCallback((prev) =>
+            prev.map((e) =>
+              e.source === nodeToPaste.id ? { ...e, parentId } : e
+            )
+          );
+          setSelectedNodeIds(new Set([nodeToPaste.id]));
           setCutNodeId(null);
           setToast({
             visible: true,
-            message: `Node '${newNode.content}' pasted.`,
+            message: `Node '${nodeToPaste.content}' pasted.`,
           });
         }
       } else {
         setToast({ visible: true, message: "No node cut to paste." });
       }
     },
-    [cutNodeId, nodes, handleCreateNode, setCutNodeId, setToast]
+    [
+      cutNodeId,
+      nodes,
+      currentScopeId,
+      setNodesCallback,
+      setEdgesCallback,
+      setSelectedNodeIds,
+      setCutNodeId,
+      setToast,
+    ]
   );
 
   const confirmDeleteNode = useCallback(
-    async (ids: string[]) => {
-      const nodesToDelete = nodes.filter((n) => ids.includes(n.id));
+    async (selectedIds: string[]) => {
+      // A scope's contents are deleted with it. Its folder goes to the trash,
+      // and children kept in memory would be saved again at the top level.
+      const idsSet = new Set(selectedIds);
+      let foundChild = true;
+      while (foundChild) {
+        foundChild = false;
+        for (const n of nodes) {
+          if (n.parentId && idsSet.has(n.parentId) && !idsSet.has(n.id)) {
+            idsSet.add(n.id);
+            foundChild = true;
+          }
+        }
+      }
+      const ids = Array.from(idsSet);
+      const nodesToDelete = nodes.filter((n) => idsSet.has(n.id));
       if (nodesToDelete.length === 0) return;
 
       const edgesToDelete = edges.filter(
@@ -112,8 +157,6 @@ export const useGraphOperations = (
         clearTimeout(deletedNodeRef.current.timer);
       }
 
-      const idsSet = new Set(ids);
-
       setNodesCallback((prev) => prev.filter((node) => !ids.includes(node.id)));
       setEdgesCallback((prev) =>
         prev.filter(
@@ -133,8 +176,14 @@ export const useGraphOperations = (
 
       const timer = window.setTimeout(async () => {
         if (dirHandle) {
-          for (const id of ids) {
-            await deleteNodeFile(dirHandle, id);
+          for (const { id, parentId } of nodesToDelete) {
+            // Files of a deleted scope's children move with its folder
+            if (parentId && idsSet.has(parentId)) continue;
+            // Edges from nodes that are not deleted go to the trash too
+            const incomingEdges = edgesToDelete.filter(
+              (e) => e.target === id && !idsSet.has(e.source)
+            );
+            await deleteNodeFile(dirHandle, id, incomingEdges);
           }
         } else if (user) {
           for (const id of ids) {
@@ -204,7 +253,7 @@ export const useGraphOperations = (
             id: crypto.randomUUID(),
             source: sourceId,
             target: targetId,
-            label: "related",
+            ...typeEdgeLabel("related"),
             parentId: currentScopeId || undefined,
           },
         ];
@@ -213,6 +262,47 @@ export const useGraphOperations = (
     [currentScopeId, setEdgesCallback]
   );
 
+  // Keep the "cites" edges from a note to references in step with the
+  // [@key] citations in its text. The cites edges of a reference, such as
+  // those from a bibliography import, are only added to.
+  const handleCiteNodes = useCallback(
+    (sourceId: string, targetIds: string[]) => {
+      const referenceIds = new Set(
+        nodes.filter((n) => n.citation).map((n) => n.id)
+      );
+      const isSourceReference = referenceIds.has(sourceId);
+      setEdgesCallback((prev) => {
+        const isCitesEdge = (e: GraphEdge) =>
+          e.source === sourceId && e.label === CITES_LABEL;
+        const missing = targetIds.filter(
+          (targetId) =>
+            targetId !== sourceId &&
+            !prev.some((e) => isCitesEdge(e) && e.target === targetId)
+        );
+        const removed = isSourceReference
+          ? []
+          : prev.filter(
+              (e) =>
+                isCitesEdge(e) &&
+                referenceIds.has(e.target) &&
+                !targetIds.includes(e.target)
+            );
+        if (missing.length === 0 && removed.length === 0) return prev;
+        return [
+          ...prev.filter((e) => !removed.includes(e)),
+          ...missing.map((targetId) => ({
+            id: crypto.randomUUID(),
+            source: sourceId,
+            target: targetId,
+            ...typeEdgeLabel(CITES_LABEL),
+            parentId: currentScopeId || undefined,
+          })),
+        ];
+      });
+    },
+    [nodes, currentScopeId, setEdgesCallback]
+  );
+
   const handleCreateFromSelection = useCallback(
     async (type: NodeType, selectionTooltip: any) => {
       if (!selectionTooltip) return;
@@ -321,6 +411,7 @@ export const useGraphOperations = (
                       {
                         ...n.messages[n.messages.length - 1],
                         text: result.text,
+                        ...(result.sources ? { sources: result.sources } : {}),
                       },
                     ],
                   }
@@ -433,6 +524,7 @@ export const useGraphOperations = (
     handlePaste,
     handleConnectStart,
     handleConnectEnd,
+    handleCiteNodes,
     handleCreateFromSelection,
     handleSearchSelect,
   };
@@ -0,0 +1,100 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import {
+  buildCanvasSvg,
+  rasterizeSvg,
+  getNodesBounds,
+  CanvasView,
+  ImageRegion,
+} from "../services/imageExportService";
+import { useWholeGraph } from "./useWholeGraph";
+import { downloadFile, getDateStamp } from "../utils/fileTransfer";
+
+export type ImageExportFormat = "svg" | "png";
+export type ImageExportRegion = "viewport" | "selection" | "scope";
+
+// Space around the nodes when the region is fitted to them
+const IMAGE_PADDING = 40;
+
+export const useImageExport = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  currentScopeId: string | null,
+  selectedNodeIds: Set<string>,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  // The canvas view the dialog was opened from, or null when it is closed
+  const [imageExportView, setImageExportView] = useState<CanvasView | null>(null);
+  const [isExportingImage, setIsExportingImage] = useState(false);
+  const getWholeGraph = useWholeGraph(user, dirHandle, nodes, edges);
+
+  const openImageExport = useCallback(
+    (view: CanvasView) => setImageExportView(view),
+    []
+  );
+  const closeImageExport = useCallback(() => setImageExportView(null), []);
+
+  const exportImage = useCallback(
+    async (format: ImageExportFormat, region: ImageExportRegion, scale: number) => {
+      if (!imageExportView) return;
+      setIsExportingImage(true);
+      try {
+        const graph = await getWholeGraph();
+        const scopeNodes = graph.nodes.filter(
+          (n) => (n.parentId ?? null) === currentScopeId
+        );
+        const ids = new Set(scopeNodes.map((n) => n.id));
+        const scopeEdges = graph.edges.filter(
+          (e) => ids.has(e.source) && ids.has(e.target)
+        );
+
+        const bounds: ImageRegion | null =
+          region === "viewport"
+            ? imageExportView.viewport
+            : getNodesBounds(
+                region === "selection"
+                  ? scopeNodes.filter((n) => selectedNodeIds.has(n.id))
+                  : scopeNodes,
+                IMAGE_PADDING
+              );
+        if (!bounds) {
+          setToast({ visible: true, message: "There is nothing to export" });
+          return;
+        }
+
+        const svg = buildCanvasSvg(
+          scopeNodes,
+          scopeEdges,
+          bounds,
+          imageExportView.edgeStyle
+        );
+        const fileName = `infoverse-${getDateStamp()}.${format}`;
+        if (format === "svg") {
+          downloadFile(svg, fileName, "image/svg+xml");
+        } else {
+          downloadFile(await rasterizeSvg(svg, bounds, scale), fileName, "image/png");
+        }
+        setImageExportView(null);
+      } catch (e: any) {
+        console.error("Image export failed", e);
+        setToast({
+          visible: true,
+          message: e?.message || "Failed to export the image",
+        });
+      } finally {
+        setIsExportingImage(false);
+      }
+    },
+    [imageExportView, getWholeGraph, currentScopeId, selectedNodeIds, setToast]
+  );
+
+  return {
+    imageExportView,
+    isExportingImage,
+    openImageExport,
+    closeImageExport,
+    exportImage,
+  };
+};
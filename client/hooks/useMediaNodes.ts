@@ -0,0 +1,150 @@
+import { useState, useCallback } from "react";
+import { GraphNode, NodeType } from "../types";
+import {
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
+  NODE_HEADER_HEIGHT,
+} from "../constants";
+import {
+  ATTACHMENT_ACCEPT,
+  getAttachmentNodeType,
+  saveAttachment,
+} from "../services/attachmentService";
+import {
+  clipWebPage,
+  getWebClipNodeFields,
+} from "../services/webClipService";
+import { pickFile } from "../utils/fileTransfer";
+
+const MAX_IMAGE_NODE_HEIGHT = 600;
+
+type CanvasPosition = { x: number; y: number };
+
+// Node size that fits the image's aspect ratio at the default width
+const getImageNodeSize = async (file: File) => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const ratio = bitmap.height / bitmap.width;
+    bitmap.close();
+    return {
+      width: DEFAULT_NODE_WIDTH,
+      height: Math.min(
+        Math.round(NODE_HEADER_HEIGHT + DEFAULT_NODE_WIDTH * ratio),
+        MAX_IMAGE_NODE_HEIGHT
+      ),
+    };
+  } catch {
+    // Formats the browser can't decode, like SVG, keep the default size
+    return { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT };
+  }
+};
+
+export const useMediaNodes = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  currentScopeId: string | null,
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setSelectedNodeIds: (ids: Set<string>) => void,
+  setShowLimitModal: (show: boolean) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  // Where the next web clip goes; set while the clip dialog is open
+  const [clipPosition, setClipPosition] = useState<CanvasPosition | null>(null);
+  const [isClipping, setIsClipping] = useState(false);
+
+  const addNode = useCallback(
+    (node: Omit<GraphNode, "id" | "parentId">) => {
+      const newNode: GraphNode = {
+        ...node,
+        id: crypto.randomUUID(),
+        parentId: currentScopeId || undefined,
+      };
+      setNodesCallback((prev) => [...prev, newNode]);
+      setSelectedNodeIds(new Set([newNode.id]));
+    },
+    [currentScopeId, setNodesCallback, setSelectedNodeIds]
+  );
+
+  const addAttachmentNode = useCallback(
+    async (position: CanvasPosition) => {
+      const file = await pickFile(ATTACHMENT_ACCEPT);
+      if (!file) return;
+      const type = getAttachmentNodeType(file);
+      if (!type) {
+        setToast({ visible: true, message: "Only images and PDFs can be added" });
+        return;
+      }
+      try {
+        const attachment = await saveAttachment(file, dirHandle, !!user);
+        const size =
+          type === NodeType.IMAGE
+            ? await getImageNodeSize(file)
+            : { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT };
+        addNode({
+          type,
+          ...position,
+          ...size,
+          content: file.name.replace(/\.[^.]+$/, "") || file.name,
+          attachment,
+        });
+      } catch (e: any) {
+        console.error("Failed to add the file", e);
+        setToast({ visible: true, message: e?.message || "Failed to add the file" });
+      }
+    },
+    [user, dirHandle, addNode, setToast]
+  );
+
+  // Pages are fetched by the server, which only clips for signed-in users
+  const openWebClip = useCallback(
+    (position: CanvasPosition) => {
+      if (!user) {
+        setToast({ visible: true, message: "Sign in to clip web pages" });
+        return;
+      }
+      setClipPosition(position);
+    },
+    [user, setToast]
+  );
+
+  const closeWebClip = useCallback(() => setClipPosition(null), []);
+
+  const clipToNode = useCallback(
+    async (url: string) => {
+      if (!clipPosition) return;
+      setIsClipping(true);
+      try {
+        const page = await clipWebPage(url);
+        addNode({
+          type: NodeType.WEB,
+          ...clipPosition,
+          width: DEFAULT_NODE_WIDTH,
+          height: DEFAULT_NODE_HEIGHT + 100,
+          content: "",
+          ...getWebClipNodeFields(page),
+        });
+        setClipPosition(null);
+      } catch (e: any) {
+        if (e?.message === "LIMIT_REACHED") {
+          setClipPosition(null);
+          setShowLimitModal(true);
+        } else {
+          console.error("Web clip failed", e);
+          setToast({ visible: true, message: e?.message || "Could not clip this page" });
+        }
+      } finally {
+        setIsClipping(false);
+      }
+    },
+    [clipPosition, addNode, setShowLimitModal, setToast]
+  );
+
+  return {
+    isWebClipOpen: clipPosition !== null,
+    isClipping,
+    addAttachmentNode,
+    openWebClip,
+    closeWebClip,
+    clipToNode,
+  };
+};
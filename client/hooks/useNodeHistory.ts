@@ -0,0 +1,85 @@
+import { useState, useCallback } from "react";
+import { GraphNode } from "../types";
+import {
+  listNodeRevisions,
+  NodeRevision,
+} from "../services/historyService";
+import {
+  getHistoryRetention,
+  setHistoryRetention,
+  HistoryRetention,
+} from "../services/settingsService";
+
+export const useNodeHistory = (
+  dirHandle: FileSystemDirectoryHandle | null,
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [historyNodeId, setHistoryNodeId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<NodeRevision[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [historyRetention, setHistoryRetentionState] =
+    useState<HistoryRetention>(getHistoryRetention);
+
+  const openHistory = useCallback(
+    async (nodeId: string) => {
+      if (!dirHandle) return;
+      setHistoryNodeId(nodeId);
+      setRevisions([]);
+      setIsHistoryLoading(true);
+      try {
+        setRevisions(await listNodeRevisions(dirHandle, nodeId));
+      } catch (e) {
+        console.error("Failed to read node history", e);
+        setToast({ visible: true, message: "Failed to read the history" });
+      } finally {
+        setIsHistoryLoading(false);
+      }
+    },
+    [dirHandle, setToast]
+  );
+
+  const closeHistory = useCallback(() => setHistoryNodeId(null), []);
+
+  // Put the text of a revision back. The save that follows records it as
+  // the newest revision, so a restore can be undone from the history too.
+  const restoreRevision = useCallback(
+    (revision: NodeRevision) => {
+      if (!historyNodeId) return;
+      setNodesCallback((prev) =>
+        prev.map((n) =>
+          n.id === historyNodeId
+            ? {
+                ...n,
+                content: revision.content,
+                summary: revision.summary,
+                messages: revision.messages,
+              }
+            : n
+        )
+      );
+      setHistoryNodeId(null);
+      setToast({
+        visible: true,
+        message: `Restored the version from ${new Date(revision.savedAt).toLocaleString()}`,
+      });
+    },
+    [historyNodeId, setNodesCallback, setToast]
+  );
+
+  const updateHistoryRetention = useCallback((retention: HistoryRetention) => {
+    setHistoryRetentionState(retention);
+    setHistoryRetention(retention);
+  }, []);
+
+  return {
+    historyNodeId,
+    revisions,
+    isHistoryLoading,
+    historyRetention,
+    openHistory,
+    closeHistory,
+    restoreRevision,
+    updateHistoryRetention,
+  };
+};
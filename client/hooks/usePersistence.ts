@@ -4,7 +4,10 @@ import { debounce } from "../services/debounceService";
 import {
   scheduleSaveNode,
   getOutgoingEdges,
+  ReplacedNodeFile,
 } from "../services/storageService";
+import { recordNodeRevision } from "../services/historyService";
+import { getHistoryRetention } from "../services/settingsService";
 import {
   saveNodesBatchToApi,
   saveEdgesToApi
@@ -14,7 +17,9 @@ export const usePersistence = (
   user: any,
   dirHandle: FileSystemDirectoryHandle | null
 ) => {
-  const dirtyNodesByIdRef = useRef<Map<string, { node: GraphNode; skipEmbedding: boolean }>>(new Map());
+  const dirtyNodesByIdRef = useRef<
+    Map<string, { node: GraphNode; skipEmbedding: boolean; contentChanged: boolean }>
+  >(new Map());
   const edgesDirtyRef = useRef(false);
 
   const debouncedFlushSaves = useMemo(
@@ -28,17 +33,29 @@ export const usePersistence = (
           _currentScopeId: string | null,
           _currentSelectedNodeIds: Set<string>
         ) => {
-          const dirtyNodes = Array.from(dirtyNodesByIdRef.current.values());
+          const dirtyNodesById = new Map(dirtyNodesByIdRef.current);
+          const dirtyNodes = Array.from(dirtyNodesById.values());
           dirtyNodesByIdRef.current.clear();
           const edgesDirty = edgesDirtyRef.current;
           edgesDirtyRef.current = false;
 
           // Save to file system (Master) - edges embedded in node files
           if (dirHandle) {
-            // For dirty nodes, include their outgoing edges
-            for (const { node } of dirtyNodes) {
+            // For dirty nodes, include their outgoing edges. A revision is
+            // recorded once a change to the text has been written.
+            const retention = getHistoryRetention();
+            const recordRevision = (
+              saved: GraphNode,
+              replaced: ReplacedNodeFile | null
+            ) => recordNodeRevision(dirHandle, saved, retention, replaced);
+            for (const { node, contentChanged } of dirtyNodes) {
               const outgoingEdges = getOutgoingEdges(node.id, edgesSnapshot);
-              scheduleSaveNode(dirHandle, node, outgoingEdges);
+              scheduleSaveNode(
+                dirHandle,
+                node,
+                outgoingEdges,
+                contentChanged ? recordRevision : undefined
+              );
             }
 
             // If edges changed, we need to update all affected source nodes
@@ -46,8 +63,10 @@ export const usePersistence = (
               // Find all unique source nodes that have edges
               const sourceNodeIds = new Set(edgesSnapshot.map(e => e.source));
 
-              // Save each source node with its updated edges
+              // Save each source node with its updated edges; dirty nodes
+              // were scheduled above with the same edges
               for (const sourceId of sourceNodeIds) {
+                if (dirtyNodesById.has(sourceId)) continue;
                 const node = nodesSnapshot.find(n => n.id === sourceId);
                 if (node) {
                   const outgoingEdges = getOutgoingEdges(node.id, edgesSnapshot);
@@ -80,9 +99,19 @@ export const usePersistence = (
     [dirHandle, user]
   );
 
-  const markNodeDirty = useCallback((node: GraphNode, skipEmbedding: boolean) => {
-    dirtyNodesByIdRef.current.set(node.id, { node, skipEmbedding });
-  }, []);
+  // contentChanged: the text, summary or messages changed, not only the
+  // position or size
+  const markNodeDirty = useCallback(
+    (node: GraphNode, skipEmbedding: boolean, contentChanged: boolean) => {
+      const previous = dirtyNodesByIdRef.current.get(node.id);
+      dirtyNodesByIdRef.current.set(node.id, {
+        node,
+        skipEmbedding,
+        contentChanged: contentChanged || !!previous?.contentChanged,
+      });
+    },
+    []
+  );
 
   const markEdgesDirty = useCallback(() => {
     edgesDirtyRef.current = true;
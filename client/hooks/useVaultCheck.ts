@@ -0,0 +1,80 @@
+import { useState, useCallback } from "react";
+import {
+  checkVault,
+  repairVault,
+  countVaultProblems,
+  VaultCheckReport,
+  VaultProblemClass,
+} from "../services/vaultCheckService";
+
+export const useVaultCheck = (
+  dirHandle: FileSystemDirectoryHandle | null,
+  reloadVault: () => Promise<void>,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [isVaultCheckOpen, setIsVaultCheckOpen] = useState(false);
+  const [vaultCheckReport, setVaultCheckReport] =
+    useState<VaultCheckReport | null>(null);
+  const [isCheckingVault, setIsCheckingVault] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    if (!dirHandle) return;
+    setIsCheckingVault(true);
+    try {
+      setVaultCheckReport(await checkVault(dirHandle));
+    } catch (e) {
+      console.error("Vault check failed", e);
+      setToast({ visible: true, message: "Failed to check the vault" });
+    } finally {
+      setIsCheckingVault(false);
+    }
+  }, [dirHandle, setToast]);
+
+  const openVaultCheck = useCallback(() => {
+    setVaultCheckReport(null);
+    setIsVaultCheckOpen(true);
+    runCheck();
+  }, [runCheck]);
+
+  const closeVaultCheck = useCallback(() => setIsVaultCheckOpen(false), []);
+
+  const repairVaultProblems = useCallback(
+    async (problemClasses: Set<VaultProblemClass>) => {
+      if (!dirHandle || !vaultCheckReport) return;
+      setIsCheckingVault(true);
+      try {
+        const repaired = await repairVault(
+          dirHandle,
+          vaultCheckReport,
+          problemClasses
+        );
+        await reloadVault();
+        const report = await checkVault(dirHandle);
+        setVaultCheckReport(report);
+        const remaining = countVaultProblems(report);
+        setToast({
+          visible: true,
+          message:
+            `Repaired ${repaired} problem(s)` +
+            (remaining > 0 ? `, ${remaining} left` : ""),
+        });
+      } catch (e) {
+        console.error("Vault repair failed", e);
+        setToast({ visible: true, message: "Failed to repair the vault" });
+      } finally {
+        setIsCheckingVault(false);
+      }
+    },
+    [dirHandle, vaultCheckReport, reloadVault, setToast]
+  );
+
+  return {
+    isVaultCheckOpen,
+    vaultCheckReport,
+    isCheckingVault,
+    openVaultCheck,
+    closeVaultCheck,
+    rerunVaultCheck: runCheck,
+    repairVaultProblems,
+  };
+};
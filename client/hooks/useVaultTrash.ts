@@ -0,0 +1,137 @@
+import { useState, useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import {
+  listTrashedNodes,
+  restoreTrashedNode,
+  purgeTrashedNode,
+  TrashedNode,
+} from "../services/storageService";
+import { deleteNodeHistory } from "../services/historyService";
+import { deleteNodeAttachments } from "../services/attachmentService";
+
+export const useVaultTrash = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  setNodesCallback: (newNodes: GraphNode[] | ((prev: GraphNode[]) => GraphNode[])) => void,
+  setEdgesCallback: (newEdges: GraphEdge[] | ((prev: GraphEdge[]) => GraphEdge[])) => void,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [trashedNodes, setTrashedNodes] = useState<TrashedNode[]>([]);
+  const [isTrashLoading, setIsTrashLoading] = useState(false);
+
+  const refreshTrash = useCallback(async () => {
+    if (!dirHandle) return;
+    setIsTrashLoading(true);
+    try {
+      setTrashedNodes(await listTrashedNodes(dirHandle));
+    } catch (e) {
+      console.error("Failed to read the vault trash", e);
+    } finally {
+      setIsTrashLoading(false);
+    }
+  }, [dirHandle]);
+
+  const openTrash = useCallback(() => {
+    setIsTrashOpen(true);
+    refreshTrash();
+  }, [refreshTrash]);
+
+  const closeTrash = useCallback(() => setIsTrashOpen(false), []);
+
+  // Put the node back into the graph, which writes it to the vault again.
+  // Edges to nodes that no longer exist are dropped, and a node whose scope
+  // was deleted is restored to the top level. A scope's children come back
+  // inside it.
+  const restoreNode = useCallback(
+    async (nodeId: string) => {
+      if (!dirHandle) return;
+      if (nodes.some((n) => n.id === nodeId)) {
+        setToast({ visible: true, message: "This node is already in the graph" });
+        return;
+      }
+      const item = await restoreTrashedNode(dirHandle, nodeId);
+      if (!item) return;
+
+      const nodeIds = new Set(nodes.map((n) => n.id));
+      const parentId =
+        item.node.parentId && nodeIds.has(item.node.parentId)
+          ? item.node.parentId
+          : undefined;
+      const node: GraphNode = { ...item.node, parentId };
+      // The nodes of a scope's folder come back with it
+      const children = (item.children || []).filter((c) => !nodeIds.has(c.node.id));
+      nodeIds.add(node.id);
+      children.forEach((c) => nodeIds.add(c.node.id));
+      const restoredEdges = [
+        ...item.edges.map((e) => ({ ...e, parentId })),
+        ...item.incomingEdges,
+        ...children.flatMap((c) => c.edges),
+      ].filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target));
+
+      setNodesCallback((prev) => {
+        const existingIds = new Set(prev.map((n) => n.id));
+        return [
+          ...prev,
+          ...[node, ...children.map((c) => c.node)].filter(
+            (n) => !existingIds.has(n.id)
+          ),
+        ];
+      });
+      if (restoredEdges.length > 0) {
+        setEdgesCallback((prev) => {
+          const existingIds = new Set(prev.map((e) => e.id));
+          return [
+            ...prev,
+            ...restoredEdges.filter((e) => !existingIds.has(e.id)),
+          ];
+        });
+      }
+      setTrashedNodes((prev) => prev.filter((t) => t.node.id !== nodeId));
+      setToast({ visible: true, message: "Node restored" });
+    },
+    [dirHandle, nodes, setNodesCallback, setEdgesCallback, setToast]
+  );
+
+  const purgeNode = useCallback(
+    async (nodeId: string) => {
+      if (!dirHandle) return;
+      try {
+        const purged = await purgeTrashedNode(dirHandle, nodeId);
+        await deleteNodeHistory(dirHandle, nodeId);
+        await deleteNodeAttachments(purged, dirHandle, !!user);
+        setTrashedNodes((prev) => prev.filter((t) => t.node.id !== nodeId));
+      } catch (e) {
+        console.error("Failed to delete trashed node", e);
+        setToast({ visible: true, message: "Failed to delete the file" });
+      }
+    },
+    [user, dirHandle, setToast]
+  );
+
+  const emptyTrash = useCallback(async () => {
+    if (!dirHandle) return;
+    for (const item of trashedNodes) {
+      try {
+        const purged = await purgeTrashedNode(dirHandle, item.node.id);
+        await deleteNodeHistory(dirHandle, item.node.id);
+        await deleteNodeAttachments(purged, dirHandle, !!user);
+      } catch (e) {
+        console.error("Failed to delete trashed node", e);
+      }
+    }
+    await refreshTrash();
+  }, [user, dirHandle, trashedNodes, refreshTrash]);
+
+  return {
+    isTrashOpen,
+    isTrashLoading,
+    trashedNodes,
+    openTrash,
+    closeTrash,
+    restoreNode,
+    purgeNode,
+    emptyTrash,
+  };
+};
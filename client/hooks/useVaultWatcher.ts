@@ -0,0 +1,169 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import { VAULT_POLL_INTERVAL_MS } from "../constants";
+import {
+  scanVaultForChanges,
+  saveNodeToFile,
+  cancelScheduledSave,
+  recordVaultFileState,
+  forgetVaultFileState,
+  getOutgoingEdges,
+  VaultFileState,
+} from "../services/storageService";
+
+export interface VaultConflict {
+  nodeId: string;
+  memoryNode: GraphNode | null;
+  diskNode: GraphNode | null; // null when the file was deleted on disk
+  diskEdges: GraphEdge[];
+  fileState: VaultFileState | null;
+}
+
+export const useVaultWatcher = (
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  setNodes: React.Dispatch<React.SetStateAction<GraphNode[]>>,
+  setEdges: React.Dispatch<React.SetStateAction<GraphEdge[]>>,
+  setToast: (toast: { visible: boolean; message: string; action?: () => void }) => void
+) => {
+  const [conflicts, setConflicts] = useState<VaultConflict[]>([]);
+  const nodesRef = useRef(nodes);
+  const edgesRef = useRef(edges);
+  const isScanningRef = useRef(false);
+
+  useEffect(() => {
+    nodesRef.current = nodes;
+    edgesRef.current = edges;
+  }, [nodes, edges]);
+
+  // Replace a node and its outgoing edges with the version read from disk.
+  // Uses the raw setters so the change is not scheduled for saving again.
+  const applyDiskVersion = useCallback(
+    (node: GraphNode, diskEdges: GraphEdge[]) => {
+      setNodes((prev) =>
+        prev.some((n) => n.id === node.id)
+          ? prev.map((n) => (n.id === node.id ? node : n))
+          : [...prev, node]
+      );
+      setEdges((prev) => [
+        ...prev.filter((e) => e.source !== node.id),
+        ...diskEdges,
+      ]);
+    },
+    [setNodes, setEdges]
+  );
+
+  const removeNode = useCallback(
+    (nodeId: string) => {
+      setNodes((prev) => prev.filter((n) => n.id !== nodeId));
+      setEdges((prev) =>
+        prev.filter((e) => e.source !== nodeId && e.target !== nodeId)
+      );
+    },
+    [setNodes, setEdges]
+  );
+
+  useEffect(() => {
+    if (!dirHandle) {
+      setConflicts([]);
+      return;
+    }
+
+    const poll = async () => {
+      if (isScanningRef.current || document.hidden) return;
+      isScanningRef.current = true;
+      try {
+        const changes = await scanVaultForChanges(
+          dirHandle,
+          nodesRef.current,
+          edgesRef.current
+        );
+        let reloadedCount = 0;
+        const newConflicts: VaultConflict[] = [];
+
+        for (const change of changes) {
+          if (change.kind === "conflict") {
+            newConflicts.push({
+              nodeId: change.nodeId,
+              memoryNode:
+                nodesRef.current.find((n) => n.id === change.nodeId) || null,
+              diskNode: change.diskNode,
+              diskEdges: change.diskEdges,
+              fileState: change.fileState,
+            });
+          } else if (change.kind === "removed") {
+            cancelScheduledSave(change.nodeId);
+            forgetVaultFileState(change.nodeId);
+            removeNode(change.nodeId);
+            reloadedCount++;
+          } else {
+            cancelScheduledSave(change.node.id);
+            recordVaultFileState(change.node.id, change.fileState);
+            applyDiskVersion(change.node, change.edges);
+            reloadedCount++;
+          }
+        }
+
+        if (newConflicts.length > 0) {
+          setConflicts((prev) => {
+            const byId = new Map(prev.map((c) => [c.nodeId, c]));
+            newConflicts.forEach((c) => byId.set(c.nodeId, c));
+            return Array.from(byId.values());
+          });
+        }
+        if (reloadedCount > 0) {
+          setToast({
+            visible: true,
+            message: `Reloaded ${reloadedCount} node(s) changed on disk`,
+          });
+        }
+      } catch (e) {
+        console.error("Vault scan failed", e);
+      } finally {
+        isScanningRef.current = false;
+      }
+    };
+
+    const intervalId = window.setInterval(poll, VAULT_POLL_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [dirHandle, applyDiskVersion, removeNode, setToast]);
+
+  const resolveConflict = useCallback(
+    async (nodeId: string, resolution: "mine" | "disk") => {
+      const conflict = conflicts.find((c) => c.nodeId === nodeId);
+      if (!conflict || !dirHandle) return;
+
+      if (resolution === "mine") {
+        const current = nodesRef.current.find((n) => n.id === nodeId);
+        if (current) {
+          await saveNodeToFile(
+            dirHandle,
+            current,
+            getOutgoingEdges(nodeId, edgesRef.current),
+            { force: true }
+          );
+        } else {
+          forgetVaultFileState(nodeId);
+        }
+      } else {
+        cancelScheduledSave(nodeId);
+        if (conflict.diskNode && conflict.fileState) {
+          recordVaultFileState(nodeId, conflict.fileState);
+          applyDiskVersion(conflict.diskNode, conflict.diskEdges);
+        } else {
+          forgetVaultFileState(nodeId);
+          removeNode(nodeId);
+        }
+      }
+
+      setConflicts((prev) => prev.filter((c) => c.nodeId !== nodeId));
+    },
+    [conflicts, dirHandle, applyDiskVersion, removeNode]
+  );
+
+  return {
+    vaultConflicts: conflicts,
+    resolveVaultConflict: resolveConflict,
+  };
+};
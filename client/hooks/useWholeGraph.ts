@@ -0,0 +1,23 @@
+import { useCallback } from "react";
+import { GraphNode, GraphEdge } from "../types";
+import { loadGraphFromApi } from "../services/apiStorageService";
+
+// Returns a loader for every node and edge of the graph. Cloud Storage only
+// keeps the nodes around the viewport in memory, so there the whole graph is
+// fetched from the server.
+export const useWholeGraph = (
+  user: any,
+  dirHandle: FileSystemDirectoryHandle | null,
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+) =>
+  useCallback(async () => {
+    if (user && !dirHandle) {
+      const graph = await loadGraphFromApi();
+      return {
+        nodes: (graph.nodes || []) as GraphNode[],
+        edges: (graph.edges || []) as GraphEdge[],
+      };
+    }
+    return { nodes, edges };
+  }, [user, dirHandle, nodes, edges]);
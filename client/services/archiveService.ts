@@ -0,0 +1,221 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from "fflate";
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, GraphEdge } from "../types";
+import { VAULT_SCHEMA_VERSION } from "../constants";
+import { getNodeFileName } from "../utils/vaultPaths";
+import {
+  joinPath,
+  parseMarkdownText,
+  serializeNodeMarkdown,
+  toGraphEdges,
+  getOutgoingEdges,
+} from "./storageService";
+import { ATTACHMENTS_FOLDER, getAttachmentFileName } from "./attachmentService";
+
+// Bump when the layout of the archive itself changes. The node files inside
+// carry their own schemaVersion.
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = "infoverse.json";
+
+export interface ArchiveManifest {
+  format: "infoverse-archive";
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  nodeCount: number;
+  edgeCount: number;
+}
+
+export interface GraphArchive {
+  manifest: ArchiveManifest;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Markdown files in the archive that are not node files
+  skippedFiles: string[];
+  // Files of image and PDF nodes, by their path in the archive
+  attachmentFiles: Record<string, Uint8Array>;
+}
+
+export type ArchiveCollisionMode = "rename" | "skip" | "overwrite";
+
+// Paths of the node files, laid out like a vault folder: the children of a
+// scope live in a folder named after the scope's file. Extracting the
+// archive therefore gives a folder that can be opened as a vault.
+const getArchivePaths = (nodes: GraphNode[]) => {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const paths = new Map<string, string>();
+  const takenPaths = new Set<string>();
+
+  const resolve = (node: GraphNode, visiting: Set<string>): string => {
+    const known = paths.get(node.id);
+    if (known) return known;
+    visiting.add(node.id);
+    const parent = node.parentId ? byId.get(node.parentId) : undefined;
+    const folder =
+      parent && !visiting.has(parent.id)
+        ? resolve(parent, visiting).replace(/\.md$/, "")
+        : "";
+    const path = joinPath(
+      folder,
+      getNodeFileName(node, (name) => takenPaths.has(joinPath(folder, name)))
+    );
+    takenPaths.add(path);
+    paths.set(node.id, path);
+    return path;
+  };
+
+  nodes.forEach((node) => resolve(node, new Set()));
+  return paths;
+};
+
+// The files of image and PDF nodes go where a vault keeps them, by
+// attachment id; nodes whose file is not given are archived without it.
+export const buildGraphArchive = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  attachmentFiles: Map<string, Uint8Array> = new Map()
+): Uint8Array => {
+  const manifest: ArchiveManifest = {
+    format: "infoverse-archive",
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    schemaVersion: VAULT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+  };
+
+  const files: Record<string, Uint8Array> = {
+    [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  const paths = getArchivePaths(nodes);
+  nodes.forEach((node) => {
+    let archived = node;
+    const data = node.attachment && attachmentFiles.get(node.attachment.id);
+    if (node.attachment && data) {
+      const path = `${ATTACHMENTS_FOLDER}/${getAttachmentFileName(node.attachment)}`;
+      files[path] = data;
+      archived = { ...node, attachment: { ...node.attachment, path } };
+    }
+    files[paths.get(node.id)!] = strToU8(
+      serializeNodeMarkdown(archived, getOutgoingEdges(node.id, edges))
+    );
+  });
+  return zipSync(files);
+};
+
+// Read an archive made by buildGraphArchive. Throws an Error with a message
+// for the user if the archive cannot be imported.
+export const readGraphArchive = (data: Uint8Array): GraphArchive => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    throw new Error("The file is not a valid .zip archive");
+  }
+
+  const manifestEntry = entries[MANIFEST_FILE];
+  if (!manifestEntry) {
+    throw new Error("The archive has no infoverse.json manifest");
+  }
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(strFromU8(manifestEntry));
+  } catch {
+    throw new Error("The archive manifest cannot be read");
+  }
+  if (manifest.format !== "infoverse-archive") {
+    throw new Error("The archive was not exported from Infoverse");
+  }
+  if (
+    manifest.formatVersion > ARCHIVE_FORMAT_VERSION ||
+    manifest.schemaVersion > VAULT_SCHEMA_VERSION
+  ) {
+    throw new Error(
+      "The archive was made by a newer version of Infoverse"
+    );
+  }
+
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const skippedFiles: string[] = [];
+  const attachmentFiles: Record<string, Uint8Array> = {};
+  Object.keys(entries).forEach((path) => {
+    if (path.startsWith(`${ATTACHMENTS_FOLDER}/`)) {
+      attachmentFiles[path] = entries[path];
+    }
+  });
+  const seenIds = new Set<string>();
+  Object.keys(entries)
+    .filter((path) => path.endsWith(".md"))
+    .sort()
+    .forEach((path) => {
+      const parsed = parseMarkdownText(strFromU8(entries[path]));
+      if (!parsed || seenIds.has(parsed.node.id)) {
+        skippedFiles.push(path);
+        return;
+      }
+      seenIds.add(parsed.node.id);
+      nodes.push(parsed.node);
+      edges.push(...toGraphEdges(parsed.node, parsed.edges));
+    });
+
+  return { manifest, nodes, edges, skippedFiles, attachmentFiles };
+};
+
+// Fit archived nodes into a graph that may already contain some of their
+// ids. Returns the nodes and edges to add, and the ids of existing nodes
+// they replace (whose outgoing edges should be dropped too).
+export const resolveArchiveCollisions = (
+  archive: Pick<GraphArchive, "nodes" | "edges">,
+  existingNodeIds: Set<string>,
+  existingEdgeIds: Set<string>,
+  mode: ArchiveCollisionMode
+): { nodes: GraphNode[]; edges: GraphEdge[]; replacedNodeIds: Set<string> } => {
+  const replacedNodeIds = new Set<string>();
+  const idMap = new Map<string, string>();
+  let nodes = archive.nodes;
+  let edges = archive.edges;
+
+  if (mode === "rename") {
+    nodes.forEach((n) => {
+      if (existingNodeIds.has(n.id)) idMap.set(n.id, uuidv4());
+    });
+    const remap = (id?: string) => (id && idMap.get(id)) || id;
+    nodes = nodes.map((n) => ({
+      ...n,
+      id: remap(n.id)!,
+      parentId: remap(n.parentId),
+    }));
+    edges = edges.map((e) => ({
+      ...e,
+      id: existingEdgeIds.has(e.id) ? uuidv4() : e.id,
+      source: remap(e.source)!,
+      target: remap(e.target)!,
+      parentId: remap(e.parentId),
+    }));
+  } else if (mode === "skip") {
+    nodes = nodes.filter((n) => !existingNodeIds.has(n.id));
+    edges = edges.filter(
+      (e) => !existingNodeIds.has(e.source) && !existingEdgeIds.has(e.id)
+    );
+  } else {
+    nodes.forEach((n) => {
+      if (existingNodeIds.has(n.id)) replacedNodeIds.add(n.id);
+    });
+  }
+
+  // Scopes that exist in neither the archive nor the graph become top level
+  const knownIds = new Set([...existingNodeIds, ...nodes.map((n) => n.id)]);
+  nodes = nodes.map((n) =>
+    n.parentId && !knownIds.has(n.parentId) ? { ...n, parentId: undefined } : n
+  );
+  const parentById = new Map(nodes.map((n) => [n.id, n.parentId]));
+  edges = edges
+    .filter((e) => knownIds.has(e.source) && knownIds.has(e.target))
+    .map((e) =>
+      parentById.has(e.source) ? { ...e, parentId: parentById.get(e.source) } : e
+    );
+
+  return { nodes, edges, replacedNodeIds };
+};
@@ -0,0 +1,245 @@
+import { Attachment, GraphNode, NodeType } from "../types";
+import {
+  getDirectoryAtPath,
+  getExistingFileHandle,
+  isVaultReadOnly,
+  removeVaultEntry,
+  writeBlobFile,
+} from "./storageService";
+
+const apiUrl = import.meta.env.VITE_API_URL;
+const API_BASE = apiUrl ? `${apiUrl}/api` : "/api";
+
+// Files added to a vault go here. Like other hidden folders it is not loaded
+// as notes, and the files are found again through the node's attachment path.
+export const ATTACHMENTS_FOLDER = ".infoverse/attachments";
+
+// Same limit as the server
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+export const ATTACHMENT_ACCEPT = "image/*,application/pdf";
+
+// Object URLs of loaded attachments, by attachment id
+const urlCache = new Map<string, string>();
+
+export const getAttachmentNodeType = (
+  file: File
+): NodeType.IMAGE | NodeType.PDF | null => {
+  if (file.type.startsWith("image/")) return NodeType.IMAGE;
+  if (file.type === "application/pdf" || /\.pdf$/i.test(file.name)) {
+    return NodeType.PDF;
+  }
+  return null;
+};
+
+const getExtension = (name: string) => {
+  const match = name.match(/\.([a-z0-9]{1,8})$/i);
+  return match ? `.${match[1].toLowerCase()}` : "";
+};
+
+// Name of the stored file: the attachment id with the extension of its name
+export const getAttachmentFileName = (attachment: Attachment) =>
+  `${attachment.id.replace(/[^\w-]/g, "_")}${getExtension(attachment.name)}`;
+
+// Blob URLs of PDFs only open in the viewer with the right type
+const toTypedBlob = (blob: Blob, attachment: Attachment) =>
+  blob.type === attachment.mimeType
+    ? blob
+    : new Blob([blob], { type: attachment.mimeType });
+
+const uploadAttachment = async (attachment: Attachment, file: Blob) => {
+  const query = new URLSearchParams({ name: attachment.name });
+  const res = await fetch(`${API_BASE}/attachments/${attachment.id}?${query}`, {
+    method: "PUT",
+    headers: { "Content-Type": attachment.mimeType },
+    credentials: "include",
+    body: file,
+  });
+  if (!res.ok) throw new Error(`Upload failed: ${res.statusText}`);
+};
+
+// Store a picked file for a new image or PDF node: in the vault when one is
+// open, and in the cloud when signed in. With both, the vault copy is the one
+// read back and the upload runs in the background.
+export const saveAttachment = async (
+  file: File,
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+): Promise<Attachment> => {
+  if (!dirHandle && !isCloud) {
+    throw new Error("Open a vault or sign in to add images and PDFs");
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error("Files larger than 20 MB cannot be added");
+  }
+
+  const id = crypto.randomUUID();
+  const attachment: Attachment = {
+    id,
+    name: file.name,
+    mimeType:
+      file.type ||
+      (getAttachmentNodeType(file) === NodeType.PDF
+        ? "application/pdf"
+        : "application/octet-stream"),
+    size: file.size,
+  };
+  await storeAttachment(attachment, file, dirHandle, isCloud);
+
+  urlCache.set(id, URL.createObjectURL(toTypedBlob(file, attachment)));
+  return attachment;
+};
+
+// Write the file to the vault, setting the attachment's path, and upload it
+// when signed in
+const storeAttachment = async (
+  attachment: Attachment,
+  file: Blob,
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+) => {
+  if (dirHandle) {
+    if (isVaultReadOnly()) throw new Error("The vault is read-only");
+    const folder = await getDirectoryAtPath(dirHandle, ATTACHMENTS_FOLDER, true);
+    const fileName = getAttachmentFileName(attachment);
+    const handle = await folder.getFileHandle(fileName, { create: true });
+    await writeBlobFile(handle, file);
+    attachment.path = `${ATTACHMENTS_FOLDER}/${fileName}`;
+  }
+
+  if (isCloud) {
+    const upload = uploadAttachment(attachment, file);
+    if (dirHandle) {
+      upload.catch((e) => console.error("Cloud sync error (attachment):", e));
+    } else {
+      await upload;
+    }
+  }
+};
+
+// Store a file read from an archive as a new attachment. It gets a new id,
+// and so its own file, as copies imported next to their originals would
+// otherwise share one. Without a vault or the cloud it is only kept for this
+// session.
+export const importAttachment = async (
+  attachment: Attachment,
+  data: Uint8Array,
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+): Promise<Attachment> => {
+  // The path was the file's place in the archive
+  const imported: Attachment = {
+    ...attachment,
+    id: crypto.randomUUID(),
+    path: undefined,
+  };
+  const file = new Blob([data], { type: attachment.mimeType });
+  await storeAttachment(imported, file, dirHandle, isCloud);
+
+  urlCache.set(imported.id, URL.createObjectURL(file));
+  return imported;
+};
+
+// The attachment's file, read from the vault or fetched from the cloud. Null
+// when it is in neither.
+const loadAttachmentData = async (
+  attachment: Attachment,
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+): Promise<Blob | null> => {
+  if (dirHandle && attachment.path) {
+    const handle = await getExistingFileHandle(dirHandle, attachment.path);
+    if (handle) return handle.getFile();
+  }
+  if (isCloud) {
+    const res = await fetch(`${API_BASE}/attachments/${attachment.id}`, {
+      credentials: "include",
+    });
+    if (res.ok) return res.blob();
+  }
+  return null;
+};
+
+// An object URL for the attachment's file, read from the vault or fetched
+// from the cloud once and then reused
+export const loadAttachmentUrl = async (
+  attachment: Attachment,
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+): Promise<string> => {
+  const cached = urlCache.get(attachment.id);
+  if (cached) return cached;
+
+  const blob = await loadAttachmentData(attachment, dirHandle, isCloud);
+  if (!blob) throw new Error(`Attachment ${attachment.name} not found`);
+
+  const url = URL.createObjectURL(toTypedBlob(blob, attachment));
+  urlCache.set(attachment.id, url);
+  return url;
+};
+
+// The files of the nodes' attachments by attachment id, for exports, and
+// the number of attachments whose file could not be read
+export const loadAttachmentFiles = async (
+  nodes: GraphNode[],
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+): Promise<{ files: Map<string, Uint8Array>; missingCount: number }> => {
+  const files = new Map<string, Uint8Array>();
+  let missingCount = 0;
+  for (const { attachment } of nodes) {
+    if (!attachment || files.has(attachment.id)) continue;
+    try {
+      const blob = await loadAttachmentData(attachment, dirHandle, isCloud);
+      if (blob) {
+        files.set(attachment.id, new Uint8Array(await blob.arrayBuffer()));
+        continue;
+      }
+    } catch (e) {
+      console.error(`Failed to read attachment ${attachment.name}`, e);
+    }
+    missingCount++;
+  }
+  return { files, missingCount };
+};
+
+// Remove the files of nodes that were deleted for good, from the vault and
+// the cloud. Files that fail to go are logged and left behind.
+export const deleteNodeAttachments = async (
+  nodes: GraphNode[],
+  dirHandle: FileSystemDirectoryHandle | null,
+  isCloud: boolean
+) => {
+  for (const { attachment } of nodes) {
+    if (!attachment) continue;
+    try {
+      if (dirHandle && attachment.path?.startsWith(`${ATTACHMENTS_FOLDER}/`)) {
+        await removeVaultEntry(dirHandle, attachment.path);
+      }
+      if (isCloud) {
+        const res = await fetch(`${API_BASE}/attachments/${attachment.id}`, {
+          method: "DELETE",
+          credentials: "include",
+        });
+        if (!res.ok && res.status !== 404) {
+          throw new Error(`Delete failed: ${res.statusText}`);
+        }
+      }
+    } catch (e) {
+      console.error(`Failed to delete attachment ${attachment.name}`, e);
+    }
+    const url = urlCache.get(attachment.id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      urlCache.delete(attachment.id);
+    }
+  }
+};
+
+// Number of pages of a PDF, counted from its page objects. Null when they
+// are packed in compressed object streams and can't be seen without a parser.
+export const countPdfPages = (data: ArrayBuffer): number | null => {
+  const text = new TextDecoder("latin1").decode(data);
+  const count = (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  return count > 0 ? count : null;
+};
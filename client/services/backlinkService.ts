@@ -0,0 +1,177 @@
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import { getIncomingEdges } from "./storageService";
+import { getEdgeDisplayName } from "./edgeTypeService";
+import {
+  INTERNAL_NODE_LINK_REGEX,
+  parseInternalNodeLink,
+  nodeMatchesLinkTarget,
+} from "../utils/wikiLinks";
+import { getNodeTitleForBreadcrumb } from "../utils/graphUtils";
+import { FENCED_CODE_REGEX, INLINE_CODE_REGEX } from "../utils/tags";
+
+/*
+ * What points at a node: edges that end at it, notes that link to it with
+ * [[Title]] or [[alias]], and notes that name it without a link. Mentions
+ * are found by scanning the text of every node, so they are computed only
+ * while the backlinks of a node are shown.
+ */
+
+export interface IncomingEdgeGroup {
+  label: string;
+  edges: { edge: GraphEdge; source: GraphNode }[];
+}
+
+export interface Mention {
+  node: GraphNode;
+  snippet: string;
+  // The name that was found, for unlinked mentions
+  term?: string;
+}
+
+export interface Backlinks {
+  incoming: IncomingEdgeGroup[];
+  linked: Mention[];
+  unlinked: Mention[];
+}
+
+const SNIPPET_CONTEXT = 60;
+// Shorter names would match inside too many unrelated words
+const MIN_MENTION_LENGTH = 3;
+
+const MARKDOWN_LINK_REGEX = /\[[^\[\]\n]*\]\([^)\n]*\)/g;
+const URL_REGEX = /https?:\/\/[^\s)>\]]+/g;
+
+// The text around a position, on one line
+const getSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  const snippet = text.substring(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+};
+
+// Blank out links, code and URLs, keeping every other character in place so
+// positions found in the result are positions in the text
+const maskUnlinkable = (text: string) => {
+  const blank = (match: string) => match.replace(/[^\n]/g, " ");
+  return text
+    .replace(FENCED_CODE_REGEX, blank)
+    .replace(INLINE_CODE_REGEX, blank)
+    .replace(INTERNAL_NODE_LINK_REGEX, blank)
+    .replace(MARKDOWN_LINK_REGEX, blank)
+    .replace(URL_REGEX, blank);
+};
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The name as a whole word, in any case
+const getMentionRegex = (term: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`,
+    "iu"
+  );
+
+// Names that count as a plain-text mention of the node: its title and aliases
+export const getMentionTerms = (node: GraphNode): string[] => {
+  const terms: string[] = [];
+  const add = (term?: string) => {
+    const trimmed = term?.trim();
+    if (
+      trimmed &&
+      trimmed.length >= MIN_MENTION_LENGTH &&
+      !terms.some((t) => t.toLowerCase() === trimmed.toLowerCase())
+    ) {
+      terms.push(trimmed);
+    }
+  };
+  if (node.content?.trim()) add(getNodeTitleForBreadcrumb(node));
+  node.aliases?.forEach(add);
+  return terms;
+};
+
+// The text of a node that may mention others: chats count their messages
+const getSearchableText = (node: GraphNode) =>
+  node.type === NodeType.CHAT
+    ? [node.content, ...(node.messages || []).map((m) => m.text)].join("\n")
+    : node.content || "";
+
+const findLinkedMention = (node: GraphNode, target: GraphNode) => {
+  const text = getSearchableText(node);
+  for (const match of text.matchAll(INTERNAL_NODE_LINK_REGEX)) {
+    if (nodeMatchesLinkTarget(target, parseInternalNodeLink(match[1]).target)) {
+      return getSnippet(text, match.index ?? 0, match[0].length);
+    }
+  }
+  return null;
+};
+
+const findUnlinkedMention = (text: string, terms: string[]) => {
+  const masked = maskUnlinkable(text);
+  for (const term of terms) {
+    const match = masked.match(getMentionRegex(term));
+    if (match) {
+      return { term, snippet: getSnippet(text, match.index ?? 0, term.length) };
+    }
+  }
+  return null;
+};
+
+export const getBacklinks = (
+  node: GraphNode,
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+): Backlinks => {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+
+  const groups = new Map<string, IncomingEdgeGroup>();
+  getIncomingEdges(node.id, edges).forEach((edge) => {
+    const source = nodesById.get(edge.source);
+    if (!source) return;
+    const label = getEdgeDisplayName(edge, "target") || "linked";
+    const key = label.toLowerCase();
+    if (!groups.has(key)) groups.set(key, { label, edges: [] });
+    groups.get(key)!.edges.push({ edge, source });
+  });
+
+  const terms = getMentionTerms(node);
+  const linked: Mention[] = [];
+  const unlinked: Mention[] = [];
+  nodes.forEach((other) => {
+    if (other.id === node.id || other.type === NodeType.CLUSTER) return;
+    const linkedSnippet = findLinkedMention(other, node);
+    if (linkedSnippet) {
+      linked.push({ node: other, snippet: linkedSnippet });
+      return;
+    }
+    // Only text that can be edited here can be linked
+    if (other.type !== NodeType.NOTE && other.type !== NodeType.WEB) return;
+    const mention = findUnlinkedMention(other.content || "", terms);
+    if (mention) unlinked.push({ node: other, ...mention });
+  });
+
+  const byTitle = (a: Mention, b: Mention) =>
+    getNodeTitleForBreadcrumb(a.node).localeCompare(
+      getNodeTitleForBreadcrumb(b.node)
+    );
+  return {
+    incoming: Array.from(groups.values()).sort((a, b) =>
+      a.label.localeCompare(b.label)
+    ),
+    linked: linked.sort(byTitle),
+    unlinked: unlinked.sort(byTitle),
+  };
+};
+
+// The text with its first plain mention of the term turned into a link:
+// [[Term]], or [[Term|text]] when the text is written differently
+export const linkMention = (text: string, term: string): string => {
+  const match = maskUnlinkable(text).match(getMentionRegex(term));
+  if (!match || match.index === undefined) return text;
+  const written = text.substring(match.index, match.index + term.length);
+  const link = written === term ? `[[${term}]]` : `[[${term}|${written}]]`;
+  return (
+    text.substring(0, match.index) +
+    link +
+    text.substring(match.index + term.length)
+  );
+};
@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+
+/*
+ * Browser bookmarks, from the Netscape bookmark file every browser exports.
+ *
+ * Folders become scope nodes and bookmarks become notes inside them, titled
+ * with the bookmark's name and linking to its URL. Wikipedia links are
+ * rewritten to the /wiki/ form the Wikipedia reader pane recognizes.
+ *
+ * The format is not well-formed HTML (<DT> and <p> are never closed), so the
+ * file is read as a flat run of tags rather than through DOMParser.
+ */
+
+export interface BookmarkFolder {
+  kind: "folder";
+  // Stable within one parse, for deselecting folders in the preview
+  id: string;
+  title: string;
+  children: BookmarkItem[];
+}
+
+export interface Bookmark {
+  kind: "bookmark";
+  // Empty when the browser kept no name
+  title: string;
+  url: string;
+  description?: string;
+}
+
+export type BookmarkItem = BookmarkFolder | Bookmark;
+
+const GRID_GAP = 80;
+// Browser internals and bookmarklets, which do not open as pages
+const SKIPPED_URL_REGEX = /^(javascript|place|chrome|edge|about|data):/i;
+const TOKEN_REGEX =
+  /<h3\b[^>]*>([\s\S]*?)<\/h3>|<a\b([^>]*)>([\s\S]*?)<\/a>|<dd>([^<]*)|<dl\b[^>]*>|<\/dl>/gi;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+const stripTags = (value: string) => decodeEntities(value.replace(/<[^>]*>/g, "")).trim();
+
+const getHref = (attributes: string) => {
+  const match = attributes.match(/\bhref\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4] ?? "").trim() : "";
+};
+
+// "https://en.m.wikipedia.org/w/index.php?title=Graph_theory" ->
+// "https://en.wikipedia.org/wiki/Graph_theory". Null for other URLs.
+export const normalizeWikipediaUrl = (url: string): string | null => {
+  const match = url.match(
+    /^https?:\/\/([a-z][a-z\-]*)(?:\.m)?\.wikipedia\.org\/(?:wiki\/([^?#]+)|w\/index\.php\?(?:[^#]*&)?title=([^&#]+))/i
+  );
+  if (!match) return null;
+  const article = match[2] ?? match[3];
+  return `https://${match[1].toLowerCase()}.wikipedia.org/wiki/${article}`;
+};
+
+// "Graph theory - Wikipedia" -> "Graph theory"
+const getWikipediaTitle = (title: string, url: string) => {
+  const stripped = title.replace(/\s+[-–—]\s+Wikipedia\b.*$/i, "").trim();
+  if (stripped) return stripped;
+  const article = url.split("/wiki/")[1] || "";
+  try {
+    return decodeURIComponent(article).replace(/_/g, " ");
+  } catch {
+    return article.replace(/_/g, " ");
+  }
+};
+
+// Throws an Error with a message for the user if the file has no bookmarks
+export const parseBookmarksHtml = (text: string): BookmarkItem[] => {
+  const root: BookmarkFolder = { kind: "folder", id: "root", title: "", children: [] };
+  const stack: BookmarkFolder[] = [root];
+  // A folder heading whose <DL> has not opened yet
+  let pendingFolder: BookmarkFolder | null = null;
+  let lastBookmark: Bookmark | null = null;
+  let folderCount = 0;
+  let hasBookmarks = false;
+
+  for (const match of text.matchAll(TOKEN_REGEX)) {
+    const [token, folderTitle, attributes, linkTitle, description] = match;
+    const current = stack[stack.length - 1];
+    if (folderTitle !== undefined) {
+      pendingFolder = {
+        kind: "folder",
+        id: `folder-${folderCount++}`,
+        title: stripTags(folderTitle) || "Untitled folder",
+        children: [],
+      };
+      current.children.push(pendingFolder);
+      lastBookmark = null;
+    } else if (attributes !== undefined) {
+      const url = getHref(attributes);
+      lastBookmark = null;
+      if (!url || SKIPPED_URL_REGEX.test(url)) continue;
+      lastBookmark = { kind: "bookmark", title: stripTags(linkTitle), url };
+      current.children.push(lastBookmark);
+      hasBookmarks = true;
+    } else if (description !== undefined) {
+      const value = decodeEntities(description).trim();
+      if (lastBookmark && value) lastBookmark.description = value;
+    } else if (token.toLowerCase().startsWith("<dl")) {
+      // The first <DL> is the file's own list; later ones open a folder
+      if (pendingFolder) stack.push(pendingFolder);
+      else if (stack.length > 1 || root.children.length > 0) stack.push(current);
+      pendingFolder = null;
+    } else if (stack.length > 1) {
+      stack.pop();
+    }
+  }
+
+  if (!hasBookmarks) {
+    throw new Error("The file has no bookmarks");
+  }
+  return root.children;
+};
+
+// Bookmarks in the items, not counting those in excluded folders
+export const countBookmarks = (
+  items: BookmarkItem[],
+  excludedFolderIds: Set<string> = new Set()
+): number =>
+  items.reduce(
+    (sum, item) =>
+      sum +
+      (item.kind === "bookmark"
+        ? 1
+        : excludedFolderIds.has(item.id)
+        ? 0
+        : countBookmarks(item.children, excludedFolderIds)),
+    0
+  );
+
+/**
+ * Nodes for the bookmarks, leaving out the folders in excludedFolderIds with
+ * everything inside them. Folders left without bookmarks are dropped. Each
+ * scope is laid out as a grid around (0, 0).
+ */
+export const buildGraphFromBookmarks = (
+  items: BookmarkItem[],
+  excludedFolderIds: Set<string>
+): { nodes: GraphNode[]; edges: GraphEdge[]; folderCount: number; bookmarkCount: number } => {
+  const nodes: GraphNode[] = [];
+  let folderCount = 0;
+  let bookmarkCount = 0;
+
+  const createNode = (content: string, parentId?: string): GraphNode => ({
+    id: uuidv4(),
+    type: NodeType.NOTE,
+    x: 0,
+    y: 0,
+    content,
+    width: DEFAULT_NODE_WIDTH,
+    height: DEFAULT_NODE_HEIGHT,
+    parentId,
+  });
+
+  const addLevel = (levelItems: BookmarkItem[], parentId?: string) => {
+    const levelNodes: GraphNode[] = [];
+    levelItems.forEach((item) => {
+      if (item.kind === "folder") {
+        if (excludedFolderIds.has(item.id)) return;
+        if (countBookmarks(item.children, excludedFolderIds) === 0) return;
+        const folderNode = createNode(item.title, parentId);
+        levelNodes.push(folderNode);
+        folderCount++;
+        addLevel(item.children, folderNode.id);
+        return;
+      }
+      const wikipediaUrl = normalizeWikipediaUrl(item.url);
+      const node = createNode(
+        wikipediaUrl ? getWikipediaTitle(item.title, wikipediaUrl) : item.title || item.url,
+        parentId
+      );
+      node.link = wikipediaUrl || item.url;
+      if (item.description) node.summary = item.description;
+      levelNodes.push(node);
+      bookmarkCount++;
+    });
+
+    // Folders first, so the scopes sit together at the top of the grid
+    levelNodes.sort((a, b) => Number(!!a.link) - Number(!!b.link));
+    const columns = Math.ceil(Math.sqrt(levelNodes.length));
+    levelNodes.forEach((node, i) => {
+      node.x = (i % columns) * (DEFAULT_NODE_WIDTH + GRID_GAP);
+      node.y = Math.floor(i / columns) * (DEFAULT_NODE_HEIGHT + GRID_GAP);
+      nodes.push(node);
+    });
+  };
+
+  addLevel(items);
+  return { nodes, edges: [], folderCount, bookmarkCount };
+};
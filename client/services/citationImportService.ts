@@ -0,0 +1,426 @@
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, GraphEdge, NodeType, Citation } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+import { applyForceLayout } from "./layoutService";
+import { typeEdgeLabel } from "./edgeTypeService";
+
+/*
+ * Reference libraries from BibTeX (.bib) and CSL-JSON files, the formats
+ * Zotero, Mendeley, JabRef and Pandoc export.
+ *
+ * Each entry becomes a NOTE titled with the work's title and carrying its
+ * bibliographic fields in `citation`; the URL (or the DOI's resolver URL)
+ * goes in `link`. Entries that share an author or a keyword are connected,
+ * including to references already in the scope. Entries whose key or DOI is
+ * already in the graph are not imported again, so a library can be
+ * re-imported after it grows.
+ */
+
+export interface ImportedReference extends Citation {
+  title: string;
+  url?: string;
+  abstract?: string;
+}
+
+export const SHARED_AUTHOR_LABEL = "shares author";
+export const SHARED_KEYWORD_LABEL = "shares keyword";
+
+const GRID_GAP = 80;
+// Authors or keywords shared by more entries than this are too common to
+// say anything about a pair (a lab's PI, "machine learning"), and would add
+// an edge between every two of them
+const MAX_SHARED_GROUP = 20;
+const BIBTEX_MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+// Combining marks for LaTeX accent commands, \"o -> ö
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': "̈", "'": "́", "`": "̀", "^": "̂", "~": "̃",
+  "=": "̄", ".": "̇", u: "̆", v: "̌", H: "̋",
+  c: "̧", k: "̨",
+};
+const LATEX_LETTERS: Record<string, string> = {
+  ss: "ß", o: "ø", O: "Ø", ae: "æ", AE: "Æ", oe: "œ", OE: "Œ",
+  aa: "å", AA: "Å", l: "ł", L: "Ł", i: "ı",
+};
+
+// --- BibTeX ---
+
+const cleanLatex = (value: string) =>
+  value
+    .replace(/\\([\"'`^~=.])\s*\{?([A-Za-z])\}?/g, (_, accent, letter) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\([uvHck])(?:\s+|\{)([A-Za-z])\}?/g, (_, accent, letter) => letter + LATEX_ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i)(?![A-Za-z])\s*/g, (_, name) => LATEX_LETTERS[name])
+    .replace(/\\([&%$#_{}])/g, "$1")
+    .replace(/---/g, "—")
+    .replace(/--/g, "–")
+    .replace(/(^|[^\\])~/g, "$1 ")
+    // Formatting commands keep their argument: \emph{x} -> x
+    .replace(/\\[A-Za-z]+\*?\s*/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .normalize("NFC");
+
+// Splits at "and" outside braces, so {Barnes and Noble} stays one author
+const splitBibtexNames = (value: string) => {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "{") depth++;
+    else if (value[i] === "}") depth--;
+    else if (depth === 0 && /\sand\s/i.test(value.substring(i - 1, i + 4)) && i > 0) {
+      names.push(value.substring(start, i));
+      start = i + 3;
+    }
+  }
+  names.push(value.substring(start));
+  return names.map((n) => n.trim()).filter((n) => n && n.toLowerCase() !== "others");
+};
+
+// "Knuth, Donald E.", "Donald E. Knuth" and "Ludwig van Beethoven" ->
+// "Family, Given"
+const parseBibtexName = (raw: string) => {
+  if (/^\{.*\}$/.test(raw)) return cleanLatex(raw);
+  const parts = raw.split(",").map((p) => cleanLatex(p));
+  if (parts.length > 1) {
+    const given = parts[parts.length - 1];
+    return given ? `${parts[0]}, ${given}` : parts[0];
+  }
+  const words = cleanLatex(raw).split(" ");
+  if (words.length === 1) return words[0];
+  // The family name starts at a lower-case particle ("van", "de") if any
+  const particle = words.findIndex((w, i) => i > 0 && i < words.length - 1 && /^[a-z]/.test(w));
+  const familyStart = particle > 0 ? particle : words.length - 1;
+  return `${words.slice(familyStart).join(" ")}, ${words.slice(0, familyStart).join(" ")}`;
+};
+
+class BibtexReader {
+  private pos = 0;
+  constructor(private text: string, private macros: Map<string, string>) {}
+
+  private skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  // Text between the brace or quote at this.pos and its match
+  private readDelimited(): string {
+    const close = this.text[this.pos] === "{" ? "}" : '"';
+    let depth = 0;
+    const start = this.pos + 1;
+    for (let i = start; i < this.text.length; i++) {
+      const char = this.text[i];
+      if (char === "\\") {
+        i++;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}" && depth > 0) {
+        depth--;
+      } else if (char === close && depth === 0) {
+        this.pos = i + 1;
+        return this.text.substring(start, i);
+      }
+    }
+    throw new Error("A BibTeX value is missing its closing brace or quote");
+  }
+
+  // A value: "{...}", "\"...\"", a number or a @string macro, joined by #
+  private readValue(): string {
+    let value = "";
+    for (;;) {
+      this.skipSpace();
+      const char = this.text[this.pos];
+      if (char === "{" || char === '"') {
+        value += this.readDelimited();
+      } else {
+        const match = this.text.substring(this.pos).match(/^[^\s,#}=)]+/);
+        if (!match) break;
+        this.pos += match[0].length;
+        const name = match[0].toLowerCase();
+        value += this.macros.get(name) ?? (/^\d+$/.test(name) ? name : match[0]);
+      }
+      this.skipSpace();
+      if (this.text[this.pos] !== "#") break;
+      this.pos++;
+    }
+    return value;
+  }
+
+  // name = value pairs up to the entry's closing brace
+  private readFields(): Map<string, string> {
+    const fields = new Map<string, string>();
+    for (;;) {
+      this.skipSpace();
+      const char = this.text[this.pos];
+      if (char === undefined) break;
+      if (char === "}" || char === ")") {
+        this.pos++;
+        break;
+      }
+      if (char === ",") {
+        this.pos++;
+        continue;
+      }
+      const match = this.text.substring(this.pos).match(/^([^\s=,{}]+)\s*=/);
+      if (!match) {
+        // Malformed field: skip to the next one
+        this.pos++;
+        continue;
+      }
+      this.pos += match[0].length;
+      fields.set(match[1].toLowerCase(), this.readValue());
+    }
+    return fields;
+  }
+
+  readEntries() {
+    const entries: { type: string; key: string; fields: Map<string, string> }[] = [];
+    const entryStart = /@\s*([A-Za-z]+)\s*[{(]/g;
+    let match: RegExpExecArray | null;
+    while ((match = entryStart.exec(this.text))) {
+      const type = match[1].toLowerCase();
+      this.pos = entryStart.lastIndex;
+      if (type === "comment" || type === "preamble") {
+        // Skip the whole block, which may hold text that looks like entries
+        if (this.text[this.pos - 1] === "{") {
+          this.pos--;
+          this.readDelimited();
+        }
+      } else if (type === "string") {
+        this.readFields().forEach((value, name) => this.macros.set(name, value));
+      } else {
+        const keyMatch = this.text.substring(this.pos).match(/^\s*([^,\s{}]+)\s*,/);
+        if (!keyMatch) continue;
+        this.pos += keyMatch[0].length;
+        entries.push({ type, key: keyMatch[1], fields: this.readFields() });
+      }
+      entryStart.lastIndex = this.pos;
+    }
+    return entries;
+  }
+}
+
+const parseBibtex = (text: string): ImportedReference[] => {
+  const macros = new Map(BIBTEX_MONTHS.map((m, i) => [m, String(i + 1)]));
+  return new BibtexReader(text, macros).readEntries().map(({ type, key, fields }) => {
+    const field = (...names: string[]) => {
+      const name = names.find((n) => fields.get(n)?.trim());
+      return name ? cleanLatex(fields.get(name)!) : undefined;
+    };
+    const names = fields.get("author") || fields.get("editor") || "";
+    const year = (fields.get("year") || fields.get("date") || "").match(/\d{4}/);
+    return {
+      key,
+      entryType: type,
+      title: field("title") || key,
+      authors: splitBibtexNames(names).map(parseBibtexName).filter(Boolean),
+      year: year ? Number(year[0]) : undefined,
+      venue: field("journal", "journaltitle", "booktitle", "publisher", "school", "institution"),
+      doi: field("doi"),
+      url: fields.get("url")?.trim(),
+      keywords: (field("keywords", "keyword") || "")
+        .split(/[,;]/)
+        .map((k) => k.trim())
+        .filter(Boolean),
+      abstract: field("abstract"),
+    };
+  });
+};
+
+// --- CSL-JSON ---
+
+const getCslText = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return getCslText(value[0]);
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value).trim() || undefined;
+  }
+  return undefined;
+};
+
+const parseCslName = (name: any) => {
+  if (!name || typeof name !== "object") return "";
+  if (name.literal) return String(name.literal).trim();
+  const family = [name["non-dropping-particle"], name.family].filter(Boolean).join(" ");
+  return name.given ? `${family}, ${name.given}` : family;
+};
+
+const parseCslYear = (date: any): number | undefined => {
+  const year = date?.["date-parts"]?.[0]?.[0];
+  if (year !== undefined && Number.isFinite(Number(year))) return Number(year);
+  const match = String(date?.raw ?? date?.literal ?? "").match(/\d{4}/);
+  return match ? Number(match[0]) : undefined;
+};
+
+const parseCslJson = (data: any): ImportedReference[] => {
+  const items: any[] = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+  return items
+    .filter((item) => item && typeof item === "object" && (item.id || item.title))
+    .map((item) => {
+      // Better BibTeX exports keep the BibTeX key next to Zotero's item id
+      const key = String(item["citation-key"] ?? item.id ?? item.title);
+      return {
+        key,
+        entryType: getCslText(item.type),
+        title: getCslText(item.title) || key,
+        authors: ((Array.isArray(item.author) ? item.author : item.editor) || [])
+          .map(parseCslName)
+          .filter(Boolean),
+        year: parseCslYear(item.issued),
+        venue: getCslText(item["container-title"]) || getCslText(item.publisher),
+        doi: getCslText(item.DOI),
+        url: getCslText(item.URL),
+        keywords: (getCslText(item.keyword) || "")
+          .split(/[,;]/)
+          .map((k) => k.trim())
+          .filter(Boolean),
+        abstract: getCslText(item.abstract),
+      };
+    });
+};
+
+// Throws an Error with a message for the user if the file has no references
+export const parseReferenceFile = (text: string, fileName: string): ImportedReference[] => {
+  const trimmed = text.trim();
+  const isJson = /\.json$/i.test(fileName) || trimmed.startsWith("[") || trimmed.startsWith("{");
+  let references: ImportedReference[];
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The file is not valid CSL-JSON");
+    }
+    references = parseCslJson(data);
+  } else {
+    references = parseBibtex(text);
+  }
+  if (references.length === 0) {
+    throw new Error("The file has no references");
+  }
+  return references.map((r) => ({
+    ...r,
+    doi: r.doi?.replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, "") || undefined,
+  }));
+};
+
+// --- Graph ---
+
+// "Knuth, Donald E." -> "knuth d", so initials and full given names match
+const getAuthorKey = (author: string) => {
+  const [family, given = ""] = author.split(",").map((p) => p.trim().toLowerCase());
+  return `${family} ${given.charAt(0)}`.trim();
+};
+
+const toNode = (reference: ImportedReference): GraphNode => {
+  const { title, url, abstract, ...fields } = reference;
+  // Empty fields are left out, so the frontmatter stays short
+  const citation: Citation = { key: fields.key };
+  if (fields.entryType) citation.entryType = fields.entryType;
+  if (fields.authors?.length) citation.authors = fields.authors;
+  if (fields.year) citation.year = fields.year;
+  if (fields.venue) citation.venue = fields.venue;
+  if (fields.doi) citation.doi = fields.doi;
+  if (fields.keywords?.length) citation.keywords = fields.keywords;
+  const node: GraphNode = {
+    id: uuidv4(),
+    type: NodeType.NOTE,
+    x: 0,
+    y: 0,
+    content: abstract ? `${title}\n\n${abstract}` : title,
+    width: DEFAULT_NODE_WIDTH,
+    height: DEFAULT_NODE_HEIGHT,
+    citation,
+  };
+  const link = url || (reference.doi ? `https://doi.org/${reference.doi}` : "");
+  if (link) node.link = link;
+  return node;
+};
+
+/**
+ * Nodes for the references not already in allNodes, and edges between
+ * entries sharing an author or keyword. scopeNodes are the nodes of the
+ * scope being imported into; references among them are connected to the new
+ * ones too. The batch is laid out around (0, 0).
+ */
+export const buildGraphFromReferences = (
+  references: ImportedReference[],
+  allNodes: GraphNode[],
+  scopeNodes: GraphNode[]
+): { nodes: GraphNode[]; edges: GraphEdge[]; duplicateCount: number } => {
+  const knownKeys = new Set<string>();
+  const knownDois = new Set<string>();
+  allNodes.forEach(({ citation }) => {
+    if (!citation) return;
+    knownKeys.add(citation.key.toLowerCase());
+    if (citation.doi) knownDois.add(citation.doi.toLowerCase());
+  });
+
+  const nodes: GraphNode[] = [];
+  let duplicateCount = 0;
+  references.forEach((reference) => {
+    const doi = reference.doi?.toLowerCase();
+    if (knownKeys.has(reference.key.toLowerCase()) || (doi && knownDois.has(doi))) {
+      duplicateCount++;
+      return;
+    }
+    knownKeys.add(reference.key.toLowerCase());
+    if (doi) knownDois.add(doi);
+    nodes.push(toNode(reference));
+  });
+
+  // Group new and in-scope references by author and keyword; an edge joins
+  // each pair in a group, labelled by the first thing they were found to share
+  const newIds = new Set(nodes.map((n) => n.id));
+  const candidates = [...nodes, ...scopeNodes.filter((n) => n.citation)];
+  const groupBy = (getKeys: (c: Citation) => string[]) => {
+    const groups = new Map<string, GraphNode[]>();
+    candidates.forEach((node) => {
+      new Set(getKeys(node.citation!)).forEach((key) => {
+        groups.set(key, [...(groups.get(key) || []), node]);
+      });
+    });
+    return Array.from(groups.values()).filter(
+      (group) => group.length > 1 && group.length <= MAX_SHARED_GROUP
+    );
+  };
+
+  const edges: GraphEdge[] = [];
+  const pairs = new Set<string>();
+  const connect = (groups: GraphNode[][], label: string) => {
+    groups.forEach((group) => {
+      group.forEach((a, i) => {
+        group.slice(i + 1).forEach((b) => {
+          if (!newIds.has(a.id) && !newIds.has(b.id)) return;
+          const pair = [a.id, b.id].sort().join("|");
+          if (pairs.has(pair)) return;
+          pairs.add(pair);
+          // Older work first, so edges read forward in time
+          const [source, target] =
+            (a.citation!.year ?? 0) <= (b.citation!.year ?? 0) ? [a, b] : [b, a];
+          edges.push({ id: uuidv4(), source: source.id, target: target.id, ...typeEdgeLabel(label) });
+        });
+      });
+    });
+  };
+  connect(groupBy((c) => (c.authors || []).map(getAuthorKey)), SHARED_AUTHOR_LABEL);
+  connect(
+    groupBy((c) => (c.keywords || []).map((k) => k.toLowerCase())),
+    SHARED_KEYWORD_LABEL
+  );
+
+  // Connected batches get a force layout; unconnected ones a grid
+  const batchEdges = edges.filter((e) => newIds.has(e.source) && newIds.has(e.target));
+  const columns = Math.ceil(Math.sqrt(nodes.length));
+  const laidOut =
+    batchEdges.length > 0
+      ? applyForceLayout(nodes, batchEdges)
+      : nodes.map((node, i) => ({
+          ...node,
+          x: (i % columns) * (DEFAULT_NODE_WIDTH + GRID_GAP),
+          y: Math.floor(i / columns) * (DEFAULT_NODE_HEIGHT + GRID_GAP),
+        }));
+
+  return { nodes: laidOut, edges, duplicateCount };
+};
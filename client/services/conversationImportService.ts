@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, NodeType, ChatMessage } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+
+/*
+ * Conversation exports from LLM chat apps, imported as CHAT nodes.
+ *
+ * Supported shapes of the JSON file (an array of conversations, or a single
+ * one):
+ * - ChatGPT's conversations.json: a "mapping" tree of messages. The branch
+ *   ending at current_node is the one the user last saw; edited-away
+ *   branches are dropped.
+ * - Claude's conversations.json: "chat_messages" with "human" and
+ *   "assistant" senders.
+ * - A plain { title, messages: [{ role, content, timestamp }] } list.
+ * System and tool messages are left out, since CHAT nodes only hold user
+ * and model turns.
+ */
+
+export interface ImportedConversation {
+  title?: string;
+  messages: ChatMessage[];
+}
+
+const GRID_GAP = 80;
+
+// Seconds (ChatGPT), milliseconds or ISO strings, to milliseconds
+const parseTimestamp = (value: unknown, fallback: number): number => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 1e12 ? Math.round(value * 1000) : value;
+  }
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    if (Number.isFinite(time)) return time;
+  }
+  return fallback;
+};
+
+const parseRole = (role: unknown): ChatMessage["role"] | null => {
+  if (role === "user" || role === "human") return "user";
+  if (role === "assistant" || role === "model" || role === "ai") return "model";
+  return null;
+};
+
+// Text of a content field: a string, { parts }, { text }, or a list of blocks
+const getText = (content: unknown): string => {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : part && typeof part === "object" && (part as any).type !== "tool_use"
+          ? getText((part as any).text)
+          : ""
+      )
+      .filter(Boolean)
+      .join("\n");
+  }
+  if (content && typeof content === "object") {
+    const { parts, text } = content as { parts?: unknown; text?: unknown };
+    if (Array.isArray(parts)) return getText(parts);
+    if (typeof text === "string") return text;
+  }
+  return "";
+};
+
+// Merge consecutive turns of the same role (ChatGPT splits long answers)
+const toMessages = (
+  entries: { role: unknown; text: string; time: unknown }[],
+  fallbackTime: number
+): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  let previousTime = fallbackTime;
+  entries.forEach(({ role, text, time }) => {
+    const parsedRole = parseRole(role);
+    const trimmed = text.trim();
+    if (!parsedRole || !trimmed) return;
+    const timestamp = parseTimestamp(time, previousTime);
+    previousTime = timestamp;
+    const last = messages[messages.length - 1];
+    if (last && last.role === parsedRole) {
+      last.text = `${last.text}\n\n${trimmed}`;
+      return;
+    }
+    messages.push({ role: parsedRole, text: trimmed, timestamp });
+  });
+  return messages;
+};
+
+const parseChatGptConversation = (raw: any): ImportedConversation => {
+  const mapping: Record<string, any> = raw.mapping || {};
+  const fallbackTime = parseTimestamp(raw.create_time, Date.now());
+  // Walk up from the last message to the root, then reverse
+  let nodeId: string | undefined =
+    raw.current_node ||
+    Object.keys(mapping).find((id) => !(mapping[id].children || []).length);
+  const branch: any[] = [];
+  const visited = new Set<string>();
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    if (mapping[nodeId].message) branch.unshift(mapping[nodeId].message);
+    nodeId = mapping[nodeId].parent;
+  }
+  return {
+    title: typeof raw.title === "string" ? raw.title.trim() : undefined,
+    messages: toMessages(
+      branch
+        .filter((m) => !m.metadata?.is_visually_hidden_from_conversation)
+        .map((m) => ({
+          role: m.author?.role,
+          text: getText(m.content),
+          time: m.create_time,
+        })),
+      fallbackTime
+    ),
+  };
+};
+
+const parseClaudeConversation = (raw: any): ImportedConversation => ({
+  title: typeof raw.name === "string" ? raw.name.trim() : undefined,
+  messages: toMessages(
+    (raw.chat_messages || []).map((m: any) => ({
+      role: m.sender,
+      text: m.text || getText(m.content),
+      time: m.created_at,
+    })),
+    parseTimestamp(raw.created_at, Date.now())
+  ),
+});
+
+const parsePlainConversation = (raw: any): ImportedConversation => ({
+  title:
+    typeof (raw.title ?? raw.name) === "string"
+      ? (raw.title ?? raw.name).trim()
+      : undefined,
+  messages: toMessages(
+    (raw.messages || []).map((m: any) => ({
+      role: m.role ?? m.author?.role ?? m.sender,
+      text: getText(m.content ?? m.text),
+      time: m.timestamp ?? m.create_time ?? m.created_at,
+    })),
+    parseTimestamp(raw.create_time ?? raw.created_at, Date.now())
+  ),
+});
+
+// Throws an Error with a message for the user if the file is not an export
+export const parseConversationExport = (text: string): ImportedConversation[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const items: any[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.conversations)
+    ? data.conversations
+    : [data];
+
+  const parsed = items
+    .filter((item) => item && typeof item === "object")
+    .map((item) =>
+      item.mapping
+        ? parseChatGptConversation(item)
+        : Array.isArray(item.chat_messages)
+        ? parseClaudeConversation(item)
+        : Array.isArray(item.messages)
+        ? parsePlainConversation(item)
+        : null
+    );
+  if (!parsed.some(Boolean)) {
+    throw new Error("The file is not a ChatGPT or Claude conversation export");
+  }
+  // Conversations without user or model turns are left out
+  return parsed.filter(
+    (c): c is ImportedConversation => !!c && c.messages.length > 0
+  );
+};
+
+/**
+ * One CHAT node per conversation, titled with titles[i], laid out in a grid
+ * around (0, 0).
+ */
+export const buildChatNodes = (
+  conversations: ImportedConversation[],
+  titles: string[]
+): GraphNode[] => {
+  const columns = Math.ceil(Math.sqrt(conversations.length));
+  return conversations.map((conversation, i) => ({
+    id: uuidv4(),
+    type: NodeType.CHAT,
+    x: (i % columns) * (DEFAULT_NODE_WIDTH + GRID_GAP),
+    y: Math.floor(i / columns) * (DEFAULT_NODE_HEIGHT + GRID_GAP),
+    content: titles[i],
+    messages: conversation.messages,
+    width: DEFAULT_NODE_WIDTH,
+    height: DEFAULT_NODE_HEIGHT,
+  }));
+};
@@ -0,0 +1,330 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  GraphNode,
+  GraphEdge,
+  NodeType,
+  NodeColor,
+  NodeProperty,
+  PropertyType,
+} from "../types";
+import {
+  NODE_COLORS,
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
+} from "../constants";
+import { applyForceLayout } from "./layoutService";
+import { coercePropertyValue } from "./propertyService";
+import { getNodeTitle } from "../utils/wikiLinks";
+
+/*
+ * CSV and TSV import of a nodes file and an optional edges file.
+ *
+ * Each row of the nodes file becomes a NOTE. Columns are mapped to node
+ * fields; custom columns become node properties, typed as numbers, dates,
+ * yes/no or URLs when every value in the column reads as one. Rows whose
+ * title matches a node already in the scope (lower-cased, as Wikidata
+ * expansion matches labels), or an earlier row, are not imported again, and
+ * edges to them connect to the node that is there.
+ */
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type CsvNodeField =
+  | "content"
+  | "summary"
+  | "link"
+  | "color"
+  | "aliases"
+  | "id"
+  | "custom"
+  | "ignore";
+
+export interface CsvNodeMapping {
+  // One field per column of the nodes file
+  fields: CsvNodeField[];
+  aliasDelimiter: string;
+}
+
+export interface CsvEdgeMapping {
+  sourceColumn: number;
+  targetColumn: number;
+  labelColumn: number | null;
+  // Whether source and target hold node titles or ids
+  matchBy: "title" | "id";
+}
+
+export interface CsvImportResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Rows matching a node already in the scope
+  duplicateCount: number;
+  // Rows repeating the title of an earlier row in the file
+  repeatedRowCount: number;
+  skippedEdgeCount: number;
+}
+
+const DEFAULT_EDGE_LABEL = "related";
+const GRID_GAP = 80;
+
+const getLabelKey = (label: string) => label.trim().toLowerCase();
+
+const detectDelimiter = (text: string, fileName: string) => {
+  if (/\.tsv$/i.test(fileName)) return "\t";
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count("\t") > 0) return "\t";
+  return count(";") > count(",") ? ";" : ",";
+};
+
+// Parse CSV or TSV text (RFC 4180 quoting). The first row is the header.
+export const parseCsv = (text: string, fileName: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source, fileName);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmptyRows = rows.filter((r) => r.some((value) => value.trim()));
+  if (nonEmptyRows.length === 0) {
+    throw new Error("The file is empty");
+  }
+  const [headerRow, ...dataRows] = nonEmptyRows;
+  const width = Math.max(...nonEmptyRows.map((r) => r.length));
+  const headers = Array.from(
+    { length: width },
+    (_, i) => headerRow[i]?.trim() || `Column ${i + 1}`
+  );
+  return {
+    headers,
+    rows: dataRows.map((r) =>
+      Array.from({ length: width }, (_, i) => (r[i] ?? "").trim())
+    ),
+  };
+};
+
+// Guess the field of each column from its header
+export const guessNodeMapping = (headers: string[]): CsvNodeMapping => {
+  const taken = new Set<CsvNodeField>();
+  const fields = headers.map((header): CsvNodeField => {
+    const name = header.trim().toLowerCase();
+    const guess: CsvNodeField | null = /^(title|name|label|content)$/.test(name)
+      ? "content"
+      : /^(summary|description)$/.test(name)
+      ? "summary"
+      : /^(link|url|website)$/.test(name)
+      ? "link"
+      : /^colou?r$/.test(name)
+      ? "color"
+      : /^(aliases|alias|synonyms)$/.test(name)
+      ? "aliases"
+      : /^id$/.test(name)
+      ? "id"
+      : null;
+    if (!guess || taken.has(guess)) return "custom";
+    taken.add(guess);
+    return guess;
+  });
+  // Without a recognized title column, the first column is the title
+  if (!taken.has("content") && fields.length > 0) fields[0] = "content";
+  return { fields, aliasDelimiter: ";" };
+};
+
+export const guessEdgeMapping = (headers: string[]): CsvEdgeMapping => {
+  const find = (pattern: RegExp) =>
+    headers.findIndex((h) => pattern.test(h.trim().toLowerCase()));
+  const sourceColumn = find(/^(source|from|parent)/);
+  const targetColumn = find(/^(target|to|child)/);
+  const labelColumn = find(/^(label|relation|relationship|type)$/);
+  return {
+    sourceColumn: sourceColumn >= 0 ? sourceColumn : 0,
+    targetColumn:
+      targetColumn >= 0 ? targetColumn : Math.min(1, headers.length - 1),
+    labelColumn: labelColumn >= 0 ? labelColumn : null,
+    matchBy: headers.some((h) => /_?id$/i.test(h.trim())) ? "id" : "title",
+  };
+};
+
+const parseColor = (value: string): NodeColor | undefined => {
+  const color = value.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(NODE_COLORS, color)
+    ? (color as NodeColor)
+    : undefined;
+};
+
+// The type every non-empty value of a custom column reads as, else text
+const guessPropertyType = (values: (string | undefined)[]): PropertyType => {
+  const filled = values.map((v) => v?.trim()).filter((v): v is string => !!v);
+  if (filled.length === 0) return "text";
+  const all = (test: (v: string) => boolean) => filled.every(test);
+  if (all((v) => /^-?\d+(\.\d+)?$/.test(v))) return "number";
+  if (all((v) => /^\d{4}-\d{2}-\d{2}$/.test(v))) return "date";
+  if (all((v) => /^(true|false)$/i.test(v))) return "boolean";
+  if (all((v) => /^https?:\/\/\S+$/i.test(v))) return "url";
+  return "text";
+};
+
+/**
+ * Build the nodes and edges to add. existingNodes are the nodes already in
+ * the scope: rows matching one of them by title are skipped. The new nodes
+ * are laid out around (0, 0); placing them in the graph is left to the
+ * caller.
+ */
+export const buildGraphFromCsv = (
+  nodesTable: CsvTable,
+  nodeMapping: CsvNodeMapping,
+  edgesTable: CsvTable | null,
+  edgeMapping: CsvEdgeMapping | null,
+  existingNodes: GraphNode[]
+): CsvImportResult => {
+  const nodeIdByLabel = new Map<string, string>();
+  existingNodes.forEach((node) => {
+    const key = getLabelKey(getNodeTitle(node));
+    if (!nodeIdByLabel.has(key)) nodeIdByLabel.set(key, node.id);
+  });
+  const existingLabels = new Set(nodeIdByLabel.keys());
+  const nodeIdByRowId = new Map<string, string>();
+  const existingIds = new Set(existingNodes.map((n) => n.id));
+
+  const nodes: GraphNode[] = [];
+  let duplicateCount = 0;
+  let repeatedRowCount = 0;
+  const { fields, aliasDelimiter } = nodeMapping;
+  const column = (field: CsvNodeField) => fields.indexOf(field);
+  const customTypes = fields.map((field, i) =>
+    field === "custom"
+      ? guessPropertyType(nodesTable.rows.map((row) => row[i]))
+      : null
+  );
+
+  nodesTable.rows.forEach((row) => {
+    const title = row[column("content")]?.trim();
+    if (!title) return;
+    const rowId = column("id") >= 0 ? row[column("id")] : "";
+    const existingId = nodeIdByLabel.get(getLabelKey(title));
+    if (existingId) {
+      if (existingLabels.has(getLabelKey(title))) duplicateCount++;
+      else repeatedRowCount++;
+      if (rowId) nodeIdByRowId.set(rowId, existingId);
+      return;
+    }
+
+    const properties: NodeProperty[] = [];
+    customTypes.forEach((type, i) => {
+      const value = type ? coercePropertyValue(type, row[i]) : undefined;
+      const key = nodesTable.headers[i]?.trim() || `Column ${i + 1}`;
+      if (type && value !== undefined && !properties.some((p) => p.key === key)) {
+        properties.push({ key, type, value });
+      }
+    });
+    const node: GraphNode = {
+      id: uuidv4(),
+      type: NodeType.NOTE,
+      x: 0,
+      y: 0,
+      content: title,
+      width: DEFAULT_NODE_WIDTH,
+      height: DEFAULT_NODE_HEIGHT,
+    };
+    if (properties.length) node.properties = properties;
+    const summary = column("summary") >= 0 ? row[column("summary")] : "";
+    if (summary) node.summary = summary;
+    const link = column("link") >= 0 ? row[column("link")] : "";
+    if (link) node.link = link;
+    const color = column("color") >= 0 ? parseColor(row[column("color")]) : undefined;
+    if (color) node.color = color;
+    const aliases =
+      column("aliases") >= 0
+        ? row[column("aliases")]
+            .split(aliasDelimiter || ";")
+            .map((a) => a.trim())
+            .filter(Boolean)
+        : [];
+    if (aliases.length) node.aliases = aliases;
+
+    nodes.push(node);
+    nodeIdByLabel.set(getLabelKey(title), node.id);
+    if (rowId) nodeIdByRowId.set(rowId, node.id);
+  });
+
+  const edges: GraphEdge[] = [];
+  let skippedEdgeCount = 0;
+  if (edgesTable && edgeMapping) {
+    const { sourceColumn, targetColumn, labelColumn, matchBy } = edgeMapping;
+    const resolve = (value: string | undefined) => {
+      if (!value) return undefined;
+      if (matchBy === "title") return nodeIdByLabel.get(getLabelKey(value));
+      return nodeIdByRowId.get(value) ?? (existingIds.has(value) ? value : undefined);
+    };
+    const edgeKeys = new Set<string>();
+    edgesTable.rows.forEach((row) => {
+      const source = resolve(row[sourceColumn]);
+      const target = resolve(row[targetColumn]);
+      const label =
+        (labelColumn !== null ? row[labelColumn] : "") || DEFAULT_EDGE_LABEL;
+      const key = `${source}->${target}:${label}`;
+      if (!source || !target || source === target) {
+        skippedEdgeCount++;
+        return;
+      }
+      if (edgeKeys.has(key)) return;
+      edgeKeys.add(key);
+      edges.push({ id: uuidv4(), source, target, label });
+    });
+  }
+
+  // Connected batches get a force layout; unconnected ones a grid
+  const newIds = new Set(nodes.map((n) => n.id));
+  const batchEdges = edges.filter((e) => newIds.has(e.source) && newIds.has(e.target));
+  const columns = Math.ceil(Math.sqrt(nodes.length));
+  const laidOut =
+    batchEdges.length > 0
+      ? applyForceLayout(nodes, batchEdges)
+      : nodes.map((node, i) => ({
+          ...node,
+          x: (i % columns) * (DEFAULT_NODE_WIDTH + GRID_GAP),
+          y: Math.floor(i / columns) * (DEFAULT_NODE_HEIGHT + GRID_GAP),
+        }));
+
+  return {
+    nodes: laidOut,
+    edges,
+    duplicateCount,
+    repeatedRowCount,
+    skippedEdgeCount,
+  };
+};
@@ -0,0 +1,115 @@
+import { GraphNode, GraphEdge, NodeColor } from "../types";
+import { NODE_COLORS } from "../constants";
+import { getNodeTitle } from "../utils/wikiLinks";
+
+/*
+ * Mermaid flowchart and Graphviz DOT export, for diagrams in docs and PRs.
+ *
+ * Nodes get short ids (n0, n1, ...) in the order they are given. Nodes with
+ * a color are filled with its indicator color; the others keep the default
+ * style of the renderer.
+ */
+
+// Same directions as the tree layouts
+export type DiagramDirection = "TB" | "LR";
+
+const getDiagramIds = (nodes: GraphNode[]) =>
+  new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+
+// Titles and labels are written on one line
+const toSingleLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+const escapeMermaid = (text: string) =>
+  toSingleLine(text)
+    .replace(/#/g, "#35;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;");
+
+const escapeDot = (text: string) =>
+  toSingleLine(text).replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+export const exportMermaid = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  direction: DiagramDirection
+): string => {
+  const ids = getDiagramIds(nodes);
+  const lines = [`flowchart ${direction}`];
+
+  nodes.forEach((node) => {
+    lines.push(`    ${ids.get(node.id)}["${escapeMermaid(getNodeTitle(node))}"]`);
+  });
+
+  edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const label = escapeMermaid(edge.label);
+    lines.push(
+      label
+        ? `    ${source} -->|"${label}"| ${target}`
+        : `    ${source} --> ${target}`
+    );
+  });
+
+  const nodesByColor = new Map<NodeColor, string[]>();
+  nodes.forEach((node) => {
+    if (!node.color) return;
+    nodesByColor.set(node.color, [
+      ...(nodesByColor.get(node.color) || []),
+      ids.get(node.id)!,
+    ]);
+  });
+  nodesByColor.forEach((colorIds, color) => {
+    const { hex } = NODE_COLORS[color];
+    lines.push(
+      `    classDef ${color} fill:${hex},stroke:${hex},color:#ffffff`,
+      `    class ${colorIds.join(",")} ${color}`
+    );
+  });
+
+  return lines.join("\n") + "\n";
+};
+
+export const exportDot = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  direction: DiagramDirection
+): string => {
+  const ids = getDiagramIds(nodes);
+  const lines = [
+    "digraph infoverse {",
+    `    rankdir=${direction};`,
+    '    node [shape=box, style=rounded];',
+  ];
+
+  nodes.forEach((node) => {
+    const attributes = [`label="${escapeDot(getNodeTitle(node))}"`];
+    if (node.color) {
+      const { hex } = NODE_COLORS[node.color];
+      attributes.push(
+        'style="rounded,filled"',
+        `fillcolor="${hex}"`,
+        `color="${hex}"`,
+        'fontcolor="#ffffff"'
+      );
+    }
+    lines.push(`    ${ids.get(node.id)} [${attributes.join(", ")}];`);
+  });
+
+  edges.forEach((edge) => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (!source || !target) return;
+    const label = escapeDot(edge.label);
+    lines.push(
+      label
+        ? `    ${source} -> ${target} [label="${label}"];`
+        : `    ${source} -> ${target};`
+    );
+  });
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+};
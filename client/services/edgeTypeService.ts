@@ -0,0 +1,136 @@
+import { EdgeType, EdgeDirectionality, GraphEdge } from "../types";
+import { BUILT_IN_EDGE_TYPES } from "../constants";
+import { getCustomEdgeTypes, setCustomEdgeTypes } from "./settingsService";
+
+/*
+ * The relationship vocabulary: built-in edge types plus the ones the user
+ * adds. Edges store the type's id in `type` and its name in `label`, so a
+ * file or row read by an app that does not know the type still shows the
+ * relationship.
+ *
+ * Labels written by the AI providers and by Wikidata expansion ("Subtopic",
+ * "is part of", "Related to") are matched against type names and synonyms
+ * when edges are created; labels that match nothing are kept as free text.
+ * A label that names a directed type from the other end ("subtopic of",
+ * "part of") gives that type with the edge turned around.
+ */
+
+let customTypes: EdgeType[] | null = null;
+
+export const getEdgeTypes = (): EdgeType[] => {
+  if (!customTypes) customTypes = getCustomEdgeTypes();
+  return [...BUILT_IN_EDGE_TYPES, ...customTypes];
+};
+
+export const getEdgeType = (id?: string): EdgeType | undefined =>
+  id ? getEdgeTypes().find((t) => t.id === id) : undefined;
+
+// "Is_Part Of." -> "is part of"
+const normalizeLabelText = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[_"“”]/g, " ")
+    .replace(/[.!:;,]+\s*$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const matchesAny = (names: (string | undefined)[], text: string) =>
+  names.some((name) => !!name && normalizeLabelText(name) === text);
+
+const matchesLabel = (type: EdgeType, text: string) =>
+  matchesAny([type.name, ...(type.synonyms || [])], text);
+
+const matchesInverseLabel = (type: EdgeType, text: string) =>
+  type.directionality === "directed" &&
+  matchesAny([type.inverseName, ...(type.inverseSynonyms || [])], text);
+
+export interface EdgeTypeMatch {
+  type: EdgeType;
+  // The label reads from target to source
+  isInverse: boolean;
+}
+
+// The type a free-text label means, if any. Names read from source to target
+// win over inverse names. A leading "is" / "are" is ignored when nothing
+// matches with it ("is related to" -> related).
+export const findEdgeTypeForLabel = (
+  label: string,
+  types: EdgeType[] = getEdgeTypes()
+): EdgeTypeMatch | undefined => {
+  const text = normalizeLabelText(label);
+  if (!text) return undefined;
+  const shortened = text.replace(/^(is|are|was|were) /, "");
+  for (const candidate of [text, shortened]) {
+    const type = types.find((t) => matchesLabel(t, candidate));
+    if (type) return { type, isInverse: false };
+    const inverse = types.find((t) => matchesInverseLabel(t, candidate));
+    if (inverse) return { type: inverse, isInverse: true };
+  }
+  return undefined;
+};
+
+// Label and type for a new edge: a label from the vocabulary becomes its
+// type's name, any other label is kept as written. Inverse labels are kept
+// as written too, since the edge cannot be turned around here; edges with
+// labels from outside the app are typed with typeEdge.
+export const typeEdgeLabel = (label: string): Pick<GraphEdge, "label" | "type"> => {
+  const match = findEdgeTypeForLabel(label);
+  return match && !match.isInverse
+    ? { label: match.type.name, type: match.type.id }
+    : { label: label.trim() };
+};
+
+// Endpoints, label and type for a new edge. Like typeEdgeLabel, but an
+// inverse label gives its type with source and target swapped: "A subtopic
+// of B" becomes "B subtopic A".
+export const typeEdge = (
+  source: string,
+  target: string,
+  label: string
+): Pick<GraphEdge, "source" | "target" | "label" | "type"> => {
+  const match = findEdgeTypeForLabel(label);
+  if (!match) return { source, target, label: label.trim() };
+  const typed = { label: match.type.name, type: match.type.id };
+  return match.isInverse
+    ? { source: target, target: source, ...typed }
+    : { source, target, ...typed };
+};
+
+// Untyped edges and edges of unknown types read from source to target
+export const getEdgeDirectionality = (edge: GraphEdge): EdgeDirectionality =>
+  getEdgeType(edge.type)?.directionality ?? "directed";
+
+// Stroke width factor for an edge's weight, kept within what stays readable
+export const getEdgeWeightScale = (edge: GraphEdge) =>
+  typeof edge.weight === "number" && Number.isFinite(edge.weight)
+    ? Math.min(Math.max(edge.weight, 0.5), 3)
+    : 1;
+
+// How an edge reads from one of its ends: an "includes" edge reads
+// "part of" from its target
+export const getEdgeDisplayName = (
+  edge: GraphEdge,
+  from: "source" | "target" = "source"
+): string => {
+  const type = getEdgeType(edge.type);
+  if (!type) return edge.label;
+  return from === "target" && type.directionality === "directed"
+    ? type.inverseName || type.name
+    : type.name;
+};
+
+// Adds a type to the vocabulary; its id is derived from the name
+export const addCustomEdgeType = (type: Omit<EdgeType, "id">): EdgeType => {
+  const base =
+    type.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "relationship";
+  const ids = new Set(getEdgeTypes().map((t) => t.id));
+  let id = base;
+  for (let i = 2; ids.has(id); i++) id = `${base}-${i}`;
+  const created: EdgeType = { ...type, id };
+  customTypes = [...getCustomEdgeTypes(), created];
+  setCustomEdgeTypes(customTypes);
+  return created;
+};
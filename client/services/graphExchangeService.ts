@@ -0,0 +1,494 @@
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, GraphEdge, NodeType, NodeColor } from "../types";
+import {
+  NODE_COLORS,
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
+} from "../constants";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { applyForceLayout } from "./layoutService";
+import { getEdgeType, typeEdge } from "./edgeTypeService";
+
+/*
+ * GraphML and GEXF exchange, for tools such as Gephi and yEd.
+ *
+ * Positions are node centers, as those tools expect. GEXF viz positions
+ * have the y axis pointing up, so y is flipped there. Aliases are stored as
+ * a JSON array. Edges keep their type id and weight; GEXF has its own weight
+ * attribute. Chat messages are not exported.
+ */
+
+// Attributes written for every node, in the order they are declared
+const NODE_ATTRIBUTES = [
+  { name: "content", type: "string" },
+  { name: "type", type: "string" },
+  { name: "color", type: "string" },
+  { name: "link", type: "string" },
+  { name: "summary", type: "string" },
+  { name: "aliases", type: "string" },
+  { name: "parentId", type: "string" },
+  { name: "width", type: "double" },
+  { name: "height", type: "double" },
+] as const;
+
+type NodeAttributeName = (typeof NODE_ATTRIBUTES)[number]["name"];
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const hexToRgb = (hex: string) => ({
+  r: parseInt(hex.slice(1, 3), 16),
+  g: parseInt(hex.slice(3, 5), 16),
+  b: parseInt(hex.slice(5, 7), 16),
+});
+
+// Map an RGB color from another tool to the closest node color
+const nearestNodeColor = (r: number, g: number, b: number): NodeColor => {
+  let best: NodeColor = "slate";
+  let bestDistance = Infinity;
+  (Object.keys(NODE_COLORS) as NodeColor[]).forEach((color) => {
+    const c = hexToRgb(NODE_COLORS[color].hex);
+    const distance = (c.r - r) ** 2 + (c.g - g) ** 2 + (c.b - b) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = color;
+    }
+  });
+  return best;
+};
+
+const getNodeAttributes = (
+  node: GraphNode
+): Record<NodeAttributeName, string | number | undefined> => ({
+  content: node.content,
+  type: node.type,
+  color: node.color,
+  link: node.link,
+  summary: node.summary,
+  aliases: node.aliases?.length ? JSON.stringify(node.aliases) : undefined,
+  parentId: node.parentId,
+  width: node.width,
+  height: node.height,
+});
+
+// Own keys only: "constructor" and other Object keys are not colors
+const isNodeColor = (value?: string): value is NodeColor =>
+  !!value && Object.prototype.hasOwnProperty.call(NODE_COLORS, value);
+
+const getNodeRgb = (node: GraphNode) =>
+  hexToRgb(NODE_COLORS[isNodeColor(node.color) ? node.color : "slate"].hex);
+
+const getCenter = (node: GraphNode) => ({
+  x: node.x + (node.width || DEFAULT_NODE_WIDTH) / 2,
+  y: node.y + (node.height || DEFAULT_NODE_HEIGHT) / 2,
+});
+
+export const exportGraphML = (nodes: GraphNode[], edges: GraphEdge[]) => {
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    ...NODE_ATTRIBUTES.map(
+      ({ name, type }) =>
+        `  <key id="${name}" for="node" attr.name="${name}" attr.type="${type}"/>`
+    ),
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="r" for="node" attr.name="r" attr.type="int"/>',
+    '  <key id="g" for="node" attr.name="g" attr.type="int"/>',
+    '  <key id="b" for="node" attr.name="b" attr.type="int"/>',
+    '  <key id="edgeLabel" for="edge" attr.name="label" attr.type="string"/>',
+    '  <key id="edgeType" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <graph id="G" edgedefault="directed">',
+  ];
+
+  nodes.forEach((node) => {
+    const { x, y } = getCenter(node);
+    const { r, g, b } = getNodeRgb(node);
+    const data: [string, string | number | undefined][] = [
+      ["label", getNodeTitle(node)],
+      ...Object.entries(getNodeAttributes(node)),
+      ["x", x],
+      ["y", y],
+      ["r", r],
+      ["g", g],
+      ["b", b],
+    ];
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    data.forEach(([key, value]) => {
+      if (value === undefined || value === "") return;
+      lines.push(
+        `      <data key="${key}">${escapeXml(String(value))}</data>`
+      );
+    });
+    lines.push("    </node>");
+  });
+
+  edges
+    .filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target))
+    .forEach((edge) => {
+      lines.push(
+        `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`,
+        `      <data key="edgeLabel">${escapeXml(edge.label || "")}</data>`
+      );
+      if (edge.type) {
+        lines.push(`      <data key="edgeType">${escapeXml(edge.type)}</data>`);
+      }
+      if (typeof edge.weight === "number") {
+        lines.push(`      <data key="weight">${edge.weight}</data>`);
+      }
+      lines.push("    </edge>");
+    });
+
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+};
+
+export const exportGEXF = (nodes: GraphNode[], edges: GraphEdge[]) => {
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().substring(0, 10)}">`,
+    "    <creator>Infoverse</creator>",
+    "  </meta>",
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...NODE_ATTRIBUTES.map(
+      ({ name, type }) =>
+        `      <attribute id="${name}" title="${name}" type="${type}"/>`
+    ),
+    "    </attributes>",
+    '    <attributes class="edge">',
+    '      <attribute id="type" title="type" type="string"/>',
+    "    </attributes>",
+    "    <nodes>",
+  ];
+
+  nodes.forEach((node) => {
+    const { x, y } = getCenter(node);
+    const { r, g, b } = getNodeRgb(node);
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(getNodeTitle(node))}">`,
+      "        <attvalues>"
+    );
+    Object.entries(getNodeAttributes(node)).forEach(([key, value]) => {
+      if (value === undefined || value === "") return;
+      lines.push(
+        `          <attvalue for="${key}" value="${escapeXml(String(value))}"/>`
+      );
+    });
+    lines.push(
+      "        </attvalues>",
+      `        <viz:position x="${x}" y="${-y}" z="0"/>`,
+      `        <viz:color r="${r}" g="${g}" b="${b}"/>`,
+      "      </node>"
+    );
+  });
+
+  lines.push("    </nodes>", "    <edges>");
+  edges
+    .filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target))
+    .forEach((edge) => {
+      const weight =
+        typeof edge.weight === "number" ? ` weight="${edge.weight}"` : "";
+      const start = `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" label="${escapeXml(edge.label || "")}"${weight}`;
+      if (!edge.type) {
+        lines.push(`${start}/>`);
+        return;
+      }
+      lines.push(
+        `${start}>`,
+        "        <attvalues>",
+        `          <attvalue for="type" value="${escapeXml(edge.type)}"/>`,
+        "        </attvalues>",
+        "      </edge>"
+      );
+    });
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return lines.join("\n");
+};
+
+// A node as read from a file, before ids and positions are settled
+interface ImportedNodeData {
+  id: string;
+  label?: string;
+  attributes: Record<string, string>;
+  position?: { x: number; y: number };
+  rgb?: { r: number; g: number; b: number };
+}
+
+interface ImportedEdgeData {
+  source: string;
+  target: string;
+  label?: string;
+  type?: string;
+  weight?: number;
+}
+
+const descendantsByLocalName = (parent: Element, localName: string) =>
+  Array.from(parent.getElementsByTagNameNS("*", localName));
+
+const readNumber = (value: string | null | undefined) => {
+  if (value == null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const readGraphMLData = (root: Element) => {
+  // Key ids are arbitrary, attribute names are what identifies a field
+  const keyNames = new Map<string, string>();
+  descendantsByLocalName(root, "key").forEach((key) => {
+    keyNames.set(
+      `${key.getAttribute("for") || "all"}:${key.getAttribute("id")}`,
+      key.getAttribute("attr.name") || key.getAttribute("id") || ""
+    );
+  });
+  const readData = (element: Element, kind: "node" | "edge") => {
+    const values: Record<string, string> = {};
+    Array.from(element.children)
+      .filter((child) => child.localName === "data")
+      .forEach((data) => {
+        const keyId = data.getAttribute("key") || "";
+        const name =
+          keyNames.get(`${kind}:${keyId}`) || keyNames.get(`all:${keyId}`);
+        // yEd keeps geometry and labels in nested elements
+        if (!name || data.children.length > 0) return;
+        values[name] = data.textContent || "";
+      });
+    return values;
+  };
+
+  const nodes: ImportedNodeData[] = descendantsByLocalName(root, "node").map(
+    (element) => {
+      const attributes = readData(element, "node");
+      const geometry = descendantsByLocalName(element, "Geometry")[0];
+      const nodeLabel = descendantsByLocalName(element, "NodeLabel")[0];
+      const x = readNumber(attributes.x);
+      const y = readNumber(attributes.y);
+      const r = readNumber(attributes.r);
+      const g = readNumber(attributes.g);
+      const b = readNumber(attributes.b);
+
+      let position = x !== undefined && y !== undefined ? { x, y } : undefined;
+      if (!position && geometry) {
+        // yEd geometry is the top-left corner and the size of its shape
+        const gx = readNumber(geometry.getAttribute("x"));
+        const gy = readNumber(geometry.getAttribute("y"));
+        const width = readNumber(geometry.getAttribute("width")) || 0;
+        const height = readNumber(geometry.getAttribute("height")) || 0;
+        if (gx !== undefined && gy !== undefined) {
+          position = { x: gx + width / 2, y: gy + height / 2 };
+        }
+      }
+      return {
+        id: element.getAttribute("id") || uuidv4(),
+        label: attributes.label || nodeLabel?.textContent?.trim() || undefined,
+        attributes,
+        position,
+        rgb:
+          r !== undefined && g !== undefined && b !== undefined
+            ? { r, g, b }
+            : undefined,
+      };
+    }
+  );
+
+  const edges: ImportedEdgeData[] = descendantsByLocalName(root, "edge").map(
+    (element) => {
+      const attributes = readData(element, "edge");
+      const edgeLabel = descendantsByLocalName(element, "EdgeLabel")[0];
+      return {
+        source: element.getAttribute("source") || "",
+        target: element.getAttribute("target") || "",
+        label: attributes.label || edgeLabel?.textContent?.trim() || undefined,
+        type: attributes.type || undefined,
+        weight: readNumber(attributes.weight),
+      };
+    }
+  );
+
+  return { nodes, edges };
+};
+
+const readGEXFData = (root: Element) => {
+  // Attribute ids are declared per class, node or edge
+  const attributeNames = new Map<string, string>();
+  descendantsByLocalName(root, "attributes").forEach((attributes) =>
+    descendantsByLocalName(attributes, "attribute").forEach((attribute) => {
+      attributeNames.set(
+        `${attributes.getAttribute("class")}:${attribute.getAttribute("id")}`,
+        attribute.getAttribute("title") || attribute.getAttribute("id") || ""
+      );
+    })
+  );
+  const readAttvalues = (element: Element, kind: "node" | "edge") => {
+    const attributes: Record<string, string> = {};
+    descendantsByLocalName(element, "attvalue").forEach((attvalue) => {
+      const id = attvalue.getAttribute("for") || attvalue.getAttribute("id") || "";
+      attributes[attributeNames.get(`${kind}:${id}`) || id] =
+        attvalue.getAttribute("value") || "";
+    });
+    return attributes;
+  };
+
+  const nodes: ImportedNodeData[] = descendantsByLocalName(root, "node").map(
+    (element) => {
+      const attributes = readAttvalues(element, "node");
+      const position = descendantsByLocalName(element, "position")[0];
+      const color = descendantsByLocalName(element, "color")[0];
+      const x = readNumber(position?.getAttribute("x"));
+      const y = readNumber(position?.getAttribute("y"));
+      const r = readNumber(color?.getAttribute("r"));
+      const g = readNumber(color?.getAttribute("g"));
+      const b = readNumber(color?.getAttribute("b"));
+      return {
+        id: element.getAttribute("id") || uuidv4(),
+        label: element.getAttribute("label") || undefined,
+        attributes,
+        position:
+          x !== undefined && y !== undefined ? { x, y: -y } : undefined,
+        rgb:
+          r !== undefined && g !== undefined && b !== undefined
+            ? { r, g, b }
+            : undefined,
+      };
+    }
+  );
+
+  const edges: ImportedEdgeData[] = descendantsByLocalName(root, "edge").map(
+    (element) => ({
+      source: element.getAttribute("source") || "",
+      target: element.getAttribute("target") || "",
+      label: element.getAttribute("label") || undefined,
+      type: readAttvalues(element, "edge").type || undefined,
+      weight: readNumber(element.getAttribute("weight")),
+    })
+  );
+
+  return { nodes, edges };
+};
+
+const parseAliases = (value?: string) => {
+  if (!value) return undefined;
+  try {
+    const aliases = JSON.parse(value);
+    if (Array.isArray(aliases)) return aliases.map(String).filter(Boolean);
+  } catch {
+    // Not JSON: a separated list written by another tool
+  }
+  const aliases = value.split(/[;|]/).map((a) => a.trim()).filter(Boolean);
+  return aliases.length > 0 ? aliases : undefined;
+};
+
+// Parse a GraphML or GEXF document into new nodes and edges. Nodes get new
+// ids; scopes are kept when the scope node is part of the file. When any
+// node has no position, the whole batch is laid out with applyForceLayout.
+// Throws an Error with a message for the user if the file cannot be read.
+export const importGraphExchangeFile = (
+  text: string
+): { nodes: GraphNode[]; edges: GraphEdge[]; format: "GraphML" | "GEXF" } => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+
+  let format: "GraphML" | "GEXF";
+  let data: { nodes: ImportedNodeData[]; edges: ImportedEdgeData[] };
+  if (root.localName === "graphml") {
+    format = "GraphML";
+    data = readGraphMLData(root);
+  } else if (root.localName === "gexf") {
+    format = "GEXF";
+    data = readGEXFData(root);
+  } else {
+    throw new Error("The file is neither GraphML nor GEXF");
+  }
+
+  const idMap = new Map<string, string>();
+  data.nodes.forEach((n) => {
+    if (!idMap.has(n.id)) idMap.set(n.id, uuidv4());
+  });
+
+  const seenIds = new Set<string>();
+  let nodes: GraphNode[] = data.nodes
+    .filter((n) => {
+      if (seenIds.has(n.id)) return false;
+      seenIds.add(n.id);
+      return true;
+    })
+    .map(({ id, label, attributes, position, rgb }) => {
+      const type =
+        attributes.type === NodeType.CHAT ? NodeType.CHAT : NodeType.NOTE;
+      const width = readNumber(attributes.width);
+      const height = readNumber(attributes.height);
+      const color = isNodeColor(attributes.color)
+        ? attributes.color
+        : rgb
+          ? nearestNodeColor(rgb.r, rgb.g, rgb.b)
+          : undefined;
+      const center = position || { x: NaN, y: NaN };
+      const node: GraphNode = {
+        id: idMap.get(id)!,
+        type,
+        content: attributes.content || label || "Untitled",
+        x: center.x - (width || DEFAULT_NODE_WIDTH) / 2,
+        y: center.y - (height || DEFAULT_NODE_HEIGHT) / 2,
+        ...(width ? { width } : {}),
+        ...(height ? { height } : {}),
+        ...(color ? { color } : {}),
+        ...(attributes.link ? { link: attributes.link } : {}),
+        ...(attributes.summary ? { summary: attributes.summary } : {}),
+        ...(attributes.parentId && idMap.has(attributes.parentId)
+          ? { parentId: idMap.get(attributes.parentId) }
+          : {}),
+      };
+      const aliases = parseAliases(attributes.aliases);
+      if (aliases) node.aliases = aliases;
+      if (type === NodeType.CHAT) node.messages = [];
+      return node;
+    });
+
+  const parentById = new Map(nodes.map((n) => [n.id, n.parentId]));
+  const edges: GraphEdge[] = data.edges
+    .filter((e) => idMap.has(e.source) && idMap.has(e.target))
+    .map((e) => {
+      // A type id this app knows wins over the label; others type by label
+      const type = getEdgeType(e.type);
+      const edge = type
+        ? {
+            source: idMap.get(e.source)!,
+            target: idMap.get(e.target)!,
+            label: type.name,
+            type: type.id,
+          }
+        : typeEdge(
+            idMap.get(e.source)!,
+            idMap.get(e.target)!,
+            e.label || "related"
+          );
+      return {
+        id: uuidv4(),
+        ...edge,
+        ...(e.weight !== undefined ? { weight: e.weight } : {}),
+        parentId: parentById.get(edge.source),
+      };
+    });
+
+  if (nodes.some((n) => !Number.isFinite(n.x) || !Number.isFinite(n.y))) {
+    nodes = applyForceLayout(
+      nodes.map((n) => ({ ...n, x: 0, y: 0 })),
+      edges
+    );
+  }
+
+  return { nodes, edges, format };
+};
@@ -0,0 +1,198 @@
+import { GraphNode, ChatMessage } from "../types";
+import { HISTORY_MERGE_WINDOW_MS } from "../constants";
+import { HistoryRetention } from "./settingsService";
+import {
+  getDirectoryAtPath,
+  isVaultReadOnly,
+  parseMarkdownText,
+  ReplacedNodeFile,
+  removeVaultEntry,
+  writeTextFile,
+} from "./storageService";
+
+// Each node gets a folder of revisions, one JSON file per revision named
+// after its save time. Like other hidden folders it is not loaded as notes.
+const HISTORY_FOLDER = ".infoverse/history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NodeRevision {
+  savedAt: number;
+  content: string;
+  summary?: string;
+  messages?: ChatMessage[];
+}
+
+const getHistoryPath = (nodeId: string) =>
+  `${HISTORY_FOLDER}/${encodeURIComponent(nodeId)}`;
+
+const getRevisionFileName = (revision: NodeRevision) =>
+  `${revision.savedAt}.json`;
+
+const toRevision = (node: GraphNode, savedAt: number): NodeRevision => ({
+  savedAt,
+  content: node.content || "",
+  ...(node.summary ? { summary: node.summary } : {}),
+  ...(node.messages && node.messages.length > 0
+    ? { messages: node.messages }
+    : {}),
+});
+
+const isSameRevision = (a: NodeRevision, b: NodeRevision) =>
+  a.content === b.content &&
+  (a.summary || "") === (b.summary || "") &&
+  JSON.stringify(a.messages || []) === JSON.stringify(b.messages || []);
+
+// Revisions in a history folder, newest first
+const readRevisions = async (
+  folder: FileSystemDirectoryHandle
+): Promise<NodeRevision[]> => {
+  const revisions: NodeRevision[] = [];
+  for await (const entry of folder.values()) {
+    if (entry.kind !== "file" || !entry.name.endsWith(".json")) continue;
+    try {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      const revision = JSON.parse(await file.text());
+      if (Number.isFinite(revision?.savedAt) && typeof revision.content === "string") {
+        revisions.push(revision);
+      }
+    } catch (e) {
+      console.warn(`Skipped unreadable revision ${entry.name}`, e);
+    }
+  }
+  return revisions.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+const writeRevision = async (
+  folder: FileSystemDirectoryHandle,
+  revision: NodeRevision
+) => {
+  const handle = await folder.getFileHandle(getRevisionFileName(revision), {
+    create: true,
+  });
+  await writeTextFile(handle, JSON.stringify(revision, null, 2));
+};
+
+const removeRevision = async (
+  folder: FileSystemDirectoryHandle,
+  revision: NodeRevision
+) => {
+  try {
+    await folder.removeEntry(getRevisionFileName(revision));
+  } catch (e: any) {
+    if (e?.name !== "NotFoundError") throw e;
+  }
+};
+
+// The node as the file replaced by a save had it
+const toReplacedRevision = (
+  replaced: ReplacedNodeFile | null
+): NodeRevision | null => {
+  const parsed = replaced && parseMarkdownText(replaced.text);
+  return parsed ? toRevision(parsed.node, replaced!.lastModified) : null;
+};
+
+// Drop revisions beyond the retention limits. The newest one is always kept.
+const pruneRevisions = async (
+  folder: FileSystemDirectoryHandle,
+  revisions: NodeRevision[],
+  retention: HistoryRetention,
+  now: number
+) => {
+  const oldestAllowed =
+    retention.maxAgeDays > 0 ? now - retention.maxAgeDays * DAY_MS : -Infinity;
+  for (let i = 1; i < revisions.length; i++) {
+    const tooMany = retention.maxRevisions > 0 && i >= retention.maxRevisions;
+    if (tooMany || revisions[i].savedAt < oldestAllowed) {
+      await removeRevision(folder, revisions[i]);
+    }
+  }
+};
+
+const recordQueue = new Map<string, Promise<void>>();
+
+const recordRevision = async (
+  dirHandle: FileSystemDirectoryHandle,
+  node: GraphNode,
+  retention: HistoryRetention,
+  replaced: ReplacedNodeFile | null,
+  now: number
+) => {
+  const folder = await getDirectoryAtPath(
+    dirHandle,
+    getHistoryPath(node.id),
+    true
+  );
+  const revisions = await readRevisions(folder);
+  const revision = toRevision(node, now);
+
+  // Keep what the note said before the first change made in the app
+  if (revisions.length === 0) {
+    const saved = toReplacedRevision(replaced);
+    if (saved && saved.savedAt < now && !isSameRevision(saved, revision)) {
+      await writeRevision(folder, saved);
+      revisions.push(saved);
+    }
+  }
+
+  // A burst of edits becomes one revision
+  if (
+    revisions.length > 1 &&
+    now - revisions[0].savedAt < HISTORY_MERGE_WINDOW_MS
+  ) {
+    await removeRevision(folder, revisions.shift()!);
+  }
+  if (revisions[0] && isSameRevision(revisions[0], revision)) return;
+
+  await writeRevision(folder, revision);
+  await pruneRevisions(folder, [revision, ...revisions], retention, now);
+};
+
+// Add the current text of a node to its history. Unchanged text (e.g. when
+// only the position moved) is not recorded again. replaced is the file the
+// save overwrote; the first revision of a node keeps what it said.
+export const recordNodeRevision = (
+  dirHandle: FileSystemDirectoryHandle,
+  node: GraphNode,
+  retention: HistoryRetention,
+  replaced: ReplacedNodeFile | null = null,
+  now: number = Date.now()
+): Promise<void> => {
+  if (isVaultReadOnly()) return Promise.resolve();
+  const previous = recordQueue.get(node.id) || Promise.resolve();
+  const next = previous
+    .then(() => recordRevision(dirHandle, node, retention, replaced, now))
+    .catch((e) => console.error("Failed to record node revision", e))
+    .finally(() => {
+      if (recordQueue.get(node.id) === next) recordQueue.delete(node.id);
+    });
+  recordQueue.set(node.id, next);
+  return next;
+};
+
+// Revisions of a node, newest first
+export const listNodeRevisions = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string
+): Promise<NodeRevision[]> => {
+  await recordQueue.get(nodeId);
+  try {
+    const folder = await getDirectoryAtPath(dirHandle, getHistoryPath(nodeId));
+    return await readRevisions(folder);
+  } catch (e: any) {
+    if (e?.name === "NotFoundError" || e?.name === "TypeMismatchError") {
+      return [];
+    }
+    throw e;
+  }
+};
+
+export const deleteNodeHistory = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string
+) => {
+  if (isVaultReadOnly()) return;
+  await removeVaultEntry(dirHandle, getHistoryPath(nodeId), {
+    recursive: true,
+  });
+};
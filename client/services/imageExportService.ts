@@ -0,0 +1,218 @@
+import { GraphNode, GraphEdge, EdgeStyle } from "../types";
+import {
+  COLORS,
+  NODE_COLORS,
+  NODE_HEADER_HEIGHT,
+  DEFAULT_NODE_WIDTH,
+} from "../constants";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { getEdgeGeometry } from "../utils/edgeGeometry";
+import { getEdgeDirectionality, getEdgeWeightScale } from "./edgeTypeService";
+
+/*
+ * SVG and PNG images of the canvas.
+ *
+ * The image is drawn from the graph rather than copied from the page, so
+ * selection boxes, tooltips and toolbars are left out. Nodes are drawn as
+ * collapsed cards with their titles, the way the canvas shows them when
+ * nothing is selected, and edges use the same geometry as Edge.tsx.
+ */
+
+// A rectangle in canvas coordinates
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// What the canvas shows: the visible region, and how edges are drawn
+export interface CanvasView {
+  viewport: ImageRegion;
+  edgeStyle: EdgeStyle;
+}
+
+// Browsers refuse to draw canvases with longer sides
+const MAX_CANVAS_SIDE = 16384;
+
+const BACKGROUND_COLOR = "#020617";
+const FONT_FAMILY = "ui-sans-serif, system-ui, sans-serif";
+const TITLE_FONT_SIZE = 12;
+const LABEL_FONT_SIZE = 10;
+// Average glyph widths, used to fit text without measuring it
+const TITLE_CHAR_WIDTH = 7;
+const LABEL_CHAR_WIDTH = 5.5;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Titles are Markdown on the canvas; drop the heading marks it hides
+const getDisplayTitle = (node: GraphNode) =>
+  getNodeTitle(node).replace(/^#{1,6}\s+/, "");
+
+const truncate = (text: string, maxChars: number) =>
+  text.length > maxChars
+    ? text.slice(0, Math.max(maxChars - 1, 0)).trimEnd() + "…"
+    : text;
+
+const getCardBox = (node: GraphNode): ImageRegion => ({
+  x: node.x,
+  y: node.y,
+  width: node.width || DEFAULT_NODE_WIDTH,
+  height: NODE_HEADER_HEIGHT,
+});
+
+const intersects = (a: ImageRegion, b: ImageRegion) =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+// The box around the cards of the nodes, or null if there are none
+export const getNodesBounds = (
+  nodes: GraphNode[],
+  padding: number
+): ImageRegion | null => {
+  if (nodes.length === 0) return null;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  nodes.forEach((node) => {
+    const box = getCardBox(node);
+    minX = Math.min(minX, box.x);
+    minY = Math.min(minY, box.y);
+    maxX = Math.max(maxX, box.x + box.width);
+    maxY = Math.max(maxY, box.y + box.height);
+  });
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+};
+
+const renderEdge = (
+  edge: GraphEdge,
+  source: GraphNode,
+  target: GraphNode,
+  edgeStyle: EdgeStyle
+) => {
+  const geometry = getEdgeGeometry(source, target, { edgeStyle });
+  if (!geometry) return "";
+  const directionality = getEdgeDirectionality(edge);
+  const markers =
+    (directionality === "bidirectional" ? ' marker-start="url(#arrowhead)"' : "") +
+    (directionality === "undirected" ? "" : ' marker-end="url(#arrowhead)"');
+  const parts = [
+    `<path d="${geometry.pathD}" fill="none" stroke="${COLORS.edgeStroke}" stroke-width="${2 * getEdgeWeightScale(edge)}"${markers}/>`,
+  ];
+  if (edge.label) {
+    const label = truncate(edge.label, 40);
+    const width = label.length * LABEL_CHAR_WIDTH + 12;
+    parts.push(
+      `<rect x="${geometry.labelX - width / 2}" y="${geometry.labelY - 9}" width="${width}" height="18" rx="4" fill="#0f172a" stroke="#334155"/>`,
+      `<text x="${geometry.labelX}" y="${geometry.labelY}" fill="#cbd5e1" font-size="${LABEL_FONT_SIZE}" text-anchor="middle" dominant-baseline="central">${escapeXml(label)}</text>`
+    );
+  }
+  return parts.join("");
+};
+
+const renderNode = (node: GraphNode, href: string | null) => {
+  // Hand-edited vault files can hold colors that do not exist
+  const theme = NODE_COLORS[node.color || "slate"] || NODE_COLORS.slate;
+  const box = getCardBox(node);
+  const title = truncate(
+    getDisplayTitle(node),
+    Math.floor((box.width - 24) / TITLE_CHAR_WIDTH)
+  );
+  const card =
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="12" fill="${theme.headerHex}" stroke="${theme.borderHex}"/>` +
+    `<text x="${box.x + 12}" y="${box.y + box.height / 2}" fill="${theme.textHex}" font-size="${TITLE_FONT_SIZE}" font-weight="bold" dominant-baseline="central">${escapeXml(title)}</text>`;
+  return href
+    ? `<a href="${escapeXml(href)}"><title>${escapeXml(getDisplayTitle(node))}</title>${card}</a>`
+    : card;
+};
+
+// A standalone SVG of the part of the graph inside the region. Cards are
+// wrapped in links where getNodeHref returns one.
+export const buildCanvasSvg = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  region: ImageRegion,
+  edgeStyle: EdgeStyle,
+  getNodeHref: (node: GraphNode) => string | null = () => null
+): string => {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const shownNodes = nodes.filter((n) => intersects(getCardBox(n), region));
+  const shownEdges = edges.filter((e) => {
+    const source = nodeMap.get(e.source);
+    const target = nodeMap.get(e.target);
+    if (!source || !target) return false;
+    // Keep edges that cross the region between two nodes outside it
+    const bounds = getNodesBounds([source, target], 0);
+    return !!bounds && intersects(bounds, region);
+  });
+
+  const { x, y, width, height } = region;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    "<defs>",
+    `<marker id="arrowhead" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto-start-reverse"><polygon points="0 0, 10 3.5, 0 7" fill="${COLORS.edgeStroke}"/></marker>`,
+    "</defs>",
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${BACKGROUND_COLOR}"/>`,
+    ...shownEdges.map((e) =>
+      renderEdge(e, nodeMap.get(e.source)!, nodeMap.get(e.target)!, edgeStyle)
+    ),
+    ...shownNodes.map((n) => renderNode(n, getNodeHref(n))),
+    "</svg>",
+  ].join("\n");
+};
+
+// Draw an SVG made by buildCanvasSvg into a PNG, at scale times its size.
+// Throws an Error with a message for the user if the image is too large.
+export const rasterizeSvg = async (
+  svg: string,
+  region: ImageRegion,
+  scale: number
+): Promise<Blob> => {
+  const width = Math.ceil(region.width * scale);
+  const height = Math.ceil(region.height * scale);
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE) {
+    throw new Error("The image is too large at this scale");
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+  );
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("The image could not be drawn"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("The image could not be drawn");
+    context.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("The image could not be drawn")),
+        "image/png"
+      )
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -67,13 +67,15 @@ export const applyForceLayout = (
   }));
 };
 
-export const applyTreeLayout = (
+/**
+ * The tree that the tree layout draws: the root is the first node without
+ * incoming edges (or the first node), and each other node hangs under the
+ * source of its first incoming edge. Nodes without one hang under the root.
+ */
+export const getTreeStructure = (
   nodes: GraphNode[],
-  edges: GraphEdge[],
-  direction: "TB" | "LR"
-): GraphNode[] => {
-  if (nodes.length === 0) return nodes;
-
+  edges: GraphEdge[]
+): { rootId: string; parentByTargetId: Map<string, string> } => {
   const nodeIds = new Set(nodes.map((n) => n.id));
   const filteredEdges = edges.filter(
     (e) => nodeIds.has(getId(e.source)) && nodeIds.has(getId(e.target))
@@ -94,6 +96,17 @@ export const applyTreeLayout = (
     (n) => (indegreeByNodeId.get(n.id) ?? 0) === 0
   );
   const rootId = (rootCandidate?.id ?? nodes[0]?.id) as string;
+  return { rootId, parentByTargetId };
+};
+
+export const applyTreeLayout = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  direction: "TB" | "LR"
+): GraphNode[] => {
+  if (nodes.length === 0) return nodes;
+
+  const { rootId, parentByTargetId } = getTreeStructure(nodes, edges);
 
   const stratify = d3
     .stratify<GraphNode>()
@@ -0,0 +1,224 @@
+import { v4 as uuidv4 } from "uuid";
+import yaml from "js-yaml";
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+import { extractInternalNodeLinks } from "../utils/wikiLinks";
+import { extractContentTags, parseTagList, dedupeTags } from "../utils/tags";
+import { applyForceLayout } from "./layoutService";
+import { typeEdge } from "./edgeTypeService";
+
+export const OBSIDIAN_LINK_LABEL = "links to";
+export const OBSIDIAN_TAG_LABEL = "tagged";
+
+const FENCED_CODE_REGEX = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm;
+const INLINE_CODE_REGEX = /`[^`\n]*`/g;
+
+export interface ObsidianNote {
+  path: string;
+  title: string;
+  body: string;
+  aliases: string[];
+  frontmatterTags: string[];
+  tags: string[];
+  links: { target: string; display: string }[];
+}
+
+const toStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map((v) => String(v ?? "").trim()).filter(Boolean);
+  }
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  return [];
+};
+
+// "Folder/Some Note.md#Heading" becomes "folder/some note"
+const normalizeLinkPath = (target: string) =>
+  target
+    .split(/[#^]/)[0]
+    .trim()
+    .replace(/\.md$/i, "")
+    .replace(/^\/+/, "")
+    .toLowerCase();
+
+const getBaseName = (path: string) => path.split("/").pop()!;
+
+// Parse a plain Markdown note. Frontmatter is optional; when present, only
+// aliases and tags are read from it.
+export const parseObsidianNote = (
+  path: string,
+  text: string
+): ObsidianNote => {
+  let body = text.replace(/\r\n/g, "\n");
+  let metadata: any = null;
+  const frontmatterMatch = body.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+  if (frontmatterMatch) {
+    try {
+      metadata = yaml.load(frontmatterMatch[1]);
+    } catch (e) {
+      console.warn(`Ignoring invalid frontmatter in ${path}`, e);
+    }
+    body = body.substring(frontmatterMatch[0].length);
+  }
+
+  const title = path
+    .split("/")
+    .pop()!
+    .replace(/\.md$/i, "");
+
+  // Obsidian notes often repeat the file name as a top heading
+  const lines = body.trim().split("\n");
+  const heading = lines[0]?.match(/^#\s+(.*)$/);
+  if (heading && heading[1].trim().toLowerCase() === title.toLowerCase()) {
+    lines.shift();
+  }
+  body = lines.join("\n").trim();
+
+  const searchableBody = body
+    .replace(FENCED_CODE_REGEX, "")
+    .replace(INLINE_CODE_REGEX, "");
+  const frontmatterTags = parseTagList(metadata?.tags);
+
+  return {
+    path,
+    title,
+    body,
+    aliases: toStringList(metadata?.aliases ?? metadata?.alias),
+    frontmatterTags,
+    tags: dedupeTags([...frontmatterTags, ...extractContentTags(body)]),
+    links: extractInternalNodeLinks(searchableBody),
+  };
+};
+
+// Turn parsed notes into NOTE nodes. [[links]] between notes become
+// "links to" edges; each tag becomes a node that tagged notes point to.
+// Links to notes that are not part of the import are left as text.
+export const buildGraphFromObsidianNotes = (
+  notes: ObsidianNote[]
+): { nodes: GraphNode[]; edges: GraphEdge[]; unresolvedLinkCount: number } => {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  const nodeIdByPath = new Map<string, string>();
+  // Note names and aliases; null when several notes have the name
+  const nodeIdByName = new Map<string, string | null>();
+  let unresolvedLinkCount = 0;
+
+  const createNode = (
+    content: string,
+    aliases: string[] = [],
+    tags: string[] = []
+  ) => {
+    const node: GraphNode = {
+      id: uuidv4(),
+      type: NodeType.NOTE,
+      x: 0,
+      y: 0,
+      content,
+      width: DEFAULT_NODE_WIDTH,
+      height: DEFAULT_NODE_HEIGHT,
+    };
+    if (aliases.length > 0) node.aliases = aliases;
+    if (tags.length > 0) node.tags = tags;
+    nodes.push(node);
+    return node;
+  };
+
+  const noteNodes = notes.map((note) => {
+    const node = createNode(
+      note.body ? `${note.title}\n\n${note.body}` : note.title,
+      note.aliases,
+      note.frontmatterTags
+    );
+    const path = normalizeLinkPath(note.path);
+    const name = getBaseName(path);
+    nodeIdByPath.set(path, node.id);
+    // Titles win over aliases of other notes
+    nodeIdByName.set(name, nodeIdByName.has(name) ? null : node.id);
+    return node;
+  });
+  notes.forEach((note, index) => {
+    note.aliases.forEach((alias) => {
+      const key = alias.trim().toLowerCase();
+      if (!nodeIdByName.has(key)) nodeIdByName.set(key, noteNodes[index].id);
+    });
+  });
+
+  // A link names a note by its path from the vault root, by the end of that
+  // path, or by its name or alias alone when no other note has it
+  const resolveLink = (target: string) => {
+    const path = normalizeLinkPath(target);
+    const byPath = nodeIdByPath.get(path);
+    if (byPath) return byPath;
+    if (path.includes("/")) {
+      const matches = Array.from(nodeIdByPath.keys()).filter((p) =>
+        p.endsWith(`/${path}`)
+      );
+      return matches.length === 1 ? nodeIdByPath.get(matches[0]) : undefined;
+    }
+    return nodeIdByName.get(path) ?? undefined;
+  };
+
+  const tagNodeIds = new Map<string, string>();
+  const edgeKeys = new Set<string>();
+  const addEdge = (source: string, target: string, label: string) => {
+    const key = `${source}->${target}:${label}`;
+    if (source === target || edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push({ id: uuidv4(), ...typeEdge(source, target, label) });
+  };
+
+  notes.forEach((note, index) => {
+    const source = noteNodes[index].id;
+    for (const link of note.links) {
+      const target = resolveLink(link.target);
+      if (target) {
+        addEdge(source, target, OBSIDIAN_LINK_LABEL);
+      } else {
+        unresolvedLinkCount++;
+      }
+    }
+    for (const tag of note.tags) {
+      const key = tag.toLowerCase();
+      if (!tagNodeIds.has(key)) tagNodeIds.set(key, createNode(`#${tag}`).id);
+      addEdge(source, tagNodeIds.get(key)!, OBSIDIAN_TAG_LABEL);
+    }
+  });
+
+  return {
+    nodes: applyForceLayout(nodes, edges),
+    edges,
+    unresolvedLinkCount,
+  };
+};
+
+// Read every Markdown file of an Obsidian vault, including subfolders.
+// Hidden folders such as .obsidian and .trash are skipped.
+export const readObsidianVault = async (
+  dirHandle: FileSystemDirectoryHandle
+): Promise<ObsidianNote[]> => {
+  const notes: ObsidianNote[] = [];
+
+  const walk = async (dir: FileSystemDirectoryHandle, dirPath: string) => {
+    for await (const entry of dir.values()) {
+      if (entry.name.startsWith(".")) continue;
+      const path = dirPath ? `${dirPath}/${entry.name}` : entry.name;
+      if (entry.kind === "directory") {
+        await walk(entry as FileSystemDirectoryHandle, path);
+      } else if (entry.name.toLowerCase().endsWith(".md")) {
+        try {
+          const file = await (entry as FileSystemFileHandle).getFile();
+          notes.push(parseObsidianNote(path, await file.text()));
+        } catch (e) {
+          console.error(`Error reading ${path}:`, e);
+        }
+      }
+    }
+  };
+
+  await walk(dirHandle, "");
+  return notes;
+};
@@ -0,0 +1,244 @@
+import { v4 as uuidv4 } from "uuid";
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import { DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "../constants";
+import { getNodeTitle } from "../utils/wikiLinks";
+import { applyTreeLayout, getTreeStructure } from "./layoutService";
+import { typeEdgeLabel } from "./edgeTypeService";
+
+/*
+ * OPML outlines, as written by Workflowy, OmniOutliner and Dynalist.
+ *
+ * Each outline item is a NOTE whose first line is the item text and whose
+ * body is the item's _note. On import, children hang under their item
+ * either with "subtopic" edges or as nodes inside its scope. On export,
+ * the tree is the one the tree layout draws, and nested scopes are written
+ * under their scope node.
+ */
+
+const SUBTOPIC_LABEL = "subtopic";
+// Space between the trees of top-level items, and between items in a scope
+const TREE_GAP = 200;
+const SCOPE_ITEM_GAP = 40;
+
+export interface OpmlOutline {
+  text: string;
+  note?: string;
+  url?: string;
+  children: OpmlOutline[];
+}
+
+export type OpmlImportMode = "edges" | "scopes";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;");
+
+const readOutlines = (parent: Element): OpmlOutline[] =>
+  Array.from(parent.children)
+    .filter((el) => el.localName === "outline")
+    .map((el) => ({
+      text: (el.getAttribute("text") || el.getAttribute("title") || "").trim(),
+      note: el.getAttribute("_note")?.trim() || undefined,
+      url:
+        el.getAttribute("url") ||
+        el.getAttribute("htmlUrl") ||
+        el.getAttribute("xmlUrl") ||
+        undefined,
+      children: readOutlines(el),
+    }))
+    .filter((outline) => outline.text || outline.children.length > 0);
+
+// Throws an Error with a message for the user if the file is not OPML
+export const parseOpml = (
+  text: string
+): { title?: string; outlines: OpmlOutline[] } => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file is not valid XML");
+  }
+  if (root.localName !== "opml") {
+    throw new Error("The file is not an OPML outline");
+  }
+  const body = Array.from(root.children).find((el) => el.localName === "body");
+  const head = Array.from(root.children).find((el) => el.localName === "head");
+  const title = head
+    ? Array.from(head.children)
+        .find((el) => el.localName === "title")
+        ?.textContent?.trim()
+    : undefined;
+  return { title: title || undefined, outlines: body ? readOutlines(body) : [] };
+};
+
+export const countOutlines = (outlines: OpmlOutline[]): number =>
+  outlines.reduce((sum, o) => sum + 1 + countOutlines(o.children), 0);
+
+const createOutlineNode = (outline: OpmlOutline): GraphNode => {
+  const node: GraphNode = {
+    id: uuidv4(),
+    type: NodeType.NOTE,
+    x: 0,
+    y: 0,
+    content: outline.note
+      ? `${outline.text || "Untitled"}\n\n${outline.note}`
+      : outline.text || "Untitled",
+    width: DEFAULT_NODE_WIDTH,
+    height: DEFAULT_NODE_HEIGHT,
+  };
+  if (outline.url) node.link = outline.url;
+  return node;
+};
+
+// Trees of top-level items, laid out one below the other
+const buildWithEdges = (outlines: OpmlOutline[]) => {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  let offsetY = 0;
+
+  outlines.forEach((top) => {
+    const treeNodes: GraphNode[] = [];
+    const treeEdges: GraphEdge[] = [];
+    const add = (outline: OpmlOutline, parentId?: string) => {
+      const node = createOutlineNode(outline);
+      treeNodes.push(node);
+      if (parentId) {
+        treeEdges.push({
+          id: uuidv4(),
+          source: parentId,
+          target: node.id,
+          ...typeEdgeLabel(SUBTOPIC_LABEL),
+        });
+      }
+      outline.children.forEach((child) => add(child, node.id));
+    };
+    add(top);
+
+    const laidOut = applyTreeLayout(treeNodes, treeEdges, "LR");
+    const minY = Math.min(...laidOut.map((n) => n.y));
+    const maxY = Math.max(...laidOut.map((n) => n.y + (n.height || DEFAULT_NODE_HEIGHT)));
+    nodes.push(...laidOut.map((n) => ({ ...n, y: n.y - minY + offsetY })));
+    edges.push(...treeEdges);
+    offsetY += maxY - minY + TREE_GAP;
+  });
+
+  return { nodes, edges };
+};
+
+// Items with children become scopes; each scope lists its items in a column
+const buildWithScopes = (outlines: OpmlOutline[]) => {
+  const nodes: GraphNode[] = [];
+  const addLevel = (items: OpmlOutline[], parentId?: string) => {
+    items.forEach((outline, i) => {
+      const node = {
+        ...createOutlineNode(outline),
+        y: i * (DEFAULT_NODE_HEIGHT + SCOPE_ITEM_GAP),
+        parentId,
+      };
+      nodes.push(node);
+      addLevel(outline.children, node.id);
+    });
+  };
+  addLevel(outlines);
+  return { nodes, edges: [] as GraphEdge[] };
+};
+
+export const buildGraphFromOutlines = (
+  outlines: OpmlOutline[],
+  mode: OpmlImportMode
+): { nodes: GraphNode[]; edges: GraphEdge[] } =>
+  mode === "edges" ? buildWithEdges(outlines) : buildWithScopes(outlines);
+
+const getOutlineAttributes = (node: GraphNode) => {
+  const title = getNodeTitle(node);
+  const note =
+    node.type === NodeType.NOTE
+      ? node.content.split("\n").slice(1).join("\n").trim()
+      : node.summary?.trim();
+  let attributes = `text="${escapeXml(title)}"`;
+  if (note) attributes += ` _note="${escapeXml(note)}"`;
+  if (node.link) attributes += ` type="link" url="${escapeXml(node.link)}"`;
+  return attributes;
+};
+
+/**
+ * Write the outline of a scope. The outline is the tree from rootId if it
+ * is in the scope. Otherwise it starts at the root the tree layout would
+ * pick, followed by the other nodes without incoming edges, and then by the
+ * nodes the tree does not reach (in a cycle) as outlines of their own.
+ */
+export const exportOpml = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  scopeId: string | null,
+  rootId: string | null,
+  title: string
+): string => {
+  const written = new Set<string>();
+
+  const writeScope = (parentId: string | null, startId: string | null, depth: number) => {
+    const scopeNodes = nodes.filter(
+      (n) => (n.parentId ?? null) === parentId && n.type !== NodeType.CLUSTER
+    );
+    if (scopeNodes.length === 0) return [];
+    const ids = new Set(scopeNodes.map((n) => n.id));
+    const scopeEdges = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+    const tree = getTreeStructure(scopeNodes, scopeEdges);
+    if (tree.parentByTargetId.has(tree.rootId)) {
+      // Every node has an incoming edge; start the cycle at the root
+      tree.parentByTargetId.delete(tree.rootId);
+    }
+
+    const childrenById = new Map<string, GraphNode[]>();
+    const topNodes: GraphNode[] = [];
+    scopeNodes.forEach((node) => {
+      const parent = tree.parentByTargetId.get(node.id);
+      if (!parent) {
+        if (node.id === tree.rootId) topNodes.unshift(node);
+        else topNodes.push(node);
+        return;
+      }
+      childrenById.set(parent, [...(childrenById.get(parent) || []), node]);
+    });
+
+    const writeNode = (node: GraphNode, level: number): string[] => {
+      if (written.has(node.id)) return [];
+      written.add(node.id);
+      const indent = "  ".repeat(level);
+      const inner = [
+        ...(childrenById.get(node.id) || []).flatMap((child) =>
+          writeNode(child, level + 1)
+        ),
+        ...writeScope(node.id, null, level + 1),
+      ];
+      return inner.length === 0
+        ? [`${indent}<outline ${getOutlineAttributes(node)}/>`]
+        : [
+            `${indent}<outline ${getOutlineAttributes(node)}>`,
+            ...inner,
+            `${indent}</outline>`,
+          ];
+    };
+
+    const start = startId ? scopeNodes.find((n) => n.id === startId) : undefined;
+    if (start) return writeNode(start, depth);
+    return [...topNodes, ...scopeNodes].flatMap((node) => writeNode(node, depth));
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+    ...writeScope(scopeId, rootId, 2),
+    "  </body>",
+    "</opml>",
+    "",
+  ].join("\n");
+};
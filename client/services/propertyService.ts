@@ -0,0 +1,150 @@
+import {
+  GraphNode,
+  GraphEdge,
+  NodeProperty,
+  PropertyField,
+  PropertySchema,
+  PropertyType,
+  PropertyValue,
+} from "../types";
+import { getNodeTags } from "../utils/tags";
+import { getPropertySchemas, setPropertySchemas } from "./settingsService";
+
+/*
+ * Typed key/value properties on nodes. They are stored on the node as a list
+ * of { key, type, value }, in frontmatter and in the nodes table, so the
+ * type survives a round trip even where the value alone is ambiguous (a date
+ * and a text that looks like one).
+ *
+ * A schema lists the fields expected on the nodes with a tag: every node
+ * tagged #person shows the fields of the "person" schema, filled in or not.
+ */
+
+export const PROPERTY_TYPES: { type: PropertyType; label: string }[] = [
+  { type: "text", label: "Text" },
+  { type: "number", label: "Number" },
+  { type: "date", label: "Date" },
+  { type: "boolean", label: "Yes / no" },
+  { type: "url", label: "URL" },
+  { type: "node", label: "Node" },
+];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const isPropertyType = (value: unknown): value is PropertyType =>
+  PROPERTY_TYPES.some((t) => t.type === value);
+
+// A value of the property's type, or undefined when there is none. Accepts
+// what a hand-edited YAML file may hold: numbers as strings, unquoted dates.
+export const coercePropertyValue = (
+  type: PropertyType,
+  value: unknown
+): PropertyValue | undefined => {
+  if (value === null || value === undefined) return undefined;
+  switch (type) {
+    case "number": {
+      const text = String(value).trim();
+      const n = typeof value === "number" ? value : text ? Number(text) : NaN;
+      return Number.isFinite(n) ? n : undefined;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const text = String(value).trim().toLowerCase();
+      return text === "true" || text === "false" ? text === "true" : undefined;
+    }
+    case "date": {
+      const text =
+        value instanceof Date && !isNaN(value.getTime())
+          ? value.toISOString().slice(0, 10)
+          : String(value).trim();
+      return DATE_REGEX.test(text) ? text : undefined;
+    }
+    default: {
+      const text = String(value).trim();
+      return text || undefined;
+    }
+  }
+};
+
+// Properties read from frontmatter or the API; invalid entries are dropped
+// and a repeated key keeps its first value
+export const sanitizeProperties = (value: unknown): NodeProperty[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const properties: NodeProperty[] = [];
+  value.forEach((entry) => {
+    if (!entry || typeof entry.key !== "string" || !isPropertyType(entry.type)) {
+      return;
+    }
+    const key = entry.key.trim();
+    const coerced = coercePropertyValue(entry.type, entry.value);
+    if (!key || seen.has(key) || coerced === undefined) return;
+    seen.add(key);
+    properties.push({ key, type: entry.type, value: coerced });
+  });
+  return properties;
+};
+
+// The node's properties with one field set, or removed when value is
+// undefined. Returns undefined once no property is left.
+export const setPropertyValue = (
+  properties: NodeProperty[] = [],
+  field: PropertyField,
+  value: PropertyValue | undefined
+): NodeProperty[] | undefined => {
+  const index = properties.findIndex((p) => p.key === field.key);
+  const next = properties.filter((p) => p.key !== field.key);
+  if (value !== undefined) {
+    const property = { key: field.key, type: field.type, value };
+    next.splice(index === -1 ? next.length : index, 0, property);
+  }
+  return next.length > 0 ? next : undefined;
+};
+
+// Schema fields for the node's tags, in schema order
+export const getSchemaFields = (node: GraphNode): PropertyField[] => {
+  const tags = new Set(getNodeTags(node).map((t) => t.toLowerCase()));
+  const fields: PropertyField[] = [];
+  getPropertySchemas()
+    .filter((schema) => tags.has(schema.tag.toLowerCase()))
+    .forEach((schema) =>
+      schema.fields.forEach((field) => {
+        if (!fields.some((f) => f.key === field.key)) fields.push(field);
+      })
+    );
+  return fields;
+};
+
+export const getPropertySchema = (tag: string): PropertySchema | undefined =>
+  getPropertySchemas().find((s) => s.tag.toLowerCase() === tag.toLowerCase());
+
+// Replaces the schema of a tag; no fields removes it
+export const savePropertySchema = (tag: string, fields: PropertyField[]) => {
+  const others = getPropertySchemas().filter(
+    (s) => s.tag.toLowerCase() !== tag.toLowerCase()
+  );
+  setPropertySchemas(fields.length > 0 ? [...others, { tag, fields }] : others);
+};
+
+// Edges for "node" properties, from the node to the node it names. They are
+// drawn with the graph's edges but live only in the properties.
+export const getPropertyEdges = (nodes: GraphNode[]): GraphEdge[] => {
+  const ids = new Set(nodes.map((n) => n.id));
+  const edges: GraphEdge[] = [];
+  nodes.forEach((node) =>
+    node.properties?.forEach((property) => {
+      if (property.type !== "node") return;
+      const target = String(property.value);
+      if (target === node.id || !ids.has(target)) return;
+      edges.push({
+        id: `property:${node.id}:${property.key}`,
+        source: node.id,
+        target,
+        label: property.key,
+        parentId: node.parentId,
+        property: property.key,
+      });
+    })
+  );
+  return edges;
+};
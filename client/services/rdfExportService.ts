@@ -0,0 +1,194 @@
+import { GraphNode, GraphEdge } from "../types";
+import { getNodeTitle } from "../utils/wikiLinks";
+
+/*
+ * RDF export, as Turtle or JSON-LD, for loading graphs into triple stores.
+ *
+ * Each node is a resource named by its id. A node linked to a Wikidata
+ * entity is owl:sameAs that entity; other links become rdfs:seeAlso.
+ * A "subtopic" edge, by its type or else its label, means its target is a
+ * subclass of its source, so it is written as target rdfs:subClassOf source. Other edge labels become
+ * predicates in the relation namespace. Chat messages are not exported.
+ */
+
+const NODE_NAMESPACE = "urn:infoverse:node:";
+
+const PREFIXES = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  rdfs: "http://www.w3.org/2000/01/rdf-schema#",
+  owl: "http://www.w3.org/2002/07/owl#",
+  skos: "http://www.w3.org/2004/02/skos/core#",
+  wd: "http://www.wikidata.org/entity/",
+  iv: "urn:infoverse:vocab:",
+  rel: "urn:infoverse:relation:",
+} as const;
+
+const SUBTOPIC_TYPE = "subtopic";
+const SUBTOPIC_LABEL = "subtopic";
+
+// The type stays when a typed edge's label is edited
+const isSubtopicEdge = (edge: GraphEdge) =>
+  edge.type === SUBTOPIC_TYPE ||
+  edge.label.trim().toLowerCase() === SUBTOPIC_LABEL;
+
+// An object of a triple: a resource, or a literal
+type RdfValue = { iri: string } | { literal: string };
+
+// Predicates and values of one subject, keyed by prefixed predicate name
+type RdfResource = Map<string, RdfValue[]>;
+
+const getNodeIri = (id: string) => NODE_NAMESPACE + encodeURIComponent(id);
+
+// The Wikidata entity id (Q...) of a wikidata.org link
+const getWikidataEntityId = (link: string): string | null => {
+  const match = /^https?:\/\/(?:www\.|m\.)?wikidata\.org\/(?:wiki|entity)\/(Q\d+)/i.exec(
+    link
+  );
+  return match ? match[1].toUpperCase() : null;
+};
+
+// Local name of the predicate for an edge label: "Links to" becomes linksTo
+const getRelationName = (label: string) => {
+  const words = label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  if (words.length === 0) {
+    return label.trim() ? encodeURIComponent(label.trim()) : "related";
+  }
+  return words
+    .map((word, i) =>
+      i === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1)
+    )
+    .join("");
+};
+
+const getTypeName = (node: GraphNode) =>
+  node.type.charAt(0) + node.type.slice(1).toLowerCase();
+
+const buildResources = (nodes: GraphNode[], edges: GraphEdge[]) => {
+  const resources = new Map<string, RdfResource>();
+  const add = (subject: string, predicate: string, value: RdfValue) => {
+    let resource = resources.get(subject);
+    if (!resource) {
+      resource = new Map();
+      resources.set(subject, resource);
+    }
+    const values = resource.get(predicate) || [];
+    values.push(value);
+    resource.set(predicate, values);
+  };
+
+  nodes.forEach((node) => {
+    const iri = getNodeIri(node.id);
+    add(iri, "rdf:type", { iri: `${PREFIXES.iv}${getTypeName(node)}` });
+    add(iri, "rdfs:label", { literal: getNodeTitle(node) });
+    node.aliases?.forEach((alias) => add(iri, "skos:altLabel", { literal: alias }));
+    if (node.summary) add(iri, "rdfs:comment", { literal: node.summary });
+    add(iri, "iv:content", { literal: node.content });
+    if (node.color) add(iri, "iv:color", { literal: node.color });
+    if (node.parentId) add(iri, "iv:scope", { iri: getNodeIri(node.parentId) });
+    if (node.link) {
+      const entityId = getWikidataEntityId(node.link);
+      if (entityId) {
+        add(iri, "owl:sameAs", { iri: `${PREFIXES.wd}${entityId}` });
+      } else {
+        add(iri, "rdfs:seeAlso", { iri: node.link });
+      }
+    }
+  });
+
+  const relations = new Map<string, string>();
+  edges.forEach((edge) => {
+    const source = getNodeIri(edge.source);
+    const target = getNodeIri(edge.target);
+    if (isSubtopicEdge(edge)) {
+      add(target, "rdfs:subClassOf", { iri: source });
+      return;
+    }
+    const name = getRelationName(edge.label);
+    if (!relations.has(name)) relations.set(name, edge.label.trim() || "related");
+    add(source, `rel:${name}`, { iri: target });
+  });
+
+  // Declare the relation predicates, with the edge label they came from
+  relations.forEach((label, name) => {
+    const iri = `${PREFIXES.rel}${name}`;
+    add(iri, "rdf:type", { iri: `${PREFIXES.rdf}Property` });
+    add(iri, "rdfs:label", { literal: label });
+  });
+
+  return resources;
+};
+
+const escapeTurtleString = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+
+// Write an IRI with its prefix where the rest is a valid local name
+const formatTurtleIri = (iri: string) => {
+  if (iri === `${PREFIXES.rdf}type`) return "a";
+  for (const [prefix, namespace] of Object.entries(PREFIXES)) {
+    const local = iri.slice(namespace.length);
+    if (iri.startsWith(namespace) && /^[A-Za-z0-9_]+$/.test(local)) {
+      return `${prefix}:${local}`;
+    }
+  }
+  return `<${iri.replace(/[\u0000- <>"{}|^`\\]/g, encodeURIComponent)}>`;
+};
+
+const formatTurtleValue = (value: RdfValue) =>
+  "iri" in value
+    ? formatTurtleIri(value.iri)
+    : `"${escapeTurtleString(value.literal)}"`;
+
+// Prefixed predicate names are expanded for formatting
+const expandPredicate = (predicate: string) => {
+  const [prefix, local] = predicate.split(":") as [keyof typeof PREFIXES, string];
+  return `${PREFIXES[prefix]}${local}`;
+};
+
+export const exportTurtle = (nodes: GraphNode[], edges: GraphEdge[]): string => {
+  const lines = Object.entries(PREFIXES).map(
+    ([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`
+  );
+
+  buildResources(nodes, edges).forEach((resource, subject) => {
+    const statements = Array.from(resource.entries()).map(
+      ([predicate, values]) =>
+        `    ${formatTurtleIri(expandPredicate(predicate))} ${values
+          .map(formatTurtleValue)
+          .join(", ")}`
+    );
+    lines.push("", `${formatTurtleIri(subject)}\n${statements.join(" ;\n")} .`);
+  });
+
+  return lines.join("\n") + "\n";
+};
+
+export const exportJsonLd = (nodes: GraphNode[], edges: GraphEdge[]): string => {
+  const graph = Array.from(buildResources(nodes, edges).entries()).map(
+    ([subject, resource]) => {
+      const entry: Record<string, unknown> = { "@id": subject };
+      resource.forEach((values, predicate) => {
+        const isType = predicate === "rdf:type";
+        const items = values.map((v) =>
+          "literal" in v ? v.literal : isType ? v.iri : { "@id": v.iri }
+        );
+        entry[isType ? "@type" : predicate] = items.length === 1 ? items[0] : items;
+      });
+      return entry;
+    }
+  );
+
+  return JSON.stringify({ "@context": PREFIXES, "@graph": graph }, null, 2);
+};
@@ -1,3 +1,9 @@
+import {
+  DEFAULT_HISTORY_MAX_REVISIONS,
+  DEFAULT_HISTORY_MAX_AGE_DAYS,
+} from '../constants';
+import { EdgeType, PropertySchema } from '../types';
+
 // localStorage keys for UI settings
 const KEYS = {
   THEME: 'infoverse_theme',
@@ -5,19 +11,30 @@ const KEYS = {
   LAST_DIR_NAME: 'infoverse_last_dir_name',
   AI_PROVIDER: 'ai_provider',
   SKIP_DELETE_CONFIRM: 'infoverse_skip_delete_confirm',
-  MIGRATED_V2: 'infoverse_migrated_v2',
+  HISTORY_RETENTION: 'infoverse_history_retention',
+  CUSTOM_EDGE_TYPES: 'infoverse_custom_edge_types',
+  PROPERTY_SCHEMAS: 'infoverse_property_schemas',
 } as const;
 
 export type Theme = 'dark' | 'light' | 'system';
 export type Language = 'en' | 'es' | 'fr' | 'de' | 'zh' | 'ja';
 export type AIProvider = 'gemini' | 'huggingface';
 
+// How many node revisions to keep, and for how long. 0 means no limit.
+export interface HistoryRetention {
+  maxRevisions: number;
+  maxAgeDays: number;
+}
+
 export interface UserSettings {
   theme: Theme;
   language: Language;
   lastDirName: string | null;
   aiProvider: AIProvider;
   skipDeleteConfirm: boolean;
+  historyRetention: HistoryRetention;
+  customEdgeTypes: EdgeType[];
+  propertySchemas: PropertySchema[];
 }
 
 const isBrowser = typeof window !== 'undefined';
@@ -97,21 +114,79 @@ export const setSkipDeleteConfirm = (skip: boolean): void => {
   }
 };
 
-// Migration flag
-export const isMigratedV2 = (): boolean => {
-  if (!isBrowser) return false;
-  return localStorage.getItem(KEYS.MIGRATED_V2) === 'true';
+// Revision history retention
+export const getHistoryRetention = (): HistoryRetention => {
+  const defaults = {
+    maxRevisions: DEFAULT_HISTORY_MAX_REVISIONS,
+    maxAgeDays: DEFAULT_HISTORY_MAX_AGE_DAYS,
+  };
+  if (!isBrowser) return defaults;
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYS.HISTORY_RETENTION) || '{}');
+    const read = (value: unknown, fallback: number) =>
+      Number.isInteger(value) && (value as number) >= 0 ? (value as number) : fallback;
+    return {
+      maxRevisions: read(stored.maxRevisions, defaults.maxRevisions),
+      maxAgeDays: read(stored.maxAgeDays, defaults.maxAgeDays),
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const setHistoryRetention = (retention: HistoryRetention): void => {
+  if (!isBrowser) return;
+  localStorage.setItem(KEYS.HISTORY_RETENTION, JSON.stringify(retention));
+};
+
+// Relationship types added to the built-in vocabulary
+export const getCustomEdgeTypes = (): EdgeType[] => {
+  if (!isBrowser) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYS.CUSTOM_EDGE_TYPES) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (t) =>
+        t &&
+        typeof t.id === 'string' &&
+        typeof t.name === 'string' &&
+        ['directed', 'undirected', 'bidirectional'].includes(t.directionality)
+    );
+  } catch {
+    return [];
+  }
+};
+
+export const setCustomEdgeTypes = (types: EdgeType[]): void => {
+  if (!isBrowser) return;
+  localStorage.setItem(KEYS.CUSTOM_EDGE_TYPES, JSON.stringify(types));
+};
+
+// Property fields expected on the nodes with a tag
+export const getPropertySchemas = (): PropertySchema[] => {
+  if (!isBrowser) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(KEYS.PROPERTY_SCHEMAS) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (s) => s && typeof s.tag === 'string' && Array.isArray(s.fields)
+    );
+  } catch {
+    return [];
+  }
 };
 
-export const setMigratedV2 = (): void => {
+export const setPropertySchemas = (schemas: PropertySchema[]): void => {
   if (!isBrowser) return;
-  localStorage.setItem(KEYS.MIGRATED_V2, 'true');
+  localStorage.setItem(KEYS.PROPERTY_SCHEMAS, JSON.stringify(schemas));
 };
 
 // Cleanup legacy localStorage (remove old graph data)
 export const cleanupLegacyStorage = (): void => {
   if (!isBrowser) return;
   localStorage.removeItem('wiki-graph-data');
+  // Superseded by schemaVersion in the vault files
+  localStorage.removeItem('infoverse_migrated_v2');
 };
 
 // Get all settings
@@ -121,6 +196,9 @@ export const getSettings = (): UserSettings => ({
   lastDirName: getLastDirName(),
   aiProvider: getAIProvider(),
   skipDeleteConfirm: getSkipDeleteConfirm(),
+  historyRetention: getHistoryRetention(),
+  customEdgeTypes: getCustomEdgeTypes(),
+  propertySchemas: getPropertySchemas(),
 });
 
 // Save partial settings
@@ -130,4 +208,7 @@ export const saveSettings = (settings: Partial<UserSettings>): void => {
   if (settings.lastDirName !== undefined) setLastDirName(settings.lastDirName);
   if (settings.aiProvider !== undefined) setAIProvider(settings.aiProvider);
   if (settings.skipDeleteConfirm !== undefined) setSkipDeleteConfirm(settings.skipDeleteConfirm);
+  if (settings.historyRetention !== undefined) setHistoryRetention(settings.historyRetention);
+  if (settings.customEdgeTypes !== undefined) setCustomEdgeTypes(settings.customEdgeTypes);
+  if (settings.propertySchemas !== undefined) setPropertySchemas(settings.propertySchemas);
 };
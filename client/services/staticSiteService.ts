@@ -0,0 +1,519 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { Components, defaultUrlTransform } from "react-markdown";
+import { zipSync, strToU8 } from "fflate";
+import { GraphNode, GraphEdge, NodeType } from "../types";
+import { NODE_COLORS } from "../constants";
+import {
+  formatInternalNodeLinks,
+  extractInternalNodeTitle,
+  getNodeTitle,
+  INTERNAL_NODE_LINK_PREFIX,
+} from "../utils/wikiLinks";
+import { getNodeTitleForBreadcrumb } from "../utils/graphUtils";
+import { getNodeFileName } from "../utils/vaultPaths";
+import { buildCanvasSvg, getNodesBounds } from "./imageExportService";
+import { getAttachmentFileName } from "./attachmentService";
+
+/*
+ * Read-only static site of a graph.
+ *
+ * The site is a folder: index.html shows the top-level canvas, and each node
+ * has a page under nodes/ with its Markdown, its nested scope and its edges.
+ * The files of image and PDF nodes are copied to files/.
+ * Search runs in the page over an index loaded with a <script> tag, since
+ * browsers block fetch() from file:// pages. Nothing is loaded from a
+ * server, so the folder can be opened from disk or put on any static host.
+ */
+
+const NODES_FOLDER = "nodes";
+const ASSETS_FOLDER = "assets";
+const FILES_FOLDER = "files";
+const CANVAS_PADDING = 80;
+// Text of a node kept in the search index
+const SEARCH_TEXT_LENGTH = 2000;
+
+interface SitePage {
+  node: GraphNode;
+  fileName: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const getLabelKey = (label: string) => label.trim().toLowerCase();
+
+// [[Title]] targets resolve by title, breadcrumb title or alias
+const buildTitleIndex = (pages: SitePage[]) => {
+  const byLabel = new Map<string, SitePage>();
+  const add = (label: string | undefined, page: SitePage) => {
+    const key = label ? getLabelKey(label) : "";
+    if (key && !byLabel.has(key)) byLabel.set(key, page);
+  };
+  pages.forEach((page) => {
+    add(getNodeTitle(page.node), page);
+    add(getNodeTitleForBreadcrumb(page.node), page);
+  });
+  pages.forEach((page) => page.node.aliases?.forEach((a) => add(a, page)));
+  return byLabel;
+};
+
+// Links to nodes outside the site are kept as text
+const renderLink: Components["a"] = ({ node, href, ...props }) =>
+  !href
+    ? createElement("span", { className: "missing", ...props })
+    : /^https?:/.test(href)
+    ? createElement("a", { href, target: "_blank", rel: "noopener", ...props })
+    : createElement("a", { href, ...props });
+
+const renderMarkdown = (
+  markdown: string,
+  resolveTitle: (title: string) => SitePage | undefined
+) =>
+  renderToStaticMarkup(
+    createElement(
+      ReactMarkdown,
+      {
+        urlTransform: (url: string) => {
+          if (!url.startsWith(INTERNAL_NODE_LINK_PREFIX)) {
+            return defaultUrlTransform(url);
+          }
+          const page = resolveTitle(extractInternalNodeTitle(url));
+          return page ? page.fileName : "";
+        },
+        components: { a: renderLink },
+      },
+      formatInternalNodeLinks(markdown)
+    )
+  );
+
+const renderCanvas = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  getHref: (node: GraphNode) => string | null
+) => {
+  const region = getNodesBounds(nodes, CANVAS_PADDING);
+  if (!region) return "";
+  const ids = new Set(nodes.map((n) => n.id));
+  const scopeEdges = edges.filter((e) => ids.has(e.source) && ids.has(e.target));
+  return [
+    '<div class="canvas" data-canvas>',
+    buildCanvasSvg(nodes, scopeEdges, region, "default", getHref),
+    '<button type="button" class="fit" data-fit title="Fit to screen">Fit</button>',
+    "</div>",
+  ].join("\n");
+};
+
+const renderLayout = (
+  siteTitle: string,
+  pageTitle: string,
+  rootPath: string,
+  body: string,
+  bodyClass = "node-page"
+) =>
+  [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(pageTitle)}</title>`,
+    `<link rel="stylesheet" href="${rootPath}${ASSETS_FOLDER}/site.css">`,
+    "</head>",
+    `<body class="${bodyClass}" data-root="${rootPath}">`,
+    '<header class="site-header">',
+    `<a class="site-title" href="${rootPath}index.html">${escapeHtml(siteTitle)}</a>`,
+    '<div class="search">',
+    '<input type="search" placeholder="Search..." aria-label="Search" data-search>',
+    '<ul class="results" data-results hidden></ul>',
+    "</div>",
+    "</header>",
+    '<main class="page">',
+    body,
+    "</main>",
+    `<script src="${rootPath}${ASSETS_FOLDER}/search-index.js"></script>`,
+    `<script src="${rootPath}${ASSETS_FOLDER}/site.js"></script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+
+const renderEdgeList = (
+  heading: string,
+  items: { label: string; page: SitePage | undefined; direction: "in" | "out" }[]
+) => {
+  if (items.length === 0) return "";
+  const rows = items.map(({ label, page, direction }) => {
+    const other = page
+      ? `<a href="${escapeHtml(page.fileName)}">${escapeHtml(getNodeTitleForBreadcrumb(page.node))}</a>`
+      : '<span class="missing">Unknown node</span>';
+    const relation = `<span class="relation">${escapeHtml(label || "related")}</span>`;
+    return direction === "out"
+      ? `<li>${relation} &rarr; ${other}</li>`
+      : `<li>${other} &rarr; ${relation}</li>`;
+  });
+  return `<section class="edges"><h2>${heading}</h2><ul>${rows.join("")}</ul></section>`;
+};
+
+const renderChatMessages = (
+  node: GraphNode,
+  resolveTitle: (title: string) => SitePage | undefined
+) =>
+  (node.messages || [])
+    .map((message) => {
+      const sources = (message.sources || [])
+        .map(
+          (s) =>
+            `<li><a href="${escapeHtml(defaultUrlTransform(s.uri))}" target="_blank" rel="noopener">${escapeHtml(s.title || s.uri)}</a></li>`
+        )
+        .join("");
+      return [
+        `<div class="message ${message.role}">`,
+        `<div class="role">${message.role === "user" ? "User" : "Model"}</div>`,
+        renderMarkdown(message.text, resolveTitle),
+        sources ? `<ul class="sources">${sources}</ul>` : "",
+        "</div>",
+      ].join("");
+    })
+    .join("\n");
+
+// Colors come from the vault file, so anything else is read as the default
+const getColorName = (node: GraphNode) =>
+  node.color && Object.prototype.hasOwnProperty.call(NODE_COLORS, node.color)
+    ? node.color
+    : "slate";
+
+// The image itself, or a link to the PDF; a note when the file is not in
+// the site
+const renderAttachment = (node: GraphNode, hasFile: boolean) => {
+  const name =
+    node.attachment?.name || (node.type === NodeType.IMAGE ? "Image" : "PDF");
+  if (!node.attachment || !hasFile) {
+    return `<p class="missing">${escapeHtml(name)} is not included</p>`;
+  }
+  const href = `../${FILES_FOLDER}/${encodeURIComponent(getAttachmentFileName(node.attachment))}`;
+  return node.type === NodeType.IMAGE
+    ? `<img src="${href}" alt="${escapeHtml(name)}">`
+    : `<p><a href="${href}" target="_blank" rel="noopener">${escapeHtml(name)}</a></p>`;
+};
+
+const renderNodePage = (
+  siteTitle: string,
+  page: SitePage,
+  pagesById: Map<string, SitePage>,
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  resolveTitle: (title: string) => SitePage | undefined,
+  attachmentFiles: Map<string, Uint8Array>
+) => {
+  const { node } = page;
+  const title = getNodeTitleForBreadcrumb(node);
+
+  const breadcrumbs: SitePage[] = [];
+  let parent = node.parentId ? pagesById.get(node.parentId) : undefined;
+  while (parent && !breadcrumbs.includes(parent)) {
+    breadcrumbs.unshift(parent);
+    parent = parent.node.parentId ? pagesById.get(parent.node.parentId) : undefined;
+  }
+
+  // Web clips keep their snapshot in the content, like notes
+  const body =
+    node.type === NodeType.NOTE || node.type === NodeType.WEB
+      ? renderMarkdown(node.content.split("\n").slice(1).join("\n").trim(), resolveTitle)
+      : node.type === NodeType.IMAGE || node.type === NodeType.PDF
+      ? renderAttachment(node, !!node.attachment && attachmentFiles.has(node.attachment.id))
+      : renderChatMessages(node, resolveTitle);
+  const children = nodes.filter((n) => n.parentId === node.id);
+
+  return renderLayout(
+    siteTitle,
+    `${title} - ${siteTitle}`,
+    "../",
+    [
+      '<nav class="breadcrumbs">',
+      '<a href="../index.html">Home</a>',
+      ...breadcrumbs.map(
+        (p) =>
+          ` / <a href="${escapeHtml(p.fileName)}">${escapeHtml(getNodeTitleForBreadcrumb(p.node))}</a>`
+      ),
+      "</nav>",
+      `<article class="node color-${getColorName(node)}">`,
+      `<h1>${escapeHtml(title)}</h1>`,
+      node.aliases?.length
+        ? `<p class="aliases">Also known as ${node.aliases.map(escapeHtml).join(", ")}</p>`
+        : "",
+      node.link
+        ? `<p class="link"><a href="${escapeHtml(defaultUrlTransform(node.link))}" target="_blank" rel="noopener">${escapeHtml(node.link)}</a></p>`
+        : "",
+      node.summary ? `<p class="summary">${escapeHtml(node.summary)}</p>` : "",
+      `<div class="content">${body}</div>`,
+      "</article>",
+      children.length > 0
+        ? `<section><h2>Inside</h2>${renderCanvas(children, edges, (n) => pagesById.get(n.id)?.fileName ?? null)}</section>`
+        : "",
+      renderEdgeList(
+        "Links to",
+        edges
+          .filter((e) => e.source === node.id)
+          .map((e) => ({ label: e.label, page: pagesById.get(e.target), direction: "out" as const }))
+      ),
+      renderEdgeList(
+        "Linked from",
+        edges
+          .filter((e) => e.target === node.id)
+          .map((e) => ({ label: e.label, page: pagesById.get(e.source), direction: "in" as const }))
+      ),
+    ].join("\n")
+  );
+};
+
+const buildSearchIndex = (pages: SitePage[]) => {
+  const entries = pages.map(({ node, fileName }) => ({
+    title: getNodeTitleForBreadcrumb(node),
+    aliases: node.aliases || [],
+    text: [
+      node.summary || "",
+      node.type === NodeType.NOTE || node.type === NodeType.WEB
+        ? node.content
+        : (node.messages || []).map((m) => m.text).join("\n"),
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .substring(0, SEARCH_TEXT_LENGTH),
+    url: `${NODES_FOLDER}/${fileName}`,
+  }));
+  // "</" would end the <script> early if the index were ever inlined
+  return `window.INFOVERSE_SEARCH_INDEX = ${JSON.stringify(entries).replace(/<\//g, "<\\/")};\n`;
+};
+
+const SITE_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; background: #020617; color: #e2e8f0; font-family: ui-sans-serif, system-ui, sans-serif; line-height: 1.6; }
+a { color: #38bdf8; }
+.site-header { display: flex; align-items: center; justify-content: space-between; gap: 16px; padding: 12px 24px; border-bottom: 1px solid #1e293b; background: #0f172a; position: sticky; top: 0; z-index: 10; }
+.site-title { color: #f8fafc; font-weight: 700; text-decoration: none; }
+.search { position: relative; width: min(320px, 50vw); }
+.search input { width: 100%; padding: 6px 10px; border-radius: 8px; border: 1px solid #334155; background: #020617; color: #e2e8f0; }
+.results { position: absolute; right: 0; left: 0; margin: 4px 0 0; padding: 4px; list-style: none; background: #0f172a; border: 1px solid #334155; border-radius: 8px; max-height: 60vh; overflow-y: auto; }
+.results a { display: block; padding: 6px 8px; border-radius: 6px; color: #e2e8f0; text-decoration: none; }
+.results a:hover, .results a:focus { background: #1e293b; }
+.results .empty { padding: 6px 8px; color: #64748b; }
+.page { max-width: 960px; margin: 0 auto; padding: 24px; }
+.index .page { max-width: none; height: calc(100vh - 58px); padding: 0; }
+.index .canvas { height: 100%; border: 0; border-radius: 0; }
+.canvas { position: relative; height: 480px; border: 1px solid #1e293b; border-radius: 12px; overflow: hidden; touch-action: none; cursor: grab; }
+.canvas.dragging { cursor: grabbing; }
+.canvas svg { width: 100%; height: 100%; display: block; }
+.canvas .fit { position: absolute; right: 12px; bottom: 12px; padding: 4px 10px; border-radius: 6px; border: 1px solid #334155; background: #0f172a; color: #e2e8f0; cursor: pointer; }
+.breadcrumbs { font-size: 14px; color: #64748b; margin-bottom: 16px; }
+.node h1 { margin: 0 0 8px; }
+.node { border-left: 4px solid #475569; padding-left: 16px; }
+.color-red { border-color: #dc2626; } .color-green { border-color: #16a34a; } .color-blue { border-color: #2563eb; }
+.color-amber { border-color: #d97706; } .color-purple { border-color: #9333ea; }
+.aliases, .link { margin: 0 0 8px; color: #94a3b8; font-size: 14px; }
+.summary { color: #cbd5e1; font-style: italic; }
+.content pre { background: #0f172a; padding: 12px; border-radius: 8px; overflow-x: auto; }
+.content code { background: #0f172a; padding: 1px 4px; border-radius: 4px; }
+.content blockquote { margin: 0; padding-left: 12px; border-left: 3px solid #334155; color: #94a3b8; }
+.content img { max-width: 100%; }
+.message { margin: 16px 0; padding: 12px 16px; border-radius: 8px; background: #0f172a; }
+.message.user { background: #1e293b; }
+.message .role { font-size: 12px; font-weight: 700; text-transform: uppercase; color: #64748b; }
+.sources { font-size: 14px; }
+.missing { color: #94a3b8; border-bottom: 1px dashed #475569; }
+.edges ul { padding-left: 20px; }
+.relation { color: #94a3b8; }
+h2 { font-size: 14px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; margin-top: 32px; }
+`.trimStart();
+
+// Pan and zoom of the canvases, and the search box. Plain ES5-style script
+// so the site runs without a build step.
+const SITE_JS = `
+(function () {
+  var root = document.body.getAttribute("data-root") || "";
+
+  document.querySelectorAll("[data-canvas]").forEach(function (container) {
+    var svg = container.querySelector("svg");
+    if (!svg) return;
+    var initial = svg.getAttribute("viewBox").split(" ").map(Number);
+    var view = initial.slice();
+    var drag = null;
+    var moved = false;
+
+    function apply() { svg.setAttribute("viewBox", view.join(" ")); }
+    function toCanvas(event) {
+      var rect = svg.getBoundingClientRect();
+      var scale = Math.max(view[2] / rect.width, view[3] / rect.height);
+      return {
+        x: view[0] + (event.clientX - rect.left) * scale - (rect.width * scale - view[2]) / 2,
+        y: view[1] + (event.clientY - rect.top) * scale - (rect.height * scale - view[3]) / 2,
+        scale: scale
+      };
+    }
+
+    container.addEventListener("wheel", function (event) {
+      event.preventDefault();
+      var point = toCanvas(event);
+      var factor = Math.exp(event.deltaY * 0.0015);
+      var width = Math.min(Math.max(view[2] * factor, initial[2] / 20), initial[2] * 20);
+      factor = width / view[2];
+      view = [point.x - (point.x - view[0]) * factor, point.y - (point.y - view[1]) * factor, view[2] * factor, view[3] * factor];
+      apply();
+    }, { passive: false });
+
+    container.addEventListener("pointerdown", function (event) {
+      if (event.target.closest("[data-fit]")) return;
+      drag = { x: event.clientX, y: event.clientY, view: view.slice(), scale: toCanvas(event).scale };
+      moved = false;
+    });
+    window.addEventListener("pointermove", function (event) {
+      if (!drag) return;
+      var dx = event.clientX - drag.x;
+      var dy = event.clientY - drag.y;
+      if (!moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+      if (!moved) container.classList.add("dragging");
+      moved = true;
+      view = [drag.view[0] - dx * drag.scale, drag.view[1] - dy * drag.scale, view[2], view[3]];
+      apply();
+    });
+    window.addEventListener("pointerup", function () {
+      drag = null;
+      container.classList.remove("dragging");
+    });
+    // A drag that ends on a card is not a click on its link
+    container.addEventListener("click", function (event) {
+      if (moved) { event.preventDefault(); moved = false; }
+    }, true);
+
+    var fit = container.querySelector("[data-fit]");
+    if (fit) fit.addEventListener("click", function () { view = initial.slice(); apply(); });
+  });
+
+  var input = document.querySelector("[data-search]");
+  var results = document.querySelector("[data-results]");
+  var index = window.INFOVERSE_SEARCH_INDEX || [];
+  if (!input || !results) return;
+
+  function escape(value) {
+    return value.replace(/[&<>"]/g, function (c) {
+      return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c];
+    });
+  }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+    return index
+      .map(function (entry) {
+        var names = (entry.title + " " + entry.aliases.join(" ")).toLowerCase();
+        var text = entry.text.toLowerCase();
+        var score = 0;
+        for (var i = 0; i < terms.length; i++) {
+          if (names.indexOf(terms[i]) >= 0) score += 2;
+          else if (text.indexOf(terms[i]) >= 0) score += 1;
+          else return null;
+        }
+        return { entry: entry, score: score };
+      })
+      .filter(Boolean)
+      .sort(function (a, b) { return b.score - a.score || a.entry.title.localeCompare(b.entry.title); })
+      .slice(0, 20);
+  }
+
+  input.addEventListener("input", function () {
+    var query = input.value.trim();
+    if (!query) { results.hidden = true; return; }
+    var matches = search(query);
+    results.innerHTML = matches.length
+      ? matches.map(function (m) {
+          return '<li><a href="' + root + escape(m.entry.url) + '">' + escape(m.entry.title) + "</a></li>";
+        }).join("")
+      : '<li class="empty">No matches</li>';
+    results.hidden = false;
+  });
+  input.addEventListener("keydown", function (event) {
+    if (event.key === "Escape") { input.value = ""; results.hidden = true; }
+    if (event.key === "Enter") {
+      var first = results.querySelector("a");
+      if (first) window.location.href = first.getAttribute("href");
+    }
+  });
+  document.addEventListener("click", function (event) {
+    if (!event.target.closest(".search")) results.hidden = true;
+  });
+})();
+`.trimStart();
+
+/**
+ * Build the site as a zip of a folder named folderName. Nodes whose parent
+ * is not among the nodes are on the index canvas. Cluster nodes are left
+ * out, since they only group nodes on the canvas. attachmentFiles holds the
+ * files of image and PDF nodes by attachment id.
+ */
+export const buildStaticSite = (
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  siteTitle: string,
+  folderName: string,
+  attachmentFiles: Map<string, Uint8Array> = new Map()
+): Uint8Array => {
+  const siteNodes = nodes.filter((n) => n.type !== NodeType.CLUSTER);
+  const takenNames = new Set<string>();
+  const pages: SitePage[] = siteNodes.map((node) => {
+    const fileName = getNodeFileName(node, (name) =>
+      takenNames.has(name.replace(/\.md$/, ".html"))
+    ).replace(/\.md$/, ".html");
+    takenNames.add(fileName);
+    return { node, fileName };
+  });
+  const pagesById = new Map(pages.map((p) => [p.node.id, p]));
+  const titleIndex = buildTitleIndex(pages);
+  const resolveTitle = (title: string) => titleIndex.get(getLabelKey(title));
+  const siteEdges = edges.filter(
+    (e) => pagesById.has(e.source) && pagesById.has(e.target)
+  );
+
+  const topNodes = siteNodes.filter(
+    (n) => !n.parentId || !pagesById.has(n.parentId)
+  );
+  const index = renderLayout(
+    siteTitle,
+    siteTitle,
+    "",
+    renderCanvas(topNodes, siteEdges, (n) => {
+      const page = pagesById.get(n.id);
+      return page ? `${NODES_FOLDER}/${page.fileName}` : null;
+    }),
+    "index"
+  );
+
+  const files: Record<string, Uint8Array> = {
+    [`${folderName}/index.html`]: strToU8(index),
+    [`${folderName}/${ASSETS_FOLDER}/site.css`]: strToU8(SITE_CSS),
+    [`${folderName}/${ASSETS_FOLDER}/site.js`]: strToU8(SITE_JS),
+    [`${folderName}/${ASSETS_FOLDER}/search-index.js`]: strToU8(buildSearchIndex(pages)),
+  };
+  pages.forEach((page) => {
+    files[`${folderName}/${NODES_FOLDER}/${page.fileName}`] = strToU8(
+      renderNodePage(
+        siteTitle,
+        page,
+        pagesById,
+        siteNodes,
+        siteEdges,
+        resolveTitle,
+        attachmentFiles
+      )
+    );
+    const { attachment } = page.node;
+    const data = attachment && attachmentFiles.get(attachment.id);
+    if (attachment && data) {
+      files[`${folderName}/${FILES_FOLDER}/${getAttachmentFileName(attachment)}`] = data;
+    }
+  });
+  return zipSync(files);
+};
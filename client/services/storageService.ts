@@ -1,11 +1,88 @@
 import { GraphNode, GraphEdge, EmbeddedEdge, NodeType } from "../types";
 import yaml from "js-yaml";
+import {
+  formatChatTranscript,
+  parseChatTranscript,
+} from "../utils/chatTranscript";
+import { getFirstNonEmptyLine } from "../utils/graphUtils";
+import { getNodeFileName } from "../utils/vaultPaths";
+import { parseTagList } from "../utils/tags";
+import { sanitizeProperties } from "./propertyService";
+import {
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
+  VAULT_SCHEMA_VERSION,
+} from "../constants";
 
 // --- NEW: Tracking for debounced saves ---
 const saveTimers = new Map<string, number>();
+const saveCallbacks = new Map<
+  string,
+  (node: GraphNode, replaced: ReplacedNodeFile | null) => void
+>();
 const edgeSaveTimer: { current: number | null } = { current: null };
 // ----------------------------------------
 
+// Last known on-disk state of each node file, keyed by node id.
+// diskHash is the hash of the raw file text; memoryHash is the hash of the
+// node as we would serialize it. Comparing both against the current disk and
+// memory versions tells us which side changed since the last load or save.
+// filePath is relative to the vault root, e.g. "physics/quantum-entanglement.md".
+export interface VaultFileState {
+  filePath: string;
+  lastModified: number;
+  diskHash: string;
+  memoryHash: string;
+}
+
+// A node file as it was on disk before a save overwrote it
+export interface ReplacedNodeFile {
+  text: string;
+  lastModified: number;
+}
+
+const vaultFileStates = new Map<string, VaultFileState>();
+const nodesBeingWritten = new Set<string>();
+
+// Folder holding the children of a scope node, keyed by node id. A scope's
+// folder sits next to its file and has the same name without ".md".
+const scopeFolders = new Map<string, string>();
+// Bumped whenever a folder is moved, so a scan that overlapped a move (and
+// saw files half copied) can be thrown away
+let folderMoveGeneration = 0;
+let folderMovesInProgress = 0;
+
+// Set when a vault is opened without upgrading it (or was written by a newer
+// version of the app). Writes are skipped so the files stay as they are.
+let vaultReadOnly = false;
+
+export const setVaultReadOnly = (readOnly: boolean) => {
+  vaultReadOnly = readOnly;
+};
+
+export const isVaultReadOnly = () => vaultReadOnly;
+
+// FNV-1a, good enough to tell file versions apart
+export const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+export const getVaultFileState = (nodeId: string) =>
+  vaultFileStates.get(nodeId);
+
+export const recordVaultFileState = (nodeId: string, state: VaultFileState) => {
+  vaultFileStates.set(nodeId, state);
+};
+
+export const forgetVaultFileState = (nodeId: string) => {
+  vaultFileStates.delete(nodeId);
+};
+
 const withExclusiveWebLock = async <T>(
   lockName: string,
   work: () => Promise<T>
@@ -77,33 +154,87 @@ const safeCloseOrAbortWritable = async (writable: any, error?: any) => {
   }
 };
 
-// Parse a markdown node file and extract embedded edges
-const parseMarkdownNode = async (
-  fileHandle: FileSystemFileHandle
-): Promise<{ node: GraphNode; edges: EmbeddedEdge[] } | null> => {
-  try {
-    const file = await fileHandle.getFile();
-    const text = await file.text();
+// Inverse of the body written by serializeNodeMarkdown for non-chat nodes:
+// "# " + content, followed by the summary (which is also in the frontmatter)
+// or, for notes with messages, the messages.
+const parseNoteBody = (body: string, metadata: any) => {
+  let content = body.startsWith("# ") ? body.substring(2) : body;
+  if (Array.isArray(metadata.messages) && metadata.messages.length > 0) {
+    return content.split("\n")[0].trim();
+  }
+  const summary =
+    typeof metadata.summary === "string" ? metadata.summary.trim() : "";
+  if (summary && content.endsWith(summary)) {
+    const rest = content.substring(0, content.length - summary.length);
+    if (/\n\s*$/.test(rest)) content = rest;
+  }
+  return content.trim();
+};
 
-    const parts = text.split(/^---$/m);
-    if (parts.length < 3) return null;
+// Parse the text of a markdown node file and extract embedded edges
+export const parseMarkdownText = (
+  text: string
+): { node: GraphNode; edges: EmbeddedEdge[] } | null => {
+  const parts = text.split(/^---$/m);
+  if (parts.length < 3) return null;
 
-    const metadata = yaml.load(parts[1]) as any;
-    const content = parts.slice(2).join("---").trim();
+  const metadata = yaml.load(parts[1]) as any;
+  if (!metadata || typeof metadata !== "object" || !metadata.id) return null;
+  const body = parts.slice(2).join("---");
+  const content = body.trim();
+
+  // Extract edges from metadata (if present)
+  const embeddedEdges: EmbeddedEdge[] = metadata.edges || [];
 
-    // Extract edges from metadata (if present)
-    const embeddedEdges: EmbeddedEdge[] = metadata.edges || [];
+  // Remove edges from node object (they're stored separately in memory)
+  const nodeData = { ...metadata };
+  delete nodeData.edges;
+  delete nodeData.schemaVersion;
 
-    // Remove edges from node object (they're stored separately in memory)
-    const nodeData = { ...metadata };
-    delete nodeData.edges;
+  // Hand-written frontmatter may list tags as "a, b" or with a leading #
+  const tags = parseTagList(metadata.tags);
+  if (tags.length > 0) nodeData.tags = tags;
+  else delete nodeData.tags;
+  const properties = sanitizeProperties(metadata.properties);
+  if (properties.length > 0) nodeData.properties = properties;
+  else delete nodeData.properties;
 
+  if (metadata.type === NodeType.CHAT) {
+    // The body is "# Title" followed by the transcript, which is the source
+    // of truth for messages. Older files also kept messages in frontmatter;
+    // those only fill in timestamps the body does not have.
+    const titleMatch = content.match(/^#[ \t]+(.*)/);
+    const legacyMessages = Array.isArray(metadata.messages)
+      ? metadata.messages
+      : [];
+    // Untrimmed, so the last message keeps its whitespace
+    const messages = parseChatTranscript(body, legacyMessages);
     const node: GraphNode = {
       ...nodeData,
-      content: metadata.content || content || "Untitled",
+      content: metadata.content || titleMatch?.[1].trim() || "Untitled",
+      messages: messages.length > 0 ? messages : legacyMessages,
     };
-
     return { node, edges: embeddedEdges };
+  }
+
+  const node: GraphNode = {
+    ...nodeData,
+    content: metadata.content || parseNoteBody(content, metadata) || "Untitled",
+  };
+
+  return { node, edges: embeddedEdges };
+};
+
+// Parse a markdown node file and extract embedded edges
+const parseMarkdownNode = async (
+  fileHandle: FileSystemFileHandle
+): Promise<{ node: GraphNode; edges: EmbeddedEdge[]; text: string; lastModified: number } | null> => {
+  try {
+    const file = await fileHandle.getFile();
+    const text = await file.text();
+    const result = parseMarkdownText(text);
+    if (!result) return null;
+    return { ...result, text, lastModified: file.lastModified };
   } catch (e: any) {
     if (isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"]))
       return null;
@@ -112,48 +243,195 @@ const parseMarkdownNode = async (
   }
 };
 
+// An edge's type and weight, written only when set so untyped edges are
+// stored as before
+const getEdgeTypeFields = (edge: { type?: string; weight?: number }) => ({
+  ...(edge.type ? { type: edge.type } : {}),
+  ...(typeof edge.weight === "number" ? { weight: edge.weight } : {}),
+});
+
+// Convert embedded edges to full GraphEdge (add source from node id)
+export const toGraphEdges = (
+  node: GraphNode,
+  embeddedEdges: EmbeddedEdge[]
+): GraphEdge[] =>
+  embeddedEdges.map((edge) => ({
+    id: edge.id,
+    source: node.id,
+    target: edge.target,
+    label: edge.label,
+    ...getEdgeTypeFields(edge),
+    parentId: node.parentId,
+  }));
+
+export const joinPath = (dirPath: string, name: string) =>
+  dirPath ? `${dirPath}/${name}` : name;
+
+export const splitPath = (path: string) => {
+  const index = path.lastIndexOf("/");
+  return index < 0
+    ? { dirPath: "", name: path }
+    : { dirPath: path.substring(0, index), name: path.substring(index + 1) };
+};
+
+const stripMarkdownExtension = (path: string) => path.replace(/\.md$/, "");
+
+export const getDirectoryAtPath = async (
+  root: FileSystemDirectoryHandle,
+  dirPath: string,
+  create: boolean = false
+): Promise<FileSystemDirectoryHandle> => {
+  let dir = root;
+  for (const part of dirPath.split("/").filter(Boolean)) {
+    dir = await dir.getDirectoryHandle(part, { create });
+  }
+  return dir;
+};
+
+export interface VaultFileEntry {
+  handle: FileSystemFileHandle;
+  path: string;
+  dirPath: string;
+}
+
+// Walk the vault recursively. Files of a folder are listed before its
+// subfolders, and folders are listed parents first. Hidden folders such as
+// .obsidian or .git are skipped.
+export const listVaultEntries = async (
+  root: FileSystemDirectoryHandle
+): Promise<{ files: VaultFileEntry[]; folders: string[] }> => {
+  const files: VaultFileEntry[] = [];
+  const folders: string[] = [];
+
+  const walk = async (dir: FileSystemDirectoryHandle, dirPath: string) => {
+    const subfolders: FileSystemDirectoryHandle[] = [];
+    for await (const entry of dir.values()) {
+      if (entry.kind === "file") {
+        files.push({
+          handle: entry as FileSystemFileHandle,
+          path: joinPath(dirPath, entry.name),
+          dirPath,
+        });
+      } else if (!entry.name.startsWith(".")) {
+        subfolders.push(entry as FileSystemDirectoryHandle);
+      }
+    }
+    for (const subfolder of subfolders) {
+      const path = joinPath(dirPath, subfolder.name);
+      folders.push(path);
+      await walk(subfolder, path);
+    }
+  };
+
+  await walk(root, "");
+  return { files, folders };
+};
+
+// Folder path -> id of the scope node the folder belongs to
+const getFolderScopeIds = () => {
+  const folderScopeIds = new Map<string, string>();
+  scopeFolders.forEach((folder, nodeId) => folderScopeIds.set(folder, nodeId));
+  return folderScopeIds;
+};
+
 export const loadGraphFromDirectory = async (
   dirHandle: FileSystemDirectoryHandle
 ): Promise<{ nodes: GraphNode[]; edges: GraphEdge[]; hasLegacyEdgesFile: boolean }> => {
   const nodesMap = new Map<string, GraphNode>();
+  const parsedFiles: {
+    node: GraphNode;
+    embeddedEdges: EmbeddedEdge[];
+    text: string;
+    lastModified: number;
+    entry: VaultFileEntry;
+  }[] = [];
+  const nodeIdByPath = new Map<string, string>();
   const allEdges: GraphEdge[] = [];
   let legacyEdges: GraphEdge[] = [];
   let hasLegacyEdgesFile = false;
+  vaultFileStates.clear();
+  scopeFolders.clear();
 
-  for await (const entry of dirHandle.values()) {
-    if (entry.kind === "file") {
-      try {
-        if (entry.name === "_edges.json") {
-          // Legacy edges file - read for migration purposes
-          const file = await (entry as FileSystemFileHandle).getFile();
-          const text = await file.text();
-          legacyEdges = JSON.parse(text);
-          hasLegacyEdgesFile = true;
-        } else if (entry.name.endsWith(".md")) {
-          const result = await parseMarkdownNode(entry as FileSystemFileHandle);
-          if (result) {
-            const { node, edges: embeddedEdges } = result;
-            nodesMap.set(node.id, node);
-
-            // Convert embedded edges to full GraphEdge (add source from node id)
-            for (const edge of embeddedEdges) {
-              allEdges.push({
-                id: edge.id,
-                source: node.id,
-                target: edge.target,
-                label: edge.label,
-              });
-            }
+  const { files, folders } = await listVaultEntries(dirHandle);
+
+  for (const entry of files) {
+    try {
+      if (entry.path === "_edges.json") {
+        // Legacy edges file - read for migration purposes
+        const file = await entry.handle.getFile();
+        const text = await file.text();
+        legacyEdges = JSON.parse(text);
+        hasLegacyEdgesFile = true;
+      } else if (entry.path.endsWith(".md")) {
+        const result = await parseMarkdownNode(entry.handle);
+        if (result) {
+          const { node } = result;
+          // Nodes are identified by their frontmatter id, not the file name
+          if (nodesMap.has(node.id)) {
+            console.warn(
+              `Ignoring ${entry.path}: node ${node.id} is already loaded from ${vaultFileStates.get(node.id)?.filePath}`
+            );
+            continue;
           }
-        }
-      } catch (e: any) {
-        if (
-          !isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"])
-        ) {
-          console.error(`Error processing file ${entry.name}:`, e);
+          nodesMap.set(node.id, node);
+          nodeIdByPath.set(entry.path, node.id);
+          parsedFiles.push({ ...result, embeddedEdges: result.edges, entry });
+          vaultFileStates.set(node.id, {
+            filePath: entry.path,
+            lastModified: result.lastModified,
+            diskHash: hashString(result.text),
+            memoryHash: "",
+          });
         }
       }
+    } catch (e: any) {
+      if (
+        !isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"])
+      ) {
+        console.error(`Error processing file ${entry.path}:`, e);
+      }
+    }
+  }
+
+  // Map every folder to a scope node. Folders without a node file next to
+  // them get a scope node that is written out once it is edited.
+  const folderScopeIds = new Map<string, string>();
+  const synthesizedCountByScope = new Map<string, number>();
+  for (const folder of folders) {
+    const { dirPath, name } = splitPath(folder);
+    let scopeId = nodeIdByPath.get(`${folder}.md`);
+    if (!scopeId) {
+      const parentId = folderScopeIds.get(dirPath);
+      const index = synthesizedCountByScope.get(dirPath) || 0;
+      synthesizedCountByScope.set(dirPath, index + 1);
+      scopeId = `folder-${hashString(folder)}`;
+      nodesMap.set(scopeId, {
+        id: scopeId,
+        type: NodeType.NOTE,
+        x: index * (DEFAULT_NODE_WIDTH + 50),
+        y: 0,
+        content: name,
+        width: DEFAULT_NODE_WIDTH,
+        height: DEFAULT_NODE_HEIGHT,
+        ...(parentId ? { parentId } : {}),
+      });
     }
+    folderScopeIds.set(folder, scopeId);
+    scopeFolders.set(scopeId, folder);
+  }
+
+  for (const { node, embeddedEdges, entry } of parsedFiles) {
+    // The folder a file is in decides its scope. Files at the top level keep
+    // the parentId from their frontmatter.
+    const folderScopeId = folderScopeIds.get(entry.dirPath);
+    if (folderScopeId && folderScopeId !== node.id) {
+      node.parentId = folderScopeId;
+    }
+    const graphEdges = toGraphEdges(node, embeddedEdges);
+    allEdges.push(...graphEdges);
+    vaultFileStates.get(node.id)!.memoryHash = hashString(
+      serializeNodeMarkdown(node, graphEdges)
+    );
   }
 
   // If we have embedded edges, use those; otherwise fall back to legacy edges
@@ -162,27 +440,190 @@ export const loadGraphFromDirectory = async (
   return { nodes: Array.from(nodesMap.values()), edges, hasLegacyEdgesFile };
 };
 
-// Schedule a debounced save for a node with its outgoing edges
+export type VaultChange =
+  | {
+      kind: "added" | "modified";
+      node: GraphNode;
+      edges: GraphEdge[];
+      fileState: VaultFileState;
+    }
+  | { kind: "removed"; nodeId: string }
+  | {
+      kind: "conflict";
+      nodeId: string;
+      // null when the file was deleted on disk
+      diskNode: GraphNode | null;
+      diskEdges: GraphEdge[];
+      fileState: VaultFileState | null;
+    };
+
+// Compare the vault directory with the last known file states and the
+// in-memory graph. Files whose lastModified is unchanged are not read.
+export const scanVaultForChanges = async (
+  dirHandle: FileSystemDirectoryHandle,
+  memoryNodes: GraphNode[],
+  memoryEdges: GraphEdge[]
+): Promise<VaultChange[]> => {
+  if (folderMovesInProgress > 0) return [];
+  const moveGeneration = folderMoveGeneration;
+
+  const changes: VaultChange[] = [];
+  const seenNodeIds = new Set<string>();
+  const memoryById = new Map(memoryNodes.map((n) => [n.id, n]));
+  const pathToNodeId = new Map<string, string>();
+  vaultFileStates.forEach((state, nodeId) =>
+    pathToNodeId.set(state.filePath, nodeId)
+  );
+  const folderScopeIds = getFolderScopeIds();
+
+  const isMemoryChanged = (nodeId: string, state: VaultFileState) => {
+    const memoryNode = memoryById.get(nodeId);
+    if (!memoryNode) return false;
+    const serialized = serializeNodeMarkdown(
+      memoryNode,
+      getOutgoingEdges(nodeId, memoryEdges)
+    );
+    return hashString(serialized) !== state.memoryHash;
+  };
+
+  const entries = (await listVaultEntries(dirHandle)).files.filter((entry) =>
+    entry.path.endsWith(".md")
+  );
+  const pathsOnDisk = new Set(entries.map((entry) => entry.path));
+
+  for (const entry of entries) {
+    const knownNodeId = pathToNodeId.get(entry.path);
+    if (knownNodeId) seenNodeIds.add(knownNodeId);
+    if (knownNodeId && nodesBeingWritten.has(knownNodeId)) continue;
+
+    try {
+      const file = await entry.handle.getFile();
+      const knownState = knownNodeId ? vaultFileStates.get(knownNodeId) : null;
+      if (knownState && file.lastModified === knownState.lastModified) continue;
+
+      const text = await file.text();
+      const diskHash = hashString(text);
+      if (knownState && diskHash === knownState.diskHash) {
+        knownState.lastModified = file.lastModified;
+        continue;
+      }
+
+      const parsed = parseMarkdownText(text);
+      if (!parsed) continue;
+      const { node } = parsed;
+      // A node that is being written may be moving to a new file name
+      if (nodesBeingWritten.has(node.id)) continue;
+      const stateForNode = vaultFileStates.get(node.id);
+      // A second file claiming the id of a node whose file still exists is a
+      // copy, not a rename. Keep the original.
+      if (
+        stateForNode &&
+        stateForNode.filePath !== entry.path &&
+        pathsOnDisk.has(stateForNode.filePath)
+      )
+        continue;
+      const folderScopeId = folderScopeIds.get(entry.dirPath);
+      if (folderScopeId && folderScopeId !== node.id) {
+        node.parentId = folderScopeId;
+      }
+      const edges = toGraphEdges(node, parsed.edges);
+      seenNodeIds.add(node.id);
+      const fileState: VaultFileState = {
+        filePath: entry.path,
+        lastModified: file.lastModified,
+        diskHash,
+        memoryHash: hashString(serializeNodeMarkdown(node, edges)),
+      };
+
+      if (!stateForNode) {
+        changes.push({
+          kind: memoryById.has(node.id) ? "modified" : "added",
+          node,
+          edges,
+          fileState,
+        });
+      } else if (isMemoryChanged(node.id, stateForNode)) {
+        changes.push({
+          kind: "conflict",
+          nodeId: node.id,
+          diskNode: node,
+          diskEdges: edges,
+          fileState,
+        });
+      } else {
+        changes.push({ kind: "modified", node, edges, fileState });
+      }
+    } catch (e: any) {
+      if (
+        !isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"])
+      ) {
+        console.error(`Error scanning file ${entry.path}:`, e);
+      }
+    }
+  }
+
+  // Files moved along with a folder while we were reading would look deleted
+  if (folderMovesInProgress > 0 || moveGeneration !== folderMoveGeneration) {
+    return [];
+  }
+
+  vaultFileStates.forEach((state, nodeId) => {
+    if (seenNodeIds.has(nodeId) || nodesBeingWritten.has(nodeId)) return;
+    if (isMemoryChanged(nodeId, state)) {
+      changes.push({
+        kind: "conflict",
+        nodeId,
+        diskNode: null,
+        diskEdges: [],
+        fileState: null,
+      });
+    } else {
+      changes.push({ kind: "removed", nodeId });
+    }
+  });
+
+  return changes;
+};
+
+// Schedule a debounced save for a node with its outgoing edges. onSaved runs
+// with the saved node and the file it replaced once the file is written; it is
+// kept when a later call replaces the pending save without one of its own.
 export const scheduleSaveNode = (
   dirHandle: FileSystemDirectoryHandle,
   node: GraphNode,
   outgoingEdges: GraphEdge[] = [],
+  onSaved?: (node: GraphNode, replaced: ReplacedNodeFile | null) => void,
   delay: number = 2000 // Wait 2 seconds after last edit before saving
 ) => {
   // Clear any pending save for this specific node
   if (saveTimers.has(node.id)) {
     window.clearTimeout(saveTimers.get(node.id));
   }
+  if (onSaved) saveCallbacks.set(node.id, onSaved);
 
   // Schedule a new save
-  const timerId = window.setTimeout(() => {
+  const timerId = window.setTimeout(async () => {
     saveTimers.delete(node.id);
-    saveNodeToFile(dirHandle, node, outgoingEdges);
+    const callback = saveCallbacks.get(node.id);
+    saveCallbacks.delete(node.id);
+    await saveNodeToFile(dirHandle, node, outgoingEdges, {
+      onWritten: (replaced) => callback?.(node, replaced),
+    });
   }, delay);
 
   saveTimers.set(node.id, timerId);
 };
 
+// Drop a pending debounced save, e.g. when the disk version of a node wins
+export const cancelScheduledSave = (nodeId: string) => {
+  const timerId = saveTimers.get(nodeId);
+  if (timerId !== undefined) {
+    window.clearTimeout(timerId);
+    saveTimers.delete(nodeId);
+  }
+  saveCallbacks.delete(nodeId);
+};
+
 // @deprecated - edges are now embedded in node files. Use scheduleSaveNode with outgoingEdges instead.
 export const scheduleSaveEdges = (
   dirHandle: FileSystemDirectoryHandle,
@@ -199,61 +640,266 @@ export const scheduleSaveEdges = (
 };
 // --------------------------------------------------------------------------
 
-// Save a node to file with its outgoing edges embedded in frontmatter
-export const saveNodeToFile = async (
-  dirHandle: FileSystemDirectoryHandle,
+// Serialize a node and its outgoing edges into the markdown file format
+export const serializeNodeMarkdown = (
   node: GraphNode,
   outgoingEdges: GraphEdge[] = []
+): string => {
+  const metadata: any = { schemaVersion: VAULT_SCHEMA_VERSION, ...node };
+  // Remove content from metadata (it goes in the body)
+  delete metadata.content;
+
+  const isChat = node.type === NodeType.CHAT;
+  if (isChat) {
+    // Chat messages are written as a transcript in the body instead
+    delete metadata.messages;
+    // A multi-line title would not survive as a "# Title" heading
+    if (node.content.includes("\n")) metadata.content = node.content;
+  }
+
+  // Convert outgoing edges to embedded format (omit source, it's implicit)
+  if (outgoingEdges.length > 0) {
+    metadata.edges = outgoingEdges.map((edge) => ({
+      id: edge.id,
+      target: edge.target,
+      label: edge.label,
+      ...getEdgeTypeFields(edge),
+    }));
+  } else {
+    // Remove edges key if no edges
+    delete metadata.edges;
+  }
+
+  const frontmatter = yaml.dump(metadata);
+
+  let body = "";
+  if (isChat) {
+    body = formatChatTranscript(node.messages || []);
+  } else if (node.messages) {
+    body = node.messages
+      .map((m) => `**${m.role}**: ${m.text}`)
+      .join("\n\n");
+  } else {
+    body = node.summary || "";
+  }
+
+  const title = isChat ? getFirstNonEmptyLine(node.content) : node.content;
+  return `---\n${frontmatter}---\n\n# ${title}\n\n${body}`;
+};
+
+export const getExistingFileHandle = async (
+  dirHandle: FileSystemDirectoryHandle,
+  filePath: string
+): Promise<FileSystemFileHandle | null> => {
+  const { dirPath, name } = splitPath(filePath);
+  try {
+    const dir = await getDirectoryAtPath(dirHandle, dirPath);
+    return await dir.getFileHandle(name);
+  } catch (e: any) {
+    if (isFileSystemAccessApiError(e, ["NotFoundError", "TypeMismatchError"]))
+      return null;
+    throw e;
+  }
+};
+
+export const removeVaultEntry = async (
+  dirHandle: FileSystemDirectoryHandle,
+  path: string,
+  options?: { recursive?: boolean }
 ) => {
-  const newFileName = `${node.id}.md`;
-  const lockName = `infoverse:fswrite:${dirHandle.name}:${newFileName}`;
+  const { dirPath, name } = splitPath(path);
+  try {
+    const dir = await getDirectoryAtPath(dirHandle, dirPath);
+    await dir.removeEntry(name, options);
+  } catch (e: any) {
+    if (!isFileSystemAccessApiError(e, ["NotFoundError"])) throw e;
+  }
+};
+
+const copyDirectoryContents = async (
+  source: FileSystemDirectoryHandle,
+  target: FileSystemDirectoryHandle
+) => {
+  for await (const entry of source.values()) {
+    if (entry.kind === "directory") {
+      await copyDirectoryContents(
+        entry as FileSystemDirectoryHandle,
+        await target.getDirectoryHandle(entry.name, { create: true })
+      );
+      continue;
+    }
+    const file = await (entry as FileSystemFileHandle).getFile();
+    const targetFile = await target.getFileHandle(entry.name, { create: true });
+    let writable: any = null;
+    try {
+      writable = await targetFile.createWritable();
+      await writable.write(file);
+      await writable.close();
+      writable = null;
+    } catch (e) {
+      await safeCloseOrAbortWritable(writable, e);
+      throw e;
+    }
+  }
+};
+
+// Move a folder and everything in it. The File System Access API cannot
+// rename directories, so the contents are copied and the old folder removed.
+const moveVaultFolder = async (
+  dirHandle: FileSystemDirectoryHandle,
+  fromPath: string,
+  toPath: string
+) => {
+  folderMovesInProgress++;
+  folderMoveGeneration++;
+  try {
+    const source = await getDirectoryAtPath(dirHandle, fromPath);
+    const target = await getDirectoryAtPath(dirHandle, toPath, true);
+    await copyDirectoryContents(source, target);
+    await removeVaultEntry(dirHandle, fromPath, { recursive: true });
+
+    const movePath = (path: string) =>
+      path === fromPath || path.startsWith(`${fromPath}/`)
+        ? toPath + path.substring(fromPath.length)
+        : path;
+    vaultFileStates.forEach((state) => {
+      state.filePath = movePath(state.filePath);
+    });
+    scopeFolders.forEach((folder, nodeId) => {
+      scopeFolders.set(nodeId, movePath(folder));
+    });
+  } finally {
+    folderMovesInProgress--;
+    folderMoveGeneration++;
+  }
+};
+
+// Folder the children of a scope are written to. Until the scope node has a
+// file, its children stay at the top level of the vault.
+const getChildFolderPath = (parentId?: string) => {
+  if (!parentId) return "";
+  const folder = scopeFolders.get(parentId);
+  if (folder) return folder;
+  const parentState = vaultFileStates.get(parentId);
+  return parentState ? stripMarkdownExtension(parentState.filePath) : "";
+};
+
+// Save a node to file with its outgoing edges embedded in frontmatter.
+// Files are named after the node title and live in the folder of their scope;
+// when the title or scope changes the file is moved, and so is the folder of
+// a scope node's children. If the file was changed or deleted on disk since
+// we last read or wrote it, the save is skipped (the vault watcher reports it
+// as a conflict or a removal) unless force is set. Returns whether the file
+// was written; onWritten gets the text the write replaced, or null for a new
+// file.
+export const saveNodeToFile = async (
+  dirHandle: FileSystemDirectoryHandle,
+  node: GraphNode,
+  outgoingEdges: GraphEdge[] = [],
+  options: {
+    force?: boolean;
+    onWritten?: (replaced: ReplacedNodeFile | null) => void;
+  } = {}
+): Promise<boolean> => {
+  const lockName = `infoverse:fswrite:${dirHandle.name}:${node.id}`;
+  if (vaultReadOnly) return false;
 
   try {
     const hasPerm = await verifyPermission(dirHandle, true);
-    if (!hasPerm) return;
+    if (!hasPerm) return false;
 
-    await withExclusiveWebLock(lockName, async () => {
+    nodesBeingWritten.add(node.id);
+    return await withExclusiveWebLock(lockName, async () => {
       let writable: any = null;
       try {
-        const fileHandle = await dirHandle.getFileHandle(newFileName, {
-          create: true,
-        });
+        const knownState = vaultFileStates.get(node.id);
+        const currentPath = knownState?.filePath;
+        const currentHandle = currentPath
+          ? await getExistingFileHandle(dirHandle, currentPath)
+          : null;
 
-        // This line is what creates the .crswap file
-        writable = await fileHandle.createWritable();
+        const existing = currentHandle ? await currentHandle.getFile() : null;
+        const replaced: ReplacedNodeFile | null = existing
+          ? { text: await existing.text(), lastModified: existing.lastModified }
+          : null;
 
-        const metadata: any = { ...node };
-        // Remove content from metadata (it goes in the body)
-        delete metadata.content;
-
-        // Convert outgoing edges to embedded format (omit source, it's implicit)
-        if (outgoingEdges.length > 0) {
-          metadata.edges = outgoingEdges.map((edge) => ({
-            id: edge.id,
-            target: edge.target,
-            label: edge.label,
-          }));
-        } else {
-          // Remove edges key if no edges
-          delete metadata.edges;
+        if (knownState && !options.force) {
+          if (!replaced) {
+            console.warn(
+              `Skipped saving ${currentPath}: it was deleted outside Infoverse`
+            );
+            return false;
+          }
+          if (
+            replaced.lastModified !== knownState.lastModified &&
+            hashString(replaced.text) !== knownState.diskHash
+          ) {
+            console.warn(
+              `Skipped saving ${currentPath}: it was changed outside Infoverse`
+            );
+            return false;
+          }
         }
 
-        const frontmatter = yaml.dump(metadata);
+        const folderPath = getChildFolderPath(node.parentId);
+        const folder = await getDirectoryAtPath(dirHandle, folderPath, true);
+        if (node.parentId && folderPath) {
+          scopeFolders.set(node.parentId, folderPath);
+        }
 
-        let body = "";
-        if (node.messages) {
-          body = node.messages
-            .map((m) => `**${m.role}**: ${m.text}`)
-            .join("\n\n");
-        } else {
-          body = node.summary || "";
+        const namesInFolder = new Set<string>();
+        for await (const entry of folder.values()) {
+          if (entry.kind === "file") namesInFolder.add(entry.name);
         }
+        const pathsOfOtherNodes = new Set<string>();
+        vaultFileStates.forEach((state, nodeId) => {
+          if (nodeId !== node.id) pathsOfOtherNodes.add(state.filePath);
+        });
+        const newFileName = getNodeFileName(node, (name) => {
+          const path = joinPath(folderPath, name);
+          return (
+            path !== currentPath &&
+            (namesInFolder.has(name) || pathsOfOtherNodes.has(path))
+          );
+        });
+        const newPath = joinPath(folderPath, newFileName);
+
+        const fileHandle =
+          newPath === currentPath && currentHandle
+            ? currentHandle
+            : await folder.getFileHandle(newFileName, { create: true });
 
-        const fileContent = `---\n${frontmatter}---\n\n# ${node.content}\n\n${body}`;
+        const fileContent = serializeNodeMarkdown(node, outgoingEdges);
 
+        // This line is what creates the .crswap file
+        writable = await fileHandle.createWritable();
         await writable.write(fileContent);
         await writable.close(); // .crswap is deleted/renamed here
         writable = null;
+
+        // Title or scope changed: the new file is written, drop the old one
+        if (currentHandle && currentPath !== newPath) {
+          await removeVaultEntry(dirHandle, currentPath!);
+        }
+
+        const written = await fileHandle.getFile();
+        const hash = hashString(fileContent);
+        vaultFileStates.set(node.id, {
+          filePath: newPath,
+          lastModified: written.lastModified,
+          diskHash: hash,
+          memoryHash: hash,
+        });
+
+        // Keep the folder of this node's children next to its file
+        const childFolder = scopeFolders.get(node.id);
+        const newChildFolder = stripMarkdownExtension(newPath);
+        if (childFolder && childFolder !== newChildFolder) {
+          await moveVaultFolder(dirHandle, childFolder, newChildFolder);
+          scopeFolders.set(node.id, newChildFolder);
+        }
+        options.onWritten?.(replaced);
+        return true;
       } catch (e: any) {
         await safeCloseOrAbortWritable(writable, e);
         throw e;
@@ -267,59 +913,415 @@ export const saveNodeToFile = async (
         "NoModificationAllowedError",
       ])
     )
-      return;
+      return false;
     console.error("Error saving node:", e);
+    return false;
+  } finally {
+    nodesBeingWritten.delete(node.id);
   }
 };
 
-export const deleteNodeFile = async (
+// Save several nodes, scopes before their children so that children are
+// written into their scope's folder
+export const saveNodesToDirectory = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodes: GraphNode[],
+  edges: GraphEdge[]
+) => {
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const getDepth = (node: GraphNode) => {
+    let depth = 0;
+    let parentId = node.parentId;
+    while (parentId && byId.has(parentId) && depth < nodes.length) {
+      depth++;
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return depth;
+  };
+  const depths = new Map(nodes.map((n) => [n.id, getDepth(n)]));
+  const ordered = [...nodes].sort(
+    (a, b) => depths.get(a.id)! - depths.get(b.id)!
+  );
+  for (const node of ordered) {
+    await saveNodeToFile(dirHandle, node, getOutgoingEdges(node.id, edges));
+  }
+};
+
+// Read the frontmatter id of a node file without parsing the rest of it
+const readFrontmatterId = async (
+  fileHandle: FileSystemFileHandle
+): Promise<string | null> => {
+  const text = await (await fileHandle.getFile()).text();
+  const parts = text.split(/^---$/m);
+  if (parts.length < 3) return null;
+  try {
+    const metadata = yaml.load(parts[1]) as any;
+    return metadata && typeof metadata === "object" && metadata.id != null
+      ? String(metadata.id)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Find the file of a node. The known path is only a hint, the frontmatter id
+// decides.
+const findNodeFile = async (
   dirHandle: FileSystemDirectoryHandle,
   nodeId: string
+): Promise<{ path: string; handle: FileSystemFileHandle } | null> => {
+  const knownPath = vaultFileStates.get(nodeId)?.filePath;
+  if (knownPath) {
+    const knownHandle = await getExistingFileHandle(dirHandle, knownPath);
+    if (knownHandle && (await readFrontmatterId(knownHandle)) === nodeId) {
+      return { path: knownPath, handle: knownHandle };
+    }
+  }
+
+  const { files } = await listVaultEntries(dirHandle);
+  for (const entry of files) {
+    if (!entry.path.endsWith(".md")) continue;
+    try {
+      if ((await readFrontmatterId(entry.handle)) === nodeId) {
+        return { path: entry.path, handle: entry.handle };
+      }
+    } catch (e: any) {
+      if (
+        !isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"])
+      ) {
+        console.error(`Error reading ${entry.path}:`, e);
+      }
+    }
+  }
+  return null;
+};
+
+const writeFileData = async (fileHandle: FileSystemFileHandle, data: string | Blob) => {
+  let writable: any = null;
+  try {
+    writable = await fileHandle.createWritable();
+    await writable.write(data);
+    await writable.close();
+    writable = null;
+  } catch (e) {
+    await safeCloseOrAbortWritable(writable, e);
+    throw e;
+  }
+};
+
+export const writeTextFile = (fileHandle: FileSystemFileHandle, text: string) =>
+  writeFileData(fileHandle, text);
+
+export const writeBlobFile = (fileHandle: FileSystemFileHandle, blob: Blob) =>
+  writeFileData(fileHandle, blob);
+
+// Deleted node files are moved to this folder. Like other hidden folders it
+// is not loaded as part of the graph.
+const TRASH_FOLDER = ".trash";
+
+// Stored under the "deleted" key in the frontmatter of a trashed file
+interface TrashMetadata {
+  at: string;
+  from: string;
+  // Edges from other nodes to this one. They lived in the files of their
+  // source nodes, so they are kept here to be restored with the node.
+  incomingEdges?: {
+    id: string;
+    source: string;
+    label: string;
+    type?: string;
+    weight?: number;
+  }[];
+}
+
+export interface TrashedNode {
+  node: GraphNode;
+  // Outgoing edges, as embedded in the node file
+  edges: GraphEdge[];
+  incomingEdges: GraphEdge[];
+  deletedAt: number;
+  originalPath: string;
+  // Nodes that were in the folder of a trashed scope, set when it is restored
+  children?: { node: GraphNode; edges: GraphEdge[] }[];
+}
+
+// The folder of a trashed scope's children, next to its file in the trash
+const getTrashedFolderPath = (nodeId: string) => `${TRASH_FOLDER}/${nodeId}`;
+
+const directoryExists = async (
+  dirHandle: FileSystemDirectoryHandle,
+  path: string
+) => {
+  try {
+    await getDirectoryAtPath(dirHandle, path);
+    return true;
+  } catch (e: any) {
+    if (isFileSystemAccessApiError(e, ["NotFoundError", "TypeMismatchError"]))
+      return false;
+    throw e;
+  }
+};
+
+// Drop the known states of the files in a folder that left the vault
+const forgetVaultFolder = (folder: string) => {
+  const isInFolder = (path: string) =>
+    path === folder || path.startsWith(`${folder}/`);
+  vaultFileStates.forEach((state, nodeId) => {
+    if (isInFolder(state.filePath)) vaultFileStates.delete(nodeId);
+  });
+  scopeFolders.forEach((path, nodeId) => {
+    if (isInFolder(path)) scopeFolders.delete(nodeId);
+  });
+};
+
+// Move a node's file to the vault trash. Edges pointing at the node from
+// other nodes are recorded with it, so that restoring brings them back.
+// A scope's folder of children goes to the trash with it; left in place it
+// would be loaded again as a scope of its own.
+export const deleteNodeFile = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string,
+  incomingEdges: GraphEdge[] = []
 ) => {
+  if (vaultReadOnly) return;
   try {
     const hasPerm = await verifyPermission(dirHandle, true);
     if (!hasPerm) return;
 
-    try {
-      await dirHandle.removeEntry(`${nodeId}.md`);
+    const found = await findNodeFile(dirHandle, nodeId);
+    if (!found) return;
+
+    const text = await (await found.handle.getFile()).text();
+    const parts = text.split(/^---$/m);
+    const metadata = (yaml.load(parts[1]) as any) || {};
+    const deleted: TrashMetadata = {
+      at: new Date().toISOString(),
+      from: found.path,
+    };
+    if (incomingEdges.length > 0) {
+      deleted.incomingEdges = incomingEdges.map((edge) => ({
+        id: edge.id,
+        source: edge.source,
+        label: edge.label,
+        ...getEdgeTypeFields(edge),
+      }));
+    }
+    const trashedText = [
+      "",
+      `\n${yaml.dump({ ...metadata, deleted })}`,
+      ...parts.slice(2),
+    ].join("---");
+
+    const trash = await dirHandle.getDirectoryHandle(TRASH_FOLDER, {
+      create: true,
+    });
+    await writeTextFile(
+      await trash.getFileHandle(`${nodeId}.md`, { create: true }),
+      trashedText
+    );
+    await removeVaultEntry(dirHandle, found.path);
+
+    const childFolder =
+      scopeFolders.get(nodeId) ?? stripMarkdownExtension(found.path);
+    if (await directoryExists(dirHandle, childFolder)) {
+      const trashedFolder = getTrashedFolderPath(nodeId);
+      await moveVaultFolder(dirHandle, childFolder, trashedFolder);
+      forgetVaultFolder(trashedFolder);
+    }
+    vaultFileStates.delete(nodeId);
+    scopeFolders.delete(nodeId);
+  } catch (e: any) {
+    if (isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"]))
       return;
+    console.error("Error deleting node:", e);
+  }
+};
+
+const parseTrashedNode = (text: string): TrashedNode | null => {
+  const parsed = parseMarkdownText(text);
+  if (!parsed) return null;
+  const { deleted, ...node } = parsed.node as GraphNode & {
+    deleted?: TrashMetadata;
+  };
+  const deletedAt = Date.parse(deleted?.at || "");
+  return {
+    node,
+    edges: toGraphEdges(node, parsed.edges),
+    incomingEdges: (deleted?.incomingEdges || []).map((edge) => ({
+      id: edge.id,
+      source: edge.source,
+      target: node.id,
+      label: edge.label,
+      ...getEdgeTypeFields(edge),
+    })),
+    deletedAt: Number.isNaN(deletedAt) ? 0 : deletedAt,
+    originalPath: deleted?.from || "",
+  };
+};
+
+// Trashed nodes, most recently deleted first
+export const listTrashedNodes = async (
+  dirHandle: FileSystemDirectoryHandle
+): Promise<TrashedNode[]> => {
+  const trashed: TrashedNode[] = [];
+  let trash: FileSystemDirectoryHandle;
+  try {
+    trash = await dirHandle.getDirectoryHandle(TRASH_FOLDER);
+  } catch (e: any) {
+    if (isFileSystemAccessApiError(e, ["NotFoundError"])) return trashed;
+    throw e;
+  }
+
+  for await (const entry of trash.values()) {
+    if (entry.kind !== "file" || !entry.name.endsWith(".md")) continue;
+    try {
+      const file = await (entry as FileSystemFileHandle).getFile();
+      const item = parseTrashedNode(await file.text());
+      if (item) trashed.push(item);
     } catch (e: any) {
-      if (!isFileSystemAccessApiError(e, ["NotFoundError"])) {
-        console.error("Error deleting node:", e);
-        return;
+      if (
+        !isFileSystemAccessApiError(e, ["NotFoundError", "NotReadableError"])
+      ) {
+        console.error(`Error reading trashed file ${entry.name}:`, e);
       }
     }
+  }
+  return trashed.sort((a, b) => b.deletedAt - a.deletedAt);
+};
 
-    for await (const entry of dirHandle.values()) {
-      if (entry.kind === "file" && entry.name.endsWith(".md")) {
-        const fileHandle = entry as FileSystemFileHandle;
-        try {
-          const file = await fileHandle.getFile();
-          const text = await file.text();
-          if (
-            text.includes(`id: "${nodeId}"`) ||
-            text.includes(`id: ${nodeId}`)
-          ) {
-            await dirHandle.removeEntry(entry.name);
-            break;
-          }
-        } catch (e: any) {
-          if (
-            !isFileSystemAccessApiError(e, [
-              "NotFoundError",
-              "NotReadableError",
-            ])
-          ) {
-            console.error("Error deleting node:", e);
-          }
-        }
+// The trashed node and the nodes in the folder of its children
+const readTrashedNodes = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string
+): Promise<GraphNode[]> => {
+  const nodes: GraphNode[] = [];
+  const handle = await getExistingFileHandle(
+    dirHandle,
+    `${TRASH_FOLDER}/${nodeId}.md`
+  );
+  const item = handle && parseTrashedNode(await (await handle.getFile()).text());
+  if (item) nodes.push(item.node);
+
+  const trashedFolder = getTrashedFolderPath(nodeId);
+  if (await directoryExists(dirHandle, trashedFolder)) {
+    const { files } = await listVaultEntries(
+      await getDirectoryAtPath(dirHandle, trashedFolder)
+    );
+    for (const entry of files) {
+      if (!entry.path.endsWith(".md")) continue;
+      const result = await parseMarkdownNode(entry.handle);
+      if (result) nodes.push(result.node);
+    }
+  }
+  return nodes;
+};
+
+// Permanently delete a trashed node file and the folder of its children.
+// Returns the deleted nodes, so that the caller can remove their other files.
+export const purgeTrashedNode = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string
+): Promise<GraphNode[]> => {
+  const nodes = await readTrashedNodes(dirHandle, nodeId);
+  await removeVaultEntry(dirHandle, `${TRASH_FOLDER}/${nodeId}.md`);
+  await removeVaultEntry(dirHandle, getTrashedFolderPath(nodeId), {
+    recursive: true,
+  });
+  return nodes;
+};
+
+// Move the folder of a trashed scope's children back into the vault and read
+// its nodes. The folder goes back where it was, or to the top level when the
+// folder it was in is gone; saving the restored scope then moves it next to
+// the scope's file.
+const restoreTrashedFolder = async (
+  dirHandle: FileSystemDirectoryHandle,
+  item: TrashedNode
+): Promise<{ node: GraphNode; edges: GraphEdge[] }[]> => {
+  const trashedFolder = getTrashedFolderPath(item.node.id);
+  if (!(await directoryExists(dirHandle, trashedFolder))) return [];
+
+  // Keep the watcher from loading the files before their states are known
+  folderMovesInProgress++;
+  folderMoveGeneration++;
+  try {
+    const { dirPath, name } = splitPath(
+      stripMarkdownExtension(item.originalPath || item.node.id)
+    );
+    const folder = joinPath(
+      dirPath && (await directoryExists(dirHandle, dirPath)) ? dirPath : "",
+      name
+    );
+    await moveVaultFolder(dirHandle, trashedFolder, folder);
+    scopeFolders.set(item.node.id, folder);
+
+    const { files, folders } = await listVaultEntries(
+      await getDirectoryAtPath(dirHandle, folder)
+    );
+    const parsedFiles: {
+      node: GraphNode;
+      edges: EmbeddedEdge[];
+      text: string;
+      lastModified: number;
+      path: string;
+    }[] = [];
+    for (const entry of files) {
+      if (!entry.path.endsWith(".md")) continue;
+      const result = await parseMarkdownNode(entry.handle);
+      if (result) {
+        parsedFiles.push({ ...result, path: joinPath(folder, entry.path) });
       }
     }
-  } catch (e) {
-    console.error("Error deleting node:", e);
+
+    // Same rule as loading: the folder a file is in decides its scope
+    const folderScopeIds = new Map<string, string>([[folder, item.node.id]]);
+    const idByPath = new Map(parsedFiles.map((f) => [f.path, f.node.id]));
+    for (const subfolder of folders) {
+      const path = joinPath(folder, subfolder);
+      const scopeId = idByPath.get(`${path}.md`);
+      if (scopeId) {
+        folderScopeIds.set(path, scopeId);
+        scopeFolders.set(scopeId, path);
+      }
+    }
+
+    return parsedFiles.map(({ node, edges, text, lastModified, path }) => {
+      const scopeId = folderScopeIds.get(splitPath(path).dirPath);
+      if (scopeId && scopeId !== node.id) node.parentId = scopeId;
+      const graphEdges = toGraphEdges(node, edges);
+      vaultFileStates.set(node.id, {
+        filePath: path,
+        lastModified,
+        diskHash: hashString(text),
+        memoryHash: hashString(serializeNodeMarkdown(node, graphEdges)),
+      });
+      return { node, edges: graphEdges };
+    });
+  } finally {
+    folderMovesInProgress--;
+    folderMoveGeneration++;
   }
 };
 
+// Take a node out of the trash, with the nodes of its folder if it is a
+// scope. The caller adds them back to the graph, which writes the node to the
+// vault again.
+export const restoreTrashedNode = async (
+  dirHandle: FileSystemDirectoryHandle,
+  nodeId: string
+): Promise<TrashedNode | null> => {
+  const handle = await getExistingFileHandle(
+    dirHandle,
+    `${TRASH_FOLDER}/${nodeId}.md`
+  );
+  if (!handle) return null;
+  const item = parseTrashedNode(await (await handle.getFile()).text());
+  if (!item) return null;
+  item.children = await restoreTrashedFolder(dirHandle, item);
+  await purgeTrashedNode(dirHandle, nodeId);
+  return item;
+};
+
 // @deprecated - edges are now embedded in node files
 export const saveEdgesToFile = async (
   dirHandle: FileSystemDirectoryHandle,
@@ -366,23 +1368,13 @@ export const migrateEdgesToNodes = async (
   nodes: GraphNode[],
   edges: GraphEdge[]
 ): Promise<boolean> => {
+  if (vaultReadOnly) return false;
   try {
     const hasPerm = await verifyPermission(dirHandle, true);
     if (!hasPerm) return false;
 
-    // Group edges by source node
-    const edgesBySource = new Map<string, GraphEdge[]>();
-    for (const edge of edges) {
-      const existing = edgesBySource.get(edge.source) || [];
-      existing.push(edge);
-      edgesBySource.set(edge.source, existing);
-    }
-
     // Update each node file with its outgoing edges
-    for (const node of nodes) {
-      const outgoingEdges = edgesBySource.get(node.id) || [];
-      await saveNodeToFile(dirHandle, node, outgoingEdges);
-    }
+    await saveNodesToDirectory(dirHandle, nodes, edges);
 
     // Delete the legacy _edges.json file
     try {
@@ -405,3 +1397,7 @@ export const migrateEdgesToNodes = async (
 export const getOutgoingEdges = (nodeId: string, edges: GraphEdge[]): GraphEdge[] => {
   return edges.filter((edge) => edge.source === nodeId);
 };
+
+// Get incoming edges for a specific node from the full edge list
+export const getIncomingEdges = (nodeId: string, edges: GraphEdge[]): GraphEdge[] =>
+  edges.filter((edge) => edge.target === nodeId && edge.source !== nodeId);
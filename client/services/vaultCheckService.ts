@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from "uuid";
+import yaml from "js-yaml";
+import {
+  listVaultEntries,
+  getDirectoryAtPath,
+  getExistingFileHandle,
+  removeVaultEntry,
+  writeTextFile,
+  splitPath,
+  hashString,
+  VaultFileEntry,
+} from "./storageService";
+
+// Unparsable files are moved here instead of being deleted
+const QUARANTINE_FOLDER = ".quarantine";
+
+export interface VaultCheckReport {
+  fileCount: number;
+  danglingEdges: { path: string; nodeId: string; edgeId: string; target: string }[];
+  duplicateIds: { id: string; keptPath: string; duplicatePaths: string[] }[];
+  malformedFiles: { path: string; reason: string }[];
+  orphanedChildren: { path: string; nodeId: string; parentId: string }[];
+  // Files with frontmatter but no id, e.g. notes of other apps. They are not
+  // loaded as nodes and not a problem, so repairs leave them alone.
+  otherFiles: string[];
+}
+
+export type VaultProblemClass = Exclude<
+  keyof VaultCheckReport,
+  "fileCount" | "otherFiles"
+>;
+
+export const countVaultProblems = (report: VaultCheckReport) =>
+  report.danglingEdges.length +
+  report.duplicateIds.length +
+  report.malformedFiles.length +
+  report.orphanedChildren.length;
+
+// Split a node file into its frontmatter and the rest. Throws on invalid
+// YAML; returns a reason string for other problems.
+const readFrontmatter = (
+  text: string
+): { metadata: any; rest: string[] } | string => {
+  const parts = text.split(/^---$/m);
+  if (parts.length < 3) return "no frontmatter";
+  const metadata = yaml.load(parts[1]);
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) {
+    return "frontmatter is not a key/value map";
+  }
+  return { metadata, rest: parts.slice(2) };
+};
+
+const hasNodeId = (metadata: any) => metadata.id != null && metadata.id !== "";
+
+const writeFrontmatter = (metadata: any, rest: string[]) =>
+  ["", `\n${yaml.dump(metadata)}`, ...rest].join("---");
+
+// Scan every node file in the vault. Plain Markdown files without any
+// frontmatter are not node files and are not reported; files whose
+// frontmatter has no id are listed as other files.
+export const checkVault = async (
+  dirHandle: FileSystemDirectoryHandle
+): Promise<VaultCheckReport> => {
+  const report: VaultCheckReport = {
+    fileCount: 0,
+    danglingEdges: [],
+    duplicateIds: [],
+    malformedFiles: [],
+    orphanedChildren: [],
+    otherFiles: [],
+  };
+
+  const { files, folders } = await listVaultEntries(dirHandle);
+  const parsed: { entry: VaultFileEntry; metadata: any }[] = [];
+
+  for (const entry of files) {
+    if (!entry.path.endsWith(".md")) continue;
+    report.fileCount++;
+    try {
+      const text = await (await entry.handle.getFile()).text();
+      if (!text.startsWith("---")) continue;
+      const result = readFrontmatter(text);
+      if (typeof result === "string") {
+        report.malformedFiles.push({ path: entry.path, reason: result });
+      } else if (!hasNodeId(result.metadata)) {
+        report.otherFiles.push(entry.path);
+      } else {
+        parsed.push({ entry, metadata: result.metadata });
+      }
+    } catch (e: any) {
+      report.malformedFiles.push({
+        path: entry.path,
+        reason: e?.reason || e?.message || "invalid YAML",
+      });
+    }
+  }
+
+  // The first file claiming an id is the one loaded, the others are duplicates
+  const pathsById = new Map<string, string[]>();
+  for (const { entry, metadata } of parsed) {
+    const id = String(metadata.id);
+    pathsById.set(id, [...(pathsById.get(id) || []), entry.path]);
+  }
+  pathsById.forEach((paths, id) => {
+    if (paths.length > 1) {
+      report.duplicateIds.push({
+        id,
+        keptPath: paths[0],
+        duplicatePaths: paths.slice(1),
+      });
+    }
+  });
+
+  // Folders without a node file still become scope nodes when loaded, so
+  // their children are never orphaned and edges to them are valid
+  const folderSet = new Set(folders);
+  const nodeIds = new Set(pathsById.keys());
+  const filePaths = new Set(parsed.map(({ entry }) => entry.path));
+  for (const folder of folders) {
+    if (!filePaths.has(`${folder}.md`)) nodeIds.add(`folder-${hashString(folder)}`);
+  }
+  for (const { entry, metadata } of parsed) {
+    const nodeId = String(metadata.id);
+    for (const edge of Array.isArray(metadata.edges) ? metadata.edges : []) {
+      if (!edge?.target || !nodeIds.has(String(edge.target))) {
+        report.danglingEdges.push({
+          path: entry.path,
+          nodeId,
+          edgeId: String(edge?.id ?? ""),
+          target: String(edge?.target ?? ""),
+        });
+      }
+    }
+    if (
+      metadata.parentId &&
+      !folderSet.has(entry.dirPath) &&
+      !nodeIds.has(String(metadata.parentId))
+    ) {
+      report.orphanedChildren.push({
+        path: entry.path,
+        nodeId,
+        parentId: String(metadata.parentId),
+      });
+    }
+  }
+
+  return report;
+};
+
+const updateNodeFile = async (
+  dirHandle: FileSystemDirectoryHandle,
+  path: string,
+  update: (metadata: any) => void
+) => {
+  const handle = await getExistingFileHandle(dirHandle, path);
+  if (!handle) return;
+  const result = readFrontmatter(await (await handle.getFile()).text());
+  if (typeof result === "string" || !hasNodeId(result.metadata)) return;
+  update(result.metadata);
+  await writeTextFile(handle, writeFrontmatter(result.metadata, result.rest));
+};
+
+// Apply the repairs for the selected problem classes. The vault should be
+// reloaded afterwards.
+export const repairVault = async (
+  dirHandle: FileSystemDirectoryHandle,
+  report: VaultCheckReport,
+  problemClasses: Set<VaultProblemClass>
+): Promise<number> => {
+  let repaired = 0;
+
+  if (problemClasses.has("malformedFiles")) {
+    for (const { path } of report.malformedFiles) {
+      const handle = await getExistingFileHandle(dirHandle, path);
+      if (!handle) continue;
+      const { dirPath, name } = splitPath(path);
+      const quarantine = await getDirectoryAtPath(
+        dirHandle,
+        dirPath ? `${QUARANTINE_FOLDER}/${dirPath}` : QUARANTINE_FOLDER,
+        true
+      );
+      const target = await quarantine.getFileHandle(name, { create: true });
+      await writeTextFile(target, await (await handle.getFile()).text());
+      await removeVaultEntry(dirHandle, path);
+      repaired++;
+    }
+  }
+
+  if (problemClasses.has("duplicateIds")) {
+    for (const { duplicatePaths } of report.duplicateIds) {
+      for (const path of duplicatePaths) {
+        await updateNodeFile(dirHandle, path, (metadata) => {
+          metadata.id = uuidv4();
+        });
+        repaired++;
+      }
+    }
+  }
+
+  // Edges are matched by their missing target, as hand-written edges may
+  // have no id
+  if (problemClasses.has("danglingEdges")) {
+    const targetsByPath = new Map<string, Set<string>>();
+    for (const { path, target } of report.danglingEdges) {
+      if (!targetsByPath.has(path)) targetsByPath.set(path, new Set());
+      targetsByPath.get(path)!.add(target);
+    }
+    for (const [path, targets] of targetsByPath) {
+      await updateNodeFile(dirHandle, path, (metadata) => {
+        const edges = (
+          Array.isArray(metadata.edges) ? metadata.edges : []
+        ).filter((edge: any) => !targets.has(String(edge?.target ?? "")));
+        if (edges.length > 0) metadata.edges = edges;
+        else delete metadata.edges;
+      });
+    }
+    repaired += report.danglingEdges.length;
+  }
+
+  if (problemClasses.has("orphanedChildren")) {
+    for (const { path } of report.orphanedChildren) {
+      await updateNodeFile(dirHandle, path, (metadata) => {
+        delete metadata.parentId;
+      });
+      repaired++;
+    }
+  }
+
+  return repaired;
+};
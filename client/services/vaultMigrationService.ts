@@ -0,0 +1,204 @@
+import yaml from "js-yaml";
+import { NodeType } from "../types";
+import { VAULT_SCHEMA_VERSION, BUILT_IN_EDGE_TYPES } from "../constants";
+import { formatChatTranscript } from "../utils/chatTranscript";
+import {
+  listVaultEntries,
+  writeTextFile,
+} from "./storageService";
+import { findEdgeTypeForLabel } from "./edgeTypeService";
+
+// Files written before schemaVersion existed
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export interface VaultFileContents {
+  metadata: Record<string, any>;
+  body: string;
+}
+
+export interface VaultMigration {
+  // Schema version a file has after this step
+  version: number;
+  description: string;
+  migrate: (file: VaultFileContents) => VaultFileContents;
+}
+
+// Ordered upgrade steps. A file at version N runs every step with a version
+// above N. The last step's version must equal VAULT_SCHEMA_VERSION.
+export const VAULT_MIGRATIONS: VaultMigration[] = [
+  {
+    version: 2,
+    description: "Move chat messages from the frontmatter into the note body",
+    migrate: ({ metadata, body }) => {
+      if (metadata.type !== NodeType.CHAT || !Array.isArray(metadata.messages)) {
+        return { metadata, body };
+      }
+      const { messages, ...rest } = metadata;
+      const title =
+        body.match(/^#[ \t]+(.*)/)?.[1].trim() || rest.content || "Untitled";
+      return {
+        metadata: rest,
+        body: `# ${title}\n\n${formatChatTranscript(messages)}`,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: "Give edges a relationship type when their label is in the vocabulary",
+    migrate: ({ metadata, body }) => {
+      if (!Array.isArray(metadata.edges)) return { metadata, body };
+      return {
+        metadata: {
+          ...metadata,
+          edges: metadata.edges.map((edge: any) => {
+            if (!edge || edge.type || typeof edge.label !== "string") return edge;
+            // Built-in types only, so every device upgrades a file the same way.
+            // Inverse labels stay untyped: turning the edge around would move
+            // it to the file of its target.
+            const match = findEdgeTypeForLabel(edge.label, BUILT_IN_EDGE_TYPES);
+            return match && !match.isInverse
+              ? { ...edge, label: match.type.name, type: match.type.id }
+              : edge;
+          }),
+        },
+        body,
+      };
+    },
+  },
+];
+
+if (VAULT_MIGRATIONS[VAULT_MIGRATIONS.length - 1]?.version !== VAULT_SCHEMA_VERSION) {
+  console.error("VAULT_MIGRATIONS does not end at VAULT_SCHEMA_VERSION");
+}
+
+export interface VaultFileUpgrade {
+  path: string;
+  fromVersion: number;
+  before: string;
+  after: string;
+}
+
+export interface VaultMigrationPlan {
+  upgrades: VaultFileUpgrade[];
+  // Steps that change at least one file, with the files they change
+  steps: { migration: VaultMigration; paths: string[] }[];
+  hasLegacyEdgesFile: boolean;
+  // Files written by a newer version of the app
+  newerFiles: { path: string; version: number }[];
+}
+
+export const isVaultUpToDate = (plan: VaultMigrationPlan) =>
+  plan.upgrades.length === 0 &&
+  !plan.hasLegacyEdgesFile &&
+  plan.newerFiles.length === 0;
+
+const splitNodeFile = (text: string): VaultFileContents | null => {
+  const parts = text.split(/^---$/m);
+  if (parts.length < 3) return null;
+  const metadata = yaml.load(parts[1]);
+  if (!metadata || typeof metadata !== "object" || !(metadata as any).id) {
+    return null;
+  }
+  return {
+    metadata: metadata as Record<string, any>,
+    body: parts.slice(2).join("---").trim(),
+  };
+};
+
+const joinNodeFile = ({ metadata, body }: VaultFileContents) =>
+  `---\n${yaml.dump(metadata)}---\n\n${body}`;
+
+const getSchemaVersion = (metadata: Record<string, any>) => {
+  const version = Number(metadata.schemaVersion);
+  return Number.isInteger(version) && version > 0
+    ? version
+    : UNVERSIONED_SCHEMA_VERSION;
+};
+
+// Work out which files need upgrading, without writing anything. Files that
+// cannot be parsed are left to the vault checker.
+export const planVaultMigration = async (
+  dirHandle: FileSystemDirectoryHandle
+): Promise<VaultMigrationPlan> => {
+  const plan: VaultMigrationPlan = {
+    upgrades: [],
+    steps: VAULT_MIGRATIONS.map((migration) => ({ migration, paths: [] })),
+    hasLegacyEdgesFile: false,
+    newerFiles: [],
+  };
+
+  const { files } = await listVaultEntries(dirHandle);
+  for (const entry of files) {
+    if (entry.path === "_edges.json") {
+      plan.hasLegacyEdgesFile = true;
+      continue;
+    }
+    if (!entry.path.endsWith(".md")) continue;
+
+    let contents: VaultFileContents | null = null;
+    let text = "";
+    try {
+      text = await (await entry.handle.getFile()).text();
+      contents = splitNodeFile(text);
+    } catch {
+      contents = null;
+    }
+    if (!contents) continue;
+
+    const fromVersion = getSchemaVersion(contents.metadata);
+    if (fromVersion > VAULT_SCHEMA_VERSION) {
+      plan.newerFiles.push({ path: entry.path, version: fromVersion });
+      continue;
+    }
+    if (fromVersion === VAULT_SCHEMA_VERSION) continue;
+
+    let upgraded = contents;
+    plan.steps.forEach((step) => {
+      if (step.migration.version <= fromVersion) return;
+      const before = joinNodeFile(upgraded);
+      upgraded = step.migration.migrate({
+        metadata: { ...upgraded.metadata },
+        body: upgraded.body,
+      });
+      if (joinNodeFile(upgraded) !== before) step.paths.push(entry.path);
+    });
+    const metadata = { ...upgraded.metadata };
+    delete metadata.schemaVersion;
+    plan.upgrades.push({
+      path: entry.path,
+      fromVersion,
+      before: text,
+      after: joinNodeFile({
+        metadata: { schemaVersion: VAULT_SCHEMA_VERSION, ...metadata },
+        body: upgraded.body,
+      }),
+    });
+  }
+
+  plan.steps = plan.steps.filter((step) => step.paths.length > 0);
+  return plan;
+};
+
+// Rewrite the files of a plan. Files changed on disk since the plan was made
+// are skipped.
+export const applyVaultMigration = async (
+  dirHandle: FileSystemDirectoryHandle,
+  plan: VaultMigrationPlan
+): Promise<number> => {
+  const upgradesByPath = new Map(plan.upgrades.map((u) => [u.path, u]));
+  const { files } = await listVaultEntries(dirHandle);
+  let written = 0;
+
+  for (const entry of files) {
+    const upgrade = upgradesByPath.get(entry.path);
+    if (!upgrade) continue;
+    const current = await (await entry.handle.getFile()).text();
+    if (current !== upgrade.before) {
+      console.warn(`Skipped upgrading ${entry.path}: it changed on disk`);
+      continue;
+    }
+    await writeTextFile(entry.handle, upgrade.after);
+    written++;
+  }
+  return written;
+};
@@ -0,0 +1,51 @@
+import { GraphNode } from "../types";
+
+const apiUrl = import.meta.env.VITE_API_URL;
+const API_BASE = apiUrl ? `${apiUrl}/api` : "/api";
+
+export interface ClippedPage {
+  url: string;
+  title: string;
+  siteName?: string;
+  excerpt: string;
+  markdown: string;
+}
+
+// The page is fetched by the server: browsers can't read other sites' pages
+export const clipWebPage = async (url: string): Promise<ClippedPage> => {
+  const res = await fetch(`${API_BASE}/clip`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ url }),
+  });
+  if (res.status === 429) throw new Error("LIMIT_REACHED");
+  if (res.status === 401) throw new Error("Sign in to clip web pages");
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.message || "Could not clip this page");
+  return data;
+};
+
+// Pages usually repeat their title as the first heading
+const stripTitleHeading = (markdown: string, title: string) =>
+  markdown.replace(/^#{1,6}[ \t]+(.*)\n*/, (heading, text) =>
+    text.trim() === title.trim() ? "" : heading
+  );
+
+// Fields of a WEB node for a clipped page. The content is the title line
+// followed by the snapshot, so the node reads and saves like a note.
+export const getWebClipNodeFields = (
+  page: ClippedPage,
+  clippedAt: number = Date.now()
+): Partial<GraphNode> => {
+  const snapshot = stripTitleHeading(page.markdown, page.title).trim();
+  return {
+    content: snapshot ? `${page.title}\n\n${snapshot}` : page.title,
+    summary: page.excerpt || undefined,
+    link: page.url,
+    clip: {
+      ...(page.siteName ? { siteName: page.siteName } : {}),
+      clippedAt,
+    },
+  };
+};
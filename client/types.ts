@@ -3,7 +3,10 @@ import React from 'react';
 export enum NodeType {
   NOTE = 'NOTE',
   CHAT = 'CHAT',
-  CLUSTER = 'CLUSTER'
+  CLUSTER = 'CLUSTER',
+  IMAGE = 'IMAGE',
+  PDF = 'PDF',
+  WEB = 'WEB'
 }
 
 export type NodeColor = 'slate' | 'red' | 'green' | 'blue' | 'amber' | 'purple';
@@ -14,11 +17,66 @@ export type LODLevel = 'DETAIL' | 'TITLE' | 'CLUSTER';
 
 export type EdgeStyle = 'default' | 'sankey-lr';
 
+// Tag filter on the canvas: show only the matching nodes, hide them, or dim
+// the others
+export type TagFilterMode = 'show' | 'hide' | 'dim';
+
+// How an edge type reads: from source to target only, the same both ways
+// (drawn without arrows), or both ways at once (arrows at both ends)
+export type EdgeDirectionality = 'directed' | 'undirected' | 'bidirectional';
+
+// An entry of the relationship vocabulary
+export interface EdgeType {
+  id: string; // Stored on edges as `type`
+  name: string; // Read from source to target, and used as the edge label
+  inverseName?: string; // Read from target to source
+  directionality: EdgeDirectionality;
+  synonyms?: string[]; // Free-text labels that mean this type
+  inverseSynonyms?: string[]; // Free-text labels that mean it read the other way
+}
+
 // Embedded edge stored in node's markdown frontmatter (outgoing edges only)
 export interface EmbeddedEdge {
   id: string;
   target: string;
   label: string;
+  type?: string;
+  weight?: number;
+}
+
+// Value types of node properties. A "node" property holds the id of
+// another node.
+export type PropertyType = 'text' | 'number' | 'date' | 'boolean' | 'url' | 'node';
+
+// Dates are "YYYY-MM-DD" strings
+export type PropertyValue = string | number | boolean;
+
+export interface NodeProperty {
+  key: string;
+  type: PropertyType;
+  value: PropertyValue;
+}
+
+export interface PropertyField {
+  key: string;
+  type: PropertyType;
+}
+
+// The fields every node with a tag is expected to have
+export interface PropertySchema {
+  tag: string;
+  fields: PropertyField[];
+}
+
+// Bibliographic fields of a reference imported from BibTeX or CSL-JSON
+export interface Citation {
+  key: string; // Cited in notes as [@key]
+  entryType?: string; // article, book, inproceedings, ...
+  authors?: string[]; // "Family, Given", or an organization's name
+  year?: number;
+  venue?: string; // Journal, proceedings or publisher
+  doi?: string;
+  keywords?: string[];
 }
 
 export interface GraphNode {
@@ -36,15 +94,43 @@ export interface GraphNode {
   summary?: string; // High-level summary for semantic zoom
   autoExpandDepth?: number; // Number of levels to automatically expand
   aliases?: string[]; // Alternative names for the node
+  tags?: string[]; // Tags set on the node; #tags in the content count too
+  properties?: NodeProperty[]; // Typed key/value fields, in display order
+  citation?: Citation; // Only for imported references
+  attachment?: Attachment; // Only for IMAGE and PDF
+  clip?: WebClip; // Only for WEB; link is the page and summary its excerpt
   clusterCount?: number; // Number of nodes in this cluster
   clusterIds?: string[]; // IDs of nodes in this cluster
   edges?: EmbeddedEdge[]; // Outgoing edges stored with this node
 }
 
+// The file of an image or PDF node. In a vault it is a file at `path`,
+// relative to the vault folder; in the cloud it is stored under its id.
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: number;
+  path?: string;
+}
+
+// A clipped web page. The node's content holds its title and a readable
+// Markdown snapshot of the page.
+export interface WebClip {
+  siteName?: string;
+  clippedAt: number;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  sources?: GroundingSource[]; // Grounding sources returned with a model answer
 }
 
 export interface GraphEdge {
@@ -52,7 +138,10 @@ export interface GraphEdge {
   source: string;
   target: string;
   label: string; // Relationship description
+  type?: string; // Id of an EdgeType; the label is then its name
+  weight?: number; // Strength of the relationship, 1 when unset
   parentId?: string; // For hierarchical scoping
+  property?: string; // Set on edges drawn for a node property; never saved
 }
 
 export interface ViewportTransform {
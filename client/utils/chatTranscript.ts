@@ -0,0 +1,130 @@
+import { ChatMessage, GroundingSource } from "../types";
+
+/*
+ * Transcript format used in the body of CHAT node files.
+ *
+ * Each message starts with a header line naming the role and, optionally, an
+ * ISO 8601 timestamp in square brackets. The message text follows on the next
+ * lines, up to the next header. Grounding sources are listed at the end of a
+ * message as "> Source: [title](uri)" lines.
+ *
+ *   **user** [2025-01-02T10:00:00.000Z]:
+ *   What is a knowledge graph?
+ *
+ *   **model** [2025-01-02T10:00:04.512Z]:
+ *   A knowledge graph is ...
+ *
+ *   > Source: [Knowledge graph](https://en.wikipedia.org/wiki/Knowledge_graph)
+ *
+ * Headers without a timestamp (including the older "**role**: text" form,
+ * where the text starts on the header line) are accepted. Such messages take
+ * their time from the fallback list, or from the previous message.
+ *
+ * The text of a message is kept as it is, whitespace included. Text lines
+ * that would read as a header or a source line are written with a leading
+ * backslash, which is removed again when parsing.
+ */
+
+const MESSAGE_HEADER_REGEX = /^\*\*(user|model)\*\*(?:\s*\[([^\]]*)\])?:[ \t]*(.*)$/;
+const SOURCE_LINE_REGEX = /^>\s*Source:\s*\[(.*)\]\((\S+)\)\s*$/;
+
+// A line that is a header or a source line once its leading backslashes are
+// removed. Escaping adds one backslash to these, so escaped lines stay
+// distinct from text that starts with backslashes.
+const isMarkupLine = (line: string) => {
+  const unescaped = line.replace(/^\\+/, "");
+  return MESSAGE_HEADER_REGEX.test(unescaped) || SOURCE_LINE_REGEX.test(unescaped);
+};
+
+const escapeTextLine = (line: string) => (isMarkupLine(line) ? `\\${line}` : line);
+
+const unescapeTextLine = (line: string) =>
+  line.startsWith("\\") && isMarkupLine(line.substring(1))
+    ? line.substring(1)
+    : line;
+
+export const formatChatTranscript = (messages: ChatMessage[]): string => {
+  if (messages.length === 0) return "";
+  const blocks = messages.map((message) => {
+    const time = Number.isFinite(message.timestamp)
+      ? ` [${new Date(message.timestamp).toISOString()}]`
+      : "";
+    const text = message.text.split("\n").map(escapeTextLine).join("\n");
+    const sources = (message.sources || [])
+      .map((source) => `> Source: [${source.title}](${source.uri})`)
+      .join("\n");
+    return [`**${message.role}**${time}:\n${text}`, sources]
+      .filter(Boolean)
+      .join("\n\n");
+  });
+  // Every text ends with a blank line before the next block, or before the
+  // end of the transcript
+  return `${blocks.join("\n\n")}\n`;
+};
+
+export const parseChatTranscript = (
+  text: string,
+  fallbackMessages: ChatMessage[] = []
+): ChatMessage[] => {
+  const messages: ChatMessage[] = [];
+  let current: {
+    role: ChatMessage["role"];
+    timestamp: number | null;
+    lines: string[];
+    sources: GroundingSource[];
+    // Text written after the sources, in hand-edited transcripts
+    extraLines: string[];
+  } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const index = messages.length;
+    const timestamp =
+      current.timestamp ??
+      fallbackMessages[index]?.timestamp ??
+      messages[index - 1]?.timestamp ??
+      0;
+    // Drop the blank line that separates the text from what follows
+    const lines = current.lines.map(unescapeTextLine);
+    if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    const extraText = current.extraLines.join("\n").trim();
+    if (extraText) lines.push(extraText);
+    const message: ChatMessage = {
+      role: current.role,
+      text: lines.join("\n"),
+      timestamp,
+    };
+    if (current.sources.length > 0) message.sources = current.sources;
+    messages.push(message);
+    current = null;
+  };
+
+  for (const line of text.split("\n")) {
+    const header = line.match(MESSAGE_HEADER_REGEX);
+    if (header) {
+      flush();
+      const parsedTime = header[2] ? Date.parse(header[2].trim()) : NaN;
+      current = {
+        role: header[1] as ChatMessage["role"],
+        timestamp: Number.isNaN(parsedTime) ? null : parsedTime,
+        lines: header[3] ? [header[3]] : [],
+        sources: [],
+        extraLines: [],
+      };
+      continue;
+    }
+    // Anything before the first header (e.g. the title) is not a message
+    if (!current) continue;
+
+    const source = line.match(SOURCE_LINE_REGEX);
+    if (source) {
+      current.sources.push({ title: source[1], uri: source[2] });
+      continue;
+    }
+    if (current.sources.length > 0) current.extraLines.push(line);
+    else current.lines.push(line);
+  }
+  flush();
+
+  return messages;
+};
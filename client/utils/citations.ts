@@ -0,0 +1,35 @@
+import { GraphNode } from "../types";
+
+export const CITES_LABEL = "cites";
+
+// Pandoc-style citations: [@key], [@a; @b], [see @key, p. 3]
+export const CITATION_BRACKET_REGEX = /\[[^\[\]\n]*@[^\[\]\n]*\]/g;
+const CITATION_KEY_REGEX = /(?:^|[\s;\[-])@([\w][\w:.#$%&+?<>~/-]*[\w]|[\w])/g;
+
+export const extractCitationKeys = (content?: string | null) => {
+  if (!content) return [];
+  const keys = new Set<string>();
+  for (const bracket of content.matchAll(CITATION_BRACKET_REGEX)) {
+    for (const match of bracket[0].matchAll(CITATION_KEY_REGEX)) {
+      keys.add(match[1]);
+    }
+  }
+  return Array.from(keys);
+};
+
+// Citation keys are matched case-insensitively, as BibTeX does
+export const findCitedNodes = (content: string, nodes: GraphNode[]) => {
+  const keys = new Set(extractCitationKeys(content).map((k) => k.toLowerCase()));
+  if (keys.size === 0) return [];
+  return nodes.filter(
+    (n) => n.citation && keys.has(n.citation.key.toLowerCase())
+  );
+};
+
+// "Smith & Jones 2020", "Smith et al. 2020"
+export const formatCitationShort = (node: GraphNode) => {
+  const { authors = [], year } = node.citation || {};
+  const family = authors.map((a) => a.split(",")[0].trim());
+  const names = family.length > 2 ? `${family[0]} et al.` : family.join(" & ");
+  return [names, year].filter(Boolean).join(" ");
+};
@@ -0,0 +1,32 @@
+// Save data as a file through the browser's download mechanism
+export const downloadFile = (
+  data: BlobPart,
+  fileName: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke later: some browsers read the URL after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Ask the user for a file. Resolves to null if the picker is dismissed.
+// Uses a file input so it also works in browsers without showOpenFilePicker.
+export const pickFile = (accept: string): Promise<File | null> =>
+  new Promise((resolve) => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = accept;
+    input.addEventListener("change", () => resolve(input.files?.[0] || null));
+    input.addEventListener("cancel", () => resolve(null));
+    input.click();
+  });
+
+// File name safe date stamp, e.g. "2025-01-02"
+export const getDateStamp = (date: Date = new Date()) =>
+  date.toISOString().substring(0, 10);
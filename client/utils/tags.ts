@@ -0,0 +1,70 @@
+import { GraphNode } from "../types";
+
+// Inline #tags. Must follow whitespace or the start of a line, and contain at
+// least one non-digit, like in Obsidian.
+export const TAG_REGEX = /(?:^|\s)#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu;
+export const FENCED_CODE_REGEX = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm;
+export const INLINE_CODE_REGEX = /`[^`\n]*`/g;
+
+// "#Physics/Quantum " -> "Physics/Quantum"
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, "").replace(/\s+/g, "-");
+
+// Tags compare case-insensitively; the first spelling seen is kept
+const addUnique = (tags: string[], seen: Set<string>, tag: string) => {
+  const key = tag.toLowerCase();
+  if (!tag || seen.has(key)) return;
+  seen.add(key);
+  tags.push(tag);
+};
+
+export const dedupeTags = (tags: string[]) => {
+  const result: string[] = [];
+  const seen = new Set<string>();
+  tags.forEach((tag) => addUnique(result, seen, normalizeTag(tag)));
+  return result;
+};
+
+// A frontmatter `tags` value, written as a list or as "a, b"
+export const parseTagList = (value: unknown): string[] => {
+  if (Array.isArray(value)) return dedupeTags(value.map((v) => String(v ?? "")));
+  if (typeof value === "string") return dedupeTags(value.split(","));
+  return [];
+};
+
+// #tags written in the text, outside of code
+export const extractContentTags = (content?: string | null): string[] => {
+  if (!content) return [];
+  const searchable = content
+    .replace(FENCED_CODE_REGEX, "")
+    .replace(INLINE_CODE_REGEX, "");
+  return dedupeTags(Array.from(searchable.matchAll(TAG_REGEX), (m) => m[1]));
+};
+
+// A node's tags: the ones stored on it, then the ones in its text
+export const getNodeTags = (node: GraphNode): string[] =>
+  dedupeTags([...(node.tags || []), ...extractContentTags(node.content)]);
+
+export const nodeHasAnyTag = (nodeTags: string[], tags: string[]) => {
+  const wanted = new Set(tags.map((t) => t.toLowerCase()));
+  return nodeTags.some((t) => wanted.has(t.toLowerCase()));
+};
+
+// Every tag used by the nodes with the number of nodes using it, most used
+// first
+export const countTags = (
+  nodes: GraphNode[]
+): { tag: string; count: number }[] => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  nodes.forEach((node) =>
+    getNodeTags(node).forEach((tag) => {
+      const key = tag.toLowerCase();
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { tag, count: 1 });
+    })
+  );
+  return Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+};
@@ -0,0 +1,35 @@
+import { GraphNode } from "../types";
+import { getNodeTitleForBreadcrumb } from "./graphUtils";
+
+// Same length limit as the server's sanitizeFilename
+const MAX_SLUG_LENGTH = 50;
+const COLLISION_SUFFIX_LENGTH = 6;
+
+// "Quantum Entanglement!" -> "quantum-entanglement"
+export const slugifyTitle = (title: string): string => {
+  const slug = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\-_]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .substring(0, MAX_SLUG_LENGTH)
+    .replace(/^[-_]+|[-_]+$/g, "");
+  return slug || "untitled";
+};
+
+// Pick the file name for a node. When the slug is already taken by another
+// file, a suffix derived from the node id is appended, so the same node always
+// ends up with the same name no matter in which order files are written.
+export const getNodeFileName = (
+  node: GraphNode,
+  isTaken: (fileName: string) => boolean
+): string => {
+  const slug = slugifyTitle(getNodeTitleForBreadcrumb(node));
+  const candidates = [
+    `${slug}.md`,
+    `${slug}-${slugifyTitle(node.id).substring(0, COLLISION_SUFFIX_LENGTH)}.md`,
+    `${slug}-${slugifyTitle(node.id)}.md`,
+  ];
+  return candidates.find((name) => !isTaken(name)) || `${node.id}.md`;
+};
@@ -1,17 +1,33 @@
 import { GraphNode, NodeType } from "../types";
+import { getNodeTitleForBreadcrumb } from "./graphUtils";
 
 export const INTERNAL_NODE_LINK_PREFIX = "infoverse-node://";
 export const INTERNAL_NODE_LINK_REGEX = /\[\[([^\[\]]+)\]\]/g;
 
+// "Target|alias" -> { target: "Target", display: "alias" }
+export const parseInternalNodeLink = (rawTarget: string) => {
+  const [target, display] = rawTarget.split("|");
+  const trimmedTarget = target?.trim() || "";
+  return {
+    target: trimmedTarget,
+    display: (display ?? target)?.trim() || trimmedTarget,
+  };
+};
+
+export const extractInternalNodeLinks = (content?: string | null) => {
+  if (!content) return [];
+  return Array.from(content.matchAll(INTERNAL_NODE_LINK_REGEX))
+    .map((match) => parseInternalNodeLink(match[1]))
+    .filter((link) => link.target);
+};
+
 export const formatInternalNodeLinks = (content?: string | null) => {
   if (!content) return "";
   return content.replace(INTERNAL_NODE_LINK_REGEX, (match, rawTarget) => {
-    const [target, display] = rawTarget.split("|");
-    const trimmedTarget = target?.trim();
-    if (!trimmedTarget) return match;
-    const label = (display ?? target)?.trim() || trimmedTarget;
-    return `[${label}](${INTERNAL_NODE_LINK_PREFIX}${encodeURIComponent(
-      trimmedTarget
+    const { target, display } = parseInternalNodeLink(rawTarget);
+    if (!target) return match;
+    return `[${display}](${INTERNAL_NODE_LINK_PREFIX}${encodeURIComponent(
+      target
     )})`;
   });
 };
@@ -21,9 +37,29 @@ export const extractInternalNodeTitle = (href: string) => {
 };
 
 export const getNodeTitle = (node: GraphNode) => {
-  if (node.type === NodeType.NOTE) {
+  if (node.type === NodeType.NOTE || node.type === NodeType.WEB) {
     const firstLine = (node.content || "").split("\n")[0]?.trim();
     return firstLine || "Untitled Note";
   }
   return node.content || "Untitled";
 };
+
+const normalizeLinkTarget = (value?: string | null) =>
+  value?.trim().toLowerCase() || "";
+
+// Names a [[link]] can use for a node: its title, its aliases, and, as links
+// were first resolved, its whole text or its summary
+export const nodeMatchesLinkTarget = (node: GraphNode, rawTarget: string) => {
+  const target = normalizeLinkTarget(rawTarget);
+  if (!target) return false;
+  return (
+    normalizeLinkTarget(node.content) === target ||
+    normalizeLinkTarget(node.summary) === target ||
+    (!!node.content?.trim() &&
+      normalizeLinkTarget(getNodeTitleForBreadcrumb(node)) === target) ||
+    !!node.aliases?.some((a) => normalizeLinkTarget(a) === target)
+  );
+};
+
+export const findNodeByLinkTarget = (nodes: GraphNode[], rawTarget: string) =>
+  nodes.find((n) => nodeMatchesLinkTarget(n, rawTarget));
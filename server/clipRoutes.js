@@ -0,0 +1,253 @@
+const express = require('express');
+const router = express.Router();
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const stream = require('stream');
+const zlib = require('zlib');
+
+const rateLimiter = require('./rateLimiter');
+
+// Clipping fetches pages from the server, so it is only open to signed-in users
+router.use((req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: 'Unauthorized' });
+    next();
+});
+
+// Apply rate limiter to all clip routes
+router.use(rateLimiter);
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_HTML_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const MAX_MARKDOWN_LENGTH = 20000;
+const MAX_EXCERPT_LENGTH = 300;
+
+// Loopback, private, link-local and other non-public ranges. IPv4-mapped
+// addresses are checked against the IPv4 ranges; the other IPv6 ranges that
+// embed an IPv4 address (compatible, NAT64, 6to4, Teredo) are blocked whole,
+// as they can reach any IPv4 host behind them.
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+    ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([prefix, length]) => BLOCKED_ADDRESSES.addSubnet(prefix, length, 'ipv4'));
+[
+    ['::', 96], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48],
+    ['100::', 64], ['2001::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([prefix, length]) => BLOCKED_ADDRESSES.addSubnet(prefix, length, 'ipv6'));
+
+const isPrivateAddress = (address) => {
+    const family = net.isIP(address);
+    return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const blockedAddressError = () => new Error('This address cannot be clipped');
+
+// Resolves the page's host and refuses non-public answers. It is the agents'
+// lookup, so the connection goes to the address that was checked and a second
+// DNS answer can't swap in a private one.
+const publicLookup = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err);
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            return callback(blockedAddressError());
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+const agents = {
+    'http:': new http.Agent({ lookup: publicLookup }),
+    'https:': new https.Agent({ lookup: publicLookup })
+};
+
+// Only public http(s) pages are clipped, so the server can't be used to reach
+// its own network. Host names are checked when they are resolved.
+const assertPublicUrl = (url) => {
+    if (!agents[url.protocol]) {
+        throw new Error('Only http and https pages can be clipped');
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+        throw blockedAddressError();
+    }
+    if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+        throw blockedAddressError();
+    }
+};
+
+const DECODERS = { gzip: zlib.createGunzip, deflate: zlib.createInflate, br: zlib.createBrotliDecompress };
+
+const requestPage = (url, signal) => new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+        agent: agents[url.protocol],
+        signal,
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (compatible; InfoverseClipper/1.0)',
+            'Accept': 'text/html,application/xhtml+xml',
+            'Accept-Encoding': 'gzip, deflate, br'
+        }
+    }, resolve);
+    request.on('error', reject);
+});
+
+// Redirects are followed by hand so every hop is checked
+const fetchPage = async (startUrl) => {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let url = startUrl;
+    try {
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            assertPublicUrl(url);
+            const response = await requestPage(url, signal);
+            const { location } = response.headers;
+            if (response.statusCode >= 300 && response.statusCode < 400 && location) {
+                response.resume();
+                url = new URL(location, url);
+                continue;
+            }
+            if (response.statusCode < 200 || response.statusCode >= 300) {
+                response.resume();
+                throw new Error(`The page answered with status ${response.statusCode}`);
+            }
+            const contentType = response.headers['content-type'] || '';
+            if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+                response.resume();
+                throw new Error('Only HTML pages can be clipped');
+            }
+
+            const decoder = DECODERS[String(response.headers['content-encoding'] || '').trim().toLowerCase()];
+            const body = decoder ? stream.pipeline(response, decoder(), () => {}) : response;
+            const chunks = [];
+            let size = 0;
+            for await (const chunk of body) {
+                size += chunk.length;
+                if (size > MAX_HTML_BYTES) {
+                    body.destroy();
+                    response.destroy();
+                    break;
+                }
+                chunks.push(chunk);
+            }
+            return { url, html: Buffer.concat(chunks).toString('utf8') };
+        }
+    } catch (e) {
+        // An aborted request reports an AbortError; the route reports timeouts by name
+        throw signal.aborted ? signal.reason : e;
+    }
+    throw new Error('Too many redirects');
+};
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“' };
+
+const decodeEntities = (text) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+});
+
+const stripTags = (html) => decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+
+const getMeta = (html, names) => {
+    for (const name of names) {
+        const pattern = new RegExp(`<meta[^>]+(?:property|name)=["']${name}["'][^>]*>`, 'i');
+        const tag = html.match(pattern)?.[0];
+        const content = tag?.match(/content=["']([^"']*)["']/i)?.[1];
+        if (content && content.trim()) return decodeEntities(content).trim();
+    }
+    return undefined;
+};
+
+// The page's main text as Markdown: the <article>, else <main>, else <body>,
+// without scripts, navigation and other page chrome
+const htmlToMarkdown = (html, baseUrl) => {
+    let body = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|svg|iframe|form|nav|header|footer|aside|button|template)\b[\s\S]*?<\/\1>/gi, '');
+    const main = body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i) ||
+        body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i) ||
+        body.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i);
+    if (main) body = main[1];
+
+    const absolute = (href) => {
+        try {
+            return new URL(decodeEntities(href), baseUrl).href;
+        } catch (e) {
+            return null;
+        }
+    };
+
+    const markdown = body
+        .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (m, code) =>
+            `\n\n\`\`\`\n${decodeEntities(code.replace(/<[^>]+>/g, '')).trim()}\n\`\`\`\n\n`)
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (m, level, text) =>
+            `\n\n${'#'.repeat(Number(level))} ${stripTags(text)}\n\n`)
+        .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (m, href, text) => {
+            const label = stripTags(text);
+            const target = absolute(href);
+            return label && target && /^https?:/.test(target) ? `[${label}](${target})` : label;
+        })
+        .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (m, tag, text) => `**${stripTags(text)}**`)
+        .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (m, tag, text) => `*${stripTags(text)}*`)
+        .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (m, text) => `\`${stripTags(text)}\``)
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<blockquote\b[^>]*>([\s\S]*?)<\/blockquote>/gi, (m, text) =>
+            `\n\n> ${stripTags(text)}\n\n`)
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|section|ul|ol|table|tr|figure)>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(markdown)
+        .split('\n')
+        .map((line) => line.replace(/[ \t ]+/g, ' ').trim())
+        .join('\n')
+        .replace(/^- \s*$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+        .substring(0, MAX_MARKDOWN_LENGTH);
+};
+
+// Clip a web page: its title, an excerpt and a readable Markdown snapshot
+router.post('/', async (req, res) => {
+    const { url } = req.body || {};
+    let pageUrl;
+    try {
+        pageUrl = new URL(String(url || '').trim());
+    } catch (e) {
+        return res.status(400).json({ message: 'A valid URL is required' });
+    }
+
+    try {
+        const { url: finalUrl, html } = await fetchPage(pageUrl);
+        const markdown = htmlToMarkdown(html, finalUrl);
+        const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+        const title = getMeta(html, ['og:title', 'twitter:title']) ||
+            (titleTag && stripTags(titleTag)) ||
+            finalUrl.hostname;
+        const firstParagraph = markdown
+            .split('\n\n')
+            .find((block) => block.length > 40 && !/^(#|-|>|```)/.test(block));
+        const excerpt = (getMeta(html, ['og:description', 'description', 'twitter:description']) ||
+            firstParagraph || '').substring(0, MAX_EXCERPT_LENGTH);
+
+        return res.json({
+            url: finalUrl.href,
+            title,
+            siteName: getMeta(html, ['og:site_name']) || finalUrl.hostname.replace(/^www\./, ''),
+            excerpt,
+            markdown
+        });
+    } catch (e) {
+        console.error('Error clipping page:', e.message);
+        const message = e.name === 'TimeoutError' ? 'The page took too long to answer' : e.message;
+        return res.status(422).json({ message: message || 'Could not clip this page' });
+    }
+});
+
+module.exports = router;
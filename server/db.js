@@ -100,6 +100,35 @@ const initDb = async () => {
         // Ignore if exists
     }
 
+    // Add citation column if not exists
+    try {
+        await query(`ALTER TABLE nodes ADD COLUMN IF NOT EXISTS citation JSONB`);
+    } catch (e) {
+        // Ignore if exists
+    }
+
+    // Add tags column if not exists
+    try {
+        await query(`ALTER TABLE nodes ADD COLUMN IF NOT EXISTS tags JSONB`);
+    } catch (e) {
+        // Ignore if exists
+    }
+
+    // Add properties column if not exists
+    try {
+        await query(`ALTER TABLE nodes ADD COLUMN IF NOT EXISTS properties JSONB`);
+    } catch (e) {
+        // Ignore if exists
+    }
+
+    // Add attachment and web clip columns if not exists
+    try {
+        await query(`ALTER TABLE nodes ADD COLUMN IF NOT EXISTS attachment JSONB`);
+        await query(`ALTER TABLE nodes ADD COLUMN IF NOT EXISTS clip JSONB`);
+    } catch (e) {
+        // Ignore if exists
+    }
+
     // Edges Table
     await query(`
       CREATE TABLE IF NOT EXISTS edges (
@@ -112,6 +141,14 @@ const initDb = async () => {
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       );
     `);
+
+    // Add edge type and weight columns if not exists
+    try {
+        await query(`ALTER TABLE edges ADD COLUMN IF NOT EXISTS type TEXT`);
+        await query(`ALTER TABLE edges ADD COLUMN IF NOT EXISTS weight REAL`);
+    } catch (e) {
+        // Ignore if exists
+    }
     
     // Attempt to migrate existing table if it lacks user_id or correct PK
     try {
@@ -196,6 +233,18 @@ const initDb = async () => {
       );
     `);
 
+    // Files of image and PDF nodes kept in the cloud
+    await query(`
+      CREATE TABLE IF NOT EXISTS attachments (
+        id UUID PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT,
+        mime_type VARCHAR(255),
+        data BYTEA,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
     console.log('Database initialized: users, rate_limits, session & spatial tables created/verified');
   } catch (err) {
     console.error('Error initializing database:', err);
@@ -245,6 +245,8 @@ app.use(passport.session());
 app.use('/api/gemini', require('./geminiRoutes'));
 // Hugging Face Routes
 app.use('/api/huggingface', require('./huggingfaceRoutes'));
+// Web Clip Routes
+app.use('/api/clip', require('./clipRoutes'));
 
 // Helper to ensure directory exists
 const ensureDir = (dirPath) => {
@@ -622,7 +624,12 @@ app.get('/api/graph', async (req, res) => {
             parentId: n.parent_id,
             summary: n.summary,
             autoExpandDepth: n.auto_expand_depth,
-            aliases: n.aliases
+            aliases: n.aliases,
+            citation: n.citation || undefined,
+            tags: n.tags || undefined,
+            properties: n.properties || undefined,
+            attachment: n.attachment || undefined,
+            clip: n.clip || undefined
         }));
 
         const edges = edgesResult.rows.map(e => ({
@@ -630,6 +637,8 @@ app.get('/api/graph', async (req, res) => {
             source: e.source,
             target: e.target,
             label: e.label,
+            type: e.type || undefined,
+            weight: e.weight ?? undefined,
             parentId: e.parent_id
         }));
 
@@ -732,8 +741,8 @@ app.post('/api/nodes', async (req, res) => {
 
         // Upsert node
         const query = `
-            INSERT INTO nodes (id, user_id, type, x, y, width, height, content, messages, link, color, parent_id, summary, auto_expand_depth, aliases, embedding, updated_at)
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW())
+            INSERT INTO nodes (id, user_id, type, x, y, width, height, content, messages, link, color, parent_id, summary, auto_expand_depth, aliases, citation, tags, properties, attachment, clip, embedding, updated_at)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW())
             ON CONFLICT (id) DO UPDATE SET
             type = EXCLUDED.type,
             x = EXCLUDED.x,
@@ -748,6 +757,11 @@ app.post('/api/nodes', async (req, res) => {
             summary = EXCLUDED.summary,
             auto_expand_depth = EXCLUDED.auto_expand_depth,
             aliases = EXCLUDED.aliases,
+            citation = EXCLUDED.citation,
+            tags = EXCLUDED.tags,
+            properties = EXCLUDED.properties,
+            attachment = EXCLUDED.attachment,
+            clip = EXCLUDED.clip,
             embedding = EXCLUDED.embedding,
             updated_at = NOW();
         `;
@@ -767,6 +781,11 @@ app.post('/api/nodes', async (req, res) => {
             node.summary, 
             node.autoExpandDepth,
             JSON.stringify(node.aliases || []),
+            node.citation ? JSON.stringify(node.citation) : null,
+            JSON.stringify(node.tags || []),
+            JSON.stringify(node.properties || []),
+            node.attachment ? JSON.stringify(node.attachment) : null,
+            node.clip ? JSON.stringify(node.clip) : null,
             embedding ? JSON.stringify(embedding) : null
         ];
         
@@ -821,8 +840,8 @@ app.post('/api/nodes/batch', async (req, res) => {
             }
 
             const query = `
-                INSERT INTO nodes (id, user_id, type, x, y, width, height, content, messages, link, color, parent_id, summary, auto_expand_depth, aliases, embedding, updated_at)
-                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, NOW())
+                INSERT INTO nodes (id, user_id, type, x, y, width, height, content, messages, link, color, parent_id, summary, auto_expand_depth, aliases, citation, tags, properties, attachment, clip, embedding, updated_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, NOW())
                 ON CONFLICT (id) DO UPDATE SET
                 type = EXCLUDED.type,
                 x = EXCLUDED.x,
@@ -837,6 +856,11 @@ app.post('/api/nodes/batch', async (req, res) => {
                 summary = EXCLUDED.summary,
                 auto_expand_depth = EXCLUDED.auto_expand_depth,
                 aliases = EXCLUDED.aliases,
+                citation = EXCLUDED.citation,
+                tags = EXCLUDED.tags,
+                properties = EXCLUDED.properties,
+                attachment = EXCLUDED.attachment,
+                clip = EXCLUDED.clip,
                 embedding = COALESCE(EXCLUDED.embedding, nodes.embedding),
                 updated_at = NOW();
             `;
@@ -857,6 +881,11 @@ app.post('/api/nodes/batch', async (req, res) => {
                 node.summary,
                 node.autoExpandDepth,
                 JSON.stringify(node.aliases || []),
+                node.citation ? JSON.stringify(node.citation) : null,
+                JSON.stringify(node.tags || []),
+                JSON.stringify(node.properties || []),
+                node.attachment ? JSON.stringify(node.attachment) : null,
+                node.clip ? JSON.stringify(node.clip) : null,
                 embedding ? JSON.stringify(embedding) : null
             ];
 
@@ -901,6 +930,14 @@ app.delete('/api/nodes/:id', async (req, res) => {
 
             // 4. Delete Node
             await db.query('DELETE FROM nodes WHERE id = $1 AND user_id = $2', [nodeId, req.user.id]);
+
+            // 5. Delete its attachment, which the archived row does not hold
+            if (node.attachment && node.attachment.id) {
+                await db.query(
+                    'DELETE FROM attachments WHERE id::text = $1 AND user_id = $2',
+                    [String(node.attachment.id), req.user.id]
+                );
+            }
             
             return res.json({ success: true });
         }
@@ -941,6 +978,97 @@ app.delete('/api/nodes/:id', async (req, res) => {
     return res.json({ success: true, message: 'Node not found or already deleted' });
 });
 
+// Attachments: the files of image and PDF nodes, sent as the raw request
+// body with the file name in the query. Deleting a cloud node deletes its
+// attachment; clients delete the attachments of vault nodes once they leave
+// the vault trash.
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Images (but not SVG, which can hold script) and PDFs
+const isInlineAttachmentType = (mimeType) =>
+    mimeType === 'application/pdf' ||
+    (mimeType.startsWith('image/') && !mimeType.startsWith('image/svg'));
+
+app.put('/api/attachments/:id', express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }), async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: 'Unauthorized' });
+
+    const { id } = req.params;
+    if (!UUID_REGEX.test(id)) return res.status(400).json({ message: 'Invalid attachment id' });
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: 'Attachment is empty' });
+    }
+
+    const name = typeof req.query.name === 'string' && req.query.name ? req.query.name : 'attachment';
+    const mimeType = req.get('Content-Type') || 'application/octet-stream';
+
+    try {
+        const result = await db.query(
+            `INSERT INTO attachments (id, user_id, name, mime_type, data)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (id) DO UPDATE SET
+             name = EXCLUDED.name,
+             mime_type = EXCLUDED.mime_type,
+             data = EXCLUDED.data
+             WHERE attachments.user_id = EXCLUDED.user_id`,
+            [id, req.user.id, name, mimeType, req.body]
+        );
+        if (result.rowCount === 0) return res.status(403).json({ message: 'Forbidden' });
+        return res.json({ success: true });
+    } catch (e) {
+        console.error('Error saving attachment:', e);
+        return res.status(500).json({ message: 'Error saving attachment' });
+    }
+});
+
+app.get('/api/attachments/:id', async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: 'Unauthorized' });
+
+    const { id } = req.params;
+    if (!UUID_REGEX.test(id)) return res.status(400).json({ message: 'Invalid attachment id' });
+
+    try {
+        const result = await db.query(
+            'SELECT name, mime_type, data FROM attachments WHERE id = $1 AND user_id = $2',
+            [id, req.user.id]
+        );
+        const attachment = result.rows[0];
+        if (!attachment) return res.status(404).json({ message: 'Attachment not found' });
+
+        // The type comes from the uploader, so only types that cannot run
+        // script in this origin are shown inline; anything else is downloaded
+        const mimeType = String(attachment.mime_type).toLowerCase();
+        const disposition = isInlineAttachmentType(mimeType) ? 'inline' : 'attachment';
+        res.set('Content-Type', disposition === 'inline' ? mimeType : 'application/octet-stream');
+        res.set('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name)}`);
+        res.set('X-Content-Type-Options', 'nosniff');
+        res.set('Cache-Control', 'private, max-age=86400');
+        return res.send(attachment.data);
+    } catch (e) {
+        console.error('Error loading attachment:', e);
+        return res.status(500).json({ message: 'Error loading attachment' });
+    }
+});
+
+app.delete('/api/attachments/:id', async (req, res) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: 'Unauthorized' });
+
+    const { id } = req.params;
+    if (!UUID_REGEX.test(id)) return res.status(400).json({ message: 'Invalid attachment id' });
+
+    try {
+        const result = await db.query(
+            'DELETE FROM attachments WHERE id = $1 AND user_id = $2',
+            [id, req.user.id]
+        );
+        if (result.rowCount === 0) return res.status(404).json({ message: 'Attachment not found' });
+        return res.json({ success: true });
+    } catch (e) {
+        console.error('Error deleting attachment:', e);
+        return res.status(500).json({ message: 'Error deleting attachment' });
+    }
+});
+
 app.post('/api/edges', async (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ message: 'Unauthorized' });
     
@@ -960,15 +1088,26 @@ app.post('/api/edges', async (req, res) => {
         
         for (const edge of edges) {
             const query = `
-                INSERT INTO edges (id, user_id, source, target, label, parent_id, created_at)
-                VALUES ($1, $2, $3, $4, $5, $6, NOW())
+                INSERT INTO edges (id, user_id, source, target, label, type, weight, parent_id, created_at)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
                 ON CONFLICT (id) DO UPDATE SET
                 source = EXCLUDED.source,
                 target = EXCLUDED.target,
                 label = EXCLUDED.label,
+                type = EXCLUDED.type,
+                weight = EXCLUDED.weight,
                 parent_id = EXCLUDED.parent_id;
             `;
-            const values = [edge.id, req.user.id, edge.source, edge.target, edge.label, edge.parentId];
+            const values = [
+                edge.id,
+                req.user.id,
+                edge.source,
+                edge.target,
+                edge.label,
+                edge.type || null,
+                typeof edge.weight === 'number' ? edge.weight : null,
+                edge.parentId
+            ];
             await db.query(query, values);
         }
         